@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { User as UserType } from "@shared/schema";
 import { useState } from "react";
 import Landing from "@/pages/landing";
 import Signup from "@/pages/signup";
@@ -18,16 +19,19 @@ import Billing from "@/pages/billing";
 import Admin from "@/pages/admin";
 import Settings from "@/pages/settings";
 import Kiosk from "@/pages/kiosk";
+import QueueDisplay from "@/pages/queue-display";
 import Patients from "@/pages/patients";
 import QueueManagement from "@/pages/queue-management";
 import Pharmacy from "@/pages/pharmacy";
 import Insurance from "@/pages/insurance";
 import Support from "@/pages/support";
+import PatientPortal from "@/pages/patient-portal";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const [kioskMode, setKioskMode] = useState(false);
+  const isPatient = (user as UserType | undefined)?.role === 'patient';
 
   // Show kiosk mode if enabled
   if (kioskMode) {
@@ -36,6 +40,8 @@ function Router() {
 
   return (
     <Switch>
+      {/* Public waiting-room board, available without login */}
+      <Route path="/queue-display" component={QueueDisplay} />
       {isLoading || !isAuthenticated ? (
         <>
           <Route path="/" component={DemoLogin} />
@@ -45,8 +51,10 @@ function Router() {
         </>
       ) : (
         <>
-          <Route path="/" component={Dashboard} />
-          <Route path="/dashboard" component={Dashboard} />
+          {/* Patients land on their self-service portal */}
+          <Route path="/" component={isPatient ? PatientPortal : Dashboard} />
+          <Route path="/dashboard" component={isPatient ? PatientPortal : Dashboard} />
+          <Route path="/portal" component={PatientPortal} />
           <Route path="/patients" component={Patients} />
           <Route path="/appointments" component={Appointments} />
           <Route path="/queue-management" component={QueueManagement} />
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Play, CheckCircle, SkipForward, RotateCcw, UserX, ArrowRightLeft } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TokenAction = "start" | "complete" | "skip" | "recall" | "no-show" | "transfer";
+
+interface ServingToken {
+  id: number;
+  tokenNumber: string;
+  departmentId: number;
+  doctorId: number | null;
+  status: "called" | "in-progress" | "skipped";
+  recallCount: number | null;
+  counterName: string | null;
+  calledAt: string | null;
+}
+
+interface Department {
+  id: number;
+  name: string;
+}
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+interface ActiveTokensPanelProps {
+  departmentId: number;
+}
+
+const actionLabels: Record<TokenAction, string> = {
+  "start": "Started",
+  "complete": "Completed",
+  "skip": "Skipped",
+  "recall": "Recalled",
+  "no-show": "Marked no-show",
+  "transfer": "Transferred",
+};
+
+const getStatusColor = (status: ServingToken["status"]) => {
+  switch (status) {
+    case "in-progress": return "bg-green-100 text-green-800";
+    case "skipped": return "bg-gray-100 text-gray-800";
+    default: return "bg-yellow-100 text-yellow-800";
+  }
+};
+
+export default function ActiveTokensPanel({ departmentId }: ActiveTokensPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [transferToken, setTransferToken] = useState<ServingToken | null>(null);
+  const [transferDepartmentId, setTransferDepartmentId] = useState<string>("");
+  const [transferDoctorId, setTransferDoctorId] = useState<string>("any");
+
+  const { data: tokens } = useQuery<ServingToken[]>({
+    queryKey: ["/api/queue/departments", departmentId, "serving"],
+  });
+
+  const { data: departments } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+    enabled: !!transferToken,
+  });
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+    enabled: !!transferToken,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ token, action, body }: { token: ServingToken; action: TokenAction; body?: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", `/api/queue/tokens/${token.id}/${action}`, body ?? {});
+      return response.json();
+    },
+    onSuccess: (_data, { token, action }) => {
+      toast({ title: `Token ${actionLabels[action]}`, description: `Token ${token.tokenNumber} updated.` });
+      setTransferToken(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/departments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/status"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update token. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openTransfer = (token: ServingToken) => {
+    setTransferToken(token);
+    setTransferDepartmentId(token.departmentId.toString());
+    setTransferDoctorId("any");
+  };
+
+  const submitTransfer = () => {
+    if (!transferToken || !transferDepartmentId) return;
+    actionMutation.mutate({
+      token: transferToken,
+      action: "transfer",
+      body: {
+        departmentId: parseInt(transferDepartmentId),
+        doctorId: transferDoctorId === "any" ? null : parseInt(transferDoctorId),
+      },
+    });
+  };
+
+  if (!tokens || tokens.length === 0) {
+    return null;
+  }
+
+  const run = (token: ServingToken, action: TokenAction) => actionMutation.mutate({ token, action });
+  const departmentDoctors = doctors?.filter((doctor) => doctor.departmentId?.toString() === transferDepartmentId) ?? [];
+
+  return (
+    <div className="space-y-2">
+      {tokens.map((token) => (
+        <div key={token.id} className="p-2 bg-white rounded border space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="font-mono font-medium">{token.tokenNumber}</span>
+              <Badge className={getStatusColor(token.status)}>{token.status}</Badge>
+              {token.counterName && (
+                <span className="text-xs text-gray-600">{token.counterName}</span>
+              )}
+              {!!token.recallCount && (
+                <span className="text-xs text-gray-500">recalled {token.recallCount}x</span>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {token.status === "called" && (
+              <Button size="sm" variant="outline" onClick={() => run(token, "start")} disabled={actionMutation.isPending}>
+                <Play className="h-3 w-3 mr-1" />
+                Start
+              </Button>
+            )}
+            {token.status !== "skipped" && (
+              <Button size="sm" variant="outline" onClick={() => run(token, "complete")} disabled={actionMutation.isPending}>
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Complete
+              </Button>
+            )}
+            {token.status === "called" && (
+              <Button size="sm" variant="outline" onClick={() => run(token, "skip")} disabled={actionMutation.isPending}>
+                <SkipForward className="h-3 w-3 mr-1" />
+                Skip
+              </Button>
+            )}
+            {token.status !== "in-progress" && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => run(token, "recall")} disabled={actionMutation.isPending}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Recall
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => run(token, "no-show")} disabled={actionMutation.isPending}>
+                  <UserX className="h-3 w-3 mr-1" />
+                  No-show
+                </Button>
+              </>
+            )}
+            <Button size="sm" variant="outline" onClick={() => openTransfer(token)} disabled={actionMutation.isPending}>
+              <ArrowRightLeft className="h-3 w-3 mr-1" />
+              Transfer
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!transferToken} onOpenChange={(open) => !open && setTransferToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer Token {transferToken?.tokenNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Department</Label>
+              <Select
+                value={transferDepartmentId}
+                onValueChange={(value) => {
+                  setTransferDepartmentId(value);
+                  setTransferDoctorId("any");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments?.map((department) => (
+                    <SelectItem key={department.id} value={department.id.toString()}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Doctor</Label>
+              <Select value={transferDoctorId} onValueChange={setTransferDoctorId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any available doctor</SelectItem>
+                  {departmentDoctors.map((doctor) => (
+                    <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                      Doctor #{doctor.id}{doctor.specialization ? ` - ${doctor.specialization}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransferToken(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitTransfer} disabled={!transferDepartmentId || actionMutation.isPending}>
+              {actionMutation.isPending ? "Transferring..." : "Transfer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
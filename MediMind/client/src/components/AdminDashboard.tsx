@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import QueueCounterManager from "@/components/QueueCounterManager";
+import DoctorScheduleManager from "@/components/DoctorScheduleManager";
 import { 
   Users, 
   Activity, 
@@ -90,6 +92,30 @@ interface SystemHealth {
   }>;
 }
 
+interface ServiceTimeBucket {
+  key: number;
+  sampleSize: number;
+  meanMinutes: number;
+  medianMinutes: number;
+}
+
+interface DepartmentServiceStats {
+  departmentId: number;
+  departmentName: string;
+  sampleSize: number;
+  meanServiceMinutes: number;
+  medianServiceMinutes: number;
+  p90ServiceMinutes: number;
+  meanWaitMinutes: number;
+  currentEstimateMinutes: number;
+  byHour: ServiceTimeBucket[];
+  byWeekday: ServiceTimeBucket[];
+  byDoctor: ServiceTimeBucket[];
+  byPriority: ServiceTimeBucket[];
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 export function AdminDashboard() {
   const [activeTab, setActiveTab] = useState("overview");
 
@@ -103,6 +129,11 @@ export function AdminDashboard() {
     retry: false,
   });
 
+  const { data: serviceStats } = useQuery<DepartmentServiceStats[]>({
+    queryKey: ["/api/queue/service-stats"],
+    retry: false,
+  });
+
   if (statsLoading || healthLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -387,6 +418,67 @@ export function AdminDashboard() {
               </div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Queue Service Times (last 30 days)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {serviceStats && serviceStats.length > 0 ? (
+                <div className="space-y-4">
+                  {serviceStats.map((dept) => {
+                    const busiestHours = [...dept.byHour]
+                      .sort((a, b) => b.meanMinutes - a.meanMinutes)
+                      .slice(0, 3);
+                    return (
+                      <div key={dept.departmentId} className="p-4 border rounded-lg">
+                        <div className="flex items-center justify-between mb-3">
+                          <div>
+                            <p className="font-medium">{dept.departmentName}</p>
+                            <p className="text-sm text-gray-600">{dept.sampleSize} completed consultations</p>
+                          </div>
+                          <Badge variant="outline">Now: ~{dept.currentEstimateMinutes} min/patient</Badge>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                          <div>
+                            <p className="text-xl font-bold text-blue-600">{dept.meanServiceMinutes}</p>
+                            <p className="text-xs text-gray-600">Mean service (min)</p>
+                          </div>
+                          <div>
+                            <p className="text-xl font-bold text-green-600">{dept.medianServiceMinutes}</p>
+                            <p className="text-xs text-gray-600">Median service (min)</p>
+                          </div>
+                          <div>
+                            <p className="text-xl font-bold text-orange-600">{dept.p90ServiceMinutes}</p>
+                            <p className="text-xs text-gray-600">90th percentile (min)</p>
+                          </div>
+                          <div>
+                            <p className="text-xl font-bold text-purple-600">{dept.meanWaitMinutes}</p>
+                            <p className="text-xs text-gray-600">Mean wait (min)</p>
+                          </div>
+                        </div>
+                        {dept.sampleSize > 0 && (
+                          <div className="mt-3 pt-3 border-t text-sm text-gray-600 space-y-1">
+                            <p>
+                              Slowest hours:{" "}
+                              {busiestHours.map((bucket) => `${bucket.key}:00 (${bucket.meanMinutes} min)`).join(", ")}
+                            </p>
+                            <p>
+                              By weekday:{" "}
+                              {dept.byWeekday.map((bucket) => `${WEEKDAY_LABELS[bucket.key]} ${bucket.meanMinutes}`).join(" · ")}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No completed queue tokens yet</p>
+              )}
+            </CardContent>
+          </Card>
+          <QueueCounterManager />
+          <DoctorScheduleManager />
         </TabsContent>
 
         {/* Security Tab */}
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, CalendarPlus, CheckCircle, History, Trash2, UserX } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { APPOINTMENT_CANCELLATION_REASONS } from "@shared/schema";
+
+type AppointmentAction = "reschedule" | "cancel" | "no-show" | "complete";
+
+interface ActionableAppointment {
+  id: number;
+  doctorId: number | null;
+  seriesId?: number | null;
+  appointmentDate: string;
+  status: string;
+}
+
+interface AppointmentSlot {
+  doctorId: number;
+  start: string;
+  end: string;
+}
+
+interface HistoryEntry {
+  id: number;
+  action: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  previousDate: string | null;
+  newDate: string | null;
+  reasonCode: string | null;
+  note: string | null;
+  late: boolean | null;
+  createdAt: string;
+}
+
+interface AppointmentActionsProps {
+  appointment: ActionableAppointment;
+  role: string;
+}
+
+// Mirrors the server's APPOINTMENT_ACTION_ROLES
+const actionRoles: Record<AppointmentAction, string[]> = {
+  "reschedule": ["patient", "front-desk", "nurse", "admin", "super-admin"],
+  "cancel": ["patient", "front-desk", "nurse", "admin", "super-admin"],
+  "no-show": ["front-desk", "nurse", "doctor", "admin", "super-admin"],
+  "complete": ["doctor", "nurse", "admin", "super-admin"],
+};
+
+const reasonLabels: Record<string, string> = {
+  "patient-request": "Patient request",
+  "doctor-unavailable": "Doctor unavailable",
+  "clinical-reason": "Clinical reason",
+  "duplicate-booking": "Duplicate booking",
+  "hospital-closure": "Hospital closure",
+  "other": "Other",
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString([], { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function AppointmentActions({ appointment, role }: AppointmentActionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<"reschedule" | "cancel" | "history" | null>(null);
+  const [date, setDate] = useState(appointment.appointmentDate.split("T")[0]);
+  const [slot, setSlot] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [note, setNote] = useState("");
+  const [wholeSeries, setWholeSeries] = useState(false);
+
+  const status = appointment.status || "scheduled";
+  const can = (action: AppointmentAction) => actionRoles[action].includes(role);
+
+  const { data: slots, isLoading: slotsLoading } = useQuery<AppointmentSlot[]>({
+    queryKey: [`/api/appointments/availability?doctorId=${appointment.doctorId}&from=${date}&to=${date}`],
+    enabled: dialog === "reschedule" && !!appointment.doctorId && !!date,
+  });
+
+  const { data: history } = useQuery<HistoryEntry[]>({
+    queryKey: ["/api/appointments", appointment.id, "history"],
+    enabled: dialog === "history",
+  });
+
+  const close = () => {
+    setDialog(null);
+    setSlot("");
+    setReasonCode("");
+    setNote("");
+    setWholeSeries(false);
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: AppointmentAction; body?: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/${action}`, body ?? {});
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      const titles: Record<AppointmentAction, string> = {
+        "reschedule": "Appointment Rescheduled",
+        "cancel": "Appointment Cancelled",
+        "no-show": "Marked as No-show",
+        "complete": "Appointment Completed",
+      };
+      toast({ title: titles[action] });
+      close();
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Cancels this session and every later one in the series
+  const seriesCancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointment-series/${appointment.seriesId}/cancel`, {
+        reasonCode,
+        note: note || undefined,
+        from: appointment.appointmentDate,
+      });
+      return response.json() as Promise<{ cancelled: unknown[] }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Series Cancelled", description: `${result.cancelled.length} sessions cancelled.` });
+      close();
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  const historyLine = (entry: HistoryEntry) => {
+    switch (entry.action) {
+      case "reschedule":
+        return `Moved from ${entry.previousDate ? formatDateTime(entry.previousDate) : "?"} to ${entry.newDate ? formatDateTime(entry.newDate) : "?"}`;
+      case "cancel":
+        return `Cancelled: ${reasonLabels[entry.reasonCode || ""] || entry.reasonCode}${entry.late ? " (late)" : ""}`;
+      case "no-show":
+        return "Marked as no-show";
+      default:
+        return "Completed";
+    }
+  };
+
+  return (
+    <div className="flex space-x-2">
+      {status === "scheduled" && can("reschedule") && (
+        <Button variant="outline" size="sm" title="Reschedule" onClick={() => setDialog("reschedule")}>
+          <CalendarClock className="h-4 w-4" />
+        </Button>
+      )}
+      {["scheduled", "in-progress"].includes(status) && can("complete") && (
+        <Button
+          variant="outline"
+          size="sm"
+          title="Complete"
+          disabled={actionMutation.isPending}
+          onClick={() => actionMutation.mutate({ action: "complete" })}
+        >
+          <CheckCircle className="h-4 w-4" />
+        </Button>
+      )}
+      {status === "scheduled" && can("no-show") && (
+        <Button
+          variant="outline"
+          size="sm"
+          title="No-show"
+          disabled={actionMutation.isPending}
+          onClick={() => actionMutation.mutate({ action: "no-show" })}
+        >
+          <UserX className="h-4 w-4" />
+        </Button>
+      )}
+      {status === "scheduled" && can("cancel") && (
+        <Button variant="outline" size="sm" title="Cancel" className="text-red-600 hover:text-red-700" onClick={() => setDialog("cancel")}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      {status === "scheduled" && (
+        <Button variant="outline" size="sm" title="Add to calendar" asChild>
+          <a href={`/api/appointments/${appointment.id}/calendar.ics`} download>
+            <CalendarPlus className="h-4 w-4" />
+          </a>
+        </Button>
+      )}
+      <Button variant="outline" size="sm" title="History" onClick={() => setDialog("history")}>
+        <History className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialog === "reschedule"} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reschedule Appointment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Currently {formatDateTime(appointment.appointmentDate)}</p>
+            <div>
+              <Label htmlFor={`reschedule-date-${appointment.id}`}>New Date</Label>
+              <Input
+                id={`reschedule-date-${appointment.id}`}
+                type="date"
+                value={date}
+                onChange={(e) => { setDate(e.target.value); setSlot(""); }}
+              />
+            </div>
+            {!appointment.doctorId ? (
+              <p className="text-sm text-gray-500">This appointment has no doctor, so there are no slots to choose from.</p>
+            ) : slotsLoading ? (
+              <p className="text-sm text-gray-500">Loading slots...</p>
+            ) : slots && slots.length > 0 ? (
+              <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+                {slots.map((option) => (
+                  <Button
+                    key={option.start}
+                    type="button"
+                    size="sm"
+                    variant={slot === option.start ? "default" : "outline"}
+                    onClick={() => setSlot(option.start)}
+                  >
+                    {formatTime(option.start)}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No open slots on this day. Try another date.</p>
+            )}
+            <Input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={close}>Back</Button>
+              <Button
+                className="flex-1"
+                disabled={!slot || actionMutation.isPending}
+                onClick={() => actionMutation.mutate({ action: "reschedule", body: { appointmentDate: slot, note: note || undefined } })}
+              >
+                {actionMutation.isPending ? "Saving..." : "Reschedule"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "cancel"} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel Appointment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">{formatDateTime(appointment.appointmentDate)}</p>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger>
+                <SelectValue placeholder="Reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {APPOINTMENT_CANCELLATION_REASONS.map((reason) => (
+                  <SelectItem key={reason} value={reason}>{reasonLabels[reason]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+            {appointment.seriesId && role !== "patient" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`cancel-series-${appointment.id}`}
+                  checked={wholeSeries}
+                  onCheckedChange={(checked) => setWholeSeries(checked === true)}
+                />
+                <Label htmlFor={`cancel-series-${appointment.id}`} className="text-sm">
+                  Also cancel the later sessions in this series
+                </Label>
+              </div>
+            )}
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={close}>Keep Appointment</Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                disabled={!reasonCode || actionMutation.isPending || seriesCancelMutation.isPending}
+                onClick={() => wholeSeries
+                  ? seriesCancelMutation.mutate()
+                  : actionMutation.mutate({ action: "cancel", body: { reasonCode, note: note || undefined } })}
+              >
+                {actionMutation.isPending || seriesCancelMutation.isPending ? "Cancelling..." : "Cancel Appointment"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "history"} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Appointment History</DialogTitle>
+          </DialogHeader>
+          {history && history.length > 0 ? (
+            <div className="space-y-2">
+              {history.map((entry) => (
+                <div key={entry.id} className="p-3 border rounded-lg">
+                  <p className="text-sm font-medium">{historyLine(entry)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDateTime(entry.createdAt)}
+                    {entry.note ? ` · ${entry.note}` : ""}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No changes since the appointment was booked</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
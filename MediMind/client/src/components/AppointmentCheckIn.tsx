@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarCheck, Search } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import TokenModal from "@/components/TokenModal";
+
+type LookupMethod = "patientId" | "phone" | "qrCode";
+
+interface CheckInAppointment {
+  appointmentId: number;
+  patientId: number;
+  patientCode: string;
+  appointmentDate: string;
+  appointmentType: string | null;
+  departmentId: number | null;
+  departmentName: string;
+  doctorId: number | null;
+  status: string;
+  tokenNumber: string | null;
+}
+
+interface CheckInToken {
+  id: number;
+  tokenNumber: string;
+  qrCode: string;
+  estimatedWaitTime: number | null;
+}
+
+interface AppointmentCheckInProps {
+  // Larger controls for the self-service kiosk
+  kiosk?: boolean;
+}
+
+const lookupPlaceholders: Record<LookupMethod, string> = {
+  patientId: "Patient ID, e.g. PAT-000123",
+  phone: "Registered mobile number",
+  qrCode: "Scan the QR on your registration card",
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function AppointmentCheckIn({ kiosk = false }: AppointmentCheckInProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [method, setMethod] = useState<LookupMethod>("patientId");
+  const [value, setValue] = useState("");
+  const [appointments, setAppointments] = useState<CheckInAppointment[] | null>(null);
+  const [issued, setIssued] = useState<{ token: CheckInToken; appointment: CheckInAppointment } | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Check-in Failed",
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const lookupMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ [method]: value.trim() });
+      const response = await apiRequest("GET", `/api/queue/check-in?${params}`);
+      return response.json() as Promise<CheckInAppointment[]>;
+    },
+    onSuccess: (data) => setAppointments(data),
+    onError: (error: Error) => {
+      setAppointments(null);
+      onError(error);
+    },
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (appointment: CheckInAppointment) => {
+      const response = await apiRequest("POST", "/api/queue/check-in", { appointmentId: appointment.appointmentId });
+      return response.json() as Promise<CheckInToken>;
+    },
+    onSuccess: (token, appointment) => {
+      setIssued({ token, appointment });
+      setAppointments((current) => current?.map((item) =>
+        item.appointmentId === appointment.appointmentId ? { ...item, tokenNumber: token.tokenNumber } : item
+      ) ?? null);
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/departments"] });
+    },
+    onError,
+  });
+
+  const reset = () => {
+    setIssued(null);
+    if (kiosk) {
+      // The next patient at the kiosk should not see this one's appointments
+      setValue("");
+      setAppointments(null);
+    }
+  };
+
+  const submitLookup = () => {
+    if (value.trim()) lookupMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={method} onValueChange={(next) => { setMethod(next as LookupMethod); setValue(""); setAppointments(null); }}>
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="patientId">Patient ID</TabsTrigger>
+          <TabsTrigger value="phone">Phone</TabsTrigger>
+          <TabsTrigger value="qrCode">Scan QR</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="flex space-x-2">
+        <Input
+          className={kiosk ? "h-12 text-lg" : undefined}
+          type={method === "phone" ? "tel" : "text"}
+          placeholder={lookupPlaceholders[method]}
+          value={value}
+          // Hand-held scanners type the code and press Enter
+          autoFocus={method === "qrCode"}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submitLookup()}
+        />
+        <Button
+          className={kiosk ? "h-12 px-6" : undefined}
+          onClick={submitLookup}
+          disabled={!value.trim() || lookupMutation.isPending}
+        >
+          <Search className="h-4 w-4 mr-2" />
+          {lookupMutation.isPending ? "Searching..." : "Find"}
+        </Button>
+      </div>
+
+      {appointments && appointments.length === 0 && (
+        <p className="text-center text-gray-600 py-4">
+          No appointments to check in for today. Please visit the front desk for a walk-in token.
+        </p>
+      )}
+
+      {appointments && appointments.length > 0 && (
+        <div className="space-y-2">
+          {appointments.map((appointment) => (
+            <div key={appointment.appointmentId} className="flex items-center justify-between p-3 border rounded-lg text-left">
+              <div>
+                <p className="font-medium">
+                  {formatTime(appointment.appointmentDate)} · {appointment.departmentName}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {appointment.patientCode}
+                  {appointment.doctorId ? ` · Doctor #${appointment.doctorId}` : ""}
+                  {appointment.appointmentType ? ` · ${appointment.appointmentType}` : ""}
+                </p>
+              </div>
+              {appointment.tokenNumber ? (
+                <Badge className="bg-green-100 text-green-800">Token {appointment.tokenNumber}</Badge>
+              ) : (
+                <Button
+                  size={kiosk ? "lg" : "sm"}
+                  onClick={() => checkInMutation.mutate(appointment)}
+                  disabled={checkInMutation.isPending}
+                >
+                  <CalendarCheck className="h-4 w-4 mr-2" />
+                  Check In
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TokenModal
+        isOpen={!!issued}
+        onClose={reset}
+        tokenData={issued ? {
+          tokenId: issued.token.id,
+          tokenNumber: issued.token.tokenNumber,
+          qrCode: issued.token.qrCode,
+          patientName: issued.appointment.patientCode,
+          department: issued.appointment.departmentName,
+          estimatedWaitTime: issued.token.estimatedWaitTime ?? 0,
+          appointmentTime: formatTime(issued.appointment.appointmentDate),
+          instructions: "Your booked slot is prioritised. Please wait near the department until your token is called.",
+        } : null}
+      />
+    </div>
+  );
+}
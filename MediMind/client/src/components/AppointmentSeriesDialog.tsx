@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+interface AppointmentSlot {
+  start: string;
+}
+
+interface SeriesOccurrence {
+  start: string;
+  end: string;
+  problem?: string;
+}
+
+interface AppointmentSeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WEEKDAYS = [
+  { code: "MO", label: "Mon", day: 1 },
+  { code: "TU", label: "Tue", day: 2 },
+  { code: "WE", label: "Wed", day: 3 },
+  { code: "TH", label: "Thu", day: 4 },
+  { code: "FR", label: "Fri", day: 5 },
+  { code: "SA", label: "Sat", day: 6 },
+  { code: "SU", label: "Sun", day: 0 },
+];
+
+// apiRequest errors read "<status>: <body>"
+function errorBody(error: Error): { message?: string; code?: string; occurrences?: SeriesOccurrence[] } | null {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, ""));
+  } catch {
+    return null;
+  }
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString([], { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function AppointmentSeriesDialog({ open, onOpenChange }: AppointmentSeriesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [patientCode, setPatientCode] = useState("");
+  const [doctorId, setDoctorId] = useState("");
+  const [appointmentType, setAppointmentType] = useState("follow-up");
+  const [firstDate, setFirstDate] = useState(new Date().toISOString().split("T")[0]);
+  const [firstStart, setFirstStart] = useState("");
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [intervalWeeks, setIntervalWeeks] = useState("1");
+  const [sessions, setSessions] = useState("12");
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [exceptionDates, setExceptionDates] = useState<string[]>([]);
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[] | null>(null);
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+    enabled: open,
+  });
+
+  const { data: slots } = useQuery<AppointmentSlot[]>({
+    queryKey: [`/api/appointments/availability?doctorId=${doctorId}&from=${firstDate}`],
+    enabled: open && !!doctorId && !!firstDate,
+  });
+
+  // The first session's weekday is always part of the rule
+  const firstWeekday = firstStart ? WEEKDAYS.find((weekday) => weekday.day === new Date(firstStart).getDay())?.code : undefined;
+  const byDay = Array.from(new Set([...(firstWeekday ? [firstWeekday] : []), ...weekdays]));
+  const recurrenceRule = `FREQ=WEEKLY;INTERVAL=${intervalWeeks || 1};BYDAY=${byDay.join(",")};COUNT=${sessions || 1}`;
+
+  const payload = () => ({
+    patientCode: patientCode.trim(),
+    doctorId: parseInt(doctorId),
+    departmentId: doctors?.find((doctor) => doctor.id.toString() === doctorId)?.departmentId,
+    appointmentType,
+    firstStart,
+    recurrenceRule,
+    exceptionDates,
+  });
+
+  const reset = () => {
+    setFirstStart("");
+    setWeekdays([]);
+    setExceptionDates([]);
+    setSkipConflicts(false);
+    setOccurrences(null);
+  };
+
+  const onError = (error: Error) => {
+    const body = errorBody(error);
+    if (body?.code === "SERIES_CONFLICT" && body.occurrences) {
+      setOccurrences(body.occurrences);
+    }
+    toast({
+      title: "Error",
+      description: body?.message || "Failed to book the series. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/appointment-series/preview", payload());
+      return response.json() as Promise<SeriesOccurrence[]>;
+    },
+    onSuccess: (data) => setOccurrences(data),
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/appointment-series", { ...payload(), skipConflicts });
+      return response.json() as Promise<{ appointments: unknown[]; skipped: unknown[] }>;
+    },
+    onSuccess: (booking) => {
+      toast({
+        title: "Series Booked",
+        description: `${booking.appointments.length} sessions booked${booking.skipped.length ? `, ${booking.skipped.length} skipped` : ""}.`,
+      });
+      reset();
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError,
+  });
+
+  const toggleWeekday = (code: string) => {
+    setWeekdays((current) => current.includes(code) ? current.filter((day) => day !== code) : [...current, code]);
+    setOccurrences(null);
+  };
+
+  const blocked = occurrences?.filter((occurrence) => occurrence.problem) ?? [];
+  const ready = !!patientCode.trim() && !!doctorId && !!firstStart && parseInt(sessions) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            Recurring Appointments
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="series-patient">Patient ID</Label>
+              <Input id="series-patient" placeholder="PAT-000123" value={patientCode} onChange={(e) => setPatientCode(e.target.value)} />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={appointmentType} onValueChange={setAppointmentType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="follow-up">Follow-up</SelectItem>
+                  <SelectItem value="therapy">Therapy</SelectItem>
+                  <SelectItem value="dialysis">Dialysis</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Doctor</Label>
+            <Select value={doctorId} onValueChange={(value) => { setDoctorId(value); reset(); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a doctor" />
+              </SelectTrigger>
+              <SelectContent>
+                {doctors?.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                    Doctor #{doctor.id}{doctor.specialization ? ` - ${doctor.specialization}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="series-first-date">First Session</Label>
+            <Input
+              id="series-first-date"
+              type="date"
+              value={firstDate}
+              min={new Date().toISOString().split("T")[0]}
+              onChange={(e) => { setFirstDate(e.target.value); setFirstStart(""); setOccurrences(null); }}
+            />
+            {doctorId && (
+              slots && slots.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2 mt-2 max-h-32 overflow-y-auto">
+                  {slots.map((slot) => (
+                    <Button
+                      key={slot.start}
+                      type="button"
+                      size="sm"
+                      variant={firstStart === slot.start ? "default" : "outline"}
+                      onClick={() => { setFirstStart(slot.start); setOccurrences(null); }}
+                    >
+                      {formatTime(slot.start)}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 mt-2">No open slots on this day. Try another date.</p>
+              )
+            )}
+          </div>
+
+          <div>
+            <Label>Repeat On</Label>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {WEEKDAYS.map((weekday) => (
+                <Button
+                  key={weekday.code}
+                  type="button"
+                  size="sm"
+                  variant={byDay.includes(weekday.code) ? "default" : "outline"}
+                  disabled={weekday.code === firstWeekday}
+                  onClick={() => toggleWeekday(weekday.code)}
+                >
+                  {weekday.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="series-interval">Every (weeks)</Label>
+              <Input id="series-interval" type="number" min={1} max={52} value={intervalWeeks} onChange={(e) => { setIntervalWeeks(e.target.value); setOccurrences(null); }} />
+            </div>
+            <div>
+              <Label htmlFor="series-sessions">Sessions</Label>
+              <Input id="series-sessions" type="number" min={1} max={104} value={sessions} onChange={(e) => { setSessions(e.target.value); setOccurrences(null); }} />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="series-exception">Skip Dates</Label>
+            <div className="flex space-x-2">
+              <Input id="series-exception" type="date" value={exceptionDate} onChange={(e) => setExceptionDate(e.target.value)} />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!exceptionDate || exceptionDates.includes(exceptionDate)}
+                onClick={() => { setExceptionDates([...exceptionDates, exceptionDate].sort()); setExceptionDate(""); setOccurrences(null); }}
+              >
+                Add
+              </Button>
+            </div>
+            {exceptionDates.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {exceptionDates.map((date) => (
+                  <span key={date} className="inline-flex items-center text-xs bg-gray-100 rounded px-2 py-1">
+                    {date}
+                    <button
+                      type="button"
+                      className="ml-1 text-gray-500 hover:text-gray-700"
+                      onClick={() => { setExceptionDates(exceptionDates.filter((other) => other !== date)); setOccurrences(null); }}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 font-mono">{recurrenceRule}</p>
+
+          {occurrences && (
+            <div className="space-y-1 max-h-48 overflow-y-auto border rounded-lg p-2">
+              {occurrences.map((occurrence) => (
+                <div key={occurrence.start} className={`text-sm flex justify-between ${occurrence.problem ? "text-red-700" : "text-gray-700"}`}>
+                  <span>{formatDateTime(occurrence.start)}</span>
+                  <span className="text-xs">{occurrence.problem || "Available"}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {blocked.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Checkbox id="series-skip" checked={skipConflicts} onCheckedChange={(checked) => setSkipConflicts(checked === true)} />
+              <Label htmlFor="series-skip" className="text-sm">
+                Book the rest and skip the {blocked.length} unavailable session{blocked.length === 1 ? "" : "s"}
+              </Label>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={!ready || previewMutation.isPending}
+              onClick={() => previewMutation.mutate()}
+            >
+              {previewMutation.isPending ? "Checking..." : "Check Availability"}
+            </Button>
+            <Button
+              type="button"
+              className="flex-1"
+              disabled={!ready || createMutation.isPending || (blocked.length > 0 && !skipConflicts)}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending ? "Booking..." : "Book Series"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
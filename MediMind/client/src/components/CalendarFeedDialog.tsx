@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeed {
+  url: string;
+}
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: string;
+}
+
+export default function CalendarFeedDialog({ open, onOpenChange, role }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/feed"],
+    enabled: open,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed/rotate");
+      return response.json() as Promise<CalendarFeed>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/calendar/feed"], data);
+      toast({ title: "Calendar Link Reset", description: "The old link no longer works. Subscribe again with the new one." });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset the calendar link",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const copy = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Link Copied" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe in Your Calendar</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {role === "doctor"
+              ? "Add this link to Google Calendar, Outlook or your phone to see your OPD schedule. Changes and cancellations show up automatically."
+              : "Add this link to Google Calendar, Outlook or your phone to see your appointments. Changes and cancellations show up automatically."}
+          </p>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading link...</p>
+          ) : feed ? (
+            <div className="flex space-x-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={copy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : null}
+          <p className="text-xs text-gray-500">
+            Anyone with this link can see your calendar. If it has been shared by mistake, reset it.
+          </p>
+          <Button variant="outline" disabled={rotateMutation.isPending} onClick={() => rotateMutation.mutate()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {rotateMutation.isPending ? "Resetting..." : "Reset Link"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
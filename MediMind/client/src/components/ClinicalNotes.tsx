@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NotebookPen, Plus, Edit, Lock, History, FilePen } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CLINICAL_NOTE_TYPES } from "@shared/schema";
+
+type NoteType = typeof CLINICAL_NOTE_TYPES[number];
+
+interface ClinicalNote {
+  id: number;
+  patientId: number;
+  authorId: string | null;
+  noteType: NoteType;
+  subjective: string | null;
+  objective: string | null;
+  assessment: string | null;
+  plan: string | null;
+  content: string | null;
+  isAmended: boolean | null;
+  amendmentReason: string | null;
+  originalNoteId: number | null;
+  signedBy: string | null;
+  signedAt: string | null;
+  isLocked: boolean | null;
+  createdAt: string;
+  version: number;
+}
+
+interface ClinicalNotesProps {
+  patientId: number;
+  currentUserId: string;
+  canWrite: boolean;
+  canAmend: boolean;
+}
+
+type Section = "subjective" | "objective" | "assessment" | "plan" | "content";
+
+const sections: { key: Section; label: string }[] = [
+  { key: "subjective", label: "Subjective" },
+  { key: "objective", label: "Objective" },
+  { key: "assessment", label: "Assessment" },
+  { key: "plan", label: "Plan" },
+  { key: "content", label: "Additional Notes" },
+];
+
+const typeLabels: Record<NoteType, string> = {
+  progress: "Progress",
+  consultation: "Consultation",
+  discharge: "Discharge",
+  admission: "Admission",
+};
+
+type EditorMode = { kind: "create" } | { kind: "edit"; note: ClinicalNote } | { kind: "amend"; note: ClinicalNote };
+
+const emptySections: Record<Section, string> = { subjective: "", objective: "", assessment: "", plan: "", content: "" };
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+function NoteSections({ note }: { note: ClinicalNote }) {
+  return (
+    <div className="space-y-2">
+      {sections.filter(({ key }) => note[key]).map(({ key, label }) => (
+        <div key={key}>
+          <span className="font-medium">{label}: </span>
+          <span className="text-gray-700 whitespace-pre-wrap">{note[key]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ClinicalNotes({ patientId, currentUserId, canWrite, canAmend }: ClinicalNotesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editor, setEditor] = useState<EditorMode | null>(null);
+  const [noteType, setNoteType] = useState<NoteType>("progress");
+  const [values, setValues] = useState<Record<Section, string>>(emptySections);
+  const [reason, setReason] = useState("");
+  const [historyNoteId, setHistoryNoteId] = useState<number | null>(null);
+
+  const queryKey = [`/api/emr/notes/${patientId}`];
+  const { data: notes, isLoading } = useQuery<ClinicalNote[]>({ queryKey });
+
+  const { data: versions } = useQuery<ClinicalNote[]>({
+    queryKey: [`/api/emr/notes/${historyNoteId}/versions`],
+    enabled: historyNoteId !== null,
+  });
+
+  const openEditor = (mode: EditorMode) => {
+    const note = mode.kind === "create" ? undefined : mode.note;
+    setEditor(mode);
+    setNoteType(note?.noteType ?? "progress");
+    setValues(note
+      ? { subjective: note.subjective ?? "", objective: note.objective ?? "", assessment: note.assessment ?? "", plan: note.plan ?? "", content: note.content ?? "" }
+      : emptySections);
+    setReason("");
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!editor) return;
+      const response = editor.kind === "create"
+        ? await apiRequest("POST", "/api/emr/notes", { patientId, noteType, ...values })
+        : editor.kind === "edit"
+          ? await apiRequest("PUT", `/api/emr/notes/${editor.note.id}`, { noteType, ...values })
+          : await apiRequest("POST", `/api/emr/notes/${editor.note.id}/amend`, { ...values, reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editor?.kind === "amend" ? "Amendment Signed" : "Draft Saved" });
+      setEditor(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async (noteId: number) => {
+      const response = await apiRequest("POST", `/api/emr/notes/${noteId}/sign`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Note Signed", description: "The note is now locked; later changes are made as amendments." });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const statusBadge = (note: ClinicalNote) => {
+    if (!note.isLocked) return <Badge variant="outline">Draft</Badge>;
+    if (note.isAmended) return <Badge className="bg-amber-100 text-amber-800">Amended · v{note.version}</Badge>;
+    return <Badge className="bg-green-100 text-green-800">Signed</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <NotebookPen className="h-5 w-5 mr-2" />
+            Clinical Notes
+          </CardTitle>
+          {canWrite && (
+            <Button size="sm" onClick={() => openEditor({ kind: "create" })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Note
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading notes...</p>
+        ) : notes && notes.length > 0 ? (
+          <div className="space-y-3">
+            {notes.map((note) => (
+              <div key={note.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">{typeLabels[note.noteType] ?? note.noteType}</Badge>
+                    {statusBadge(note)}
+                  </div>
+                  <div className="flex space-x-2">
+                    {!note.isLocked && note.authorId === currentUserId && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => openEditor({ kind: "edit", note })}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button size="sm" disabled={signMutation.isPending} onClick={() => signMutation.mutate(note.id)}>
+                          <Lock className="h-4 w-4 mr-1" />
+                          Sign
+                        </Button>
+                      </>
+                    )}
+                    {note.isLocked && canAmend && (
+                      <Button variant="outline" size="sm" onClick={() => openEditor({ kind: "amend", note })}>
+                        <FilePen className="h-4 w-4 mr-1" />
+                        Amend
+                      </Button>
+                    )}
+                    {note.version > 1 && (
+                      <Button variant="outline" size="sm" onClick={() => setHistoryNoteId(note.id)}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <NoteSections note={note} />
+                <div className="text-sm text-gray-500">
+                  {note.signedAt
+                    ? `Signed ${new Date(note.signedAt).toLocaleString()}`
+                    : `Drafted ${new Date(note.createdAt).toLocaleString()}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <NotebookPen className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No clinical notes recorded</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Draft / amendment editor */}
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.kind === "amend" ? "Amend Signed Note" : editor?.kind === "edit" ? "Edit Draft" : "New Clinical Note"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {editor?.kind !== "amend" && (
+              <div>
+                <Label>Note Type</Label>
+                <Select value={noteType} onValueChange={(next) => setNoteType(next as NoteType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CLINICAL_NOTE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {sections.map(({ key, label }) => (
+              <div key={key}>
+                <Label>{label}</Label>
+                <Textarea
+                  rows={key === "content" ? 2 : 3}
+                  value={values[key]}
+                  onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                />
+              </div>
+            ))}
+            {editor?.kind === "amend" && (
+              <div>
+                <Label>Reason for Amendment *</Label>
+                <Textarea
+                  rows={2}
+                  placeholder="e.g. Corrected dosage recorded in plan"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The amendment is signed in your name and the original stays in the note's history.
+                </p>
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditor(null)}>Cancel</Button>
+              <Button
+                disabled={saveMutation.isPending || (editor?.kind === "amend" && !reason.trim())}
+                onClick={() => saveMutation.mutate()}
+              >
+                {editor?.kind === "amend" ? "Sign Amendment" : "Save Draft"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version history */}
+      <Dialog open={historyNoteId !== null} onOpenChange={(open) => !open && setHistoryNoteId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {versions?.map((version) => (
+              <div key={version.id} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    Version {version.version}{version.version === 1 ? " (original)" : ""}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    {version.signedAt ? new Date(version.signedAt).toLocaleString() : "Unsigned draft"}
+                  </span>
+                </div>
+                {version.amendmentReason && (
+                  <div className="text-sm p-2 bg-amber-50 border border-amber-200 rounded">
+                    <span className="font-medium">Reason: </span>{version.amendmentReason}
+                  </div>
+                )}
+                <NoteSections note={version} />
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DoctorSchedule {
+  id: number;
+  doctorId: number;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  breakStart: string | null;
+  breakEnd: string | null;
+  maxPatients: number | null;
+  roomId: number | null;
+  isActive: boolean | null;
+}
+
+interface QueueCounter {
+  id: number;
+  name: string;
+  type: "room" | "counter";
+  isActive: boolean | null;
+}
+
+interface ScheduleException {
+  id: number;
+  doctorId: number | null;
+  startDate: string;
+  endDate: string;
+  type: "leave" | "holiday" | "training";
+  reason: string | null;
+}
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const emptySession = {
+  dayOfWeek: "1",
+  startTime: "09:00",
+  endTime: "13:00",
+  slotMinutes: "15",
+  breakStart: "",
+  breakEnd: "",
+  maxPatients: "",
+  roomId: "none",
+};
+
+const emptyLeave = {
+  startDate: "",
+  endDate: "",
+  type: "leave" as ScheduleException["type"],
+  reason: "",
+  hospitalWide: false,
+};
+
+// apiRequest errors read "<status>: <body>"
+const serverMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message as string;
+  } catch {
+    return null;
+  }
+};
+
+export default function DoctorScheduleManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [doctorId, setDoctorId] = useState<string>("");
+  const [session, setSession] = useState(emptySession);
+  const [leave, setLeave] = useState(emptyLeave);
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+  });
+
+  const doctorDepartmentId = doctors?.find((doctor) => doctor.id.toString() === doctorId)?.departmentId;
+  const { data: counters } = useQuery<QueueCounter[]>({
+    queryKey: [`/api/queue/counters?departmentId=${doctorDepartmentId}`],
+    enabled: !!doctorDepartmentId,
+  });
+  const rooms = counters?.filter((counter) => counter.type === "room" && counter.isActive !== false) ?? [];
+  const roomName = (id: number | null) => counters?.find((counter) => counter.id === id)?.name;
+
+  const { data: schedules } = useQuery<DoctorSchedule[]>({
+    queryKey: ["/api/doctors", doctorId, "schedules"],
+    enabled: !!doctorId,
+  });
+
+  const { data: exceptions } = useQuery<ScheduleException[]>({
+    queryKey: [`/api/schedule-exceptions?doctorId=${doctorId}`],
+    enabled: !!doctorId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: serverMessage(error) || "Failed to save schedule. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const refreshSchedules = () => queryClient.invalidateQueries({ queryKey: ["/api/doctors", doctorId, "schedules"] });
+  const refreshExceptions = () => queryClient.invalidateQueries({ queryKey: [`/api/schedule-exceptions?doctorId=${doctorId}`] });
+
+  const createSessionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/doctors/${doctorId}/schedules`, {
+        dayOfWeek: parseInt(session.dayOfWeek),
+        startTime: session.startTime,
+        endTime: session.endTime,
+        slotMinutes: parseInt(session.slotMinutes),
+        breakStart: session.breakStart || null,
+        breakEnd: session.breakEnd || null,
+        maxPatients: session.maxPatients ? parseInt(session.maxPatients) : null,
+        roomId: session.roomId === "none" ? null : parseInt(session.roomId),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Session Added", description: `${DAYS[parseInt(session.dayOfWeek)]} ${session.startTime}-${session.endTime} is open for booking.` });
+      refreshSchedules();
+    },
+    onError,
+  });
+
+  const updateSessionMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<DoctorSchedule> }) => {
+      const response = await apiRequest("PATCH", `/api/doctor-schedules/${id}`, data);
+      return response.json();
+    },
+    onSuccess: refreshSchedules,
+    onError,
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/doctor-schedules/${id}`);
+    },
+    onSuccess: refreshSchedules,
+    onError,
+  });
+
+  const createLeaveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/schedule-exceptions", {
+        doctorId: leave.hospitalWide ? null : parseInt(doctorId),
+        startDate: leave.startDate,
+        endDate: leave.endDate || leave.startDate,
+        type: leave.type,
+        reason: leave.reason.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Leave Recorded", description: "No slots will be offered on those days." });
+      setLeave(emptyLeave);
+      refreshExceptions();
+    },
+    onError,
+  });
+
+  const deleteLeaveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/schedule-exceptions/${id}`);
+    },
+    onSuccess: refreshExceptions,
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2" />
+          Doctor Schedules & Leave
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={doctorId} onValueChange={(value) => { setDoctorId(value); setSession({ ...session, roomId: "none" }); }}>
+          <SelectTrigger className="md:w-80">
+            <SelectValue placeholder="Select a doctor" />
+          </SelectTrigger>
+          <SelectContent>
+            {doctors?.map((doctor) => (
+              <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                Doctor #{doctor.id}{doctor.specialization ? ` - ${doctor.specialization}` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {doctorId && (
+          <>
+            <div className="space-y-3">
+              <h4 className="font-medium">Weekly sessions</h4>
+              <div className="grid grid-cols-2 md:grid-cols-9 gap-2 items-end">
+                <div className="space-y-1 col-span-2 md:col-span-1">
+                  <Label className="text-xs">Day</Label>
+                  <Select value={session.dayOfWeek} onValueChange={(value) => setSession({ ...session, dayOfWeek: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS.map((day, index) => (
+                        <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">From</Label>
+                  <Input type="time" value={session.startTime} onChange={(e) => setSession({ ...session, startTime: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">To</Label>
+                  <Input type="time" value={session.endTime} onChange={(e) => setSession({ ...session, endTime: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Slot (min)</Label>
+                  <Input type="number" min={5} value={session.slotMinutes} onChange={(e) => setSession({ ...session, slotMinutes: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Break from</Label>
+                  <Input type="time" value={session.breakStart} onChange={(e) => setSession({ ...session, breakStart: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Break to</Label>
+                  <Input type="time" value={session.breakEnd} onChange={(e) => setSession({ ...session, breakEnd: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max patients</Label>
+                  <Input type="number" min={1} placeholder="Any" value={session.maxPatients} onChange={(e) => setSession({ ...session, maxPatients: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Room</Label>
+                  <Select value={session.roomId} onValueChange={(value) => setSession({ ...session, roomId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not fixed</SelectItem>
+                      {rooms.map((room) => (
+                        <SelectItem key={room.id} value={room.id.toString()}>{room.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => createSessionMutation.mutate()}
+                  disabled={!session.startTime || !session.endTime || !session.slotMinutes || createSessionMutation.isPending}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+
+              {schedules && schedules.length > 0 ? (
+                <div className="space-y-2">
+                  {schedules.map((schedule) => (
+                    <div key={schedule.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">
+                          {DAYS[schedule.dayOfWeek]} · {schedule.startTime}-{schedule.endTime}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {schedule.slotMinutes} min slots
+                          {schedule.breakStart && schedule.breakEnd ? ` · break ${schedule.breakStart}-${schedule.breakEnd}` : ""}
+                          {schedule.maxPatients ? ` · max ${schedule.maxPatients} patients` : ""}
+                          {schedule.roomId ? ` · ${roomName(schedule.roomId) || `Room #${schedule.roomId}`}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={schedule.isActive !== false}
+                          onCheckedChange={(checked) => updateSessionMutation.mutate({ id: schedule.id, data: { isActive: checked } })}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => deleteSessionMutation.mutate(schedule.id)}
+                          disabled={deleteSessionMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No sessions yet. The doctor cannot be booked until one is added.</p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-medium">Leave & holidays</h4>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">From</Label>
+                  <Input type="date" value={leave.startDate} onChange={(e) => setLeave({ ...leave, startDate: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">To</Label>
+                  <Input type="date" min={leave.startDate} value={leave.endDate} onChange={(e) => setLeave({ ...leave, endDate: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Type</Label>
+                  <Select value={leave.type} onValueChange={(value) => setLeave({ ...leave, type: value as ScheduleException["type"] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="leave">Leave</SelectItem>
+                      <SelectItem value="holiday">Holiday</SelectItem>
+                      <SelectItem value="training">Training</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Reason</Label>
+                  <Input value={leave.reason} onChange={(e) => setLeave({ ...leave, reason: e.target.value })} />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch checked={leave.hospitalWide} onCheckedChange={(checked) => setLeave({ ...leave, hospitalWide: checked })} />
+                  <Label className="text-xs">All doctors</Label>
+                </div>
+                <Button
+                  onClick={() => createLeaveMutation.mutate()}
+                  disabled={!leave.startDate || createLeaveMutation.isPending}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+
+              {exceptions && exceptions.length > 0 ? (
+                <div className="space-y-2">
+                  {exceptions.map((exception) => (
+                    <div key={exception.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">
+                          {exception.startDate}{exception.endDate !== exception.startDate ? ` to ${exception.endDate}` : ""}
+                        </span>
+                        <Badge variant="outline">{exception.type}</Badge>
+                        {exception.doctorId === null && <Badge className="bg-purple-100 text-purple-800">All doctors</Badge>}
+                        {exception.reason && <span className="text-sm text-gray-600">{exception.reason}</span>}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => deleteLeaveMutation.mutate(exception.id)}
+                        disabled={deleteLeaveMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No upcoming leave or holidays</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { IdCard, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PATIENT_IDENTIFIER_TYPES } from "@shared/schema";
+
+type IdentifierType = typeof PATIENT_IDENTIFIER_TYPES[number];
+
+interface PatientIdentifier {
+  id: number;
+  type: IdentifierType;
+  value: string;
+  issuer: string;
+}
+
+interface PatientIdentifiersProps {
+  patientId: number;
+  canEdit: boolean;
+}
+
+const typeLabels: Record<IdentifierType, string> = {
+  aadhaar: "Aadhaar",
+  abha: "ABHA number",
+  insurance: "Insurance member ID",
+  passport: "Passport",
+};
+
+// Aadhaar is shown masked, as UIDAI requires outside the enrolment record
+const displayValue = (identifier: PatientIdentifier) => {
+  if (identifier.type === "aadhaar") return `XXXX XXXX ${identifier.value.slice(-4)}`;
+  if (identifier.type === "abha") return identifier.value.replace(/^(\d{2})(\d{4})(\d{4})(\d{4})$/, "$1-$2-$3-$4");
+  return identifier.value;
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+export default function PatientIdentifiers({ patientId, canEdit }: PatientIdentifiersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<IdentifierType>("abha");
+  const [value, setValue] = useState("");
+  const [issuer, setIssuer] = useState("");
+
+  const queryKey = [`/api/patients/${patientId}/identifiers`];
+  const { data: identifiers } = useQuery<PatientIdentifier[]>({ queryKey });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/patients/${patientId}/identifiers`, { type, value, issuer });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Identifier Added" });
+      setValue("");
+      setIssuer("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (identifierId: number) => {
+      const response = await apiRequest("DELETE", `/api/patients/${patientId}/identifiers/${identifierId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  const needsIssuer = type === "insurance" || type === "passport";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <IdCard className="h-5 w-5" />
+          <span>Identifiers</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {identifiers && identifiers.length > 0 ? (
+          <div className="space-y-2">
+            {identifiers.map((identifier) => (
+              <div key={identifier.id} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="text-gray-600">{typeLabels[identifier.type] ?? identifier.type}{identifier.issuer ? ` (${identifier.issuer})` : ""}:</span>{" "}
+                  <span className="font-mono">{displayValue(identifier)}</span>
+                </span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(identifier.id)}
+                    title="Remove identifier"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No other identifiers recorded</p>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={type} onValueChange={(next) => setType(next as IdentifierType)}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PATIENT_IDENTIFIER_TYPES.map((option) => (
+                  <SelectItem key={option} value={option}>{typeLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Number" value={value} onChange={(e) => setValue(e.target.value)} />
+            {needsIssuer && (
+              <Input
+                placeholder={type === "insurance" ? "Insurer" : "Issuing country"}
+                value={issuer}
+                onChange={(e) => setIssuer(e.target.value)}
+              />
+            )}
+            <Button disabled={!value.trim() || addMutation.isPending} onClick={() => addMutation.mutate()}>
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { GitMerge, History, Undo2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PatientSummary {
+  id: number;
+  patientId: string;
+  firstName: string | null;
+  lastName: string | null;
+  phoneNumber: string | null;
+  dateOfBirth: string | null;
+  createdAt: string | null;
+}
+
+interface DuplicateFlagReview {
+  flag: {
+    id: number;
+    score: number;
+    reasons: string[] | null;
+    createdAt: string;
+  };
+  patient?: PatientSummary;
+  candidate?: PatientSummary;
+}
+
+interface MergeHistoryEntry {
+  id: number;
+  survivorId: number;
+  mergedId: number;
+  survivorPatientId: string | null;
+  mergedPatientId: string | null;
+  status: string;
+  reason: string | null;
+  movedRows: Record<string, number[]> | null;
+  mergedAt: string;
+  revertedAt: string | null;
+  unmergeUntil: string | null;
+}
+
+interface PendingMerge {
+  survivor: PatientSummary;
+  merged: PatientSummary;
+}
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const describePatient = (patient: PatientSummary) => {
+  const name = [patient.firstName, patient.lastName].filter(Boolean).join(" ");
+  const details = [
+    patient.phoneNumber,
+    patient.dateOfBirth ? `DOB ${new Date(patient.dateOfBirth).toLocaleDateString()}` : null,
+  ].filter(Boolean).join(" · ");
+  return `${name || "Unnamed"} (${patient.patientId})${details ? ` - ${details}` : ""}`;
+};
+
+const movedCount = (merge: MergeHistoryEntry) =>
+  Object.values(merge.movedRows ?? {}).reduce((total, ids) => total + ids.length, 0);
+
+export function PatientMergeManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [mergeReason, setMergeReason] = useState("");
+  const [revertTarget, setRevertTarget] = useState<MergeHistoryEntry | null>(null);
+  const [revertReason, setRevertReason] = useState("");
+  const [survivorCode, setSurvivorCode] = useState("");
+  const [duplicateCode, setDuplicateCode] = useState("");
+
+  const { data: reviews } = useQuery<DuplicateFlagReview[]>({
+    queryKey: ["/api/patient-merges/review"],
+    retry: false,
+  });
+
+  const { data: merges } = useQuery<MergeHistoryEntry[]>({
+    queryKey: ["/api/patient-merges"],
+    retry: false,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/patient-merges/review"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patient-merges"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivor, merged, reason }: PendingMerge & { reason: string }) => {
+      const response = await apiRequest("POST", "/api/patient-merges", {
+        survivorId: survivor.id,
+        mergedId: merged.id,
+        reason,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Records Merged", description: "The duplicate's history now sits on the surviving record." });
+      setPendingMerge(null);
+      setMergeReason("");
+      setSurvivorCode("");
+      setDuplicateCode("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Merge Failed",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (flagId: number) => {
+      const response = await apiRequest("POST", `/api/patient-merges/review/${flagId}/dismiss`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Marked as Different Patients" });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/patient-merges/${id}/revert`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Merge Undone", description: "Both records are separate again." });
+      setRevertTarget(null);
+      setRevertReason("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Undo Failed",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Looks up two patient IDs typed by the admin, for merging records nobody flagged
+  const findByCode = async (code: string): Promise<PatientSummary | undefined> => {
+    const response = await apiRequest("GET", `/api/patients?search=${encodeURIComponent(code.trim())}`);
+    const matches: PatientSummary[] = await response.json();
+    return matches.find((patient) => patient.patientId.toLowerCase() === code.trim().toLowerCase());
+  };
+
+  const startManualMerge = async () => {
+    try {
+      const [survivor, merged] = await Promise.all([findByCode(survivorCode), findByCode(duplicateCode)]);
+      if (!survivor || !merged) {
+        toast({ title: "Patient Not Found", description: "Check both patient IDs.", variant: "destructive" });
+        return;
+      }
+      if (survivor.id === merged.id) {
+        toast({ title: "Choose two different patients", variant: "destructive" });
+        return;
+      }
+      setPendingMerge({ survivor, merged });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error as Error), variant: "destructive" });
+    }
+  };
+
+  // The older record usually carries more history, so it survives by default
+  const proposeMerge = (review: DuplicateFlagReview) => {
+    if (!review.patient || !review.candidate) return;
+    const [survivor, merged] = review.candidate.id < review.patient.id
+      ? [review.candidate, review.patient]
+      : [review.patient, review.candidate];
+    setPendingMerge({ survivor, merged });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <GitMerge className="h-5 w-5" />
+            <span>Possible Duplicate Patients</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {reviews && reviews.length > 0 ? (
+            <div className="space-y-3">
+              {reviews.map((review) => (
+                <div key={review.flag.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Badge variant={review.flag.score >= 60 ? "destructive" : "secondary"}>Score {review.flag.score}</Badge>
+                    <span className="text-xs text-gray-500">Flagged {new Date(review.flag.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  {review.candidate && <p className="text-sm">{describePatient(review.candidate)}</p>}
+                  {review.patient && <p className="text-sm">{describePatient(review.patient)}</p>}
+                  {review.flag.reasons && <p className="text-xs text-gray-600">{review.flag.reasons.join(", ")}</p>}
+                  <div className="flex space-x-2">
+                    <Button size="sm" onClick={() => proposeMerge(review)} disabled={!review.patient || !review.candidate}>
+                      Merge
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={dismissMutation.isPending} onClick={() => dismissMutation.mutate(review.flag.id)}>
+                      Not a Duplicate
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No flagged registrations to review</p>
+          )}
+
+          <div className="pt-4 border-t space-y-2">
+            <p className="text-sm font-medium">Merge two records by patient ID</p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input placeholder="Keep this patient ID" value={survivorCode} onChange={(e) => setSurvivorCode(e.target.value)} />
+              <Input placeholder="Merge this patient ID into it" value={duplicateCode} onChange={(e) => setDuplicateCode(e.target.value)} />
+              <Button variant="outline" disabled={!survivorCode.trim() || !duplicateCode.trim()} onClick={startManualMerge}>
+                Review Merge
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Merge History</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {merges && merges.length > 0 ? (
+            <div className="space-y-3">
+              {merges.map((merge) => {
+                const canUndo = merge.status === "merged" && merge.unmergeUntil && new Date(merge.unmergeUntil) > new Date();
+                return (
+                  <div key={merge.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">
+                        {merge.mergedPatientId ?? `#${merge.mergedId}`} → {merge.survivorPatientId ?? `#${merge.survivorId}`}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {new Date(merge.mergedAt).toLocaleString()} · {movedCount(merge)} linked records moved
+                        {merge.reason ? ` · ${merge.reason}` : ""}
+                      </p>
+                      {canUndo && (
+                        <p className="text-xs text-gray-500">Can be undone until {new Date(merge.unmergeUntil!).toLocaleDateString()}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{merge.status}</Badge>
+                      {canUndo && (
+                        <Button size="sm" variant="outline" onClick={() => setRevertTarget(merge)}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No records have been merged</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Merge Patient Records</DialogTitle>
+          </DialogHeader>
+          {pendingMerge && (
+            <div className="space-y-4">
+              <div className="space-y-2 text-sm">
+                <p><span className="font-medium">Keep:</span> {describePatient(pendingMerge.survivor)}</p>
+                <p><span className="font-medium">Merge in:</span> {describePatient(pendingMerge.merged)}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPendingMerge({ survivor: pendingMerge.merged, merged: pendingMerge.survivor })}
+              >
+                Keep the other record instead
+              </Button>
+              <p className="text-sm text-gray-600">
+                Appointments, queue tokens, medical records, medications, bills and consents move to the kept record.
+                Its empty details are filled in from the other one.
+              </p>
+              <div>
+                <Label htmlFor="merge-reason">Reason</Label>
+                <Input id="merge-reason" value={mergeReason} onChange={(e) => setMergeReason(e.target.value)} placeholder="e.g. Registered at kiosk and front desk" />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setPendingMerge(null)}>Cancel</Button>
+                <Button
+                  disabled={!mergeReason.trim() || mergeMutation.isPending}
+                  onClick={() => mergeMutation.mutate({ ...pendingMerge, reason: mergeReason.trim() })}
+                >
+                  {mergeMutation.isPending ? "Merging..." : "Merge Records"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revertTarget} onOpenChange={(open) => !open && setRevertTarget(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Undo Merge</DialogTitle>
+          </DialogHeader>
+          {revertTarget && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {revertTarget.mergedPatientId ?? `#${revertTarget.mergedId}`} becomes a separate record again and gets back the records that
+                were moved. Anything added to {revertTarget.survivorPatientId ?? `#${revertTarget.survivorId}`} since the merge stays there.
+              </p>
+              <div>
+                <Label htmlFor="revert-reason">Reason</Label>
+                <Input id="revert-reason" value={revertReason} onChange={(e) => setRevertReason(e.target.value)} placeholder="e.g. Different people with the same name" />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setRevertTarget(null)}>Cancel</Button>
+                <Button
+                  disabled={!revertReason.trim() || revertMutation.isPending}
+                  onClick={() => revertMutation.mutate({ id: revertTarget.id, reason: revertReason.trim() })}
+                >
+                  {revertMutation.isPending ? "Undoing..." : "Undo Merge"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pill, Plus, Edit, Lock, Printer, Trash2, XCircle, AlertTriangle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PrescriptionItem {
+  id: number;
+  medicationName: string;
+  genericName: string | null;
+  brandName: string | null;
+  dosage: string;
+  frequency: string;
+  route: string;
+  duration: string | null;
+  quantity: number | null;
+  refills: number | null;
+  instructions: string | null;
+}
+
+interface Prescription {
+  id: number;
+  number: string;
+  status: "draft" | "signed" | "prepared" | "dispensed" | "cancelled";
+  diagnosis: string | null;
+  advice: string | null;
+  items: PrescriptionItem[];
+  doctor: { name: string; registrationNumber: string | null } | null;
+  signedAt: string | null;
+  cancelReason: string | null;
+  createdAt: string;
+}
+
+interface InteractionAlert {
+  type: "drug-drug" | "drug-allergy";
+  severity: "contraindicated" | "major" | "moderate";
+  drug: string;
+  conflictsWith: string;
+  effect: string;
+  management?: string;
+}
+
+interface PrescriptionsProps {
+  patientId: number;
+  canPrescribe: boolean;
+}
+
+interface ItemForm {
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  route: string;
+  duration: string;
+  quantity: string;
+  instructions: string;
+}
+
+const routes = ["oral", "injection", "topical", "inhalation"];
+
+const emptyItem: ItemForm = { medicationName: "", dosage: "", frequency: "", route: "oral", duration: "", quantity: "", instructions: "" };
+
+const statusStyles: Record<Prescription["status"], string> = {
+  draft: "",
+  signed: "bg-blue-100 text-blue-800",
+  prepared: "bg-yellow-100 text-yellow-800",
+  dispensed: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+};
+
+const severityStyles: Record<InteractionAlert["severity"], string> = {
+  contraindicated: "bg-red-100 text-red-800",
+  major: "bg-orange-100 text-orange-800",
+  moderate: "bg-yellow-100 text-yellow-800",
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+// The alerts a 409 from signing carries when an override reason is needed
+const overrideAlerts = (error: Error): InteractionAlert[] | null => {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return body.code === "INTERACTION_OVERRIDE_REQUIRED" ? body.alerts : null;
+  } catch {
+    return null;
+  }
+};
+
+function AlertList({ alerts }: { alerts: InteractionAlert[] }) {
+  return (
+    <div className="space-y-2">
+      {alerts.map((alert, index) => (
+        <div key={index} className="p-2 border rounded text-sm">
+          <div className="flex items-center space-x-2">
+            <Badge className={severityStyles[alert.severity]}>{alert.severity}</Badge>
+            <span className="font-medium">{alert.drug}</span>
+            <span className="text-gray-500">with {alert.conflictsWith}</span>
+          </div>
+          <p className="text-gray-700 mt-1">{alert.effect}</p>
+          {alert.management && <p className="text-gray-500 text-xs mt-1">{alert.management}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Prescriptions({ patientId, canPrescribe }: PrescriptionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Prescription | "new" | null>(null);
+  const [diagnosis, setDiagnosis] = useState("");
+  const [advice, setAdvice] = useState("");
+  const [items, setItems] = useState<ItemForm[]>([emptyItem]);
+  const [draftAlerts, setDraftAlerts] = useState<Record<number, InteractionAlert[]>>({});
+  const [override, setOverride] = useState<{ prescription: Prescription; alerts: InteractionAlert[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [cancelling, setCancelling] = useState<Prescription | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+
+  const queryKey = [`/api/prescriptions/patient/${patientId}`];
+  const { data: prescriptions, isLoading } = useQuery<Prescription[]>({ queryKey });
+
+  const openEditor = (prescription: Prescription | "new") => {
+    const existing = prescription === "new" ? undefined : prescription;
+    setEditing(prescription);
+    setDiagnosis(existing?.diagnosis ?? "");
+    setAdvice(existing?.advice ?? "");
+    setItems(existing
+      ? existing.items.map((item) => ({
+          medicationName: item.medicationName,
+          dosage: item.dosage,
+          frequency: item.frequency,
+          route: item.route,
+          duration: item.duration ?? "",
+          quantity: item.quantity?.toString() ?? "",
+          instructions: item.instructions ?? "",
+        }))
+      : [emptyItem]);
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemForm>) => {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        diagnosis: diagnosis || null,
+        advice: advice || null,
+        items: items.map((item) => ({
+          medicationName: item.medicationName,
+          dosage: item.dosage,
+          frequency: item.frequency,
+          route: item.route,
+          duration: item.duration || null,
+          quantity: item.quantity ? parseInt(item.quantity) : null,
+          instructions: item.instructions || null,
+        })),
+      };
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/prescriptions", { ...body, patientId })
+        : await apiRequest("PUT", `/api/prescriptions/${(editing as Prescription).id}`, body);
+      return response.json();
+    },
+    onSuccess: (result: { prescription: Prescription; alerts: InteractionAlert[] }) => {
+      toast({
+        title: "Draft Saved",
+        description: result.alerts.length > 0 ? `${result.alerts.length} interaction alert(s) to review before signing.` : undefined,
+      });
+      setDraftAlerts({ ...draftAlerts, [result.prescription.id]: result.alerts });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async ({ prescription, reason }: { prescription: Prescription; reason?: string }) => {
+      const response = await apiRequest("POST", `/api/prescriptions/${prescription.id}/sign`, reason ? { overrideReason: reason } : {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Prescription Signed", description: "It has been sent to the pharmacy." });
+      setOverride(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error, { prescription }) => {
+      const alerts = overrideAlerts(error);
+      if (alerts) {
+        setOverride({ prescription, alerts });
+        setOverrideReason("");
+      } else {
+        onError(error);
+      }
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/prescriptions/${cancelling!.id}/cancel`, { reason: cancelReason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Prescription Cancelled" });
+      setCancelling(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const itemsComplete = items.length > 0 && items.every((item) => item.medicationName.trim() && item.dosage.trim() && item.frequency.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Pill className="h-5 w-5 mr-2" />
+            Prescriptions
+          </CardTitle>
+          {canPrescribe && (
+            <Button size="sm" onClick={() => openEditor("new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Prescription
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading prescriptions...</p>
+        ) : prescriptions && prescriptions.length > 0 ? (
+          <div className="space-y-3">
+            {prescriptions.map((prescription) => (
+              <div key={prescription.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{prescription.number}</span>
+                      <Badge variant={prescription.status === "draft" ? "outline" : undefined} className={statusStyles[prescription.status]}>
+                        {prescription.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {prescription.doctor?.name}
+                      {prescription.signedAt
+                        ? ` · Signed ${new Date(prescription.signedAt).toLocaleString()}`
+                        : ` · Drafted ${new Date(prescription.createdAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    {canPrescribe && prescription.status === "draft" && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => openEditor(prescription)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button size="sm" disabled={signMutation.isPending} onClick={() => signMutation.mutate({ prescription })}>
+                          <Lock className="h-4 w-4 mr-1" />
+                          Sign
+                        </Button>
+                      </>
+                    )}
+                    {prescription.signedAt && prescription.status !== "cancelled" && (
+                      <Button variant="outline" size="sm" onClick={() => window.open(`/api/prescriptions/${prescription.id}/pdf`, '_blank')}>
+                        <Printer className="h-4 w-4 mr-1" />
+                        Print
+                      </Button>
+                    )}
+                    {canPrescribe && ["draft", "signed", "prepared"].includes(prescription.status) && (
+                      <Button variant="outline" size="sm" onClick={() => { setCancelling(prescription); setCancelReason(""); }}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {prescription.diagnosis && (
+                  <p className="text-sm"><span className="font-medium">Diagnosis: </span>{prescription.diagnosis}</p>
+                )}
+                <div className="space-y-1">
+                  {prescription.items.map((item, index) => (
+                    <div key={item.id} className="text-sm">
+                      <span className="font-medium">{index + 1}. {item.medicationName}</span>
+                      <span className="text-gray-600">
+                        {" "}- {item.dosage}, {item.frequency}, {item.route}
+                        {item.duration && ` for ${item.duration}`}
+                        {item.quantity && ` (Qty ${item.quantity})`}
+                      </span>
+                      {item.instructions && <span className="text-gray-500"> - {item.instructions}</span>}
+                    </div>
+                  ))}
+                </div>
+                {prescription.advice && (
+                  <p className="text-sm"><span className="font-medium">Advice: </span>{prescription.advice}</p>
+                )}
+                {prescription.status === "draft" && draftAlerts[prescription.id]?.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded space-y-2">
+                    <p className="text-sm font-medium flex items-center">
+                      <AlertTriangle className="h-4 w-4 mr-1 text-amber-600" />
+                      Interaction alerts
+                    </p>
+                    <AlertList alerts={draftAlerts[prescription.id]} />
+                  </div>
+                )}
+                {prescription.cancelReason && (
+                  <p className="text-sm text-red-700"><span className="font-medium">Cancelled: </span>{prescription.cancelReason}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Pill className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No prescriptions on file</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Draft editor */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Prescription" : "Edit Draft Prescription"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Diagnosis</Label>
+              <Input value={diagnosis} onChange={(e) => setDiagnosis(e.target.value)} />
+            </div>
+            {items.map((item, index) => (
+              <div key={index} className="p-3 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">Medication {index + 1}</span>
+                  {items.length > 1 && (
+                    <Button variant="ghost" size="sm" onClick={() => setItems(items.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="col-span-2">
+                    <Label>Medicine *</Label>
+                    <Input
+                      placeholder="e.g. Tab. Paracetamol 500 mg"
+                      value={item.medicationName}
+                      onChange={(e) => updateItem(index, { medicationName: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Dose *</Label>
+                    <Input placeholder="e.g. 1 tablet" value={item.dosage} onChange={(e) => updateItem(index, { dosage: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Frequency *</Label>
+                    <Input placeholder="e.g. 1-0-1" value={item.frequency} onChange={(e) => updateItem(index, { frequency: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Route</Label>
+                    <Select value={item.route} onValueChange={(route) => updateItem(index, { route })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {routes.map((route) => (
+                          <SelectItem key={route} value={route}>{route}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label>Duration</Label>
+                      <Input placeholder="5 days" value={item.duration} onChange={(e) => updateItem(index, { duration: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label>Qty</Label>
+                      <Input type="number" min={1} value={item.quantity} onChange={(e) => updateItem(index, { quantity: e.target.value })} />
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    <Label>Instructions</Label>
+                    <Input placeholder="e.g. After food" value={item.instructions} onChange={(e) => updateItem(index, { instructions: e.target.value })} />
+                  </div>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setItems([...items, emptyItem])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Medication
+            </Button>
+            <div>
+              <Label>Advice</Label>
+              <Textarea rows={2} value={advice} onChange={(e) => setAdvice(e.target.value)} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button disabled={saveMutation.isPending || !itemsComplete} onClick={() => saveMutation.mutate()}>
+                Save Draft
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Serious interaction alerts need a reason before signing */}
+      <Dialog open={override !== null} onOpenChange={(open) => !open && setOverride(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Interaction Alerts</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {override && <AlertList alerts={override.alerts} />}
+            <div>
+              <Label>Reason to go ahead *</Label>
+              <Textarea
+                rows={2}
+                placeholder="e.g. Benefit outweighs risk; INR to be monitored weekly"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">The override and your reason are recorded against the prescription.</p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setOverride(null)}>Back</Button>
+              <Button
+                variant="destructive"
+                disabled={!overrideReason.trim() || signMutation.isPending}
+                onClick={() => override && signMutation.mutate({ prescription: override.prescription, reason: overrideReason })}
+              >
+                Override and Sign
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelling !== null} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {cancelling?.number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Reason *</Label>
+              <Textarea rows={3} value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setCancelling(null)}>Back</Button>
+              <Button
+                variant="destructive"
+                disabled={!cancelReason.trim() || cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate()}
+              >
+                Cancel Prescription
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
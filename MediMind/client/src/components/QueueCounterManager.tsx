@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DoorOpen, Plus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface QueueCounter {
+  id: number;
+  departmentId: number;
+  doctorId: number | null;
+  name: string;
+  type: "room" | "counter";
+  isActive: boolean | null;
+}
+
+interface Department {
+  id: number;
+  name: string;
+}
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+export default function QueueCounterManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [departmentId, setDepartmentId] = useState<string>("");
+  const [name, setName] = useState("");
+  const [type, setType] = useState<"room" | "counter">("room");
+  const [doctorId, setDoctorId] = useState<string>("none");
+
+  const { data: counters } = useQuery<QueueCounter[]>({
+    queryKey: ["/api/queue/counters"],
+  });
+
+  const { data: departments } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+  });
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save counter. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/queue/counters", {
+        departmentId: parseInt(departmentId),
+        name: name.trim(),
+        type,
+        doctorId: doctorId === "none" ? null : parseInt(doctorId),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Counter Added", description: `${name.trim()} is ready for call-next.` });
+      setName("");
+      setDoctorId("none");
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/counters"] });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<QueueCounter> }) => {
+      const response = await apiRequest("PATCH", `/api/queue/counters/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/counters"] });
+    },
+    onError,
+  });
+
+  const departmentName = (id: number) => departments?.find((department) => department.id === id)?.name || `Department ${id}`;
+  const departmentDoctors = doctors?.filter((doctor) => doctor.departmentId?.toString() === departmentId) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <DoorOpen className="h-5 w-5 mr-2" />
+          Consultation Rooms & Counters
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+          <Select value={departmentId} onValueChange={(value) => { setDepartmentId(value); setDoctorId("none"); }}>
+            <SelectTrigger>
+              <SelectValue placeholder="Department" />
+            </SelectTrigger>
+            <SelectContent>
+              {departments?.map((department) => (
+                <SelectItem key={department.id} value={department.id.toString()}>
+                  {department.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Name, e.g. Room 4" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={type} onValueChange={(value) => setType(value as "room" | "counter")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="room">Room</SelectItem>
+              <SelectItem value="counter">Counter</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={doctorId} onValueChange={setDoctorId} disabled={!departmentId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No fixed doctor</SelectItem>
+              {departmentDoctors.map((doctor) => (
+                <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                  Doctor #{doctor.id}{doctor.specialization ? ` - ${doctor.specialization}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!departmentId || !name.trim() || createMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {counters && counters.length > 0 ? (
+          <div className="space-y-2">
+            {counters.map((counter) => (
+              <div key={counter.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{counter.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {departmentName(counter.departmentId)} · {counter.type}
+                    {counter.doctorId ? ` · Doctor #${counter.doctorId}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-600">{counter.isActive !== false ? "Active" : "Inactive"}</span>
+                  <Switch
+                    checked={counter.isActive !== false}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: counter.id, data: { isActive: checked } })}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No rooms or counters set up yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
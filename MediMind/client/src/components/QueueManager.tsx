@@ -1,12 +1,16 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Clock, Users, Phone, CheckCircle } from "lucide-react";
+import { Clock, Users, Phone, CheckCircle, ListOrdered } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useQueueSocket } from "@/hooks/useQueueSocket";
+import QueueOrderPanel from "@/components/QueueOrderPanel";
+import ActiveTokensPanel from "@/components/ActiveTokensPanel";
 import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { User } from "@shared/schema";
 
 interface QueueStatus {
@@ -16,6 +20,27 @@ interface QueueStatus {
   waitingCount: number;
   averageWaitTime: number;
   estimatedWaitTime: number;
+  calledToken: string | null;
+  calledCounter: string | null;
+  nowServing: Array<{ tokenNumber: string; counterName: string | null }>;
+}
+
+interface QueueCounter {
+  id: number;
+  departmentId: number;
+  name: string;
+  isActive: boolean | null;
+}
+
+// Staff pick their room once per department; remembered on this device
+const COUNTER_STORAGE_KEY = "queueCounters";
+
+function loadSelectedCounters(): Record<number, number> {
+  try {
+    return JSON.parse(localStorage.getItem(COUNTER_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
 }
 
 export default function QueueManager() {
@@ -23,26 +48,65 @@ export default function QueueManager() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch queue status
+  const [socketConnected, setSocketConnected] = useState(false);
+
+  // Fetch queue status - polling is only a fallback while the live channel is down
   const { data: queueStatus, isLoading } = useQuery<QueueStatus[]>({
     queryKey: ["/api/queue/status"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: socketConnected ? false : 30000,
   });
 
+  const { isConnected } = useQueueSocket(
+    queueStatus?.map((queue) => queue.departmentId) ?? []
+  );
+
+  useEffect(() => {
+    setSocketConnected(isConnected);
+  }, [isConnected]);
+
+  const { data: counters } = useQuery<QueueCounter[]>({
+    queryKey: ["/api/queue/counters"],
+  });
+
+  const [selectedCounters, setSelectedCounters] = useState<Record<number, number>>(loadSelectedCounters);
+
+  const departmentCounters = (departmentId: number) =>
+    (counters || []).filter((counter) => counter.departmentId === departmentId && counter.isActive !== false);
+
+  const selectCounter = (departmentId: number, value: string) => {
+    const next = { ...selectedCounters };
+    if (value === "none") {
+      delete next[departmentId];
+    } else {
+      next[departmentId] = parseInt(value);
+    }
+    setSelectedCounters(next);
+    localStorage.setItem(COUNTER_STORAGE_KEY, JSON.stringify(next));
+  };
+
   // Call next token mutation
   const callNextMutation = useMutation({
     mutationFn: async (departmentId: number) => {
-      const response = await apiRequest("POST", "/api/queue/call-next", { departmentId });
+      const response = await apiRequest("POST", "/api/queue/call-next", {
+        departmentId,
+        // Ignore a remembered room that has since been deactivated
+        counterId: departmentCounters(departmentId).some((counter) => counter.id === selectedCounters[departmentId])
+          ? selectedCounters[departmentId]
+          : undefined
+      });
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, departmentId) => {
       toast({
-        title: "Token Called",
-        description: `Token ${data.tokenNumber} has been called to consultation room.`,
+        title: data.tokenNumber ? "Token Called" : "No Token Called",
+        description: data.tokenNumber
+          ? `Token ${data.tokenNumber} has been called to ${data.counterName || "consultation room"}.`
+          : "No waiting patients can be served from this counter.",
         variant: "default"
       });
       // Refresh queue status
       queryClient.invalidateQueries({ queryKey: ["/api/queue/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/departments", departmentId] });
     },
     onError: (error) => {
       toast({
@@ -54,7 +118,11 @@ export default function QueueManager() {
     }
   });
 
+  const [expandedDepartment, setExpandedDepartment] = useState<number | null>(null);
+
   const canCallNext = (user as User | undefined) && ["front-desk", "doctor", "nurse", "admin"].includes((user as User)?.role || "");
+  const canViewOrder = ["front-desk", "doctor", "nurse", "admin", "super-admin", "department-head"].includes((user as User | undefined)?.role || "");
+  const canEditPolicy = ["admin", "super-admin", "department-head"].includes((user as User | undefined)?.role || "");
 
   if (isLoading) {
     return (
@@ -80,8 +148,8 @@ export default function QueueManager() {
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span>Live Queue Status</span>
-          <Badge variant="outline" className="text-xs">
-            Real-time updates
+          <Badge variant="outline" className={`text-xs ${isConnected ? "text-green-600" : "text-gray-500"}`}>
+            {isConnected ? "Real-time updates" : "Refreshing every 30s"}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -117,6 +185,13 @@ export default function QueueManager() {
                       <p className="text-sm text-gray-600">
                         Current: {queue.currentToken}
                       </p>
+                      {queue.nowServing.length > 0 && (
+                        <p className="text-xs text-gray-600">
+                          Serving: {queue.nowServing
+                            .map((serving) => serving.counterName ? `${serving.tokenNumber} (${serving.counterName})` : serving.tokenNumber)
+                            .join(", ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -134,8 +209,48 @@ export default function QueueManager() {
                   </div>
                 </div>
 
-                {canCallNext && (
+                {canViewOrder && (
                   <div className="mt-3 pt-3 border-t border-gray-200">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setExpandedDepartment(
+                        expandedDepartment === queue.departmentId ? null : queue.departmentId
+                      )}
+                    >
+                      <ListOrdered className="h-4 w-4 mr-2" />
+                      {expandedDepartment === queue.departmentId ? "Hide call order" : "Show call order"}
+                    </Button>
+                    {expandedDepartment === queue.departmentId && (
+                      <div className="mt-2">
+                        <QueueOrderPanel departmentId={queue.departmentId} canEditPolicy={canEditPolicy} />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {canCallNext && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+                    <ActiveTokensPanel departmentId={queue.departmentId} />
+                    {departmentCounters(queue.departmentId).length > 0 && (
+                      <Select
+                        value={selectedCounters[queue.departmentId]?.toString() || "none"}
+                        onValueChange={(value) => selectCounter(queue.departmentId, value)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No room selected</SelectItem>
+                          {departmentCounters(queue.departmentId).map((counter) => (
+                            <SelectItem key={counter.id} value={counter.id.toString()}>
+                              {counter.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     <Button
                       onClick={() => callNextMutation.mutate(queue.departmentId)}
                       disabled={callNextMutation.isPending || queue.waitingCount === 0}
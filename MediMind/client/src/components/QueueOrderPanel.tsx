@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type UpdateQueuePolicy } from "@shared/schema";
+
+type QueueOrderReason = "emergency" | "starvation-guard" | "urgent" | "booked" | "normal" | "fifo";
+
+interface QueuePolicy {
+  strategy: string;
+  emergencyPreempts: boolean | null;
+  urgentBoostMinutes: number | null;
+  emergencyBoostMinutes: number | null;
+  bookedBoostMinutes: number | null;
+  maxWaitMinutes: number | null;
+  dayResetTime: string | null;
+}
+
+interface OrderedToken {
+  position: number;
+  id: number;
+  tokenNumber: string;
+  patientId: number | null;
+  doctorId: number | null;
+  priority: number | null;
+  createdAt: string;
+  waitedMinutes: number;
+  effectiveWaitMinutes: number;
+  reason: QueueOrderReason;
+}
+
+interface QueueOrder {
+  policy: QueuePolicy;
+  tokens: OrderedToken[];
+}
+
+interface QueueOrderPanelProps {
+  departmentId: number;
+  canEditPolicy: boolean;
+}
+
+const reasonLabels: Record<QueueOrderReason, string> = {
+  "emergency": "Emergency",
+  "starvation-guard": "Waited too long",
+  "urgent": "Urgent",
+  "booked": "Booked slot",
+  "normal": "Normal",
+  "fifo": "Arrival order",
+};
+
+const getReasonColor = (reason: QueueOrderReason) => {
+  switch (reason) {
+    case "emergency": return "bg-red-100 text-red-800";
+    case "starvation-guard": return "bg-purple-100 text-purple-800";
+    case "urgent": return "bg-orange-100 text-orange-800";
+    case "booked": return "bg-green-100 text-green-800";
+    default: return "bg-blue-100 text-blue-800";
+  }
+};
+
+export default function QueueOrderPanel({ departmentId, canEditPolicy }: QueueOrderPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<UpdateQueuePolicy>({});
+
+  const { data: order, isLoading } = useQuery<QueueOrder>({
+    queryKey: ["/api/queue/departments", departmentId, "order"],
+  });
+
+  useEffect(() => {
+    if (order?.policy && !editing) {
+      setDraft({
+        strategy: order.policy.strategy as "priority" | "fifo",
+        emergencyPreempts: order.policy.emergencyPreempts ?? true,
+        urgentBoostMinutes: order.policy.urgentBoostMinutes ?? 0,
+        emergencyBoostMinutes: order.policy.emergencyBoostMinutes ?? 0,
+        bookedBoostMinutes: order.policy.bookedBoostMinutes ?? 0,
+        maxWaitMinutes: order.policy.maxWaitMinutes,
+        dayResetTime: order.policy.dayResetTime ?? "00:00",
+      });
+    }
+  }, [order?.policy, editing]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (policy: UpdateQueuePolicy) => {
+      const response = await apiRequest("PUT", `/api/queue/departments/${departmentId}/policy`, policy);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Queue Policy Saved", description: "The new ordering applies immediately." });
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/departments", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/status"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save queue policy. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  const parseMinutes = (value: string) => (value === "" ? 0 : Math.max(0, parseInt(value) || 0));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {order?.policy.strategy === "fifo" ? "Arrival order" : "Priority with aging"}
+          {order?.policy.emergencyPreempts ? " · emergencies first" : ""}
+        </span>
+        {canEditPolicy && !editing && (
+          <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>
+            Edit policy
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="p-3 bg-white rounded-lg border space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Strategy</Label>
+              <Select
+                value={draft.strategy}
+                onValueChange={(value) => setDraft({ ...draft, strategy: value as "priority" | "fifo" })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="priority">Priority with aging</SelectItem>
+                  <SelectItem value="fifo">Arrival order</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2 pt-5">
+              <Switch
+                checked={!!draft.emergencyPreempts}
+                onCheckedChange={(checked) => setDraft({ ...draft, emergencyPreempts: checked })}
+              />
+              <Label className="text-xs">Emergencies preempt</Label>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Urgent head start (min)</Label>
+              <Input
+                type="number"
+                className="h-8"
+                value={draft.urgentBoostMinutes ?? 0}
+                onChange={(e) => setDraft({ ...draft, urgentBoostMinutes: parseMinutes(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Emergency head start (min)</Label>
+              <Input
+                type="number"
+                className="h-8"
+                value={draft.emergencyBoostMinutes ?? 0}
+                onChange={(e) => setDraft({ ...draft, emergencyBoostMinutes: parseMinutes(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Booked slot head start (min)</Label>
+              <Input
+                type="number"
+                className="h-8"
+                value={draft.bookedBoostMinutes ?? 0}
+                onChange={(e) => setDraft({ ...draft, bookedBoostMinutes: parseMinutes(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max wait before jumping ahead (min, blank = none)</Label>
+              <Input
+                type="number"
+                className="h-8"
+                value={draft.maxWaitMinutes ?? ""}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  maxWaitMinutes: e.target.value === "" ? null : Math.max(1, parseInt(e.target.value) || 1)
+                })}
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Token numbers restart at (set after midnight for overnight OPD)</Label>
+              <Input
+                type="time"
+                className="h-8"
+                value={draft.dayResetTime ?? "00:00"}
+                onChange={(e) => setDraft({ ...draft, dayResetTime: e.target.value || "00:00" })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => savePolicyMutation.mutate(draft)}
+              disabled={savePolicyMutation.isPending}
+            >
+              {savePolicyMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {order && order.tokens.length > 0 ? (
+        <ol className="space-y-1">
+          {order.tokens.map((token) => (
+            <li
+              key={token.id}
+              className="flex items-center justify-between px-3 py-2 bg-white rounded border text-sm"
+            >
+              <div className="flex items-center space-x-3">
+                <span className="w-6 text-gray-500">{token.position}.</span>
+                <span className="font-mono font-medium">{token.tokenNumber}</span>
+                <Badge className={getReasonColor(token.reason)}>{reasonLabels[token.reason]}</Badge>
+              </div>
+              <span className="text-xs text-gray-600">
+                waited {token.waitedMinutes} min
+                {token.effectiveWaitMinutes !== token.waitedMinutes && ` (counts as ${token.effectiveWaitMinutes})`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-2">No patients waiting</p>
+      )}
+    </div>
+  );
+}
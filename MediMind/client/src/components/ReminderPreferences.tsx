@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CalendarClock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { REMINDER_CHANNELS } from "@shared/schema";
+
+type ReminderChannel = typeof REMINDER_CHANNELS[number];
+
+interface ReminderPreferencesData {
+  remindersOptOut: boolean;
+  reminderChannels: ReminderChannel[] | null;
+  offsetsMinutes: number[];
+}
+
+const channelLabels: Record<ReminderChannel, string> = {
+  "in-app": "In-app notification",
+  "sms": "SMS",
+  "email": "Email",
+  "whatsapp": "WhatsApp",
+};
+
+const formatOffset = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+export default function ReminderPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery<ReminderPreferencesData>({
+    queryKey: ["/api/reminder-preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Pick<ReminderPreferencesData, "remindersOptOut" | "reminderChannels">) => {
+      const response = await apiRequest("PUT", "/api/reminder-preferences", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/reminder-preferences"], data);
+      toast({ title: "Reminder Preferences Saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (!preferences) return null;
+
+  const channels = preferences.reminderChannels ?? [...REMINDER_CHANNELS];
+
+  const toggleChannel = (channel: ReminderChannel, checked: boolean) => {
+    const next = checked ? [...channels, channel] : channels.filter((current) => current !== channel);
+    if (next.length === 0) {
+      toast({ title: "Keep at least one channel", description: "Turn reminders off instead to stop them altogether." });
+      return;
+    }
+    updateMutation.mutate({
+      remindersOptOut: preferences.remindersOptOut,
+      reminderChannels: next.length === REMINDER_CHANNELS.length ? null : next,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5" />
+          <span>Appointment Reminders</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label>Send me reminders</Label>
+            <p className="text-sm text-gray-600">
+              {preferences.offsetsMinutes.map(formatOffset).join(" and ")} before each appointment
+            </p>
+          </div>
+          <Switch
+            checked={!preferences.remindersOptOut}
+            disabled={updateMutation.isPending}
+            onCheckedChange={(checked) => updateMutation.mutate({
+              remindersOptOut: !checked,
+              reminderChannels: preferences.reminderChannels,
+            })}
+          />
+        </div>
+
+        {!preferences.remindersOptOut && (
+          <div className="grid grid-cols-2 gap-3">
+            {REMINDER_CHANNELS.map((channel) => (
+              <div key={channel} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`reminder-channel-${channel}`}
+                  checked={channels.includes(channel)}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                />
+                <Label htmlFor={`reminder-channel-${channel}`} className="text-sm">{channelLabels[channel]}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -36,11 +36,17 @@ interface NavigationItem {
 }
 
 const navigationItems: NavigationItem[] = [
+  {
+    path: "/portal",
+    label: "My Portal",
+    icon: <Home className="h-4 w-4" />,
+    roles: ["patient"]
+  },
   {
     path: "/",
     label: "Dashboard",
     icon: <Home className="h-4 w-4" />,
-    roles: ["patient", "doctor", "nurse", "front-desk", "admin", "super-admin", "insurance", "pharmacy", "department-head", "ssd"]
+    roles: ["doctor", "nurse", "front-desk", "admin", "super-admin", "insurance", "pharmacy", "department-head", "ssd"]
   },
   {
     path: "/patients",
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,8 +8,9 @@ import { QrCode, Download, Printer, Copy, Clock, MapPin, User } from "lucide-rea
 import { useToast } from "@/hooks/use-toast";
 
 interface TokenData {
+  tokenId?: number;
   tokenNumber: string;
-  qrCode: string;
+  qrCode: string; // signed code from the server, rendered to an image here
   patientName: string;
   department: string;
   estimatedWaitTime: number;
@@ -25,6 +27,17 @@ interface TokenModalProps {
 
 export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalProps) {
   const { toast } = useToast();
+  const [qrImage, setQrImage] = useState<string>("");
+
+  useEffect(() => {
+    if (!tokenData?.qrCode) {
+      setQrImage("");
+      return;
+    }
+    QRCode.toDataURL(tokenData.qrCode, { errorCorrectionLevel: "M", margin: 1, width: 256 })
+      .then(setQrImage)
+      .catch((error) => console.error("QR render error:", error));
+  }, [tokenData?.qrCode]);
 
   if (!tokenData) return null;
 
@@ -37,6 +50,16 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
   };
 
   const handlePrintToken = () => {
+    // Issued tokens print the server-rendered 80mm slip
+    if (tokenData.tokenId) {
+      window.open(`/api/queue/tokens/${tokenData.tokenId}/slip?format=pdf`, '_blank');
+      toast({
+        title: "Token Slip Opened",
+        description: "Print the slip from the new tab",
+      });
+      return;
+    }
+
     // Create a new window for printing
     const printWindow = window.open('', '_blank');
     if (printWindow) {
@@ -46,37 +69,43 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
         <head>
           <title>Patient Token - ${tokenData.tokenNumber}</title>
           <style>
+            @page {
+              size: 80mm auto;
+              margin: 0;
+            }
             body {
               font-family: Arial, sans-serif;
-              padding: 20px;
+              width: 72mm;
+              margin: 0 auto;
+              padding: 4mm 0;
               text-align: center;
+              color: #000;
             }
             .token-container {
-              border: 2px solid #333;
-              padding: 20px;
-              margin: 20px auto;
-              max-width: 400px;
-              border-radius: 10px;
+              padding: 0;
+            }
+            h1 {
+              font-size: 14px;
+              margin: 0 0 4px;
             }
             .token-number {
-              font-size: 48px;
+              font-size: 40px;
               font-weight: bold;
-              color: #16a34a;
-              margin: 20px 0;
+              margin: 8px 0;
             }
             .qr-code {
-              margin: 20px 0;
+              margin: 8px 0;
             }
             .info {
               text-align: left;
-              margin: 15px 0;
+              font-size: 12px;
+              margin: 8px 0;
             }
             .info strong {
               display: inline-block;
-              width: 120px;
+              width: 26mm;
             }
             @media print {
-              body { margin: 0; }
               .no-print { display: none; }
             }
           </style>
@@ -86,7 +115,7 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
             <h1>Hospital Queue Token</h1>
             <div class="token-number">${tokenData.tokenNumber}</div>
             <div class="qr-code">
-              <img src="${tokenData.qrCode}" alt="QR Code" style="width: 150px; height: 150px;" />
+              <img src="${qrImage}" alt="QR Code" style="width: 40mm; height: 40mm;" />
             </div>
             <div class="info">
               <div><strong>Patient:</strong> ${tokenData.patientName}</div>
@@ -95,8 +124,8 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
               ${tokenData.appointmentTime ? `<div><strong>Appointment:</strong> ${tokenData.appointmentTime}</div>` : ''}
               ${tokenData.consultationRoom ? `<div><strong>Room:</strong> ${tokenData.consultationRoom}</div>` : ''}
             </div>
-            ${tokenData.instructions ? `<div style="margin-top: 20px; padding: 10px; background: #f0f0f0; border-radius: 5px; text-align: left;"><strong>Instructions:</strong><br/>${tokenData.instructions}</div>` : ''}
-            <div style="margin-top: 20px; font-size: 12px; color: #666;">
+            ${tokenData.instructions ? `<div style="margin-top: 8px; font-size: 12px; text-align: left;"><strong>Instructions:</strong><br/>${tokenData.instructions}</div>` : ''}
+            <div style="margin-top: 8px; font-size: 11px;">
               Please keep this token safe and present it when called.
             </div>
           </div>
@@ -104,8 +133,11 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
         </html>
       `);
       printWindow.document.close();
-      printWindow.print();
-      printWindow.close();
+      // Wait for the QR image so it is not missing from the slip
+      printWindow.onload = () => {
+        printWindow.print();
+        printWindow.close();
+      };
     }
     
     toast({
@@ -117,7 +149,7 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
   const handleDownloadQR = () => {
     // Create a download link for the QR code
     const link = document.createElement('a');
-    link.href = tokenData.qrCode;
+    link.href = qrImage;
     link.download = `token-${tokenData.tokenNumber}-qr.png`;
     document.body.appendChild(link);
     link.click();
@@ -155,11 +187,15 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
               {/* QR Code */}
               <div className="flex justify-center mb-4">
                 <div className="p-4 bg-white rounded-lg border">
-                  <img 
-                    src={tokenData.qrCode} 
-                    alt="QR Code" 
-                    className="w-32 h-32"
-                  />
+                  {qrImage ? (
+                    <img 
+                      src={qrImage} 
+                      alt="QR Code" 
+                      className="w-32 h-32"
+                    />
+                  ) : (
+                    <QrCode className="w-32 h-32 text-gray-300" />
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -209,11 +245,11 @@ export default function TokenModal({ isOpen, onClose, tokenData }: TokenModalPro
               <Copy className="h-4 w-4 mr-2" />
               Copy Token
             </Button>
-            <Button onClick={handleDownloadQR} variant="outline" size="sm">
+            <Button onClick={handleDownloadQR} variant="outline" size="sm" disabled={!qrImage}>
               <Download className="h-4 w-4 mr-2" />
               Download QR
             </Button>
-            <Button onClick={handlePrintToken} variant="outline" size="sm">
+            <Button onClick={handlePrintToken} variant="outline" size="sm" disabled={!qrImage}>
               <Printer className="h-4 w-4 mr-2" />
               Print Token
             </Button>
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListPlus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface WaitlistOffer {
+  id: number;
+  slotStart: string;
+  expiresAt: string;
+}
+
+interface WaitlistEntry {
+  id: number;
+  patientId: number;
+  doctorId: number | null;
+  departmentId: number | null;
+  earliestDate: string | null;
+  latestDate: string | null;
+  timeOfDay: string | null;
+  status: string | null;
+  createdAt: string;
+  offer: WaitlistOffer | null;
+}
+
+interface Department {
+  id: number;
+  name: string;
+}
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+interface WaitlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: string;
+}
+
+const timeOfDayLabels: Record<string, string> = {
+  any: "Any time",
+  morning: "Morning (before 12:00)",
+  afternoon: "Afternoon (12:00-17:00)",
+  evening: "Evening (after 17:00)",
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString([], { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+export default function WaitlistDialog({ open, onOpenChange, role }: WaitlistDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isPatient = role === "patient";
+  const [patientCode, setPatientCode] = useState("");
+  const [departmentId, setDepartmentId] = useState("");
+  const [doctorId, setDoctorId] = useState("any");
+  const [earliestDate, setEarliestDate] = useState("");
+  const [latestDate, setLatestDate] = useState("");
+  const [timeOfDay, setTimeOfDay] = useState("any");
+
+  const { data: entries } = useQuery<WaitlistEntry[]>({
+    queryKey: [isPatient ? "/api/waitlist" : "/api/waitlist?status=waiting"],
+    enabled: open,
+  });
+
+  // Entries with a slot on offer are "offered" rather than "waiting"
+  const { data: offered } = useQuery<WaitlistEntry[]>({
+    queryKey: ["/api/waitlist?status=offered"],
+    enabled: open && !isPatient,
+  });
+
+  const { data: departments } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+    enabled: open,
+  });
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+    enabled: open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist?status=waiting"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist?status=offered"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/waitlist", {
+        patientCode: isPatient ? undefined : patientCode.trim(),
+        departmentId: departmentId ? parseInt(departmentId) : undefined,
+        doctorId: doctorId === "any" ? undefined : parseInt(doctorId),
+        earliestDate: earliestDate || undefined,
+        latestDate: latestDate || undefined,
+        timeOfDay,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Added to Waitlist", description: "A matching slot will be offered as soon as one frees up." });
+      setPatientCode("");
+      refresh();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/waitlist/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ offerId, response }: { offerId: number; response: "accept" | "decline" }) => {
+      const result = await apiRequest("POST", `/api/waitlist/offers/${offerId}/${response}`);
+      return result.json();
+    },
+    onSuccess: (_data, { response }) => {
+      toast({ title: response === "accept" ? "Appointment Booked" : "Offer Declined" });
+      refresh();
+    },
+    onError: (error: Error) => {
+      onError(error);
+      refresh();
+    },
+  });
+
+  const departmentName = (id: number | null) => departments?.find((department) => department.id === id)?.name;
+  const departmentDoctors = doctors?.filter((doctor) => doctor.departmentId?.toString() === departmentId) ?? [];
+  const shown = [...(offered ?? []), ...(entries ?? [])].filter((entry) => ["waiting", "offered"].includes(entry.status || "waiting"));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Waitlist</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {!isPatient && (
+              <Input placeholder="Patient ID, e.g. PAT-000123" value={patientCode} onChange={(e) => setPatientCode(e.target.value)} />
+            )}
+            <Select value={departmentId} onValueChange={(value) => { setDepartmentId(value); setDoctorId("any"); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments?.map((department) => (
+                  <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={doctorId} onValueChange={setDoctorId} disabled={!departmentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any doctor</SelectItem>
+                {departmentDoctors.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                    Doctor #{doctor.id}{doctor.specialization ? ` - ${doctor.specialization}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div>
+              <Label htmlFor="waitlist-from" className="text-xs">From</Label>
+              <Input id="waitlist-from" type="date" value={earliestDate} onChange={(e) => setEarliestDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="waitlist-to" className="text-xs">To</Label>
+              <Input id="waitlist-to" type="date" value={latestDate} onChange={(e) => setLatestDate(e.target.value)} />
+            </div>
+            <div>
+              <Label className="text-xs">Time of Day</Label>
+              <Select value={timeOfDay} onValueChange={setTimeOfDay}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(timeOfDayLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            onClick={() => joinMutation.mutate()}
+            disabled={!departmentId || (!isPatient && !patientCode.trim()) || joinMutation.isPending}
+          >
+            <ListPlus className="h-4 w-4 mr-2" />
+            {joinMutation.isPending ? "Adding..." : "Join Waitlist"}
+          </Button>
+
+          {shown.length > 0 ? (
+            <div className="space-y-2">
+              {shown.map((entry) => (
+                <div key={entry.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">
+                        {entry.doctorId ? `Doctor #${entry.doctorId}` : departmentName(entry.departmentId) || "Any doctor"}
+                        {!isPatient && <span className="text-sm text-gray-500"> · Patient #{entry.patientId}</span>}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {entry.earliestDate || "Now"} to {entry.latestDate || "any date"} · {timeOfDayLabels[entry.timeOfDay || "any"]}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{entry.status}</Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate(entry.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {entry.offer && (
+                    <div className="flex items-center justify-between p-2 rounded bg-green-50 border border-green-200">
+                      <p className="text-sm text-green-800">
+                        Slot held: {formatDateTime(entry.offer.slotStart)} · until {formatDateTime(entry.offer.expiresAt)}
+                      </p>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          disabled={respondMutation.isPending}
+                          onClick={() => respondMutation.mutate({ offerId: entry.offer!.id, response: "accept" })}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={respondMutation.isPending}
+                          onClick={() => respondMutation.mutate({ offerId: entry.offer!.id, response: "decline" })}
+                        >
+                          Decline
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{isPatient ? "You are not on any waitlist" : "Nobody is on the waitlist"}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+export type QueueEventType =
+  | "token.created"
+  | "token.called"
+  | "token.in-progress"
+  | "token.completed"
+  | "token.skipped"
+  | "token.recalled"
+  | "token.no-show"
+  | "token.transferred";
+
+export interface QueueEvent {
+  type: QueueEventType;
+  departmentId: number;
+  token: {
+    id: number;
+    tokenNumber: string;
+    departmentId: number | null;
+    doctorId: number | null;
+    priority: number | null;
+    status: string | null;
+    estimatedWaitTime: number | null;
+    recallCount: number | null;
+    counterId: number | null;
+    counterName: string | null;
+    createdAt: string | null;
+    calledAt: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    patientId?: number | null;
+  };
+  timestamp: string;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Subscribes to live queue events for the given departments and keeps
+// the queue status and per-department order queries fresh without polling
+export function useQueueSocket(
+  departmentIds: number[],
+  onEvent?: (event: QueueEvent) => void
+) {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  const departmentKey = [...departmentIds].sort((a, b) => a - b).join(",");
+
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!departmentKey) return;
+
+    const ids = departmentKey.split(",").map(Number);
+    let reconnectDelay = 1000;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closedByUs = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws/queue`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        setIsConnected(true);
+        socket.send(JSON.stringify({ type: "subscribe", departmentIds: ids }));
+      };
+
+      socket.onmessage = (message) => {
+        let data: any;
+        try {
+          data = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        if (typeof data?.type !== "string" || !data.type.startsWith("token.")) return;
+
+        queryClient.invalidateQueries({ queryKey: ["/api/queue/status"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/queue/departments", data.departmentId] });
+        onEventRef.current?.(data as QueueEvent);
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closedByUs) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByUs = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [departmentKey, queryClient]);
+
+  return { isConnected };
+}
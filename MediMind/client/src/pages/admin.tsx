@@ -37,6 +37,7 @@ import RoleBasedLayout from "@/components/RoleBasedLayout";
 import { UserRoleManager } from "@/components/UserRoleManager";
 import { AdminDashboard } from "@/components/AdminDashboard";
 import { AuditLogViewer } from "@/components/AuditLogViewer";
+import { PatientMergeManager } from "@/components/PatientMergeManager";
 
 interface SystemUser {
   id: string;
@@ -347,6 +348,15 @@ export default function Admin() {
           <AuditLogViewer />
         </div>
 
+        {/* Duplicate Patients Section */}
+        <div className="space-y-6">
+          <h2 className="text-xl font-semibold flex items-center space-x-2">
+            <Database className="h-5 w-5" />
+            <span>Duplicate Patients</span>
+          </h2>
+          <PatientMergeManager />
+        </div>
+
         {/* User Management Section */}
         <div className="space-y-6">
           <h2 className="text-xl font-semibold flex items-center space-x-2">
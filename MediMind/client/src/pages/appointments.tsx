@@ -8,11 +8,15 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar, Clock, User, MapPin, Plus, Edit, Trash2, Search } from "lucide-react";
+import { Calendar, CalendarPlus, Clock, User, MapPin, ListPlus, Plus, Repeat, Search } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import RoleBasedLayout from "@/components/RoleBasedLayout";
+import AppointmentActions from "@/components/AppointmentActions";
+import AppointmentSeriesDialog from "@/components/AppointmentSeriesDialog";
+import WaitlistDialog from "@/components/WaitlistDialog";
+import CalendarFeedDialog from "@/components/CalendarFeedDialog";
 import { User as UserType } from "@shared/schema";
 
 interface Appointment {
@@ -20,9 +24,11 @@ interface Appointment {
   patientName: string;
   doctorName: string;
   department: string;
+  doctorId: number | null;
+  seriesId: number | null;
   appointmentDate: string;
   appointmentTime: string;
-  status: "scheduled" | "confirmed" | "in-progress" | "completed" | "cancelled";
+  status: "scheduled" | "confirmed" | "in-progress" | "completed" | "cancelled" | "no-show" | "held";
   notes?: string;
   consultationRoom?: string;
   createdAt: string;
@@ -33,9 +39,35 @@ interface Doctor {
   name: string;
   specialization: string;
   department: string;
+  departmentId: number | null;
   isAvailable: boolean;
 }
 
+interface AppointmentSlot {
+  doctorId: number;
+  date: string;
+  start: string;
+  end: string;
+  status: "open" | "booked" | "full";
+}
+
+// 409 body returned when a booking collides with another appointment
+interface BookingConflictResponse {
+  message: string;
+  code: "APPOINTMENT_CONFLICT";
+  conflicts: { type: "doctor" | "patient" | "room"; start: string; end: string; appointmentId?: number }[];
+  alternatives: { doctorId: number; departmentId: number | null; roomId: number | null; start: string; end: string }[];
+}
+
+// apiRequest errors read "<status>: <body>"
+function errorBody(error: Error): { message?: string; code?: string } | null {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, ""));
+  } catch {
+    return null;
+  }
+}
+
 export default function Appointments() {
   const { user, isLoading, isAuthenticated } = useAuth();
   const { toast } = useToast();
@@ -46,6 +78,12 @@ export default function Appointments() {
   const [selectedDoctorId, setSelectedDoctorId] = useState<string>("");
   const [showDoctorCalendar, setShowDoctorCalendar] = useState(false);
   const [calendarDate, setCalendarDate] = useState(new Date().toISOString().split('T')[0]);
+  const [bookingDate, setBookingDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedSlot, setSelectedSlot] = useState<string>("");
+  const [conflict, setConflict] = useState<BookingConflictResponse | null>(null);
+  const [showSeries, setShowSeries] = useState(false);
+  const [showWaitlist, setShowWaitlist] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -76,9 +114,16 @@ export default function Appointments() {
     enabled: isAuthenticated,
   });
 
-  // Fetch doctor's appointments for calendar view
-  const { data: doctorAppointments } = useQuery<Appointment[]>({
-    queryKey: [`/api/appointments/doctor/${selectedDoctorId}/${calendarDate}`],
+  // Open slots from the doctor's schedule for the booking form
+  const { data: openSlots, isLoading: slotsLoading } = useQuery<AppointmentSlot[]>({
+    queryKey: [`/api/appointments/availability?doctorId=${selectedDoctorId}&from=${bookingDate}`],
+    retry: false,
+    enabled: Boolean(isAuthenticated && selectedDoctorId && showNewAppointment),
+  });
+
+  // Every slot, booked or not, for the calendar view
+  const { data: calendarSlots } = useQuery<AppointmentSlot[]>({
+    queryKey: [`/api/appointments/availability?doctorId=${selectedDoctorId}&from=${calendarDate}&all=true`],
     retry: false,
     enabled: Boolean(isAuthenticated && selectedDoctorId && showDoctorCalendar),
   });
@@ -95,9 +140,11 @@ export default function Appointments() {
         description: "Appointment created successfully",
       });
       setShowNewAppointment(false);
+      setSelectedSlot("");
+      setConflict(null);
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -109,9 +156,16 @@ export default function Appointments() {
         }, 500);
         return;
       }
+      // The slot may have been taken since the list was loaded
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/availability?doctorId=${selectedDoctorId}&from=${bookingDate}`] });
+      const body = errorBody(error);
+      if (body?.code === "APPOINTMENT_CONFLICT") {
+        setConflict(body as BookingConflictResponse);
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to create appointment. Please try again.",
+        description: body?.message || "Failed to create appointment. Please try again.",
         variant: "destructive",
       });
     },
@@ -138,11 +192,42 @@ export default function Appointments() {
       "confirmed": "bg-green-100 text-green-800",
       "in-progress": "bg-yellow-100 text-yellow-800",
       "completed": "bg-gray-100 text-gray-800",
-      "cancelled": "bg-red-100 text-red-800"
+      "cancelled": "bg-red-100 text-red-800",
+      "no-show": "bg-orange-100 text-orange-800",
+      "held": "bg-purple-100 text-purple-800"
     };
     return colors[status as keyof typeof colors] || "bg-gray-100 text-gray-800";
   };
 
+  const formatSlotTime = (value: string) => {
+    return new Date(value).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatSlotDateTime = (value: string) => {
+    return new Date(value).toLocaleString([], {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const chooseAlternative = (alternative: BookingConflictResponse["alternatives"][number]) => {
+    const start = new Date(alternative.start);
+    setSelectedDoctorId(alternative.doctorId.toString());
+    setBookingDate([
+      start.getFullYear(),
+      (start.getMonth() + 1).toString().padStart(2, '0'),
+      start.getDate().toString().padStart(2, '0'),
+    ].join('-'));
+    setSelectedSlot(alternative.start);
+    setConflict(null);
+  };
+
   const formatTime = (timeString: string) => {
     return new Date(`2000-01-01T${timeString}`).toLocaleTimeString([], {
       hour: '2-digit',
@@ -166,12 +251,30 @@ export default function Appointments() {
             <p className="text-gray-600">Manage patient appointments and schedules</p>
           </div>
           
-          {((user as UserType).role === "front-desk" || (user as UserType).role === "admin" || (user as UserType).role === "doctor") && (
-            <Button onClick={() => setShowNewAppointment(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Appointment
+          <div className="flex space-x-2">
+            {((user as UserType).role === "doctor" || (user as UserType).role === "patient") && (
+              <Button variant="outline" onClick={() => setShowCalendarFeed(true)}>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Subscribe
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShowWaitlist(true)}>
+              <ListPlus className="h-4 w-4 mr-2" />
+              Waitlist
             </Button>
-          )}
+            {((user as UserType).role === "front-desk" || (user as UserType).role === "admin" || (user as UserType).role === "doctor") && (
+              <>
+                <Button variant="outline" onClick={() => setShowSeries(true)}>
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Recurring
+                </Button>
+                <Button onClick={() => setShowNewAppointment(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Appointment
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -251,16 +354,7 @@ export default function Appointments() {
                         {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
                       </Badge>
                       
-                      {((user as UserType).role === "front-desk" || (user as UserType).role === "admin") && (
-                        <div className="flex space-x-2">
-                          <Button variant="outline" size="sm">
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      )}
+                      <AppointmentActions appointment={appointment} role={(user as UserType).role} />
                     </div>
                   </div>
                   
@@ -296,11 +390,12 @@ export default function Appointments() {
             <form onSubmit={(e) => {
               e.preventDefault();
               const formData = new FormData(e.currentTarget);
+              if (!selectedSlot) return;
               createAppointmentMutation.mutate({
                 patientName: formData.get('patientName'),
-                doctorId: formData.get('doctorId'),
-                appointmentDate: formData.get('appointmentDate'),
-                appointmentTime: formData.get('appointmentTime'),
+                doctorId: selectedDoctorId,
+                departmentId: doctors?.find(d => d.id.toString() === selectedDoctorId)?.departmentId,
+                appointmentDate: selectedSlot,
                 notes: formData.get('notes')
               });
             }}>
@@ -316,7 +411,12 @@ export default function Appointments() {
                     <Select 
                       name="doctorId" 
                       required 
-                      onValueChange={(value) => setSelectedDoctorId(value)}
+                      value={selectedDoctorId}
+                      onValueChange={(value) => {
+                        setSelectedDoctorId(value);
+                        setSelectedSlot("");
+                        setConflict(null);
+                      }}
                     >
                       <SelectTrigger className="flex-1">
                         <SelectValue placeholder="Select a doctor" />
@@ -347,16 +447,44 @@ export default function Appointments() {
                   <Label htmlFor="appointmentDate">Date</Label>
                   <Input 
                     id="appointmentDate" 
-                    name="appointmentDate" 
                     type="date" 
+                    value={bookingDate}
+                    onChange={(e) => {
+                      setBookingDate(e.target.value);
+                      setSelectedSlot("");
+                      setConflict(null);
+                    }}
                     min={new Date().toISOString().split('T')[0]}
                     required 
                   />
                 </div>
                 
                 <div>
-                  <Label htmlFor="appointmentTime">Time</Label>
-                  <Input id="appointmentTime" name="appointmentTime" type="time" required />
+                  <Label>Time</Label>
+                  {!selectedDoctorId ? (
+                    <p className="text-sm text-gray-500">Select a doctor to see open slots.</p>
+                  ) : slotsLoading ? (
+                    <p className="text-sm text-gray-500">Loading slots...</p>
+                  ) : openSlots && openSlots.length > 0 ? (
+                    <div className="grid grid-cols-4 gap-2 max-h-40 overflow-y-auto">
+                      {openSlots.map((slot) => (
+                        <Button
+                          key={slot.start}
+                          type="button"
+                          size="sm"
+                          variant={selectedSlot === slot.start ? "default" : "outline"}
+                          onClick={() => {
+                            setSelectedSlot(slot.start);
+                            setConflict(null);
+                          }}
+                        >
+                          {formatSlotTime(slot.start)}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">No open slots on this day. Try another date.</p>
+                  )}
                 </div>
                 
                 <div>
@@ -364,13 +492,46 @@ export default function Appointments() {
                   <Input id="notes" name="notes" placeholder="Additional notes..." />
                 </div>
                 
+                {conflict && (
+                  <div className="p-3 rounded-lg border border-red-200 bg-red-50 space-y-2">
+                    <p className="text-sm font-medium text-red-800">{conflict.message}</p>
+                    {conflict.conflicts.map((item, index) => (
+                      <p key={index} className="text-xs text-red-700">
+                        {item.type === "patient" ? "Patient" : item.type === "doctor" ? "Doctor" : "Room"} busy{" "}
+                        {formatSlotTime(item.start)}-{formatSlotTime(item.end)}
+                      </p>
+                    ))}
+                    {conflict.alternatives.length > 0 ? (
+                      <div className="space-y-1">
+                        <p className="text-xs text-gray-700">Available instead:</p>
+                        <div className="flex flex-wrap gap-2">
+                          {conflict.alternatives.map((alternative) => (
+                            <Button
+                              key={`${alternative.doctorId}-${alternative.start}`}
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              onClick={() => chooseAlternative(alternative)}
+                            >
+                              {formatSlotDateTime(alternative.start)}
+                              {alternative.doctorId.toString() !== selectedDoctorId && ` · Doctor #${alternative.doctorId}`}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-700">No alternative slots in the next two weeks.</p>
+                    )}
+                  </div>
+                )}
+                
                 <div className="flex space-x-2 pt-4">
                   <Button type="button" variant="outline" onClick={() => setShowNewAppointment(false)} className="flex-1">
                     Cancel
                   </Button>
                   <Button 
                     type="submit" 
-                    disabled={createAppointmentMutation.isPending}
+                    disabled={createAppointmentMutation.isPending || !selectedSlot}
                     className="flex-1"
                   >
                     {createAppointmentMutation.isPending ? "Creating..." : "Create Appointment"}
@@ -381,6 +542,10 @@ export default function Appointments() {
           </DialogContent>
         </Dialog>
 
+        <AppointmentSeriesDialog open={showSeries} onOpenChange={setShowSeries} />
+        <WaitlistDialog open={showWaitlist} onOpenChange={setShowWaitlist} role={(user as UserType).role} />
+        <CalendarFeedDialog open={showCalendarFeed} onOpenChange={setShowCalendarFeed} role={(user as UserType).role} />
+
         {/* Doctor Calendar Modal */}
         <Dialog open={showDoctorCalendar} onOpenChange={setShowDoctorCalendar}>
           <DialogContent className="max-w-4xl">
@@ -411,37 +576,38 @@ export default function Appointments() {
               </div>
 
               {/* Time Slots Grid */}
+              {calendarSlots && calendarSlots.length === 0 && (
+                <p className="text-center text-gray-500 py-8">
+                  No working sessions on this day (off duty, on leave or a holiday).
+                </p>
+              )}
               <div className="grid grid-cols-4 gap-2 max-h-96 overflow-y-auto">
-                {generateTimeSlots().map((timeSlot) => {
-                  const isBooked = doctorAppointments?.some(apt => 
-                    formatTime(apt.appointmentTime) === timeSlot
-                  );
-                  const bookedAppointment = doctorAppointments?.find(apt => 
-                    formatTime(apt.appointmentTime) === timeSlot
-                  );
+                {calendarSlots?.map((slot) => {
+                  const isOpen = slot.status === "open";
                   
                   return (
                     <Card 
-                      key={timeSlot} 
-                      className={`cursor-pointer transition-colors ${
-                        isBooked 
-                          ? 'bg-red-50 border-red-200 hover:bg-red-100' 
-                          : 'bg-green-50 border-green-200 hover:bg-green-100'
+                      key={slot.start} 
+                      className={`transition-colors ${
+                        isOpen 
+                          ? 'cursor-pointer bg-green-50 border-green-200 hover:bg-green-100' 
+                          : 'bg-red-50 border-red-200'
                       }`}
+                      onClick={() => {
+                        if (!isOpen) return;
+                        setBookingDate(calendarDate);
+                        setSelectedSlot(slot.start);
+                        setShowDoctorCalendar(false);
+                      }}
                     >
                       <CardContent className="p-3">
                         <div className="text-center">
-                          <div className="font-medium text-sm">{timeSlot}</div>
+                          <div className="font-medium text-sm">{formatSlotTime(slot.start)}</div>
                           <div className={`text-xs mt-1 ${
-                            isBooked ? 'text-red-600' : 'text-green-600'
+                            isOpen ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            {isBooked ? 'Booked' : 'Available'}
+                            {isOpen ? 'Available' : slot.status === "full" ? 'Session full' : 'Booked'}
                           </div>
-                          {isBooked && bookedAppointment && (
-                            <div className="text-xs text-gray-500 mt-1 truncate">
-                              {bookedAppointment.patientName}
-                            </div>
-                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -474,15 +640,3 @@ export default function Appointments() {
     </RoleBasedLayout>
   );
 }
-
-// Helper function to generate time slots
-function generateTimeSlots() {
-  const slots = [];
-  for (let hour = 9; hour <= 17; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      const time = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      slots.push(time);
-    }
-  }
-  return slots;
-}
\ No newline at end of file
@@ -35,6 +35,8 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import RoleBasedLayout from "@/components/RoleBasedLayout";
+import ClinicalNotes from "@/components/ClinicalNotes";
+import Prescriptions from "@/components/Prescriptions";
 import { User as UserType } from "@shared/schema";
 
 interface Patient {
@@ -526,6 +528,16 @@ export default function EMRDashboard() {
           </Card>
         );
 
+      case "notes":
+        return selectedPatient && (
+          <ClinicalNotes
+            patientId={selectedPatient.id}
+            currentUserId={(user as UserType)?.id || ""}
+            canWrite={["doctor", "nurse"].includes((user as UserType)?.role || "")}
+            canAmend={(user as UserType)?.role === "doctor"}
+          />
+        );
+
       case "medications":
         return (
           <Card>
@@ -544,6 +556,14 @@ export default function EMRDashboard() {
           </Card>
         );
 
+      case "prescriptions":
+        return selectedPatient && (
+          <Prescriptions
+            patientId={selectedPatient.id}
+            canPrescribe={(user as UserType)?.role === "doctor"}
+          />
+        );
+
       default:
         return null;
     }
@@ -682,7 +702,7 @@ export default function EMRDashboard() {
                 {/* EMR Navigation */}
                 <div className="border-b">
                   <nav className="flex space-x-6">
-                    {['overview', 'records', 'vitals', 'labs', 'imaging', 'medications'].map((tab) => (
+                    {['overview', 'records', 'notes', 'vitals', 'labs', 'imaging', 'medications', 'prescriptions'].map((tab) => (
                       <button
                         key={tab}
                         onClick={() => setActiveTab(tab)}
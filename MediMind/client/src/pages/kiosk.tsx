@@ -1,14 +1,15 @@
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CalendarPlus, Ticket, Search, Info, ArrowLeft } from "lucide-react";
+import { CalendarPlus, CalendarCheck, Ticket, Search, Info, ArrowLeft } from "lucide-react";
+import AppointmentCheckIn from "@/components/AppointmentCheckIn";
 
 interface KioskProps {
   onExit: () => void;
 }
 
 export default function Kiosk({ onExit }: KioskProps) {
-  const [currentView, setCurrentView] = useState<"main" | "appointment" | "token" | "status" | "info">("main");
+  const [currentView, setCurrentView] = useState<"main" | "checkin" | "appointment" | "token" | "status" | "info">("main");
 
   const handleMainMenu = () => {
     setCurrentView("main");
@@ -54,6 +55,18 @@ export default function Kiosk({ onExit }: KioskProps) {
                 </div>
 
                 <div className="grid grid-cols-2 gap-6">
+                  <Button
+                    onClick={() => setCurrentView("checkin")}
+                    className="col-span-2 p-8 h-auto flex items-center justify-center space-x-6 bg-teal-50 hover:bg-teal-100 text-teal-700 border-2 border-teal-200"
+                    variant="outline"
+                  >
+                    <CalendarCheck className="h-12 w-12" />
+                    <div className="text-left">
+                      <h3 className="text-xl font-bold mb-2">Check In for Appointment</h3>
+                      <p className="text-sm opacity-80">Already booked for today? Get your priority token</p>
+                    </div>
+                  </Button>
+
                   <Button
                     onClick={() => setCurrentView("appointment")}
                     className="p-8 h-auto flex flex-col items-center space-y-4 bg-blue-50 hover:bg-blue-100 text-blue-700 border-2 border-blue-200"
@@ -105,6 +118,18 @@ export default function Kiosk({ onExit }: KioskProps) {
               </>
             )}
 
+            {/* Appointment Check-in */}
+            {currentView === "checkin" && (
+              <div className="text-center">
+                <h2 className="text-2xl font-bold mb-6">Check In for Your Appointment</h2>
+                <Card className="p-6">
+                  <CardContent>
+                    <AppointmentCheckIn kiosk />
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
             {/* Appointment Booking */}
             {currentView === "appointment" && (
               <div className="text-center">
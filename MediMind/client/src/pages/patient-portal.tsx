@@ -0,0 +1,444 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarCheck, CalendarPlus, CreditCard, Ticket } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import RoleBasedLayout from "@/components/RoleBasedLayout";
+import AppointmentActions from "@/components/AppointmentActions";
+import { User as UserType } from "@shared/schema";
+
+interface PortalProfile {
+  id: number;
+  patientId: string;
+}
+
+interface Department {
+  id: number;
+  name: string;
+}
+
+interface Doctor {
+  id: number;
+  departmentId: number | null;
+  specialization: string | null;
+}
+
+interface AppointmentSlot {
+  doctorId: number;
+  departmentId: number | null;
+  start: string;
+  end: string;
+}
+
+interface Appointment {
+  id: number;
+  doctorId: number | null;
+  departmentId: number | null;
+  seriesId: number | null;
+  appointmentDate: string;
+  appointmentType: string | null;
+  status: string;
+}
+
+interface QueueTokenStatus {
+  tokenNumber: string;
+  departmentName: string;
+  status: string;
+  position: number | null;
+  estimatedWaitTime: number | null;
+  counterName: string | null;
+}
+
+interface BillItem {
+  id: number;
+  description: string;
+  quantity: number | null;
+  totalPrice: number;
+}
+
+interface Bill {
+  id: number;
+  billNumber: string;
+  totalAmount: number;
+  paidAmount: number | null;
+  status: string | null;
+  dueDate: string | null;
+  createdAt: string;
+  items: BillItem[];
+}
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString([], { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Bill amounts are stored in the smallest currency unit
+const formatAmount = (amount: number) => `₹${(amount / 100).toFixed(2)}`;
+
+const isToday = (value: string) => new Date(value).toDateString() === new Date().toDateString();
+
+export default function PatientPortal() {
+  const { user, isLoading, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [departmentId, setDepartmentId] = useState("");
+  const [bookingDate, setBookingDate] = useState(new Date().toISOString().split("T")[0]);
+  const [selectedSlot, setSelectedSlot] = useState<AppointmentSlot | null>(null);
+  const [symptoms, setSymptoms] = useState("");
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const isPatient = (user as UserType | undefined)?.role === "patient";
+
+  const { data: profile, error: profileError } = useQuery<PortalProfile>({
+    queryKey: ["/api/portal/me"],
+    retry: false,
+    enabled: isPatient,
+  });
+
+  const { data: departments } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+    enabled: isPatient,
+  });
+
+  const { data: doctors } = useQuery<Doctor[]>({
+    queryKey: ["/api/doctors"],
+    enabled: isPatient,
+  });
+
+  const { data: slots, isLoading: slotsLoading } = useQuery<AppointmentSlot[]>({
+    queryKey: [`/api/appointments/availability?departmentId=${departmentId}&from=${bookingDate}`],
+    enabled: isPatient && !!departmentId && !!bookingDate,
+  });
+
+  const { data: appointments } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments"],
+    enabled: isPatient,
+  });
+
+  // Refreshed while a token is live so the place in the queue stays current
+  const { data: tokens } = useQuery<QueueTokenStatus[]>({
+    queryKey: ["/api/portal/queue-tokens"],
+    enabled: isPatient,
+    refetchInterval: 30000,
+  });
+
+  const { data: bills } = useQuery<Bill[]>({
+    queryKey: ["/api/portal/bills"],
+    enabled: isPatient,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (slot: AppointmentSlot) => {
+      const response = await apiRequest("POST", "/api/appointments", {
+        doctorId: slot.doctorId,
+        departmentId: slot.departmentId ?? (departmentId ? parseInt(departmentId) : undefined),
+        appointmentDate: slot.start,
+        appointmentType: "consultation",
+        symptoms: symptoms || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Appointment Booked", description: "A confirmation has been sent to you." });
+      setSelectedSlot(null);
+      setSymptoms("");
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/availability?departmentId=${departmentId}&from=${bookingDate}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Booking Failed",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/availability?departmentId=${departmentId}&from=${bookingDate}`] });
+    },
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (appointmentId: number) => {
+      const response = await apiRequest("POST", "/api/queue/check-in", { appointmentId });
+      return response.json() as Promise<{ tokenNumber: string }>;
+    },
+    onSuccess: (token) => {
+      toast({ title: "Checked In", description: `Your token number is ${token.tokenNumber}.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/queue-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Check-in Failed",
+        description: errorMessage(error),
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading || !user) {
+    return null;
+  }
+
+  const doctorLabel = (doctorId: number | null) => {
+    const doctor = doctors?.find((candidate) => candidate.id === doctorId);
+    return doctor ? `Doctor #${doctor.id}${doctor.specialization ? ` - ${doctor.specialization}` : ""}` : "Any doctor";
+  };
+  const departmentName = (id: number | null) => departments?.find((department) => department.id === id)?.name;
+
+  const now = Date.now();
+  const upcoming = (appointments ?? [])
+    .filter((appointment) => ["scheduled", "held"].includes(appointment.status || "scheduled") && new Date(appointment.appointmentDate).getTime() > now - 60 * 60 * 1000)
+    .sort((a, b) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime());
+  const outstanding = (bills ?? []).filter((bill) => !["paid", "cancelled"].includes(bill.status || "pending"));
+
+  return (
+    <RoleBasedLayout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">My Portal</h1>
+          <p className="text-gray-600">
+            {profile ? `Patient ID ${profile.patientId}` : "Book and manage your appointments"}
+          </p>
+        </div>
+
+        {!isPatient || profileError ? (
+          <Card>
+            <CardContent className="p-6 text-gray-600">
+              {isPatient
+                ? "Your patient record has not been set up yet. Please ask the front desk to register you."
+                : "The portal is for patients. Use the Appointments page to book for a patient."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {tokens && tokens.length > 0 && (
+              <Card className="border-blue-200 bg-blue-50">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Ticket className="h-5 w-5" />
+                    <span>Your Queue Token</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {tokens.map((token) => (
+                    <div key={token.tokenNumber} className="flex items-center justify-between">
+                      <div>
+                        <p className="text-3xl font-bold text-blue-800">{token.tokenNumber}</p>
+                        <p className="text-sm text-gray-600">{token.departmentName}</p>
+                      </div>
+                      <div className="text-right">
+                        {token.status === "waiting" ? (
+                          <>
+                            <p className="font-medium">{token.position ? `#${token.position} in line` : "Waiting"}</p>
+                            {token.estimatedWaitTime !== null && (
+                              <p className="text-sm text-gray-600">About {token.estimatedWaitTime} min</p>
+                            )}
+                          </>
+                        ) : (
+                          <p className="font-medium text-green-700">
+                            {token.status === "called" ? `Please go to ${token.counterName || "the counter"}` : "With the doctor"}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CalendarPlus className="h-5 w-5" />
+                  <span>Book an Appointment</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>Department</Label>
+                    <Select value={departmentId} onValueChange={(value) => { setDepartmentId(value); setSelectedSlot(null); }}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {departments?.map((department) => (
+                          <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="portal-date">Date</Label>
+                    <Input
+                      id="portal-date"
+                      type="date"
+                      value={bookingDate}
+                      min={new Date().toISOString().split("T")[0]}
+                      onChange={(e) => { setBookingDate(e.target.value); setSelectedSlot(null); }}
+                    />
+                  </div>
+                </div>
+
+                {departmentId && (
+                  slotsLoading ? (
+                    <p className="text-sm text-gray-500">Loading slots...</p>
+                  ) : slots && slots.length > 0 ? (
+                    <div className="space-y-3">
+                      {Array.from(new Set(slots.map((slot) => slot.doctorId))).map((doctorId) => (
+                        <div key={doctorId}>
+                          <p className="text-sm font-medium mb-2">{doctorLabel(doctorId)}</p>
+                          <div className="grid grid-cols-4 md:grid-cols-8 gap-2">
+                            {slots.filter((slot) => slot.doctorId === doctorId).map((slot) => (
+                              <Button
+                                key={`${slot.doctorId}-${slot.start}`}
+                                type="button"
+                                size="sm"
+                                variant={selectedSlot?.doctorId === slot.doctorId && selectedSlot.start === slot.start ? "default" : "outline"}
+                                onClick={() => setSelectedSlot(slot)}
+                              >
+                                {formatTime(slot.start)}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">No open slots on this day. Try another date, or join the waitlist from the Appointments page.</p>
+                  )
+                )}
+
+                {selectedSlot && (
+                  <div className="space-y-3 p-3 border rounded-lg">
+                    <p className="text-sm">
+                      {doctorLabel(selectedSlot.doctorId)} · {formatDateTime(selectedSlot.start)}
+                    </p>
+                    <Input placeholder="Reason for visit (optional)" value={symptoms} onChange={(e) => setSymptoms(e.target.value)} />
+                    <Button disabled={bookMutation.isPending} onClick={() => bookMutation.mutate(selectedSlot)}>
+                      {bookMutation.isPending ? "Booking..." : "Confirm Booking"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CalendarCheck className="h-5 w-5" />
+                  <span>My Upcoming Appointments</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {upcoming.length > 0 ? (
+                  <div className="space-y-3">
+                    {upcoming.map((appointment) => (
+                      <div key={appointment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{formatDateTime(appointment.appointmentDate)}</p>
+                          <p className="text-sm text-gray-600">
+                            {doctorLabel(appointment.doctorId)}
+                            {departmentName(appointment.departmentId) ? ` · ${departmentName(appointment.departmentId)}` : ""}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {appointment.status === "held" && <Badge variant="outline">Offered from waitlist</Badge>}
+                          {appointment.status === "scheduled" && isToday(appointment.appointmentDate) && (
+                            <Button
+                              size="sm"
+                              disabled={checkInMutation.isPending}
+                              onClick={() => checkInMutation.mutate(appointment.id)}
+                            >
+                              Check In
+                            </Button>
+                          )}
+                          <AppointmentActions appointment={appointment} role="patient" />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">You have no upcoming appointments</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CreditCard className="h-5 w-5" />
+                  <span>My Bills</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {outstanding.length > 0 ? (
+                  <div className="space-y-3">
+                    {outstanding.map((bill) => (
+                      <div key={bill.id} className="p-3 border rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">{bill.billNumber}</p>
+                            <p className="text-sm text-gray-600">
+                              {bill.dueDate ? `Due ${new Date(bill.dueDate).toLocaleDateString()}` : `Issued ${new Date(bill.createdAt).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold">{formatAmount(bill.totalAmount - (bill.paidAmount ?? 0))}</p>
+                            <Badge variant="outline">{(bill.status || "pending").replace("_", " ")}</Badge>
+                          </div>
+                        </div>
+                        {bill.items.length > 0 && (
+                          <ul className="mt-2 text-sm text-gray-600">
+                            {bill.items.map((item) => (
+                              <li key={item.id} className="flex justify-between">
+                                <span>{item.description}{(item.quantity ?? 1) > 1 ? ` × ${item.quantity}` : ""}</span>
+                                <span>{formatAmount(item.totalPrice)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">You have no outstanding bills</p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </RoleBasedLayout>
+  );
+}
@@ -24,6 +24,9 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import RoleBasedLayout from "@/components/RoleBasedLayout";
+import PatientIdentifiers from "@/components/PatientIdentifiers";
+import { useAuth } from "@/hooks/useAuth";
+import { User as UserType } from "@shared/schema";
 
 interface Patient {
   id: number;
@@ -46,13 +49,33 @@ interface Patient {
   lastVisit?: string;
 }
 
+interface DuplicateMatch {
+  patient: { id: number; patientId: string; phoneNumber: string | null; dateOfBirth: string | null };
+  name: string | null;
+  score: number;
+  likelihood: "probable" | "possible";
+  reasons: string[];
+}
+
+// Registration answers 409 with the records the new patient may duplicate
+const duplicateMatches = (error: Error): DuplicateMatch[] | null => {
+  if (!error.message.startsWith("409: ")) return null;
+  try {
+    return JSON.parse(error.message.slice(5)).duplicates ?? null;
+  } catch {
+    return null;
+  }
+};
+
 export default function Patients() {
   const [searchTerm, setSearchTerm] = useState("");
   const [showNewPatient, setShowNewPatient] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [showEditPatient, setShowEditPatient] = useState(false);
   const [showPatientDetails, setShowPatientDetails] = useState(false);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<{ data: any; matches: DuplicateMatch[] } | null>(null);
 
+  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -70,8 +93,14 @@ export default function Patients() {
         description: "Patient registered successfully!",
       });
       setShowNewPatient(false);
+      setPossibleDuplicates(null);
     },
-    onError: (error) => {
+    onError: (error: Error, data) => {
+      const matches = duplicateMatches(error);
+      if (matches) {
+        setPossibleDuplicates({ data, matches });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to register patient. Please try again.",
@@ -138,12 +167,25 @@ export default function Patients() {
     retry: false,
   });
 
-  const filteredPatients = patients?.filter(patient => 
+  // The server also matches Aadhaar, ABHA, insurance and passport numbers
+  const serverSearch = searchTerm.trim();
+  const { data: searchResults } = useQuery<Patient[]>({
+    queryKey: [`/api/patients?search=${encodeURIComponent(serverSearch)}`],
+    enabled: serverSearch.length >= 3,
+    retry: false,
+  });
+
+  const localMatches = patients?.filter(patient => 
     patient.firstName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.lastName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.patientId?.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
+  const filteredPatients = serverSearch.length >= 3 && searchResults
+    ? [...localMatches, ...searchResults.filter(result => !localMatches.some(patient => patient.id === result.id))]
+    : localMatches;
+
+  const canEditIdentifiers = ['front-desk', 'admin', 'super-admin', 'nurse'].includes((user as UserType | undefined)?.role || '');
 
   // Handle patient registration form submission
   const handlePatientSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -308,7 +350,7 @@ export default function Patients() {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                 <Input
-                  placeholder="Search patients by name, email, or patient ID..."
+                  placeholder="Search by name, patient ID, phone, Aadhaar or ABHA number..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -516,6 +558,45 @@ export default function Patients() {
           </DialogContent>
         </Dialog>
 
+        {/* Possible Duplicate Dialog */}
+        <Dialog open={!!possibleDuplicates} onOpenChange={(open) => !open && setPossibleDuplicates(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>This Patient May Already Be Registered</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                These records look like the same person. Use the existing record if it is theirs; registering again splits their history.
+              </p>
+              <div className="space-y-2">
+                {possibleDuplicates?.matches.map((match) => (
+                  <div key={match.patient.id} className="p-3 border rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">{match.name || "Unnamed patient"} · {match.patient.patientId}</p>
+                      <Badge variant={match.likelihood === "probable" ? "destructive" : "secondary"}>
+                        {match.likelihood === "probable" ? "Likely match" : "Possible match"}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">{match.reasons.join(", ")}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setPossibleDuplicates(null)}>
+                  Go Back
+                </Button>
+                <Button
+                  disabled={createPatientMutation.isPending}
+                  onClick={() => possibleDuplicates && createPatientMutation.mutate({ ...possibleDuplicates.data, confirmNotDuplicate: true })}
+                >
+                  Register as New Patient
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">Registrations made anyway are flagged for an administrator to review.</p>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Patient Edit Dialog */}
         <Dialog open={showEditPatient} onOpenChange={setShowEditPatient}>
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -788,6 +869,8 @@ export default function Patients() {
                   </Card>
                 </div>
 
+                <PatientIdentifiers patientId={selectedPatient.id} canEdit={canEditIdentifiers} />
+
                 {/* Allergies and Medical History */}
                 {(selectedPatient.allergies && selectedPatient.allergies.length > 0) && (
                   <Card>
@@ -1,9 +1,13 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 import { 
   Pill, 
@@ -15,148 +19,422 @@ import {
   Clock,
   ShoppingCart,
   Truck,
-  FileText
+  FileText,
+  Printer,
+  QrCode,
+  XCircle,
+  Trash2
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 import RoleBasedLayout from "@/components/RoleBasedLayout";
+import { User as UserType, PHARMACY_DOSAGE_FORMS, STOCK_ADJUSTMENT_REASONS } from "@shared/schema";
 
-interface Medication {
+interface StockItem {
   id: number;
+  code: string;
+  name: string;
+  genericName: string | null;
+  strength: string | null;
+  form: string;
+  manufacturer: string | null;
+  unit: string;
+  unitPrice: number;
+  reorderLevel: number;
+  isActive: boolean;
+  onHand: number;
+  expiredOnHand: number;
+  nearestExpiry: string | null;
+  status: "available" | "low-stock" | "out-of-stock";
+}
+
+interface Batch {
+  id: number;
+  itemId: number;
+  batchNumber: string;
+  expiryDate: string;
+  quantityOnHand: number;
+  unitCost: number | null;
+}
+
+interface BatchAlert {
+  batch: Batch;
+  item: { id: number; code: string; name: string; unit: string };
+  daysToExpiry: number;
+}
+
+interface StockAlerts {
+  nearExpiryDays: number;
+  lowStock: StockItem[];
+  nearExpiry: BatchAlert[];
+  expired: BatchAlert[];
+}
+
+interface ItemForm {
+  code: string;
   name: string;
   genericName: string;
-  dosage: string;
+  strength: string;
   form: string;
   manufacturer: string;
+  unit: string;
+  unitPrice: string; // rupees
+  reorderLevel: string;
+}
+
+interface ReceiptLine {
+  itemId: string;
   batchNumber: string;
   expiryDate: string;
-  quantity: number;
-  price: number;
-  status: "available" | "low-stock" | "out-of-stock" | "expired";
+  quantity: string;
+  unitCost: string; // rupees
+}
+
+// What is handed over for one prescription item; no itemId means not dispensed here
+interface DispenseLine {
+  medicationId: number;
+  itemId: string;
+  quantity: string;
+}
+
+interface PrescriptionItem {
+  id: number;
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  route: string;
+  duration: string | null;
+  quantity: number | null;
+  instructions: string | null;
 }
 
 interface Prescription {
   id: number;
-  prescriptionId: string;
-  patientName: string;
-  doctorName: string;
-  medications: Array<{
-    name: string;
-    dosage: string;
-    quantity: number;
-    instructions: string;
-  }>;
-  status: "pending" | "prepared" | "dispensed" | "cancelled";
-  createdAt: string;
-  total: number;
+  number: string;
+  patient: { id: number; name: string; mrn: string } | null;
+  doctor: { name: string; registrationNumber: string | null } | null;
+  diagnosis: string | null;
+  items: PrescriptionItem[];
+  status: "signed" | "prepared" | "dispensed" | "cancelled";
+  signedAt: string;
+}
+
+const emptyItemForm: ItemForm = {
+  code: "", name: "", genericName: "", strength: "", form: "tablet", manufacturer: "", unit: "tablet", unitPrice: "", reorderLevel: "0",
+};
+
+const emptyReceiptLine: ReceiptLine = { itemId: "", batchNumber: "", expiryDate: "", quantity: "", unitCost: "" };
+
+const rupees = (amount: number) => `₹${(amount / 100).toLocaleString()}`;
+const toPaise = (value: string) => Math.round(parseFloat(value) * 100);
+
+// The catalog item a prescription item most likely refers to
+const matchItem = (items: StockItem[], medicationName: string) => {
+  const written = medicationName.toLowerCase();
+  return items.find((item) => written.includes(item.name.toLowerCase()))
+    ?? items.find((item) => item.genericName && written.includes(item.genericName.toLowerCase()));
+};
+
+interface DispenseMismatch {
+  medicationId: number;
+  itemId: number;
+  prescribed: string;
+  dispensed: string;
+  problem: "different-drug" | "over-quantity";
 }
 
+const mismatchLabels: Record<DispenseMismatch["problem"], string> = {
+  "different-drug": "is not the drug prescribed",
+  "over-quantity": "is more than the prescribed quantity",
+};
+
+// The mismatches a 409 from dispensing carries when an override reason is needed
+const dispenseMismatches = (error: Error): DispenseMismatch[] | null => {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return body.code === "DISPENSE_OVERRIDE_REQUIRED" ? body.mismatches : null;
+  } catch {
+    return null;
+  }
+};
+
+const statusLabels: Record<string, string> = {
+  signed: "awaiting preparation",
+  prepared: "ready to dispense",
+  dispensed: "dispensed",
+  cancelled: "cancelled",
+};
+
+// apiRequest errors read "<status>: <body>"; show just the server's message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
 export default function Pharmacy() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [code, setCode] = useState("");
+  const [verified, setVerified] = useState<Prescription | null>(null);
+  const [cancelling, setCancelling] = useState<Prescription | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [editing, setEditing] = useState<StockItem | "new" | null>(null);
+  const [itemForm, setItemForm] = useState<ItemForm>(emptyItemForm);
+  const [receiving, setReceiving] = useState(false);
+  const [supplier, setSupplier] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [receiptLines, setReceiptLines] = useState<ReceiptLine[]>([emptyReceiptLine]);
+  const [adjusting, setAdjusting] = useState<Batch | null>(null);
+  const [adjustment, setAdjustment] = useState({ quantity: "", reason: "", notes: "" });
+  const [dispensing, setDispensing] = useState<Prescription | null>(null);
+  const [dispenseLines, setDispenseLines] = useState<DispenseLine[]>([]);
+  const [mismatches, setMismatches] = useState<DispenseMismatch[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
 
   const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const role = (user as UserType)?.role;
+  const canDispense = role === "pharmacy";
+  const canManage = ["pharmacy", "admin", "super-admin"].includes(role || "");
 
-  // Mock pharmacy data
-  const pharmacyData = {
-    inventory: [
-      {
-        id: 1,
-        name: "Paracetamol",
-        genericName: "Acetaminophen",
-        dosage: "500mg",
-        form: "Tablet",
-        manufacturer: "ABC Pharma",
-        batchNumber: "PAR001",
-        expiryDate: "2025-12-31",
-        quantity: 500,
-        price: 2.50,
-        status: "available" as const
-      },
-      {
-        id: 2,
-        name: "Amoxicillin",
-        genericName: "Amoxicillin",
-        dosage: "250mg",
-        form: "Capsule",
-        manufacturer: "XYZ Medicines",
-        batchNumber: "AMX002",
-        expiryDate: "2025-08-15",
-        quantity: 50,
-        price: 15.00,
-        status: "low-stock" as const
-      },
-      {
-        id: 3,
-        name: "Lisinopril",
-        genericName: "Lisinopril",
-        dosage: "10mg",
-        form: "Tablet",
-        manufacturer: "MediCorp",
-        batchNumber: "LIS003",
-        expiryDate: "2024-06-30",
-        quantity: 0,
-        price: 8.75,
-        status: "expired" as const
-      }
-    ],
-    prescriptions: [
-      {
-        id: 1,
-        prescriptionId: "RX001",
-        patientName: "John Smith",
-        doctorName: "Dr. Sarah Wilson",
-        medications: [
-          {
-            name: "Paracetamol 500mg",
-            dosage: "500mg",
-            quantity: 30,
-            instructions: "Take 1 tablet every 6 hours as needed"
-          },
-          {
-            name: "Amoxicillin 250mg",
-            dosage: "250mg",
-            quantity: 21,
-            instructions: "Take 1 capsule 3 times daily for 7 days"
-          }
-        ],
-        status: "pending" as const,
-        createdAt: "2025-07-31T10:30:00Z",
-        total: 390.00
-      },
-      {
-        id: 2,
-        prescriptionId: "RX002",
-        patientName: "Mary Johnson",
-        doctorName: "Dr. Michael Chen",
-        medications: [
-          {
-            name: "Lisinopril 10mg",
-            dosage: "10mg",
-            quantity: 30,
-            instructions: "Take 1 tablet daily in the morning"
-          }
-        ],
-        status: "prepared" as const,
-        createdAt: "2025-07-31T09:15:00Z",
-        total: 262.50
+  const { data: queue, isLoading: queueLoading } = useQuery<Prescription[]>({
+    queryKey: ["/api/prescriptions/queue"],
+    enabled: canManage,
+    refetchInterval: 30000,
+  });
+
+  const { data: stock, isLoading: stockLoading } = useQuery<StockItem[]>({
+    queryKey: ["/api/pharmacy/items"],
+    enabled: canManage,
+  });
+
+  const { data: alerts } = useQuery<StockAlerts>({
+    queryKey: ["/api/pharmacy/alerts"],
+    enabled: canManage,
+  });
+
+  const { data: batches } = useQuery<Batch[]>({
+    queryKey: ["/api/pharmacy/items", expanded, "batches"],
+    enabled: canManage && expanded !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const onChanged = (prescription: Prescription) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/prescriptions/queue"] });
+    setVerified((current) => current?.id === prescription.id ? prescription : current);
+  };
+
+  // Stock and its alerts; batch lists share the items key
+  const onStockChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pharmacy/items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pharmacy/alerts"] });
+  };
+
+  const prepareMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/prescriptions/${id}/prepare`);
+      return response.json();
+    },
+    onSuccess: (prescription: Prescription) => {
+      toast({ title: "Prescription Prepared" });
+      onChanged(prescription);
+    },
+    onError,
+  });
+
+  const dispenseMutation = useMutation({
+    mutationFn: async () => {
+      const lines = dispenseLines
+        .filter((line) => line.itemId)
+        .map((line) => ({ medicationId: line.medicationId, itemId: parseInt(line.itemId), quantity: parseInt(line.quantity) }));
+      const response = await apiRequest("POST", `/api/prescriptions/${dispensing!.id}/dispense`,
+        mismatches ? { lines, overrideReason } : { lines });
+      return response.json();
+    },
+    onSuccess: ({ prescription, billId }: { prescription: Prescription; billId: number | null }) => {
+      toast({
+        title: "Prescription Dispensed",
+        description: billId ? "The medicines have been added to the patient's bill" : "Nothing was charged",
+      });
+      setDispensing(null);
+      onChanged(prescription);
+      onStockChanged();
+    },
+    onError: (error: Error) => {
+      const found = dispenseMismatches(error);
+      if (found) {
+        setMismatches(found);
+        setOverrideReason("");
+      } else {
+        onError(error);
       }
-    ],
-    stats: {
-      totalMedications: 1250,
-      lowStockItems: 25,
-      expiredItems: 8,
-      pendingPrescriptions: 15,
-      todayDispensed: 89,
-      monthlyRevenue: 125000
-    }
+    },
+  });
+
+  const itemMutation = useMutation({
+    mutationFn: async () => {
+      const item = {
+        code: itemForm.code,
+        name: itemForm.name,
+        genericName: itemForm.genericName || null,
+        strength: itemForm.strength || null,
+        form: itemForm.form,
+        manufacturer: itemForm.manufacturer || null,
+        unit: itemForm.unit,
+        unitPrice: toPaise(itemForm.unitPrice),
+        reorderLevel: parseInt(itemForm.reorderLevel) || 0,
+      };
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/pharmacy/items", item)
+        : await apiRequest("PUT", `/api/pharmacy/items/${(editing as StockItem).id}`, item);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editing === "new" ? "Medication Added" : "Medication Updated" });
+      setEditing(null);
+      onStockChanged();
+    },
+    onError,
+  });
+
+  const receiptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pharmacy/receipts", {
+        supplier,
+        invoiceNumber: invoiceNumber || null,
+        lines: receiptLines.map((line) => ({
+          itemId: parseInt(line.itemId),
+          batchNumber: line.batchNumber,
+          expiryDate: line.expiryDate,
+          quantity: parseInt(line.quantity),
+          unitCost: line.unitCost ? toPaise(line.unitCost) : null,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Goods Received" });
+      setReceiving(false);
+      onStockChanged();
+    },
+    onError,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/pharmacy/batches/${adjusting!.id}/adjust`, {
+        quantity: parseInt(adjustment.quantity),
+        reason: adjustment.reason,
+        notes: adjustment.notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Stock Adjusted" });
+      setAdjusting(null);
+      onStockChanged();
+    },
+    onError,
+  });
+
+  const openItem = (item: StockItem | "new") => {
+    setEditing(item);
+    setItemForm(item === "new" ? emptyItemForm : {
+      code: item.code,
+      name: item.name,
+      genericName: item.genericName ?? "",
+      strength: item.strength ?? "",
+      form: item.form,
+      manufacturer: item.manufacturer ?? "",
+      unit: item.unit,
+      unitPrice: String(item.unitPrice / 100),
+      reorderLevel: String(item.reorderLevel),
+    });
   };
 
+  const openReceipt = () => {
+    setReceiving(true);
+    setSupplier("");
+    setInvoiceNumber("");
+    setReceiptLines([emptyReceiptLine]);
+  };
+
+  const updateReceiptLine = (index: number, changes: Partial<ReceiptLine>) => {
+    setReceiptLines((lines) => lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const openDispense = (prescription: Prescription) => {
+    setDispensing(prescription);
+    setMismatches(null);
+    setDispenseLines(prescription.items.map((item) => {
+      const match = matchItem(stock ?? [], item.medicationName);
+      return { medicationId: item.id, itemId: match ? String(match.id) : "", quantity: String(item.quantity ?? 1) };
+    }));
+  };
+
+  // Changed lines are checked against the prescription again
+  const updateDispenseLine = (index: number, changes: Partial<DispenseLine>) => {
+    setDispenseLines((lines) => lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+    setMismatches(null);
+  };
+
+  const filteredStock = (stock ?? []).filter((item) =>
+    [item.name, item.genericName, item.code].some((text) => text?.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+  const stockValue = (stock ?? []).reduce((sum, item) => sum + item.onHand * item.unitPrice, 0);
+  const receiptReady = supplier.trim() && receiptLines.every((line) =>
+    line.itemId && line.batchNumber.trim() && line.expiryDate && parseInt(line.quantity) > 0
+  );
+  const itemReady = itemForm.code.trim() && itemForm.name.trim() && itemForm.unit.trim() && parseFloat(itemForm.unitPrice) >= 0;
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/prescriptions/${cancelling!.id}/cancel`, { reason: cancelReason });
+      return response.json();
+    },
+    onSuccess: (prescription: Prescription) => {
+      toast({ title: "Prescription Cancelled" });
+      setCancelling(null);
+      onChanged(prescription);
+    },
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/prescriptions/verify", { code });
+      return response.json();
+    },
+    onSuccess: (prescription: Prescription) => {
+      setVerified(prescription);
+      setCode("");
+    },
+    onError: (error: Error) => {
+      setVerified(null);
+      onError(error);
+    },
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "available": return "bg-green-100 text-green-800";
       case "low-stock": return "bg-yellow-100 text-yellow-800";
       case "out-of-stock": return "bg-red-100 text-red-800";
       case "expired": return "bg-gray-100 text-gray-800";
-      case "pending": return "bg-blue-100 text-blue-800";
+      case "signed": return "bg-blue-100 text-blue-800";
       case "prepared": return "bg-yellow-100 text-yellow-800";
       case "dispensed": return "bg-green-100 text-green-800";
       case "cancelled": return "bg-red-100 text-red-800";
@@ -170,7 +448,7 @@ export default function Pharmacy() {
       case "low-stock": return <AlertCircle className="h-4 w-4" />;
       case "out-of-stock": return <AlertCircle className="h-4 w-4" />;
       case "expired": return <AlertCircle className="h-4 w-4" />;
-      case "pending": return <Clock className="h-4 w-4" />;
+      case "signed": return <Clock className="h-4 w-4" />;
       case "prepared": return <Package className="h-4 w-4" />;
       case "dispensed": return <CheckCircle className="h-4 w-4" />;
       case "cancelled": return <AlertCircle className="h-4 w-4" />;
@@ -192,10 +470,18 @@ export default function Pharmacy() {
               <FileText className="h-4 w-4 mr-2" />
               Generate Report
             </Button>
-            <Button className="flex items-center">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Medication
-            </Button>
+            {canDispense && (
+              <Button variant="outline" className="flex items-center" onClick={openReceipt}>
+                <Truck className="h-4 w-4 mr-2" />
+                Receive Goods
+              </Button>
+            )}
+            {canManage && (
+              <Button className="flex items-center" onClick={() => openItem("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Medication
+              </Button>
+            )}
           </div>
         </div>
 
@@ -205,7 +491,7 @@ export default function Pharmacy() {
             <CardContent className="p-4">
               <div className="text-center">
                 <Package className="h-8 w-8 text-blue-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-blue-600">{pharmacyData.stats.totalMedications}</p>
+                <p className="text-2xl font-bold text-blue-600">{stock?.length ?? 0}</p>
                 <p className="text-xs text-gray-600">Total Items</p>
               </div>
             </CardContent>
@@ -215,7 +501,7 @@ export default function Pharmacy() {
             <CardContent className="p-4">
               <div className="text-center">
                 <AlertCircle className="h-8 w-8 text-yellow-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-yellow-600">{pharmacyData.stats.lowStockItems}</p>
+                <p className="text-2xl font-bold text-yellow-600">{alerts?.lowStock.length ?? 0}</p>
                 <p className="text-xs text-gray-600">Low Stock</p>
               </div>
             </CardContent>
@@ -225,7 +511,7 @@ export default function Pharmacy() {
             <CardContent className="p-4">
               <div className="text-center">
                 <AlertCircle className="h-8 w-8 text-red-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-red-600">{pharmacyData.stats.expiredItems}</p>
+                <p className="text-2xl font-bold text-red-600">{alerts?.expired.length ?? 0}</p>
                 <p className="text-xs text-gray-600">Expired</p>
               </div>
             </CardContent>
@@ -235,7 +521,7 @@ export default function Pharmacy() {
             <CardContent className="p-4">
               <div className="text-center">
                 <Clock className="h-8 w-8 text-blue-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-blue-600">{pharmacyData.stats.pendingPrescriptions}</p>
+                <p className="text-2xl font-bold text-blue-600">{queue?.length ?? 0}</p>
                 <p className="text-xs text-gray-600">Pending RX</p>
               </div>
             </CardContent>
@@ -244,9 +530,9 @@ export default function Pharmacy() {
           <Card>
             <CardContent className="p-4">
               <div className="text-center">
-                <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-green-600">{pharmacyData.stats.todayDispensed}</p>
-                <p className="text-xs text-gray-600">Dispensed Today</p>
+                <Clock className="h-8 w-8 text-orange-600 mx-auto mb-2" />
+                <p className="text-2xl font-bold text-orange-600">{alerts?.nearExpiry.length ?? 0}</p>
+                <p className="text-xs text-gray-600">Near Expiry</p>
               </div>
             </CardContent>
           </Card>
@@ -255,8 +541,8 @@ export default function Pharmacy() {
             <CardContent className="p-4">
               <div className="text-center">
                 <ShoppingCart className="h-8 w-8 text-purple-600 mx-auto mb-2" />
-                <p className="text-2xl font-bold text-purple-600">₹{pharmacyData.stats.monthlyRevenue.toLocaleString()}</p>
-                <p className="text-xs text-gray-600">Monthly Revenue</p>
+                <p className="text-2xl font-bold text-purple-600">{rupees(stockValue)}</p>
+                <p className="text-xs text-gray-600">Stock Value</p>
               </div>
             </CardContent>
           </Card>
@@ -281,8 +567,27 @@ export default function Pharmacy() {
                 </div>
               </CardHeader>
               <CardContent>
+                {alerts && (alerts.expired.length > 0 || alerts.nearExpiry.length > 0) && (
+                  <div className="mb-4 space-y-2">
+                    {alerts.expired.map(({ batch, item }) => (
+                      <div key={batch.id} className="p-3 border border-red-200 bg-red-50 rounded-lg text-sm">
+                        <AlertCircle className="h-4 w-4 text-red-600 inline mr-1" />
+                        {item.name} batch {batch.batchNumber} expired on {new Date(batch.expiryDate).toLocaleDateString()} with {batch.quantityOnHand} {item.unit}(s) still in stock
+                      </div>
+                    ))}
+                    {alerts.nearExpiry.map(({ batch, item, daysToExpiry }) => (
+                      <div key={batch.id} className="p-3 border border-yellow-200 bg-yellow-50 rounded-lg text-sm">
+                        <Clock className="h-4 w-4 text-yellow-600 inline mr-1" />
+                        {item.name} batch {batch.batchNumber} expires in {daysToExpiry} day(s) ({batch.quantityOnHand} {item.unit}(s) left)
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {stockLoading ? (
+                  <p className="text-gray-500">Loading inventory...</p>
+                ) : filteredStock.length > 0 ? (
                 <div className="space-y-4">
-                  {pharmacyData.inventory.map((medication) => (
+                  {filteredStock.map((medication) => (
                     <div key={medication.id} className="border rounded-lg p-4 hover:bg-gray-50">
                       <div className="flex items-start justify-between">
                         <div className="flex items-start space-x-4">
@@ -294,34 +599,37 @@ export default function Pharmacy() {
                             <div>
                               <h3 className="font-semibold text-lg">{medication.name}</h3>
                               <p className="text-sm text-gray-600">
-                                Generic: {medication.genericName} | {medication.dosage} {medication.form}
+                                {medication.code}{medication.genericName && ` | Generic: ${medication.genericName}`} | {[medication.strength, medication.form].filter(Boolean).join(" ")}
                               </p>
                             </div>
                             
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                               <div>
                                 <span className="text-gray-600">Manufacturer:</span>
-                                <p className="font-medium">{medication.manufacturer}</p>
+                                <p className="font-medium">{medication.manufacturer || "-"}</p>
                               </div>
                               <div>
-                                <span className="text-gray-600">Batch:</span>
-                                <p className="font-medium">{medication.batchNumber}</p>
+                                <span className="text-gray-600">Reorder at:</span>
+                                <p className="font-medium">{medication.reorderLevel} {medication.unit}(s)</p>
                               </div>
                               <div>
-                                <span className="text-gray-600">Expiry:</span>
-                                <p className="font-medium">{new Date(medication.expiryDate).toLocaleDateString()}</p>
+                                <span className="text-gray-600">Next expiry:</span>
+                                <p className="font-medium">{medication.nearestExpiry ? new Date(medication.nearestExpiry).toLocaleDateString() : "-"}</p>
                               </div>
                               <div>
                                 <span className="text-gray-600">Price:</span>
-                                <p className="font-medium">₹{medication.price}</p>
+                                <p className="font-medium">{rupees(medication.unitPrice)} / {medication.unit}</p>
                               </div>
                             </div>
+                            {medication.expiredOnHand > 0 && (
+                              <p className="text-sm text-red-600">{medication.expiredOnHand} {medication.unit}(s) expired, not counted</p>
+                            )}
                           </div>
                         </div>
                         
                         <div className="flex items-center space-x-4">
                           <div className="text-right">
-                            <p className="text-2xl font-bold">{medication.quantity}</p>
+                            <p className="text-2xl font-bold">{medication.onHand}</p>
                             <p className="text-sm text-gray-600">In Stock</p>
                           </div>
                           
@@ -329,11 +637,49 @@ export default function Pharmacy() {
                             {getStatusIcon(medication.status)}
                             <span className="ml-1">{medication.status.replace('-', ' ')}</span>
                           </Badge>
+
+                          <div className="flex space-x-2">
+                            <Button size="sm" variant="outline" onClick={() => setExpanded(expanded === medication.id ? null : medication.id)}>
+                              Batches
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => openItem(medication)}>
+                              Edit
+                            </Button>
+                          </div>
                         </div>
                       </div>
+
+                      {expanded === medication.id && (
+                        <div className="mt-4 ml-16 space-y-2">
+                          {batches && batches.length > 0 ? batches.map((batch) => (
+                            <div key={batch.id} className="flex items-center justify-between text-sm border-t pt-2">
+                              <span>
+                                <span className="font-medium">Batch {batch.batchNumber}</span> - expires {new Date(batch.expiryDate).toLocaleDateString()}
+                                {batch.unitCost !== null && ` - cost ${rupees(batch.unitCost)}`}
+                              </span>
+                              <div className="flex items-center space-x-4">
+                                <span className="font-medium">{batch.quantityOnHand} {medication.unit}(s)</span>
+                                {canDispense && (
+                                  <Button size="sm" variant="outline" onClick={() => { setAdjusting(batch); setAdjustment({ quantity: "", reason: "", notes: "" }); }}>
+                                    Adjust
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          )) : (
+                            <p className="text-sm text-gray-500">No batches received yet</p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <Package className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                    <p className="text-gray-500">{searchTerm ? "No medications match your search" : "No medications in the catalog yet"}</p>
+                  </div>
+                )}
               </CardContent>
             </Card>
         </div>
@@ -343,11 +689,41 @@ export default function Pharmacy() {
           <h2 className="text-xl font-semibold">Prescription Management</h2>
             <Card>
               <CardHeader>
-                <CardTitle>Prescription Management</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Prescription Queue</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <div className="relative">
+                      <QrCode className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        placeholder="Scan or enter prescription code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && code.trim() && verifyMutation.mutate()}
+                        className="pl-10 w-72"
+                      />
+                    </div>
+                    <Button variant="outline" disabled={!code.trim() || verifyMutation.isPending} onClick={() => verifyMutation.mutate()}>
+                      Verify
+                    </Button>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
+                {verified && (
+                  <div className="mb-4 p-3 border border-green-200 bg-green-50 rounded-lg text-sm flex items-center justify-between">
+                    <span>
+                      <CheckCircle className="h-4 w-4 text-green-600 inline mr-1" />
+                      Genuine prescription {verified.number} for {verified.patient?.name} from {verified.doctor?.name}
+                      {verified.doctor?.registrationNumber && ` (Reg. No. ${verified.doctor.registrationNumber})`}
+                    </span>
+                    <Badge className={getStatusColor(verified.status)}>{statusLabels[verified.status] ?? verified.status}</Badge>
+                  </div>
+                )}
+                {queueLoading ? (
+                  <p className="text-gray-500">Loading prescriptions...</p>
+                ) : queue && queue.length > 0 ? (
                 <div className="space-y-4">
-                  {pharmacyData.prescriptions.map((prescription) => (
+                  {queue.map((prescription) => (
                     <div key={prescription.id} className="border rounded-lg p-4 hover:bg-gray-50">
                       <div className="flex items-start justify-between">
                         <div className="space-y-3">
@@ -356,9 +732,12 @@ export default function Pharmacy() {
                               <FileText className="h-5 w-5 text-green-600" />
                             </div>
                             <div>
-                              <h3 className="font-semibold">{prescription.prescriptionId}</h3>
+                              <h3 className="font-semibold">{prescription.number}</h3>
                               <p className="text-sm text-gray-600">
-                                Patient: {prescription.patientName} | Doctor: {prescription.doctorName}
+                                Patient: {prescription.patient?.name} ({prescription.patient?.mrn}) | Doctor: {prescription.doctor?.name}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                Signed {new Date(prescription.signedAt).toLocaleString()}
                               </p>
                             </div>
                           </div>
@@ -366,10 +745,12 @@ export default function Pharmacy() {
                           <div className="ml-14">
                             <h4 className="font-medium mb-2">Medications:</h4>
                             <div className="space-y-1">
-                              {prescription.medications.map((med, index) => (
-                                <div key={index} className="text-sm">
-                                  <span className="font-medium">{med.name}</span> - 
-                                  Qty: {med.quantity} - {med.instructions}
+                              {prescription.items.map((item) => (
+                                <div key={item.id} className="text-sm">
+                                  <span className="font-medium">{item.medicationName}</span> - {item.dosage}, {item.frequency}
+                                  {item.duration && ` for ${item.duration}`}
+                                  {item.quantity && ` - Qty: ${item.quantity}`}
+                                  {item.instructions && ` - ${item.instructions}`}
                                 </div>
                               ))}
                             </div>
@@ -377,22 +758,33 @@ export default function Pharmacy() {
                         </div>
                         
                         <div className="flex items-center space-x-4">
-                          <div className="text-right">
-                            <p className="text-lg font-bold">₹{prescription.total}</p>
-                            <p className="text-sm text-gray-600">Total</p>
-                          </div>
-                          
                           <Badge className={getStatusColor(prescription.status)}>
                             {getStatusIcon(prescription.status)}
-                            <span className="ml-1">{prescription.status}</span>
+                            <span className="ml-1">{statusLabels[prescription.status] ?? prescription.status}</span>
                           </Badge>
                           
                           <div className="flex space-x-2">
-                            {prescription.status === "pending" && (
-                              <Button size="sm">Prepare</Button>
+                            <Button size="sm" variant="outline" onClick={() => window.open(`/api/prescriptions/${prescription.id}/pdf`, '_blank')}>
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            {canDispense && prescription.status === "signed" && (
+                              <Button size="sm" disabled={prepareMutation.isPending} onClick={() => prepareMutation.mutate(prescription.id)}>
+                                Prepare
+                              </Button>
+                            )}
+                            {canDispense && (
+                              <Button
+                                size="sm"
+                                variant={prescription.status === "prepared" ? "default" : "outline"}
+                                onClick={() => openDispense(prescription)}
+                              >
+                                Dispense
+                              </Button>
                             )}
-                            {prescription.status === "prepared" && (
-                              <Button size="sm">Dispense</Button>
+                            {canDispense && (
+                              <Button size="sm" variant="outline" onClick={() => { setCancelling(prescription); setCancelReason(""); }}>
+                                <XCircle className="h-4 w-4" />
+                              </Button>
                             )}
                           </div>
                         </div>
@@ -400,10 +792,307 @@ export default function Pharmacy() {
                     </div>
                   ))}
                 </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <FileText className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                    <p className="text-gray-500">No prescriptions waiting</p>
+                  </div>
+                )}
               </CardContent>
             </Card>
         </div>
 
+        <Dialog open={cancelling !== null} onOpenChange={(open) => !open && setCancelling(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancel {cancelling?.number}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label>Reason *</Label>
+                <Textarea
+                  rows={3}
+                  placeholder="e.g. Patient declined; prescriber contacted"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setCancelling(null)}>Back</Button>
+                <Button
+                  variant="destructive"
+                  disabled={!cancelReason.trim() || cancelMutation.isPending}
+                  onClick={() => cancelMutation.mutate()}
+                >
+                  Cancel Prescription
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={dispensing !== null} onOpenChange={(open) => !open && setDispensing(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Dispense {dispensing?.number}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Stock is taken from the batch expiring first and charged to the patient's bill. Leave an item out if it is not dispensed here.
+              </p>
+              {dispensing?.items.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-5">
+                    <Label>{item.medicationName}</Label>
+                    <p className="text-xs text-gray-500">{item.dosage}, {item.frequency}{item.quantity && ` - Qty: ${item.quantity}`}</p>
+                  </div>
+                  <div className="col-span-5">
+                    <Select
+                      value={dispenseLines[index]?.itemId || "none"}
+                      onValueChange={(itemId) => updateDispenseLine(index, { itemId: itemId === "none" ? "" : itemId })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not dispensed here</SelectItem>
+                        {(stock ?? []).map((stockItem) => (
+                          <SelectItem key={stockItem.id} value={String(stockItem.id)}>
+                            {stockItem.name} {stockItem.strength} ({stockItem.onHand} in stock)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      disabled={!dispenseLines[index]?.itemId}
+                      value={dispenseLines[index]?.quantity ?? ""}
+                      onChange={(e) => updateDispenseLine(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                </div>
+              ))}
+              {mismatches && (
+                <div className="p-3 border border-red-200 bg-red-50 rounded-lg text-sm space-y-2">
+                  {mismatches.map((mismatch) => (
+                    <p key={`${mismatch.medicationId}-${mismatch.problem}`}>
+                      <AlertCircle className="h-4 w-4 text-red-600 inline mr-1" />
+                      {mismatch.dispensed} for {mismatch.prescribed} {mismatchLabels[mismatch.problem]}
+                    </p>
+                  ))}
+                  <div>
+                    <Label>Reason to dispense anyway *</Label>
+                    <Textarea
+                      rows={2}
+                      placeholder="e.g. Generic substitute agreed with the prescriber"
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setDispensing(null)}>Back</Button>
+                <Button
+                  variant={mismatches ? "destructive" : "default"}
+                  disabled={
+                    dispenseMutation.isPending
+                    || dispenseLines.some((line) => line.itemId && !(parseInt(line.quantity) > 0))
+                    || (mismatches !== null && !overrideReason.trim())
+                  }
+                  onClick={() => dispenseMutation.mutate()}
+                >
+                  {mismatches ? "Dispense Anyway" : "Dispense"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>{editing === "new" ? "Add Medication" : `Edit ${itemForm.name}`}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Item code *</Label>
+                  <Input value={itemForm.code} onChange={(e) => setItemForm({ ...itemForm, code: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Name *</Label>
+                  <Input placeholder="e.g. Dolo 650" value={itemForm.name} onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Generic name</Label>
+                  <Input value={itemForm.genericName} onChange={(e) => setItemForm({ ...itemForm, genericName: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Strength</Label>
+                  <Input placeholder="e.g. 650mg" value={itemForm.strength} onChange={(e) => setItemForm({ ...itemForm, strength: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Form *</Label>
+                  <Select value={itemForm.form} onValueChange={(form) => setItemForm({ ...itemForm, form })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PHARMACY_DOSAGE_FORMS.map((form) => (
+                        <SelectItem key={form} value={form}>{form}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Manufacturer</Label>
+                  <Input value={itemForm.manufacturer} onChange={(e) => setItemForm({ ...itemForm, manufacturer: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Unit *</Label>
+                  <Input placeholder="tablet, bottle, vial" value={itemForm.unit} onChange={(e) => setItemForm({ ...itemForm, unit: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Price per unit (₹) *</Label>
+                  <Input type="number" min={0} step="0.01" value={itemForm.unitPrice} onChange={(e) => setItemForm({ ...itemForm, unitPrice: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Reorder level</Label>
+                  <Input type="number" min={0} value={itemForm.reorderLevel} onChange={(e) => setItemForm({ ...itemForm, reorderLevel: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>Back</Button>
+                <Button disabled={!itemReady || itemMutation.isPending} onClick={() => itemMutation.mutate()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={receiving} onOpenChange={setReceiving}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Receive Goods</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Supplier *</Label>
+                  <Input value={supplier} onChange={(e) => setSupplier(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Invoice number</Label>
+                  <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+                </div>
+              </div>
+              {receiptLines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-4">
+                    {index === 0 && <Label>Medication *</Label>}
+                    <Select value={line.itemId} onValueChange={(itemId) => updateReceiptLine(index, { itemId })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(stock ?? []).map((stockItem) => (
+                          <SelectItem key={stockItem.id} value={String(stockItem.id)}>
+                            {stockItem.name} {stockItem.strength}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <Label>Batch *</Label>}
+                    <Input value={line.batchNumber} onChange={(e) => updateReceiptLine(index, { batchNumber: e.target.value })} />
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <Label>Expiry *</Label>}
+                    <Input type="date" value={line.expiryDate} onChange={(e) => updateReceiptLine(index, { expiryDate: e.target.value })} />
+                  </div>
+                  <div className="col-span-1">
+                    {index === 0 && <Label>Qty *</Label>}
+                    <Input type="number" min={1} value={line.quantity} onChange={(e) => updateReceiptLine(index, { quantity: e.target.value })} />
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <Label>Cost/unit (₹)</Label>}
+                    <Input type="number" min={0} step="0.01" value={line.unitCost} onChange={(e) => updateReceiptLine(index, { unitCost: e.target.value })} />
+                  </div>
+                  <div className="col-span-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={receiptLines.length === 1}
+                      onClick={() => setReceiptLines((lines) => lines.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setReceiptLines((lines) => [...lines, emptyReceiptLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setReceiving(false)}>Back</Button>
+                <Button disabled={!receiptReady || receiptMutation.isPending} onClick={() => receiptMutation.mutate()}>
+                  Receive
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={adjusting !== null} onOpenChange={(open) => !open && setAdjusting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Adjust Batch {adjusting?.batchNumber}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">{adjusting?.quantityOnHand} in stock. Enter a negative number to take stock out.</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Change *</Label>
+                  <Input type="number" placeholder="e.g. -2" value={adjustment.quantity} onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Reason *</Label>
+                  <Select value={adjustment.reason} onValueChange={(reason) => setAdjustment({ ...adjustment, reason })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STOCK_ADJUSTMENT_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>{reason.replace(/-/g, ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Textarea rows={2} value={adjustment.notes} onChange={(e) => setAdjustment({ ...adjustment, notes: e.target.value })} />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setAdjusting(null)}>Back</Button>
+                <Button
+                  disabled={!parseInt(adjustment.quantity) || !adjustment.reason || adjustMutation.isPending}
+                  onClick={() => adjustMutation.mutate()}
+                >
+                  Adjust Stock
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Purchase Orders & Reports Section */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card>
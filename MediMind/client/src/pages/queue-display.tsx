@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Volume2, VolumeX, Users, Clock } from "lucide-react";
+import { useQueueSocket, type QueueEvent } from "@/hooks/useQueueSocket";
+
+interface QueueStatus {
+  departmentId: number;
+  departmentName: string;
+  currentToken: string;
+  waitingCount: number;
+  averageWaitTime: number;
+  estimatedWaitTime: number;
+  calledToken: string | null;
+  calledAt: string | null;
+  calledCounter: string | null;
+  nowServing: Array<{ tokenNumber: string; counterName: string | null }>;
+  upcomingTokens: string[];
+}
+
+interface Announcement {
+  tokenNumber: string;
+  destination: string;
+}
+
+const DEFAULT_ROTATE_SECONDS = 15;
+const ANNOUNCEMENT_DISPLAY_MS = 8000;
+
+// Parses the board options from the URL, e.g. /queue-display?departments=1,4&rotate=20&sound=off
+function parseDisplayOptions(search: string) {
+  const params = new URLSearchParams(search);
+  const departmentIds = (params.get("departments") || "")
+    .split(",")
+    .map((id) => parseInt(id.trim()))
+    .filter((id) => !isNaN(id));
+  const rotate = parseInt(params.get("rotate") || "");
+
+  return {
+    departmentIds,
+    rotateSeconds: isNaN(rotate) ? DEFAULT_ROTATE_SECONDS : Math.max(0, rotate),
+    soundEnabled: params.get("sound") !== "off",
+  };
+}
+
+function playChime() {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  const context = new AudioContextClass();
+  // Two-tone "ding-dong"
+  [880, 660].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + index * 0.45;
+
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.4, start + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.45);
+  });
+
+  setTimeout(() => context.close(), 1500);
+}
+
+function announce({ tokenNumber, destination }: Announcement) {
+  if (!("speechSynthesis" in window)) return;
+
+  // Spell the token out so "CAR012" is read as "C A R 0 1 2"
+  const spokenToken = tokenNumber.split("").join(" ");
+  const utterance = new SpeechSynthesisUtterance(
+    `Token number ${spokenToken}, please proceed to ${destination}.`
+  );
+  utterance.rate = 0.9;
+  window.speechSynthesis.speak(utterance);
+}
+
+export default function QueueDisplay() {
+  const search = useSearch();
+  const { departmentIds, rotateSeconds, soundEnabled } = useMemo(
+    () => parseDisplayOptions(search),
+    [search]
+  );
+
+  const [audioUnlocked, setAudioUnlocked] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [clock, setClock] = useState(new Date());
+  const announcementTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const { data: queueStatus } = useQuery<QueueStatus[]>({
+    queryKey: ["/api/queue/status"],
+    refetchInterval: 60000, // Safety net in case the live channel drops silently
+  });
+
+  const departments = useMemo(
+    () =>
+      (queueStatus || []).filter(
+        (queue) => departmentIds.length === 0 || departmentIds.includes(queue.departmentId)
+      ),
+    [queueStatus, departmentIds]
+  );
+
+  useQueueSocket(
+    departments.map((queue) => queue.departmentId),
+    (event: QueueEvent) => {
+      if (event.type !== "token.called" && event.type !== "token.recalled") return;
+
+      const department = departments.find((queue) => queue.departmentId === event.departmentId);
+      const called = {
+        tokenNumber: event.token.tokenNumber,
+        destination: event.token.counterName || department?.departmentName || "the consultation area",
+      };
+
+      setAnnouncement(called);
+      clearTimeout(announcementTimer.current);
+      announcementTimer.current = setTimeout(() => setAnnouncement(null), ANNOUNCEMENT_DISPLAY_MS);
+
+      if (soundEnabled && audioUnlocked) {
+        playChime();
+        setTimeout(() => announce(called), 1000);
+      }
+    }
+  );
+
+  // Rotate between departments when more than one is on the board
+  useEffect(() => {
+    if (rotateSeconds === 0 || departments.length <= 1) return;
+    const timer = setInterval(() => {
+      setActiveIndex((index) => (index + 1) % departments.length);
+    }, rotateSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [rotateSeconds, departments.length]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => () => clearTimeout(announcementTimer.current), []);
+
+  const rotating = rotateSeconds > 0 && departments.length > 1;
+  const visibleDepartments = rotating
+    ? [departments[activeIndex % departments.length]]
+    : departments;
+
+  return (
+    <div
+      className="fixed inset-0 bg-gradient-to-br from-blue-900 to-green-900 text-white flex flex-col"
+      onClick={() => setAudioUnlocked(true)}
+    >
+      {/* Header */}
+      <header className="flex items-center justify-between px-10 py-6 border-b border-white/20">
+        <div>
+          <h1 className="text-4xl font-bold">Central Government Hospital</h1>
+          <p className="text-xl opacity-80">Patient Queue</p>
+        </div>
+        <div className="flex items-center space-x-6">
+          {soundEnabled && (
+            <div className="flex items-center text-sm opacity-80">
+              {audioUnlocked ? (
+                <>
+                  <Volume2 className="h-5 w-5 mr-2" />
+                  Announcements on
+                </>
+              ) : (
+                <>
+                  <VolumeX className="h-5 w-5 mr-2" />
+                  Tap screen to enable announcements
+                </>
+              )}
+            </div>
+          )}
+          <div className="text-4xl font-mono">
+            {clock.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </div>
+        </div>
+      </header>
+
+      {/* Boards */}
+      <main className={`flex-1 grid gap-8 p-10 ${visibleDepartments.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+        {visibleDepartments.length > 0 ? (
+          visibleDepartments.map((queue) => (
+            <section
+              key={queue.departmentId}
+              className="bg-white/10 rounded-2xl p-8 flex flex-col"
+            >
+              <h2 className="text-3xl font-semibold mb-6">{queue.departmentName}</h2>
+
+              <div className="flex-1 grid grid-cols-2 gap-8">
+                <div className="bg-white text-gray-900 rounded-xl flex flex-col items-center justify-center p-6">
+                  <p className="text-xl uppercase tracking-wide text-gray-500 mb-2">Now Serving</p>
+                  <p className="text-8xl font-bold text-green-600">
+                    {queue.calledToken || "---"}
+                  </p>
+                  <p className="text-xl text-gray-600 mt-4">
+                    Please proceed to {queue.calledCounter || queue.departmentName}
+                  </p>
+                  {queue.nowServing.length > 1 && (
+                    <div className="mt-6 w-full space-y-2">
+                      {queue.nowServing.map((serving) => (
+                        <div
+                          key={serving.tokenNumber}
+                          className="flex justify-between text-2xl font-semibold border-t pt-2"
+                        >
+                          <span className="font-mono">{serving.tokenNumber}</span>
+                          <span className="text-gray-600">{serving.counterName || "-"}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col">
+                  <p className="text-xl uppercase tracking-wide opacity-80 mb-4">Next</p>
+                  <div className="space-y-3">
+                    {queue.upcomingTokens.length > 0 ? (
+                      queue.upcomingTokens.map((tokenNumber) => (
+                        <div
+                          key={tokenNumber}
+                          className="bg-white/15 rounded-lg px-6 py-3 text-4xl font-semibold font-mono"
+                        >
+                          {tokenNumber}
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-2xl opacity-70">No patients waiting</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-8 mt-6 text-xl opacity-90">
+                <span className="flex items-center">
+                  <Users className="h-6 w-6 mr-2" />
+                  {queue.waitingCount} waiting
+                </span>
+                <span className="flex items-center">
+                  <Clock className="h-6 w-6 mr-2" />
+                  ~{queue.averageWaitTime} mins per patient
+                </span>
+              </div>
+            </section>
+          ))
+        ) : (
+          <div className="flex items-center justify-center text-3xl opacity-80">
+            No active queues at the moment
+          </div>
+        )}
+      </main>
+
+      {rotating && (
+        <footer className="flex justify-center space-x-3 pb-6">
+          {departments.map((queue, index) => (
+            <span
+              key={queue.departmentId}
+              className={`h-3 w-3 rounded-full ${index === activeIndex % departments.length ? "bg-white" : "bg-white/30"}`}
+            />
+          ))}
+        </footer>
+      )}
+
+      {/* Call announcement overlay */}
+      {announcement && (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center">
+          <div className="bg-white text-gray-900 rounded-3xl px-20 py-16 text-center shadow-2xl animate-pulse">
+            <p className="text-3xl text-gray-600 mb-4">Token Number</p>
+            <p className="text-9xl font-bold text-green-600 mb-6">{announcement.tokenNumber}</p>
+            <p className="text-3xl">Please proceed to {announcement.destination}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
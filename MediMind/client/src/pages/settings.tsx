@@ -31,6 +31,7 @@ import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import RoleBasedLayout from "@/components/RoleBasedLayout";
+import ReminderPreferences from "@/components/ReminderPreferences";
 import { User as UserType } from "@shared/schema";
 
 interface UserSettings {
@@ -439,16 +440,19 @@ export default function Settings() {
 
                   <Separator />
 
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-1">
-                      <Label>Appointment Reminders</Label>
-                      <p className="text-sm text-gray-600">Get reminded about upcoming appointments</p>
+                  {/* Patients manage their real reminder preferences below */}
+                  {(user as UserType).role !== "patient" && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <Label>Appointment Reminders</Label>
+                        <p className="text-sm text-gray-600">Get reminded about upcoming appointments</p>
+                      </div>
+                      <Switch 
+                        checked={currentSettings.notifications.appointmentReminders}
+                        onCheckedChange={(checked) => handleNotificationUpdate('appointmentReminders', checked)}
+                      />
                     </div>
-                    <Switch 
-                      checked={currentSettings.notifications.appointmentReminders}
-                      onCheckedChange={(checked) => handleNotificationUpdate('appointmentReminders', checked)}
-                    />
-                  </div>
+                  )}
 
                   <div className="flex items-center justify-between">
                     <div className="space-y-1">
@@ -474,6 +478,8 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+
+            {(user as UserType).role === "patient" && <ReminderPreferences />}
         </div>
 
         {/* Preferences Section */}
@@ -2,19 +2,37 @@ import type { Express, RequestHandler } from "express";
 import session from "express-session";
 import { storage } from "./storage";
 
+// What the demo login keeps in the session
+export interface DemoSessionUser {
+  claims: {
+    sub: string;
+    email: string | null;
+    first_name: string | null;
+    last_name: string | null;
+  };
+}
+
+declare module "express-session" {
+  interface SessionData {
+    user: DemoSessionUser;
+  }
+}
+
+// Simple session setup for demo - shared with the queue WebSocket upgrade handler
+export const demoSession = session({
+  secret: 'demo-secret-key',
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    secure: false, // false for development
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+  },
+});
+
 // Demo authentication for development when Replit Auth is not available
 export function setupDemoAuth(app: Express) {
-  // Simple session setup for demo
-  app.use(session({
-    secret: 'demo-secret-key',
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: false, // false for development
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
-    },
-  }));
+  app.use(demoSession);
 
   // Demo login endpoint
   app.post('/api/demo-login', async (req, res) => {
@@ -2,13 +2,30 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 // import { setupAuth, isDemoAuthenticated } from "./replitAuth";
-import { setupDemoAuth, isDemoAuthenticated } from "./demoAuth";
+import { setupDemoAuth, isDemoAuthenticated, demoSession } from "./demoAuth";
 import { processHospitalQuery, analyzePatientFeedback } from "./services/openai";
-import { queueManager } from "./services/queue";
+import { queueManager, QueueTransitionError, TOKEN_ACTIONS, type TokenAction } from "./services/queue";
+import { queueEventHub } from "./services/queueEvents";
 import { notificationManager } from "./services/notifications";
 import { hipaaService } from "./services/hipaa";
 import { paymentService } from "./services/payments";
-import { insertPatientSchema, insertAppointmentSchema, insertQueueTokenSchema, insertMedicalRecordSchema, insertPaymentSchema, insertBillSchema } from "@shared/schema";
+import { slipPrinter, prescriptionPrinter } from "./services/printing";
+import { availabilityEngine, AvailabilityError } from "./services/availability";
+import { appointmentBooking, BookingConflictError, AppointmentTransitionError, APPOINTMENT_ACTIONS, type AppointmentAction } from "./services/booking";
+import { appointmentSeriesScheduler, SeriesConflictError } from "./services/series";
+import { RecurrenceError } from "./services/recurrence";
+import { waitlistManager, WaitlistError } from "./services/waitlist";
+import { reminderScheduler } from "./services/reminders";
+import { calendarExporter, CalendarError } from "./services/calendar";
+import { patientMatcher } from "./services/patientMatching";
+import { patientMergeService, PatientMergeError } from "./services/patientMerge";
+import { patientIdentifierService, PatientIdentifierError } from "./services/patientIdentifiers";
+import { clinicalNoteService, ClinicalNoteError } from "./services/clinicalNotes";
+import { emrEntryService, EmrEntryError, EMR_ENTRY_KINDS, EMR_STATUS_ACTIONS, type EmrEntryKind, type EmrEntryInput } from "./services/emrEntries";
+import { interactionChecker, InteractionAlertError, type InteractionScreening } from "./services/interactions";
+import { prescriptionService, PrescriptionError, DispenseMismatchError, PRESCRIPTION_ACTIONS } from "./services/prescriptions";
+import { pharmacyInventory, PharmacyInventoryError } from "./services/pharmacyInventory";
+import { insertPatientSchema, insertAppointmentSchema, insertQueueTokenSchema, insertMedicalRecordSchema, insertPaymentSchema, insertBillSchema, updateQueuePolicySchema, insertQueueCounterSchema, updateQueueCounterSchema, insertDoctorScheduleSchema, updateDoctorScheduleSchema, insertScheduleExceptionSchema, insertAppointmentSeriesSchema, insertWaitlistEntrySchema, reminderPreferencesSchema, patientMergeSchema, insertPatientIdentifierSchema, patientUnmergeSchema, clinicalNoteDraftSchema, updateClinicalNoteDraftSchema, clinicalNoteAmendmentSchema, insertLabResultSchema, updateLabResultSchema, insertImagingStudySchema, updateImagingStudySchema, insertMedicationSchema, updateMedicationSchema, insertAllergySchema, updateAllergySchema, insertProblemSchema, updateProblemSchema, interactionCheckSchema, prescriptionDraftSchema, updatePrescriptionDraftSchema, prescriptionCancelSchema, prescriptionDispenseSchema, insertPharmacyItemSchema, updatePharmacyItemSchema, goodsReceiptSchema, stockAdjustmentSchema, APPOINTMENT_CANCELLATION_REASONS, type User, type InsertMedication, type UpdateMedication, type Medication } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Security middleware
@@ -347,20 +364,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Generate unique patient ID
-      const timestamp = Date.now().toString();
-      const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-      const generatedPatientId = `PAT${timestamp.slice(-6)}${randomSuffix}`;
-      
       // Parse and validate the request body
       const requestData = {
         ...req.body,
-        patientId: generatedPatientId,
         dateOfBirth: req.body.dateOfBirth ? new Date(req.body.dateOfBirth) : null,
         phoneNumber: req.body.phone || req.body.phoneNumber,
       };
+
+      if (requestData.aadhaarNumber) {
+        const problem = patientIdentifierService.validate('aadhaar', patientIdentifierService.normalise('aadhaar', requestData.aadhaarNumber));
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      // The same person registered twice splits their history, so make the desk
+      // confirm before creating a record that looks like an existing one
+      const duplicates = await patientMatcher.findDuplicates(requestData);
+      if (duplicates.length > 0 && req.body.confirmNotDuplicate !== true) {
+        return res.status(409).json({
+          message: "This patient may already be registered",
+          duplicates,
+        });
+      }
       
-      const patient = await storage.createPatient(requestData);
+      // The MRN is issued last so abandoned registrations do not use up numbers
+      const patient = await storage.createPatient({
+        ...requestData,
+        patientId: await patientIdentifierService.issueMrn(),
+      });
+      await patientIdentifierService.recordRegistrationIdentifiers(patient, user!.id);
+
+      if (duplicates.length > 0) {
+        await patientMergeService.flagDuplicates(patient, duplicates, user!.id);
+        await hipaaService.logAccess({
+          userId: user!.id,
+          action: 'PATIENT_DUPLICATE_OVERRIDE',
+          resourceType: 'patient',
+          resourceId: patient.id.toString(),
+          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+          userAgent: req.get('user-agent') || 'unknown',
+          success: true,
+          details: { candidates: duplicates.map(duplicate => ({ patientId: duplicate.patient.id, score: duplicate.score })) }
+        });
+      }
+
       res.json(patient);
     } catch (error) {
       console.error("Error creating patient:", error);
@@ -368,6 +416,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Finds a patient by MRN or any recorded identifier, e.g. a scanned Aadhaar or ABHA number
+  app.get('/api/patients/lookup', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['doctor', 'nurse', 'front-desk', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const identifier = typeof req.query.identifier === 'string' ? req.query.identifier : '';
+      if (!identifier.trim()) {
+        return res.status(400).json({ message: "identifier is required" });
+      }
+
+      const patient = await patientIdentifierService.resolve(identifier);
+      if (!patient) {
+        const mistyped = patientIdentifierService.checkMrn(identifier) === 'bad-check';
+        return res.status(404).json({
+          message: mistyped ? "This patient ID's check digit does not match; it may be mistyped" : "No patient found for this identifier"
+        });
+      }
+
+      res.json(patient);
+    } catch (error) {
+      console.error("Error looking up patient:", error);
+      res.status(500).json({ message: "Failed to look up patient" });
+    }
+  });
+
   // Get patient by ID
   app.get('/api/patients/:id', isDemoAuthenticated, async (req: any, res) => {
     try {
@@ -443,6 +520,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // External identifiers (Aadhaar, ABHA, insurance, passport) recorded for a patient
+  app.get('/api/patients/:id/identifiers', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['doctor', 'nurse', 'front-desk', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const identifiers = await patientIdentifierService.getIdentifiers(parseInt(req.params.id));
+      res.json(identifiers);
+    } catch (error) {
+      console.error("Error fetching patient identifiers:", error);
+      res.status(500).json({ message: "Failed to fetch patient identifiers" });
+    }
+  });
+
+  app.post('/api/patients/:id/identifiers', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['front-desk', 'admin', 'super-admin', 'nurse'].includes(user.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const patientId = parseInt(req.params.id);
+      const parsed = insertPatientIdentifierSchema.safeParse({ ...req.body, patientId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid identifier", errors: parsed.error.errors });
+      }
+
+      const identifier = await patientIdentifierService.addIdentifier(
+        patientId,
+        parsed.data.type,
+        parsed.data.value,
+        parsed.data.issuer ?? "",
+        user.id
+      );
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PATIENT_IDENTIFIER_ADD',
+        resourceType: 'patient',
+        resourceId: patientId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { identifierId: identifier.id, type: identifier.type, issuer: identifier.issuer }
+      });
+
+      res.status(201).json(identifier);
+    } catch (error) {
+      if (error instanceof PatientIdentifierError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error adding patient identifier:", error);
+      res.status(500).json({ message: "Failed to add patient identifier" });
+    }
+  });
+
+  app.delete('/api/patients/:id/identifiers/:identifierId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['front-desk', 'admin', 'super-admin'].includes(user.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const patientId = parseInt(req.params.id);
+      const identifier = await patientIdentifierService.removeIdentifier(patientId, parseInt(req.params.identifierId));
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PATIENT_IDENTIFIER_REMOVE',
+        resourceType: 'patient',
+        resourceId: patientId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { identifierId: identifier.id, type: identifier.type, issuer: identifier.issuer }
+      });
+
+      res.json({ message: "Identifier removed" });
+    } catch (error) {
+      if (error instanceof PatientIdentifierError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error removing patient identifier:", error);
+      res.status(500).json({ message: "Failed to remove patient identifier" });
+    }
+  });
+
+  // Possible duplicates of an existing record
+  app.get('/api/patients/:id/duplicates', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['front-desk', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const duplicates = await patientMergeService.findDuplicatesOf(parseInt(req.params.id));
+      res.json(duplicates);
+    } catch (error) {
+      if (error instanceof PatientMergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error finding duplicate patients:", error);
+      res.status(500).json({ message: "Failed to find duplicate patients" });
+    }
+  });
+
   // Get patient statistics
   app.get('/api/patients/stats/dashboard', isDemoAuthenticated, async (req: any, res) => {
     try {
@@ -461,6 +650,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Duplicate patient review and merge
+  app.get('/api/patient-merges/review', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const reviews = await patientMergeService.getOpenFlags();
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching duplicate patient flags:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate patient flags" });
+    }
+  });
+
+  app.post('/api/patient-merges/review/:id/dismiss', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin'].includes(user.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const flag = await patientMergeService.dismissFlag(parseInt(req.params.id), user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PATIENT_DUPLICATE_DISMISS',
+        resourceType: 'patient',
+        resourceId: flag.patientId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { flagId: flag.id, candidateId: flag.candidateId }
+      });
+
+      res.json(flag);
+    } catch (error) {
+      if (error instanceof PatientMergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error dismissing duplicate patient flag:", error);
+      res.status(500).json({ message: "Failed to dismiss duplicate flag" });
+    }
+  });
+
+  app.get('/api/patient-merges', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const merges = await patientMergeService.getHistory();
+      res.json(merges);
+    } catch (error) {
+      console.error("Error fetching patient merges:", error);
+      res.status(500).json({ message: "Failed to fetch patient merges" });
+    }
+  });
+
+  app.post('/api/patient-merges', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin'].includes(user.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = patientMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid merge request", errors: parsed.error.errors });
+      }
+
+      const merge = await patientMergeService.merge(parsed.data.survivorId, parsed.data.mergedId, user.id, parsed.data.reason);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PATIENT_MERGE',
+        resourceType: 'patient',
+        resourceId: merge.survivorId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { mergeId: merge.id, mergedId: merge.mergedId, reason: merge.reason, movedRows: merge.movedRows, filledFields: merge.filledFields }
+      });
+
+      res.status(201).json(merge);
+    } catch (error) {
+      if (error instanceof PatientMergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error merging patients:", error);
+      res.status(500).json({ message: "Failed to merge patients" });
+    }
+  });
+
+  app.post('/api/patient-merges/:id/revert', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin'].includes(user.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = patientUnmergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid un-merge request", errors: parsed.error.errors });
+      }
+
+      const merge = await patientMergeService.unmerge(parseInt(req.params.id), user.id, parsed.data.reason);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PATIENT_UNMERGE',
+        resourceType: 'patient',
+        resourceId: merge.mergedId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { mergeId: merge.id, survivorId: merge.survivorId, reason: merge.revertReason }
+      });
+
+      res.json(merge);
+    } catch (error) {
+      if (error instanceof PatientMergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error undoing patient merge:", error);
+      res.status(500).json({ message: "Failed to undo patient merge" });
+    }
+  });
+
   // Appointment routes
   app.get('/api/appointments', isDemoAuthenticated, async (req: any, res) => {
     try {
@@ -494,6 +819,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get doctor's appointments for a specific date
   app.get('/api/appointments/doctor/:doctorId/:date', isDemoAuthenticated, async (req: any, res) => {
     try {
+      // Lists other patients' bookings; patients see open slots via /availability instead
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role === 'patient') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       const { doctorId, date } = req.params;
       const appointments = await storage.getAppointmentsByDoctorAndDate(parseInt(doctorId), date);
       res.json(appointments);
@@ -503,81 +834,1055 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bookable slots for one doctor or every doctor in a department.
+  // Only open slots are returned unless all=true.
+  app.get('/api/appointments/availability', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const { doctorId, departmentId, from, to, all } = req.query;
+      if (!doctorId && !departmentId) {
+        return res.status(400).json({ message: "doctorId or departmentId is required" });
+      }
+
+      const slots = await availabilityEngine.getSlots({
+        doctorId: doctorId ? parseInt(doctorId as string) : undefined,
+        departmentId: departmentId ? parseInt(departmentId as string) : undefined,
+        from: from as string,
+        to: (to || from) as string,
+      });
+
+      res.json(all === 'true' ? slots : slots.filter(slot => slot.status === "open"));
+    } catch (error) {
+      if (error instanceof AvailabilityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
   app.post('/api/appointments', isDemoAuthenticated, async (req: any, res) => {
     try {
+      const user = await storage.getUser(req.user.claims.sub);
+      let patientId = req.body.patientId ? parseInt(req.body.patientId) : undefined;
+
+      // Patients book for themselves, and only into a doctor's open slot
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient) {
+          return res.status(404).json({ message: "Patient record not found" });
+        }
+        if (!req.body.doctorId) {
+          return res.status(400).json({ message: "Choose a doctor's slot to book" });
+        }
+        patientId = patient.id;
+      }
+
       // Transform the data before validation
       const transformedData = {
         ...req.body,
         doctorId: req.body.doctorId ? parseInt(req.body.doctorId) : undefined,
-        patientId: req.body.patientId ? parseInt(req.body.patientId) : undefined,
+        patientId,
         departmentId: req.body.departmentId ? parseInt(req.body.departmentId) : undefined,
-        appointmentDate: req.body.appointmentDate ? new Date(req.body.appointmentDate) : undefined
+        roomId: req.body.roomId ? parseInt(req.body.roomId) : undefined,
+        appointmentDate: req.body.appointmentDate ? new Date(req.body.appointmentDate) : undefined,
+        // Taken from the doctor's schedule slot
+        endsAt: undefined,
+        // New bookings always start out scheduled; later states come from the actions below
+        status: 'scheduled',
+        seriesId: undefined
       };
       
       const appointmentData = insertAppointmentSchema.parse(transformedData);
-      const appointment = await storage.createAppointment(appointmentData);
+      const appointment = await appointmentBooking.book(appointmentData);
       
       // Send confirmation notification
-      const patient = await storage.getPatients();
-      const patientData = patient.find(p => p.id === appointment.patientId);
+      const patientData = appointment.patientId ? await storage.getPatientById(appointment.patientId) : undefined;
       
       if (patientData?.userId) {
         await notificationManager.notifyAppointmentConfirmation(
           patientData.userId,
-          {
-            date: appointment.appointmentDate,
-            doctor: "Dr. Smith", // In production, fetch doctor name
-            token: "TBD"
-          }
+          await reminderScheduler.describe(appointment),
+          await calendarExporter.appointmentFile(appointment)
         );
       }
       
       res.json(appointment);
     } catch (error) {
+      if (error instanceof BookingConflictError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof AvailabilityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating appointment:", error);
       res.status(500).json({ message: "Failed to create appointment" });
     }
   });
 
-  // Doctors routes
-  app.get('/api/doctors', isDemoAuthenticated, async (req: any, res) => {
-    try {
-      const doctors = await storage.getDoctors();
-      res.json(doctors);
-    } catch (error) {
-      console.error("Error fetching doctors:", error);
-      res.status(500).json({ message: "Failed to fetch doctors" });
-    }
-  });
+  // Who may apply each appointment action. Patients may only act on their own
+  // appointments and doctors only on theirs.
+  const APPOINTMENT_ACTION_ROLES: Record<AppointmentAction, string[]> = {
+    "reschedule": ['patient', 'front-desk', 'nurse', 'admin', 'super-admin'],
+    "cancel": ['patient', 'front-desk', 'nurse', 'admin', 'super-admin'],
+    "no-show": ['front-desk', 'nurse', 'doctor', 'admin', 'super-admin'],
+    "complete": ['doctor', 'nurse', 'admin', 'super-admin'],
+  };
 
-  // Analytics routes
-  app.get('/api/analytics/dashboard', isDemoAuthenticated, async (req: any, res) => {
+  app.post('/api/appointments/:id/:action', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      
-      // Only allow certain roles to access analytics
-      if (!user || !["admin", "super-admin", "department-head", "front-desk"].includes(user.role)) {
+      const action = req.params.action as AppointmentAction;
+      if (!APPOINTMENT_ACTIONS.includes(action)) {
+        return res.status(400).json({ message: "Unknown appointment action" });
+      }
+
+      if (!user || !APPOINTMENT_ACTION_ROLES[action].includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Mock analytics data for now
-      const analytics = {
-        todayAppointments: 12,
-        totalPatients: 156,
-        activeQueues: 3,
-        activeDepartments: 8
-      };
-      res.json(analytics);
+      const appointmentId = parseInt(req.params.id);
+      const appointment = await storage.getAppointmentById(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (user.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient || patient.id !== appointment.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (user.role === 'doctor') {
+        const doctor = await storage.getDoctorByUserId(user.id);
+        if (!doctor || doctor.id !== appointment.doctorId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const { appointmentDate, doctorId, reasonCode, note } = req.body || {};
+      const actor = { userId: user.id, role: user.role };
+      let change;
+
+      switch (action) {
+        case "reschedule": {
+          const target = appointmentDate ? new Date(appointmentDate) : undefined;
+          if (!target || isNaN(target.getTime())) {
+            return res.status(400).json({ message: "A new appointmentDate is required" });
+          }
+          change = await appointmentBooking.reschedule(appointmentId, {
+            appointmentDate: target,
+            doctorId: doctorId ? parseInt(doctorId) : undefined,
+            note,
+          }, actor);
+          break;
+        }
+        case "cancel":
+          if (!APPOINTMENT_CANCELLATION_REASONS.includes(reasonCode)) {
+            return res.status(400).json({
+              message: "A valid reasonCode is required",
+              reasonCodes: APPOINTMENT_CANCELLATION_REASONS,
+            });
+          }
+          change = await appointmentBooking.cancel(appointmentId, reasonCode, actor, note);
+          break;
+        case "no-show":
+          change = await appointmentBooking.markNoShow(appointmentId, actor, note);
+          break;
+        case "complete":
+          change = await appointmentBooking.complete(appointmentId, actor, note);
+          break;
+      }
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `APPOINTMENT_${action.replace('-', '_').toUpperCase()}`,
+        resourceType: 'appointment',
+        resourceId: appointmentId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: {
+          from: change.previousStatus,
+          to: change.appointment.status,
+          reasonCode,
+          ...(action === "reschedule" ? {
+            previousDate: appointment.appointmentDate,
+            appointmentDate: change.appointment.appointmentDate,
+            doctorId: change.appointment.doctorId,
+          } : {})
+        }
+      });
+
+      res.json(change.appointment);
     } catch (error) {
-      console.error("Error fetching dashboard analytics:", error);
-      res.status(500).json({ message: "Failed to fetch analytics" });
+      if (error instanceof BookingConflictError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof AppointmentTransitionError || error instanceof AvailabilityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating appointment:", error);
+      res.status(500).json({ message: "Failed to update appointment" });
     }
   });
 
-  // Notifications routes
-  app.get('/api/notifications', isDemoAuthenticated, async (req: any, res) => {
+  // Single appointment as an .ics download for the patient's own calendar
+  app.get('/api/appointments/:id/calendar.ics', isDemoAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const user = await storage.getUser(req.user.claims.sub);
+      const appointment = await storage.getAppointmentById(parseInt(req.params.id));
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(req.user.claims.sub);
+        if (!patient || patient.id !== appointment.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!['front-desk', 'nurse', 'doctor', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const file = await calendarExporter.appointmentFile(appointment);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      console.error("Error exporting appointment calendar:", error);
+      res.status(500).json({ message: "Failed to export appointment" });
+    }
+  });
+
+  // Calendar subscription feeds for doctors (OPD schedule) and patients (bookings)
+  const CALENDAR_FEED_ROLES = ['doctor', 'patient'];
+
+  const calendarFeedUrl = (req: any, token: string) =>
+    `${req.protocol}://${req.get('host')}/api/calendar/feeds/${token}.ics`;
+
+  app.get('/api/calendar/feed', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !CALENDAR_FEED_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const token = await calendarExporter.getFeedToken(user.id);
+      res.json({ url: calendarFeedUrl(req, token) });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post('/api/calendar/feed/rotate', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !CALENDAR_FEED_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const token = await calendarExporter.rotateFeedToken(user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CALENDAR_FEED_ROTATE',
+        resourceType: 'calendar_feed',
+        resourceId: user.id,
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: {},
+      });
+
+      res.json({ url: calendarFeedUrl(req, token) });
+    } catch (error) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({ message: "Failed to reset calendar feed" });
+    }
+  });
+
+  // Polled by calendar apps, which cannot log in; the token in the URL is the credential
+  app.get('/api/calendar/feeds/:token.ics', async (req: any, res) => {
+    try {
+      const { user, calendar } = await calendarExporter.renderFeed(req.params.token);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CALENDAR_FEED_READ',
+        resourceType: 'calendar_feed',
+        resourceId: user.id,
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: {},
+      });
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(calendar);
+    } catch (error) {
+      if (error instanceof CalendarError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error rendering calendar feed:", error);
+      res.status(500).json({ message: "Failed to render calendar feed" });
+    }
+  });
+
+  // Every reschedule and status change, oldest first
+  app.get('/api/appointments/:id/history', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const appointment = await storage.getAppointmentById(parseInt(req.params.id));
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(req.user.claims.sub);
+        if (!patient || patient.id !== appointment.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const history = await appointmentBooking.getHistory(appointment.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching appointment history:", error);
+      res.status(500).json({ message: "Failed to fetch appointment history" });
+    }
+  });
+
+  app.get('/api/appointments/:id/reminders', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!['front-desk', 'nurse', 'doctor', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const reminders = await storage.getAppointmentReminders(parseInt(req.params.id));
+      res.json(reminders);
+    } catch (error) {
+      console.error("Error fetching appointment reminders:", error);
+      res.status(500).json({ message: "Failed to fetch appointment reminders" });
+    }
+  });
+
+  // Reminder opt-out and channels. Patients manage their own; front-desk staff
+  // pass ?patientId= to change them on a patient's behalf.
+  const REMINDER_PREFERENCE_ROLES = ['front-desk', 'nurse', 'admin', 'super-admin'];
+
+  const reminderPatient = async (req: any) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (user?.role === 'patient') {
+      return { user, patient: await storage.getPatientByUserId(user.id) };
+    }
+    if (!user || !REMINDER_PREFERENCE_ROLES.includes(user.role)) {
+      return { user, denied: true };
+    }
+    const patientId = parseInt(req.query.patientId as string);
+    return { user, patient: patientId ? await storage.getPatientById(patientId) : undefined };
+  };
+
+  app.get('/api/reminder-preferences', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const { patient, denied } = await reminderPatient(req);
+      if (denied) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      res.json({
+        remindersOptOut: patient.remindersOptOut ?? false,
+        reminderChannels: patient.reminderChannels ?? null,
+        offsetsMinutes: reminderScheduler.getOffsets(),
+      });
+    } catch (error) {
+      console.error("Error fetching reminder preferences:", error);
+      res.status(500).json({ message: "Failed to fetch reminder preferences" });
+    }
+  });
+
+  app.put('/api/reminder-preferences', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const { user, patient, denied } = await reminderPatient(req);
+      if (denied || !user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const parsed = reminderPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid reminder preferences", errors: parsed.error.errors });
+      }
+
+      const updated = await storage.updatePatient(patient.id, parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'REMINDER_PREFERENCES_UPDATE',
+        resourceType: 'patient',
+        resourceId: patient.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data,
+      });
+
+      res.json({
+        remindersOptOut: updated.remindersOptOut ?? false,
+        reminderChannels: updated.reminderChannels ?? null,
+        offsetsMinutes: reminderScheduler.getOffsets(),
+      });
+    } catch (error) {
+      console.error("Error updating reminder preferences:", error);
+      res.status(500).json({ message: "Failed to update reminder preferences" });
+    }
+  });
+
+  // Patient self-service portal. Every route resolves the caller's own patients
+  // row from the session; nothing here takes a patient id from the request.
+  const portalPatient = async (req: any, res: any) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (user?.role !== 'patient') {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    const patient = await storage.getPatientByUserId(user.id);
+    if (!patient) {
+      res.status(404).json({ message: "Patient record not found" });
+      return undefined;
+    }
+    return patient;
+  };
+
+  app.get('/api/portal/me', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await portalPatient(req, res);
+      if (!patient) return;
+
+      res.json({
+        id: patient.id,
+        patientId: patient.patientId,
+        phoneNumber: patient.phoneNumber,
+        bloodGroup: patient.bloodGroup,
+        insuranceProvider: patient.insuranceProvider,
+      });
+    } catch (error) {
+      console.error("Error fetching portal profile:", error);
+      res.status(500).json({ message: "Failed to fetch profile" });
+    }
+  });
+
+  app.get('/api/portal/queue-tokens', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await portalPatient(req, res);
+      if (!patient) return;
+
+      res.json(await queueManager.getPatientTokens(patient.id));
+    } catch (error) {
+      console.error("Error fetching portal queue tokens:", error);
+      res.status(500).json({ message: "Failed to fetch queue tokens" });
+    }
+  });
+
+  app.get('/api/portal/bills', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await portalPatient(req, res);
+      if (!patient) return;
+
+      const bills = await storage.getBillsByPatient(patient.id);
+      const items = await storage.getBillItems(bills.map(bill => bill.id));
+      res.json(bills.map(bill => ({
+        ...bill,
+        items: items.filter(item => item.billId === bill.id),
+      })));
+    } catch (error) {
+      console.error("Error fetching portal bills:", error);
+      res.status(500).json({ message: "Failed to fetch bills" });
+    }
+  });
+
+  // Recurring appointment series
+  const SERIES_BOOKING_ROLES = ['front-desk', 'nurse', 'doctor', 'admin', 'super-admin'];
+
+  const parseSeries = async (body: any, userId: string) => {
+    let patientId = body.patientId ? parseInt(body.patientId) : undefined;
+    if (!patientId && body.patientCode) {
+      patientId = (await storage.getPatientByPatientId(body.patientCode))?.id;
+    }
+    return insertAppointmentSeriesSchema.safeParse({
+      ...body,
+      patientId,
+      doctorId: body.doctorId ? parseInt(body.doctorId) : undefined,
+      departmentId: body.departmentId ? parseInt(body.departmentId) : undefined,
+      firstStart: body.firstStart ? new Date(body.firstStart) : undefined,
+      status: undefined,
+      createdBy: userId,
+    });
+  };
+
+  // Every session the rule would produce, with any that cannot be booked. Nothing is written.
+  app.post('/api/appointment-series/preview', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !SERIES_BOOKING_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = await parseSeries(req.body, user.id);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid appointment series", errors: parsed.error.errors });
+      }
+
+      const occurrences = await appointmentSeriesScheduler.plan(parsed.data);
+      res.json(occurrences);
+    } catch (error) {
+      if (error instanceof RecurrenceError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error previewing appointment series:", error);
+      res.status(500).json({ message: "Failed to preview appointment series" });
+    }
+  });
+
+  app.post('/api/appointment-series', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !SERIES_BOOKING_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = await parseSeries(req.body, user.id);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid appointment series", errors: parsed.error.errors });
+      }
+
+      const booking = await appointmentSeriesScheduler.create(parsed.data, { skipConflicts: req.body.skipConflicts === true });
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'APPOINTMENT_SERIES_CREATE',
+        resourceType: 'appointment',
+        resourceId: booking.series.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: {
+          patientId: booking.series.patientId,
+          recurrenceRule: booking.series.recurrenceRule,
+          sessions: booking.appointments.length,
+          skipped: booking.skipped.length
+        }
+      });
+
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof SeriesConflictError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof RecurrenceError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating appointment series:", error);
+      res.status(500).json({ message: "Failed to create appointment series" });
+    }
+  });
+
+  app.get('/api/appointment-series', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      let patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+      if (user?.role === 'patient') {
+        patientId = (await storage.getPatientByUserId(req.user.claims.sub))?.id;
+        if (!patientId) return res.json([]);
+      }
+      if (!patientId) {
+        return res.status(400).json({ message: "patientId is required" });
+      }
+
+      const series = await storage.getAppointmentSeriesByPatient(patientId);
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching appointment series:", error);
+      res.status(500).json({ message: "Failed to fetch appointment series" });
+    }
+  });
+
+  app.get('/api/appointment-series/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const result = await appointmentSeriesScheduler.getSeries(parseInt(req.params.id));
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(req.user.claims.sub);
+        if (!patient || patient.id !== result.series.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof AppointmentTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching appointment series:", error);
+      res.status(500).json({ message: "Failed to fetch appointment series" });
+    }
+  });
+
+  // Cancels the rest of a series; individual sessions go through /api/appointments/:id/:action
+  app.post('/api/appointment-series/:id/cancel', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['front-desk', 'nurse', 'admin', 'super-admin'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { reasonCode, note, from } = req.body || {};
+      if (!APPOINTMENT_CANCELLATION_REASONS.includes(reasonCode)) {
+        return res.status(400).json({
+          message: "A valid reasonCode is required",
+          reasonCodes: APPOINTMENT_CANCELLATION_REASONS,
+        });
+      }
+
+      const seriesId = parseInt(req.params.id);
+      const result = await appointmentSeriesScheduler.cancelRemaining(
+        seriesId,
+        reasonCode,
+        { userId: user.id, role: user.role },
+        { from: from ? new Date(from) : undefined, note }
+      );
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'APPOINTMENT_SERIES_CANCEL',
+        resourceType: 'appointment',
+        resourceId: seriesId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { reasonCode, cancelled: result.cancelled.map(appointment => appointment.id) }
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof AppointmentTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error cancelling appointment series:", error);
+      res.status(500).json({ message: "Failed to cancel appointment series" });
+    }
+  });
+
+  // Appointment waitlist
+  const WAITLIST_STAFF_ROLES = ['front-desk', 'nurse', 'doctor', 'admin', 'super-admin'];
+
+  app.get('/api/waitlist', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId, doctorId, departmentId, status } = req.query;
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(req.user.claims.sub);
+        if (!patient) return res.json([]);
+        return res.json(await waitlistManager.getEntries({ patientId: patient.id }));
+      }
+      if (!user || !WAITLIST_STAFF_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entries = await waitlistManager.getEntries({
+        patientId: patientId ? parseInt(patientId as string) : undefined,
+        doctorId: doctorId ? parseInt(doctorId as string) : undefined,
+        departmentId: departmentId ? parseInt(departmentId as string) : undefined,
+        status: (status as string) || undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post('/api/waitlist', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || (user.role !== 'patient' && !WAITLIST_STAFF_ROLES.includes(user.role))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let patientId = req.body.patientId ? parseInt(req.body.patientId) : undefined;
+      if (user.role === 'patient') {
+        patientId = (await storage.getPatientByUserId(user.id))?.id;
+      } else if (!patientId && req.body.patientCode) {
+        patientId = (await storage.getPatientByPatientId(req.body.patientCode))?.id;
+      }
+
+      const parsed = insertWaitlistEntrySchema.safeParse({
+        ...req.body,
+        patientId,
+        doctorId: req.body.doctorId ? parseInt(req.body.doctorId) : undefined,
+        departmentId: req.body.departmentId ? parseInt(req.body.departmentId) : undefined,
+        earliestDate: req.body.earliestDate || undefined,
+        latestDate: req.body.latestDate || undefined,
+        status: undefined,
+        bookedAppointmentId: undefined,
+        createdBy: user.id,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid waitlist entry", errors: parsed.error.errors });
+      }
+
+      const entry = await waitlistManager.join(parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'WAITLIST_JOIN',
+        resourceType: 'appointment',
+        resourceId: entry.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { patientId: entry.patientId, doctorId: entry.doctorId, departmentId: entry.departmentId }
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof WaitlistError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.delete('/api/waitlist/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const entryId = parseInt(req.params.id);
+      const entry = await storage.getWaitlistEntryById(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient || patient.id !== entry.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!user || !WAITLIST_STAFF_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const removed = await waitlistManager.remove(entryId);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'WAITLIST_REMOVE',
+        resourceType: 'appointment',
+        resourceId: entryId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { patientId: entry.patientId }
+      });
+
+      res.json(removed);
+    } catch (error) {
+      if (error instanceof WaitlistError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error removing waitlist entry:", error);
+      res.status(500).json({ message: "Failed to remove waitlist entry" });
+    }
+  });
+
+  // Accept or decline a held slot, by the patient or by staff on their behalf
+  app.post('/api/waitlist/offers/:id/:response', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { response } = req.params;
+      if (response !== 'accept' && response !== 'decline') {
+        return res.status(400).json({ message: "Unknown offer response" });
+      }
+
+      const offerId = parseInt(req.params.id);
+      const offer = await storage.getWaitlistOfferById(offerId);
+      const entry = offer ? await storage.getWaitlistEntryById(offer.entryId) : undefined;
+      if (!offer || !entry) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient || patient.id !== entry.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!user || !WAITLIST_STAFF_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await waitlistManager.respond(offerId, response === 'accept');
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: response === 'accept' ? 'WAITLIST_OFFER_ACCEPT' : 'WAITLIST_OFFER_DECLINE',
+        resourceType: 'appointment',
+        resourceId: (result.appointment?.id ?? offerId).toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { offerId, patientId: entry.patientId, slotStart: offer.slotStart }
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof WaitlistError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error responding to waitlist offer:", error);
+      res.status(500).json({ message: "Failed to respond to offer" });
+    }
+  });
+
+  // Doctors routes
+  app.get('/api/doctors', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const doctors = await storage.getDoctors();
+      res.json(doctors);
+    } catch (error) {
+      console.error("Error fetching doctors:", error);
+      res.status(500).json({ message: "Failed to fetch doctors" });
+    }
+  });
+
+  // Doctor schedule templates and leave
+  app.get('/api/doctors/:id/schedules', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const schedules = await storage.getDoctorSchedules([parseInt(req.params.id)]);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching doctor schedules:", error);
+      res.status(500).json({ message: "Failed to fetch schedules" });
+    }
+  });
+
+  app.post('/api/doctors/:id/schedules', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = insertDoctorScheduleSchema.safeParse({ ...req.body, doctorId: parseInt(req.params.id) });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid schedule", errors: parsed.error.errors });
+      }
+
+      const schedule = await availabilityEngine.createSchedule(parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'DOCTOR_SCHEDULE_CREATE',
+        resourceType: 'doctor-schedule',
+        resourceId: schedule.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof AvailabilityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating doctor schedule:", error);
+      res.status(500).json({ message: "Failed to create schedule" });
+    }
+  });
+
+  app.patch('/api/doctor-schedules/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = updateDoctorScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid schedule", errors: parsed.error.errors });
+      }
+
+      const schedule = await availabilityEngine.updateSchedule(parseInt(req.params.id), parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'DOCTOR_SCHEDULE_UPDATE',
+        resourceType: 'doctor-schedule',
+        resourceId: schedule.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof AvailabilityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating doctor schedule:", error);
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  // Booked appointments keep their time; only future availability changes
+  app.delete('/api/doctor-schedules/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteDoctorSchedule(parseInt(req.params.id));
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'DOCTOR_SCHEDULE_DELETE',
+        resourceType: 'doctor-schedule',
+        resourceId: req.params.id,
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true
+      });
+
+      res.json({ message: "Schedule deleted" });
+    } catch (error) {
+      console.error("Error deleting doctor schedule:", error);
+      res.status(500).json({ message: "Failed to delete schedule" });
+    }
+  });
+
+  app.get('/api/schedule-exceptions', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const { doctorId } = req.query;
+      const today = new Date().toISOString().split('T')[0];
+      const from = (req.query.from as string) || today;
+      const to = (req.query.to as string) || '9999-12-31';
+
+      const exceptions = await storage.getScheduleExceptions(from, to, doctorId ? [parseInt(doctorId as string)] : undefined);
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Error fetching schedule exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch leave and holidays" });
+    }
+  });
+
+  app.post('/api/schedule-exceptions', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = insertScheduleExceptionSchema.safeParse({ ...req.body, createdBy: user.id });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid leave entry", errors: parsed.error.errors });
+      }
+      if (parsed.data.endDate < parsed.data.startDate) {
+        return res.status(400).json({ message: "Leave must end on or after its start date" });
+      }
+
+      const exception = await storage.createScheduleException(parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'SCHEDULE_EXCEPTION_CREATE',
+        resourceType: 'doctor-schedule',
+        resourceId: exception.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(exception);
+    } catch (error) {
+      console.error("Error creating schedule exception:", error);
+      res.status(500).json({ message: "Failed to save leave entry" });
+    }
+  });
+
+  app.delete('/api/schedule-exceptions/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteScheduleException(parseInt(req.params.id));
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'SCHEDULE_EXCEPTION_DELETE',
+        resourceType: 'doctor-schedule',
+        resourceId: req.params.id,
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true
+      });
+
+      res.json({ message: "Leave entry deleted" });
+    } catch (error) {
+      console.error("Error deleting schedule exception:", error);
+      res.status(500).json({ message: "Failed to delete leave entry" });
+    }
+  });
+
+  // Analytics routes
+  app.get('/api/analytics/dashboard', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      // Only allow certain roles to access analytics
+      if (!user || !["admin", "super-admin", "department-head", "front-desk"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Mock analytics data for now
+      const analytics = {
+        todayAppointments: 12,
+        totalPatients: 156,
+        activeQueues: 3,
+        activeDepartments: 8
+      };
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching dashboard analytics:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
+  // Notifications routes
+  app.get('/api/notifications', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
       // Mock notifications data for now
       const notifications = [
         {
@@ -596,195 +1901,1254 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isRead: false,
           createdAt: new Date().toISOString()
         }
-      ];
-      res.json(notifications);
+      ];
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Enhanced EMR Routes
+  
+  // Get EMR records for a patient
+  app.get('/api/emr/records/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      // Role-based access control
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        if (user?.role === 'patient') {
+          const patient = await storage.getPatientByUserId(req.user.claims.sub);
+          if (!patient || patient.id !== parseInt(patientId)) {
+            return res.status(403).json({ message: "Access denied" });
+          }
+        } else {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const records = await storage.getMedicalRecordsByPatient(parseInt(patientId));
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching EMR records:", error);
+      res.status(500).json({ message: "Failed to fetch EMR records" });
+    }
+  });
+
+  // Create new EMR record
+  app.post('/api/emr/records', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !["doctor", "nurse", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const recordData = {
+        ...req.body,
+        doctorId: user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const newRecord = await storage.createMedicalRecord(recordData);
+      res.json(newRecord);
+    } catch (error) {
+      console.error("Error creating EMR record:", error);
+      res.status(500).json({ message: "Failed to create EMR record" });
+    }
+  });
+
+  // Get lab results for a patient
+  app.get('/api/emr/lab-results/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const labResults = await storage.getLabResultsByPatient(parseInt(patientId));
+      res.json(labResults);
+    } catch (error) {
+      console.error("Error fetching lab results:", error);
+      res.status(500).json({ message: "Failed to fetch lab results" });
+    }
+  });
+
+  // Get vital signs for a patient
+  app.get('/api/emr/vital-signs/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const vitalSigns = await storage.getVitalSignsByPatient(parseInt(patientId));
+      res.json(vitalSigns);
+    } catch (error) {
+      console.error("Error fetching vital signs:", error);
+      res.status(500).json({ message: "Failed to fetch vital signs" });
+    }
+  });
+
+  // Create vital signs record
+  app.post('/api/emr/vital-signs', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !["doctor", "nurse", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const vitalsData = {
+        ...req.body,
+        recordedBy: user.id,
+        recordedAt: new Date(),
+        createdAt: new Date(),
+      };
+
+      const newVitals = await storage.createVitalSigns(vitalsData);
+      res.json(newVitals);
+    } catch (error) {
+      console.error("Error creating vital signs:", error);
+      res.status(500).json({ message: "Failed to create vital signs" });
+    }
+  });
+
+  // Get medications for a patient
+  app.get('/api/emr/medications/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin', 'pharmacy'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const medications = await storage.getMedicationsByPatient(parseInt(patientId));
+      res.json(medications);
+    } catch (error) {
+      console.error("Error fetching medications:", error);
+      res.status(500).json({ message: "Failed to fetch medications" });
+    }
+  });
+
+  // Get imaging studies for a patient
+  app.get('/api/emr/imaging/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const imagingStudies = await storage.getImagingStudiesByPatient(parseInt(patientId));
+      res.json(imagingStudies);
+    } catch (error) {
+      console.error("Error fetching imaging studies:", error);
+      res.status(500).json({ message: "Failed to fetch imaging studies" });
+    }
+  });
+
+  // Get patient allergies
+  app.get('/api/emr/allergies/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const allergies = await storage.getAllergiesByPatient(parseInt(patientId));
+      res.json(allergies);
+    } catch (error) {
+      console.error("Error fetching allergies:", error);
+      res.status(500).json({ message: "Failed to fetch allergies" });
+    }
+  });
+
+  // Get patient problem list
+  app.get('/api/emr/problems/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { patientId } = req.params;
+      
+      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const problems = await storage.getProblemsByPatient(parseInt(patientId));
+      res.json(problems);
+    } catch (error) {
+      console.error("Error fetching problems:", error);
+      res.status(500).json({ message: "Failed to fetch problems" });
+    }
+  });
+
+  // Validation for each kind of EMR entry. JSON carries dates as strings, so the
+  // listed fields are parsed before the insert and update schemas see them.
+  const EMR_ENTRY_SCHEMAS = {
+    "lab-results": { insert: insertLabResultSchema, update: updateLabResultSchema, dates: ["collectionDate", "reportDate"] },
+    "imaging": { insert: insertImagingStudySchema, update: updateImagingStudySchema, dates: ["studyDate", "reportDate"] },
+    "medications": { insert: insertMedicationSchema, update: updateMedicationSchema, dates: ["prescribedDate", "startDate", "endDate"] },
+    "allergies": { insert: insertAllergySchema, update: updateAllergySchema, dates: ["onsetDate"] },
+    "problems": { insert: insertProblemSchema, update: updateProblemSchema, dates: ["onsetDate", "resolvedDate"] },
+  };
+
+  // Audit action prefix for each kind, e.g. MEDICATION_CREATE
+  const EMR_ENTRY_AUDIT_NAMES: Record<EmrEntryKind, string> = {
+    "lab-results": 'LAB_RESULT',
+    "imaging": 'IMAGING_STUDY',
+    "medications": 'MEDICATION',
+    "allergies": 'ALLERGY',
+    "problems": 'PROBLEM',
+  };
+
+  const EMR_ENTRY_PATH = `/api/emr/:kind(${EMR_ENTRY_KINDS.join('|')})`;
+
+  const auditInteractionOverride = (req: any, userId: string, medication: Medication, screening: InteractionScreening) =>
+    hipaaService.logAccess({
+      userId,
+      action: 'MEDICATION_INTERACTION_OVERRIDE',
+      resourceType: 'medications',
+      resourceId: medication.id.toString(),
+      patientId: String(medication.patientId),
+      ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+      userAgent: req.get('user-agent') || 'unknown',
+      success: true,
+      details: {
+        reason: screening.overrideReason,
+        dataset: interactionChecker.version,
+        alerts: screening.overridden.map(({ type, severity, conflictsWith, effect }) => ({ type, severity, conflictsWith, effect })),
+      }
+    });
+
+  const overrideReasonOf = (body: any) => typeof body?.overrideReason === 'string' ? body.overrideReason : undefined;
+
+  const withParsedDates = (body: any, fields: string[]) => {
+    const parsed = { ...body };
+    for (const field of fields) {
+      if (parsed[field]) parsed[field] = new Date(parsed[field]);
+    }
+    return parsed;
+  };
+
+  // Interaction and allergy alerts for drugs about to be prescribed. Nothing is written.
+  app.post('/api/emr/medications/check', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = interactionCheckSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid interaction check", errors: parsed.error.errors });
+      }
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', parsed.data.patientId.toString(), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const alerts = await interactionChecker.check(parsed.data.patientId, parsed.data.medications);
+      res.json({
+        alerts,
+        requiresOverride: alerts.some(alert => interactionChecker.isSerious(alert)),
+        dataset: interactionChecker.version,
+      });
+    } catch (error) {
+      console.error("Error checking interactions:", error);
+      res.status(500).json({ message: "Failed to check interactions" });
+    }
+  });
+
+  // Adds a lab result, imaging study, medication, allergy or problem
+  app.post(EMR_ENTRY_PATH, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const kind = req.params.kind as EmrEntryKind;
+      const schemas = EMR_ENTRY_SCHEMAS[kind];
+
+      const parsed = schemas.insert.safeParse({
+        ...withParsedDates(req.body, schemas.dates),
+        patientId: req.body?.patientId ? parseInt(req.body.patientId) : undefined,
+        id: undefined,
+        createdAt: undefined,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid entry", errors: parsed.error.errors });
+      }
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(parsed.data.patientId), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Medications are screened against the patient's other medications and drug
+      // allergies first; serious alerts need an override reason, which is audited
+      let input: EmrEntryInput = parsed.data;
+      let screening: InteractionScreening | undefined;
+      if (kind === 'medications' && parsed.data.patientId) {
+        const medication = parsed.data as InsertMedication;
+        screening = await interactionChecker.screen(parsed.data.patientId, [medication], overrideReasonOf(req.body));
+        input = { ...medication, ...interactionChecker.recordedAlerts(screening) };
+      }
+
+      const doctor = user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : undefined;
+      const entry = await emrEntryService.create(kind, input, { userId: user.id, doctorId: doctor?.id });
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `${EMR_ENTRY_AUDIT_NAMES[kind]}_CREATE`,
+        resourceType: kind,
+        resourceId: entry.id.toString(),
+        patientId: String(entry.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { status: entry.status }
+      });
+      if (screening && screening.overridden.length > 0) {
+        await auditInteractionOverride(req, user.id, entry as Medication, screening);
+      }
+
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof InteractionAlertError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof EmrEntryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating EMR entry:", error);
+      res.status(500).json({ message: "Failed to create EMR entry" });
+    }
+  });
+
+  // Edits an entry. Status is changed only through the actions below.
+  app.put(`${EMR_ENTRY_PATH}/:id`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const kind = req.params.kind as EmrEntryKind;
+      const schemas = EMR_ENTRY_SCHEMAS[kind];
+
+      const parsed = schemas.update.safeParse(withParsedDates(req.body, schemas.dates));
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid entry", errors: parsed.error.errors });
+      }
+
+      const existing = await emrEntryService.getEntry(kind, parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Renaming a medication makes it a different drug, so it is screened again
+      let changes: Record<string, unknown> = parsed.data;
+      let screening: InteractionScreening | undefined;
+      if (kind === 'medications' && existing.patientId && ['medicationName', 'genericName', 'brandName'].some(field => field in parsed.data)) {
+        const medication = { ...(existing as Medication), ...(parsed.data as UpdateMedication) };
+        screening = await interactionChecker.screen(existing.patientId, [medication], overrideReasonOf(req.body), existing.id);
+        changes = { ...changes, ...interactionChecker.recordedAlerts(screening) };
+      }
+
+      const entry = await emrEntryService.update(kind, existing, changes);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `${EMR_ENTRY_AUDIT_NAMES[kind]}_UPDATE`,
+        resourceType: kind,
+        resourceId: entry.id.toString(),
+        patientId: String(entry.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { fields: Object.keys(parsed.data) }
+      });
+      if (screening && screening.overridden.length > 0) {
+        await auditInteractionOverride(req, user.id, entry as Medication, screening);
+      }
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof InteractionAlertError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof EmrEntryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating EMR entry:", error);
+      res.status(500).json({ message: "Failed to update EMR entry" });
+    }
+  });
+
+  // Status changes such as discontinuing a medication or resolving a problem; see
+  // EMR_STATUS_ACTIONS for what applies to each kind. The reason is audited, and
+  // required when a finished result is reopened for correction.
+  app.post(`${EMR_ENTRY_PATH}/:id/:action`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const kind = req.params.kind as EmrEntryKind;
+      const action = req.params.action as string;
+      if (!EMR_STATUS_ACTIONS[kind][action]) {
+        return res.status(400).json({
+          message: "Unknown action",
+          actions: Object.keys(EMR_STATUS_ACTIONS[kind]),
+        });
+      }
+
+      const existing = await emrEntryService.getEntry(kind, parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : undefined;
+      if (action === 'correct' && !reason) {
+        return res.status(400).json({ message: "Give a reason for correcting a finished result" });
+      }
+
+      const entry = await emrEntryService.changeStatus(kind, existing, action, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `${EMR_ENTRY_AUDIT_NAMES[kind]}_${action.toUpperCase()}`,
+        resourceType: kind,
+        resourceId: entry.id.toString(),
+        patientId: String(entry.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { from: existing.status, to: entry.status, reason }
+      });
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof EmrEntryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error changing EMR entry status:", error);
+      res.status(500).json({ message: "Failed to change EMR entry status" });
+    }
+  });
+
+  // Prescriptions: who may see a patient's prescriptions. Their doctors, the
+  // pharmacy, clinical staff who can read the record, and the patient themselves.
+  const canReadPrescriptions = async (user: User, patientId: number) => {
+    if (user.role === 'patient') {
+      const patient = await storage.getPatientByUserId(user.id);
+      return patient?.id === patientId;
+    }
+    return await hipaaService.validateAccess(user.id, 'prescriptions', String(patientId), 'read')
+      || await hipaaService.validateAccess(user.id, 'medical-records', String(patientId), 'read');
+  };
+
+  const PRESCRIPTION_PATH = '/api/prescriptions/:id(\\d+)';
+  const PRESCRIPTION_QUEUE_ROLES = ['pharmacy', 'admin', 'super-admin'];
+  const PRESCRIPTION_ACTION_ROLES: Record<string, string[]> = {
+    "prepare": ['pharmacy'],
+  };
+
+  app.get('/api/prescriptions/patient/:patientId', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const patientId = parseInt(req.params.patientId);
+      if (!user || !(await canReadPrescriptions(user, patientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const prescriptions = await prescriptionService.listForPatient(patientId, user.role === 'doctor');
+      const doctor = user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : undefined;
+      res.json(prescriptions.filter(prescription => prescription.status !== 'draft' || prescription.doctorId === doctor?.id));
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching prescriptions:", error);
+      res.status(500).json({ message: "Failed to fetch prescriptions" });
+    }
+  });
+
+  // The pharmacy's work queue: signed prescriptions still to be prepared or dispensed
+  app.get('/api/prescriptions/queue', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !PRESCRIPTION_QUEUE_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await prescriptionService.pharmacyQueue());
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching the pharmacy queue:", error);
+      res.status(500).json({ message: "Failed to fetch the pharmacy queue" });
+    }
+  });
+
+  // The prescription a scanned printout stands for
+  app.post('/api/prescriptions/verify', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || ![...PRESCRIPTION_QUEUE_ROLES, 'doctor'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (typeof req.body?.code !== 'string') {
+        return res.status(400).json({ message: "Scan or enter the prescription code" });
+      }
+
+      const prescription = await prescriptionService.verifyCode(req.body.code);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_VERIFY',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { status: prescription.status }
+      });
+
+      res.json(prescription);
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error verifying prescription:", error);
+      res.status(500).json({ message: "Failed to verify prescription" });
+    }
+  });
+
+  app.get(PRESCRIPTION_PATH, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const prescription = await prescriptionService.getDetails(parseInt(req.params.id));
+      if (!user || !(await canReadPrescriptions(user, prescription.patientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (prescription.status === 'draft') {
+        const doctor = user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : undefined;
+        if (doctor?.id !== prescription.doctorId) {
+          return res.status(404).json({ message: "Prescription not found" });
+        }
+      }
+
+      res.json(prescription);
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching prescription:", error);
+      res.status(500).json({ message: "Failed to fetch prescription" });
+    }
+  });
+
+  // Drafts a prescription. The response carries the alerts signing it would raise.
+  app.post('/api/prescriptions', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = prescriptionDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid prescription", errors: parsed.error.errors });
+      }
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(parsed.data.patientId), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const doctor = await storage.getDoctorByUserId(user.id);
+      if (!doctor) {
+        return res.status(403).json({ message: "Only doctors with a doctor profile can prescribe" });
+      }
+
+      const { prescription, alerts } = await prescriptionService.createDraft(parsed.data, doctor);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_CREATE',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { items: prescription.items.map(item => item.medicationName) }
+      });
+
+      res.status(201).json({ prescription, alerts, requiresOverride: alerts.some(alert => interactionChecker.isSerious(alert)) });
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating prescription:", error);
+      res.status(500).json({ message: "Failed to create prescription" });
+    }
+  });
+
+  app.put(PRESCRIPTION_PATH, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = updatePrescriptionDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid prescription", errors: parsed.error.errors });
+      }
+
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const doctor = await storage.getDoctorByUserId(user.id);
+      if (!doctor) {
+        return res.status(403).json({ message: "Only doctors with a doctor profile can prescribe" });
+      }
+
+      const { prescription, alerts } = await prescriptionService.updateDraft(existing.id, parsed.data, doctor);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_UPDATE',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { fields: Object.keys(parsed.data) }
+      });
+
+      res.json({ prescription, alerts, requiresOverride: alerts.some(alert => interactionChecker.isSerious(alert)) });
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating prescription:", error);
+      res.status(500).json({ message: "Failed to update prescription" });
+    }
+  });
+
+  // Signs a draft, which locks it and sends it to the pharmacy. Serious interaction
+  // alerts need an override reason, audited against each item it applies to.
+  app.post(`${PRESCRIPTION_PATH}/sign`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(existing.patientId), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const doctor = await storage.getDoctorByUserId(user.id);
+      if (!doctor) {
+        return res.status(403).json({ message: "Only doctors with a doctor profile can prescribe" });
+      }
+
+      const { prescription, screening } = await prescriptionService.sign(existing.id, doctor, overrideReasonOf(req.body));
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_SIGN',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { signatureHash: prescription.signatureHash, items: prescription.items.map(item => item.id) }
+      });
+      for (const item of prescription.items) {
+        const overridden = interactionChecker.alertsFor(screening.overridden, item.medicationName);
+        if (overridden.length > 0) {
+          await auditInteractionOverride(req, user.id, item, { ...screening, overridden });
+        }
+      }
+
+      res.json(prescription);
+    } catch (error) {
+      if (error instanceof InteractionAlertError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error signing prescription:", error);
+      res.status(500).json({ message: "Failed to sign prescription" });
+    }
+  });
+
+  // Withdrawn by the prescribing doctor, or turned down by the pharmacy, with a reason
+  app.post(`${PRESCRIPTION_PATH}/cancel`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = prescriptionCancelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: parsed.error.errors });
+      }
+
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const doctor = user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : undefined;
+
+      const prescription = await prescriptionService.cancel(existing.id, parsed.data.reason, user.id, {
+        doctorId: doctor?.id,
+        pharmacy: user.role === 'pharmacy',
+      });
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_CANCEL',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { from: existing.status, reason: parsed.data.reason }
+      });
+
+      res.json(prescription);
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error cancelling prescription:", error);
+      res.status(500).json({ message: "Failed to cancel prescription" });
+    }
+  });
+
+  // Pharmacy steps before dispensing
+  app.post(`${PRESCRIPTION_PATH}/:action(${Object.keys(PRESCRIPTION_ACTIONS).join('|')})`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const action = req.params.action as string;
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || !PRESCRIPTION_ACTION_ROLES[action].includes(user.role)
+        || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const prescription = await prescriptionService.changeStatus(existing.id, action, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `PRESCRIPTION_${action.toUpperCase()}`,
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { from: existing.status, to: prescription.status }
+      });
+
+      res.json(prescription);
+    } catch (error) {
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating prescription:", error);
+      res.status(500).json({ message: "Failed to update prescription" });
+    }
+  });
+
+  // Hands the medicines over, taking them from stock and billing them
+  app.post(`${PRESCRIPTION_PATH}/dispense`, isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = prescriptionDispenseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid dispensing", errors: parsed.error.errors });
+      }
+
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || user.role !== 'pharmacy'
+        || !(await hipaaService.validateAccess(user.id, 'prescriptions', String(existing.patientId), 'update'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { prescription, billId, overridden, overrideReason } = await prescriptionService.dispense(
+        existing.id,
+        parsed.data.lines,
+        user.id,
+        overrideReasonOf(req.body),
+      );
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_DISPENSE',
+        resourceType: 'prescriptions',
+        resourceId: prescription.id.toString(),
+        patientId: String(prescription.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { from: existing.status, lines: parsed.data.lines, billId }
+      });
+      if (overridden.length > 0) {
+        await hipaaService.logAccess({
+          userId: user.id,
+          action: 'PRESCRIPTION_DISPENSE_OVERRIDE',
+          resourceType: 'prescriptions',
+          resourceId: prescription.id.toString(),
+          patientId: String(prescription.patientId),
+          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+          userAgent: req.get('user-agent') || 'unknown',
+          success: true,
+          details: { reason: overrideReason, mismatches: overridden }
+        });
+      }
+
+      res.json({ prescription, billId });
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      if (error instanceof DispenseMismatchError) {
+        return res.status(error.statusCode).json(error);
+      }
+      if (error instanceof PrescriptionError || error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error dispensing prescription:", error);
+      res.status(500).json({ message: "Failed to dispense prescription" });
     }
   });
 
-  // Enhanced EMR Routes
-  
-  // Get EMR records for a patient
-  app.get('/api/emr/records/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  // Printable A5 prescription with the doctor's registration number and a signed QR code
+  app.get(`${PRESCRIPTION_PATH}/pdf`, isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      // Role-based access control
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
-        if (user?.role === 'patient') {
-          const patient = await storage.getPatientByUserId(req.user.claims.sub);
-          if (!patient || patient.id !== parseInt(patientId)) {
-            return res.status(403).json({ message: "Access denied" });
-          }
-        } else {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      const existing = await prescriptionService.getPrescription(parseInt(req.params.id));
+      if (!user || !(await canReadPrescriptions(user, existing.patientId))) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      const records = await storage.getMedicalRecordsByPatient(parseInt(patientId));
-      res.json(records);
+      const document = await prescriptionService.printable(existing.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PRESCRIPTION_PRINT',
+        resourceType: 'prescriptions',
+        resourceId: existing.id.toString(),
+        patientId: String(existing.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { status: existing.status }
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="prescription-${document.prescriptionNumber}.pdf"`);
+      res.send(await prescriptionPrinter.pdf(document));
     } catch (error) {
-      console.error("Error fetching EMR records:", error);
-      res.status(500).json({ message: "Failed to fetch EMR records" });
+      if (error instanceof PrescriptionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error rendering prescription:", error);
+      res.status(500).json({ message: "Failed to render prescription" });
     }
   });
 
-  // Create new EMR record
-  app.post('/api/emr/records', isDemoAuthenticated, async (req: any, res) => {
+  // Pharmacy inventory. Anyone running the pharmacy may see stock and keep the
+  // catalog; only pharmacy staff move stock.
+  const PHARMACY_STOCK_ROLES = ['pharmacy', 'admin', 'super-admin'];
+
+  app.get('/api/pharmacy/items', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      
-      if (!user || !["doctor", "nurse", "admin"].includes(user.role)) {
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const recordData = {
-        ...req.body,
-        doctorId: user.role === 'doctor' ? await storage.getDoctorByUserId(user.id) : null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      res.json(await pharmacyInventory.listStock(req.query.includeInactive === 'true'));
+    } catch (error) {
+      console.error("Error fetching pharmacy stock:", error);
+      res.status(500).json({ message: "Failed to fetch pharmacy stock" });
+    }
+  });
 
-      const newRecord = await storage.createMedicalRecord(recordData);
-      res.json(newRecord);
+  app.post('/api/pharmacy/items', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const parsed = insertPharmacyItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid pharmacy item", errors: parsed.error.errors });
+      }
+
+      const item = await pharmacyInventory.createItem(parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PHARMACY_ITEM_CREATE',
+        resourceType: 'pharmacy-items',
+        resourceId: item.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { code: item.code, name: item.name }
+      });
+
+      res.status(201).json(item);
     } catch (error) {
-      console.error("Error creating EMR record:", error);
-      res.status(500).json({ message: "Failed to create EMR record" });
+      if (error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating pharmacy item:", error);
+      res.status(500).json({ message: "Failed to create pharmacy item" });
     }
   });
 
-  // Get lab results for a patient
-  app.get('/api/emr/lab-results/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  app.put('/api/pharmacy/items/:id', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
+      const parsed = updatePharmacyItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid pharmacy item", errors: parsed.error.errors });
+      }
 
-      const labResults = await storage.getLabResultsByPatient(parseInt(patientId));
-      res.json(labResults);
+      const item = await pharmacyInventory.updateItem(parseInt(req.params.id), parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PHARMACY_ITEM_UPDATE',
+        resourceType: 'pharmacy-items',
+        resourceId: item.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { fields: Object.keys(parsed.data) }
+      });
+
+      res.json(item);
     } catch (error) {
-      console.error("Error fetching lab results:", error);
-      res.status(500).json({ message: "Failed to fetch lab results" });
+      if (error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating pharmacy item:", error);
+      res.status(500).json({ message: "Failed to update pharmacy item" });
     }
   });
 
-  // Get vital signs for a patient
-  app.get('/api/emr/vital-signs/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  app.get('/api/pharmacy/items/:id/batches', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const vitalSigns = await storage.getVitalSignsByPatient(parseInt(patientId));
-      res.json(vitalSigns);
+      res.json(await pharmacyInventory.getBatches(parseInt(req.params.id)));
     } catch (error) {
-      console.error("Error fetching vital signs:", error);
-      res.status(500).json({ message: "Failed to fetch vital signs" });
+      if (error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching pharmacy batches:", error);
+      res.status(500).json({ message: "Failed to fetch pharmacy batches" });
     }
   });
 
-  // Create vital signs record
-  app.post('/api/emr/vital-signs', isDemoAuthenticated, async (req: any, res) => {
+  app.post('/api/pharmacy/receipts', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      
-      if (!user || !["doctor", "nurse", "admin"].includes(user.role)) {
+      if (!user || user.role !== 'pharmacy') {
         return res.status(403).json({ message: "Access denied" });
       }
+      const parsed = goodsReceiptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid goods receipt", errors: parsed.error.errors });
+      }
 
-      const vitalsData = {
-        ...req.body,
-        recordedBy: user.id,
-        recordedAt: new Date(),
-        createdAt: new Date(),
-      };
+      const receipt = await pharmacyInventory.receive(parsed.data, user.id);
 
-      const newVitals = await storage.createVitalSigns(vitalsData);
-      res.json(newVitals);
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PHARMACY_GOODS_RECEIPT',
+        resourceType: 'pharmacy-goods-receipts',
+        resourceId: receipt.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { supplier: receipt.supplier, invoiceNumber: receipt.invoiceNumber, lines: parsed.data.lines.length }
+      });
+
+      res.status(201).json(receipt);
     } catch (error) {
-      console.error("Error creating vital signs:", error);
-      res.status(500).json({ message: "Failed to create vital signs" });
+      if (error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error receiving pharmacy goods:", error);
+      res.status(500).json({ message: "Failed to receive goods" });
     }
   });
 
-  // Get medications for a patient
-  app.get('/api/emr/medications/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  app.post('/api/pharmacy/batches/:id/adjust', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin', 'pharmacy'].includes(user?.role || '')) {
+      if (!user || user.role !== 'pharmacy') {
         return res.status(403).json({ message: "Access denied" });
       }
+      const parsed = stockAdjustmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid stock adjustment", errors: parsed.error.errors });
+      }
 
-      const medications = await storage.getMedicationsByPatient(parseInt(patientId));
-      res.json(medications);
+      const batch = await pharmacyInventory.adjust(parseInt(req.params.id), parsed.data, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'PHARMACY_STOCK_ADJUST',
+        resourceType: 'pharmacy-batches',
+        resourceId: batch.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { ...parsed.data, quantityOnHand: batch.quantityOnHand }
+      });
+
+      res.json(batch);
     } catch (error) {
-      console.error("Error fetching medications:", error);
-      res.status(500).json({ message: "Failed to fetch medications" });
+      if (error instanceof PharmacyInventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error adjusting pharmacy stock:", error);
+      res.status(500).json({ message: "Failed to adjust stock" });
     }
   });
 
-  // Get imaging studies for a patient
-  app.get('/api/emr/imaging/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  // Low stock, batches nearing expiry and expired stock still on the shelf
+  app.get('/api/pharmacy/alerts', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const imagingStudies = await storage.getImagingStudiesByPatient(parseInt(patientId));
-      res.json(imagingStudies);
+      res.json(await pharmacyInventory.alerts());
     } catch (error) {
-      console.error("Error fetching imaging studies:", error);
-      res.status(500).json({ message: "Failed to fetch imaging studies" });
+      console.error("Error fetching pharmacy alerts:", error);
+      res.status(500).json({ message: "Failed to fetch pharmacy alerts" });
     }
   });
 
-  // Get patient allergies
-  app.get('/api/emr/allergies/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  // The stock ledger, newest first, optionally for one item or batch
+  app.get('/api/pharmacy/movements', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+      if (!user || !PHARMACY_STOCK_ROLES.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const allergies = await storage.getAllergiesByPatient(parseInt(patientId));
-      res.json(allergies);
+      res.json(await pharmacyInventory.movements({
+        itemId: req.query.itemId ? parseInt(req.query.itemId as string) : undefined,
+        batchId: req.query.batchId ? parseInt(req.query.batchId as string) : undefined,
+      }));
     } catch (error) {
-      console.error("Error fetching allergies:", error);
-      res.status(500).json({ message: "Failed to fetch allergies" });
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
     }
   });
 
-  // Get patient problem list
-  app.get('/api/emr/problems/:patientId', isDemoAuthenticated, async (req: any, res) => {
+  // Clinical notes: the latest version of each note for a patient. Patients see
+  // only their own notes, and drafts are shown to their author alone.
+  app.get('/api/emr/notes/:patientId', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
-      const { patientId } = req.params;
-      
-      if (!['doctor', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+      const patientId = parseInt(req.params.patientId);
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', patientId.toString(), 'read'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient || patient.id !== patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const notes = await clinicalNoteService.listForPatient(patientId, user.id);
+      res.json(notes);
+    } catch (error) {
+      console.error("Error fetching clinical notes:", error);
+      res.status(500).json({ message: "Failed to fetch clinical notes" });
+    }
+  });
+
+  // Every version of a note, oldest first
+  app.get('/api/emr/notes/:id/versions', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const note = await clinicalNoteService.getNote(parseInt(req.params.id));
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(note.patientId), 'read'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!note.isLocked && note.authorId !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient || patient.id !== note.patientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const versions = await clinicalNoteService.getHistory(note.id);
+      res.json(versions);
+    } catch (error) {
+      if (error instanceof ClinicalNoteError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching clinical note versions:", error);
+      res.status(500).json({ message: "Failed to fetch clinical note versions" });
+    }
+  });
+
+  app.post('/api/emr/notes', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = clinicalNoteDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid clinical note", errors: parsed.error.errors });
+      }
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', parsed.data.patientId.toString(), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const note = await clinicalNoteService.createDraft(parsed.data, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CLINICAL_NOTE_CREATE',
+        resourceType: 'clinical-note',
+        resourceId: note.id.toString(),
+        patientId: parsed.data.patientId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { noteType: note.noteType }
+      });
+
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof ClinicalNoteError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating clinical note:", error);
+      res.status(500).json({ message: "Failed to create clinical note" });
+    }
+  });
+
+  // Edits a draft. Signed notes are locked and answer 409.
+  app.put('/api/emr/notes/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = updateClinicalNoteDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid clinical note", errors: parsed.error.errors });
+      }
+
+      const existing = await clinicalNoteService.getNote(parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(existing.patientId), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const note = await clinicalNoteService.updateDraft(existing.id, parsed.data, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CLINICAL_NOTE_UPDATE',
+        resourceType: 'clinical-note',
+        resourceId: note.id.toString(),
+        patientId: String(note.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { fields: Object.keys(parsed.data) }
+      });
+
+      res.json(note);
+    } catch (error) {
+      if (error instanceof ClinicalNoteError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating clinical note:", error);
+      res.status(500).json({ message: "Failed to update clinical note" });
+    }
+  });
+
+  app.post('/api/emr/notes/:id/sign', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const existing = await clinicalNoteService.getNote(parseInt(req.params.id));
+
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(existing.patientId), 'create'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const note = await clinicalNoteService.sign(existing.id, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CLINICAL_NOTE_SIGN',
+        resourceType: 'clinical-note',
+        resourceId: note.id.toString(),
+        patientId: String(note.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { signedAt: note.signedAt }
+      });
+
+      res.json(note);
+    } catch (error) {
+      if (error instanceof ClinicalNoteError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error signing clinical note:", error);
+      res.status(500).json({ message: "Failed to sign clinical note" });
+    }
+  });
+
+  // Corrects a signed note by adding a new signed version; the reason is mandatory
+  app.post('/api/emr/notes/:id/amend', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const parsed = clinicalNoteAmendmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid amendment", errors: parsed.error.errors });
+      }
+
+      const existing = await clinicalNoteService.getNote(parseInt(req.params.id));
+      if (!user || !(await hipaaService.validateAccess(user.id, 'medical-records', String(existing.patientId), 'update'))) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const problems = await storage.getProblemsByPatient(parseInt(patientId));
-      res.json(problems);
+      const note = await clinicalNoteService.amend(existing.id, parsed.data, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'CLINICAL_NOTE_AMEND',
+        resourceType: 'clinical-note',
+        resourceId: note.id.toString(),
+        patientId: String(note.patientId),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { amends: existing.id, reason: parsed.data.reason }
+      });
+
+      res.status(201).json(note);
     } catch (error) {
-      console.error("Error fetching problems:", error);
-      res.status(500).json({ message: "Failed to fetch problems" });
+      if (error instanceof ClinicalNoteError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error amending clinical note:", error);
+      res.status(500).json({ message: "Failed to amend clinical note" });
     }
   });
 
@@ -1402,6 +3766,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Printable payment receipt: ESC/POS bytes for thermal printers, or PDF
+  app.get('/api/billing/payments/:transactionId/receipt', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const payment = await storage.getPaymentByTransactionId(req.params.transactionId);
+
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const patient = payment.patientId ? await storage.getPatientById(payment.patientId) : undefined;
+
+      if (user?.role === 'patient') {
+        // Patients may only print their own receipts
+        if (!patient || patient.userId !== user.id) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!['front-desk', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const receipt = {
+        receiptNumber: payment.transactionId,
+        patientLabel: patient?.patientId || "Walk-in",
+        lines: [{ description: payment.description || "Hospital services", amount: payment.amount }],
+        total: payment.amount,
+        currency: payment.currency || "USD",
+        paymentMethod: payment.gateway,
+        status: payment.status,
+        paidAt: payment.processedAt || payment.createdAt || new Date(),
+      };
+
+      if (req.query.format === 'escpos') {
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Content-Disposition', `attachment; filename="receipt-${payment.transactionId}.bin"`);
+        return res.send(slipPrinter.receiptEscPos(receipt));
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="receipt-${payment.transactionId}.pdf"`);
+      res.send(await slipPrinter.receiptPdf(receipt));
+    } catch (error) {
+      console.error("Error rendering receipt:", error);
+      res.status(500).json({ message: "Failed to render receipt" });
+    }
+  });
+
   app.post('/api/billing/verify-razorpay-payment', isDemoAuthenticated, async (req: any, res) => {
     try {
       const { billId, orderId, paymentId, signature } = req.body;
@@ -1812,20 +4223,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { patientId, departmentId, doctorId, priority = 1 } = req.body;
       
-      const tokenNumber = await queueManager.generateToken(
+      const token = await queueManager.generateToken(
         patientId,
         departmentId,
         doctorId,
         priority
       );
       
-      res.json({ tokenNumber, message: "Token generated successfully" });
+      res.json({
+        id: token.id,
+        tokenNumber: token.tokenNumber,
+        qrCode: token.qrCode,
+        estimatedWaitTime: token.estimatedWaitTime,
+        message: "Token generated successfully"
+      });
     } catch (error) {
       console.error("Error generating token:", error);
       res.status(500).json({ message: "Failed to generate token" });
     }
   });
 
+  // Appointment check-in, used by the kiosk and the front desk. Patients signed in
+  // themselves can only look up and check in their own appointments.
+  app.get('/api/queue/check-in', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (user?.role === 'patient') {
+        const patient = await storage.getPatientByUserId(user.id);
+        if (!patient) {
+          return res.status(404).json({ message: "Patient record not found" });
+        }
+        return res.json(await queueManager.findCheckInAppointments({ patientCode: patient.patientId }));
+      }
+
+      if (!['front-desk', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { patientId, phone, qrCode } = req.query;
+      const appointments = await queueManager.findCheckInAppointments({
+        patientCode: patientId as string | undefined,
+        phoneNumber: phone as string | undefined,
+        qrCode: qrCode as string | undefined,
+      });
+      res.json(appointments);
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error looking up appointments for check-in:", error);
+      res.status(500).json({ message: "Failed to look up appointments" });
+    }
+  });
+
+  app.post('/api/queue/check-in', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const appointmentId = parseInt(req.body.appointmentId);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: "appointmentId is required" });
+      }
+
+      if (user?.role === 'patient') {
+        const [patient, appointment] = await Promise.all([
+          storage.getPatientByUserId(user.id),
+          storage.getAppointmentById(appointmentId),
+        ]);
+        if (!patient || appointment?.patientId !== patient.id) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!['front-desk', 'nurse', 'admin', 'super-admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { token } = await queueManager.checkInAppointment(appointmentId);
+
+      await hipaaService.logAccess({
+        userId: req.user.claims.sub,
+        action: 'QUEUE_CHECK_IN',
+        resourceType: 'appointment',
+        resourceId: appointmentId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: { tokenId: token.id, tokenNumber: token.tokenNumber, departmentId: token.departmentId }
+      });
+
+      res.status(201).json({
+        id: token.id,
+        tokenNumber: token.tokenNumber,
+        qrCode: token.qrCode,
+        departmentId: token.departmentId,
+        estimatedWaitTime: token.estimatedWaitTime,
+        message: "Checked in successfully"
+      });
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error checking in appointment:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
   app.post('/api/queue/call-next', isDemoAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
@@ -1835,16 +4336,354 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const { departmentId, doctorId } = req.body;
-      const nextToken = await queueManager.callNextToken(departmentId, doctorId);
+      const { departmentId, doctorId, counterId } = req.body;
+      const called = await queueManager.callNextToken(departmentId, doctorId, counterId);
       
-      res.json({ tokenNumber: nextToken });
+      res.json({
+        tokenNumber: called?.token.tokenNumber ?? null,
+        counterId: called?.counter?.id ?? null,
+        counterName: called?.counter?.name ?? null
+      });
     } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error calling next token:", error);
       res.status(500).json({ message: "Failed to call next token" });
     }
   });
 
+  // Verify a scanned token QR code and return the token's live status
+  app.post('/api/queue/verify', async (req, res) => {
+    try {
+      const { code } = req.body || {};
+      if (typeof code !== 'string' || !code) {
+        return res.status(400).json({ message: "QR code is required" });
+      }
+
+      const status = await queueManager.getTokenByQrCode(code);
+      res.json(status);
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error verifying queue QR code:", error);
+      res.status(500).json({ message: "Failed to verify QR code" });
+    }
+  });
+
+  // Printable token slip: ESC/POS bytes for thermal printers, or PDF
+  app.get('/api/queue/tokens/:id/slip', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['front-desk', 'doctor', 'nurse', 'admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const slip = await queueManager.getTokenSlip(parseInt(req.params.id));
+
+      if (req.query.format === 'escpos') {
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Content-Disposition', `attachment; filename="token-${slip.tokenNumber}.bin"`);
+        return res.send(slipPrinter.tokenSlipEscPos(slip));
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="token-${slip.tokenNumber}.pdf"`);
+      res.send(await slipPrinter.tokenSlipPdf(slip));
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error rendering token slip:", error);
+      res.status(500).json({ message: "Failed to render token slip" });
+    }
+  });
+
+  // Tokens currently called, being seen or skipped, for the lifecycle controls
+  app.get('/api/queue/departments/:departmentId/serving', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['front-desk', 'doctor', 'nurse', 'admin'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const tokens = await queueManager.getServingTokens(parseInt(req.params.departmentId));
+      res.json(tokens);
+    } catch (error) {
+      console.error("Error fetching serving tokens:", error);
+      res.status(500).json({ message: "Failed to fetch serving tokens" });
+    }
+  });
+
+  // Token lifecycle: start, complete, skip, recall, no-show, transfer
+  app.post('/api/queue/tokens/:id/:action', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['front-desk', 'doctor', 'nurse', 'admin'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const action = req.params.action as TokenAction;
+      if (!TOKEN_ACTIONS.includes(action)) {
+        return res.status(400).json({ message: "Unknown token action" });
+      }
+
+      const { departmentId, doctorId, reason } = req.body || {};
+      if (action === "transfer" && !departmentId && doctorId === undefined) {
+        return res.status(400).json({ message: "Transfer needs a department or doctor" });
+      }
+
+      const tokenId = parseInt(req.params.id);
+      const targetDepartmentId = departmentId ? parseInt(departmentId) : undefined;
+      const targetDoctorId = doctorId === undefined ? undefined : doctorId === null ? null : parseInt(doctorId);
+      if (isNaN(tokenId) || Number.isNaN(targetDepartmentId) || Number.isNaN(targetDoctorId)) {
+        return res.status(400).json({ message: "Invalid token, department or doctor id" });
+      }
+
+      const { previousStatus, token } = await queueManager.transitionToken(tokenId, action, {
+        departmentId: targetDepartmentId,
+        doctorId: targetDoctorId,
+      });
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: `QUEUE_TOKEN_${action.replace('-', '_').toUpperCase()}`,
+        resourceType: 'queue',
+        resourceId: tokenId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: {
+          tokenNumber: token.tokenNumber,
+          from: previousStatus,
+          to: token.status,
+          reason,
+          ...(action === "transfer" ? { departmentId: token.departmentId, doctorId: token.doctorId } : {})
+        }
+      });
+
+      res.json(token);
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating queue token:", error);
+      res.status(500).json({ message: "Failed to update queue token" });
+    }
+  });
+
+  // Consultation rooms and counters
+  app.get('/api/queue/counters', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const { departmentId } = req.query;
+      const counters = await storage.getQueueCounters(
+        departmentId ? parseInt(departmentId as string) : undefined
+      );
+      res.json(counters);
+    } catch (error) {
+      console.error("Error fetching queue counters:", error);
+      res.status(500).json({ message: "Failed to fetch counters" });
+    }
+  });
+
+  app.post('/api/queue/counters', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = insertQueueCounterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid counter", errors: parsed.error.errors });
+      }
+
+      const counter = await queueManager.createCounter(parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'QUEUE_COUNTER_CREATE',
+        resourceType: 'queue',
+        resourceId: counter.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(counter);
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating queue counter:", error);
+      res.status(500).json({ message: "Failed to create counter" });
+    }
+  });
+
+  app.patch('/api/queue/counters/:id', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !['admin', 'super-admin', 'department-head'].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = updateQueueCounterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid counter", errors: parsed.error.errors });
+      }
+
+      const counterId = parseInt(req.params.id);
+      if (isNaN(counterId)) {
+        return res.status(400).json({ message: "Invalid counter id" });
+      }
+
+      const counter = await queueManager.updateCounter(counterId, parsed.data);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'QUEUE_COUNTER_UPDATE',
+        resourceType: 'queue',
+        resourceId: counter.id.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(counter);
+    } catch (error) {
+      if (error instanceof QueueTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating queue counter:", error);
+      res.status(500).json({ message: "Failed to update counter" });
+    }
+  });
+
+  // Effective call order for a department's waiting tokens
+  app.get('/api/queue/departments/:departmentId/order', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['front-desk', 'doctor', 'nurse', 'admin', 'super-admin', 'department-head'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const departmentId = parseInt(req.params.departmentId);
+      const [ordered, policy] = await Promise.all([
+        queueManager.getOrderedQueue(departmentId),
+        queueManager.getPolicy(departmentId),
+      ]);
+
+      res.json({
+        policy,
+        tokens: ordered.map(entry => ({
+          position: entry.position,
+          id: entry.token.id,
+          tokenNumber: entry.token.tokenNumber,
+          patientId: entry.token.patientId,
+          doctorId: entry.token.doctorId,
+          priority: entry.token.priority,
+          createdAt: entry.token.createdAt,
+          waitedMinutes: entry.waitedMinutes,
+          effectiveWaitMinutes: entry.effectiveWaitMinutes,
+          reason: entry.reason,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching queue order:", error);
+      res.status(500).json({ message: "Failed to fetch queue order" });
+    }
+  });
+
+  const QUEUE_POLICY_ROLES = ['admin', 'super-admin', 'department-head'];
+
+  app.get('/api/queue/departments/:departmentId/policy', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !QUEUE_POLICY_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const departmentId = parseInt(req.params.departmentId);
+      if (isNaN(departmentId)) {
+        return res.status(400).json({ message: "Invalid department id" });
+      }
+
+      const policy = await queueManager.getPolicy(departmentId);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error fetching queue policy:", error);
+      res.status(500).json({ message: "Failed to fetch queue policy" });
+    }
+  });
+
+  app.put('/api/queue/departments/:departmentId/policy', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!user || !QUEUE_POLICY_ROLES.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const departmentId = parseInt(req.params.departmentId);
+      if (isNaN(departmentId)) {
+        return res.status(400).json({ message: "Invalid department id" });
+      }
+
+      const parsed = updateQueuePolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid queue policy", errors: parsed.error.errors });
+      }
+
+      const policy = await queueManager.updatePolicy(departmentId, parsed.data, user.id);
+
+      await hipaaService.logAccess({
+        userId: user.id,
+        action: 'QUEUE_POLICY_UPDATE',
+        resourceType: 'queue',
+        resourceId: departmentId.toString(),
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || 'unknown',
+        success: true,
+        details: parsed.data
+      });
+
+      res.json(policy);
+    } catch (error) {
+      console.error("Error updating queue policy:", error);
+      res.status(500).json({ message: "Failed to update queue policy" });
+    }
+  });
+
+  // Historical service-time statistics behind the wait-time estimates
+  app.get('/api/queue/service-stats', isDemoAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+
+      if (!['admin', 'super-admin', 'department-head'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { departmentId } = req.query;
+      const stats = await queueManager.getServiceTimeStats(
+        departmentId ? parseInt(departmentId as string) : undefined
+      );
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching service time stats:", error);
+      res.status(500).json({ message: "Failed to fetch service time statistics" });
+    }
+  });
+
   // Notifications routes
   app.get('/api/notifications', isDemoAuthenticated, async (req: any, res) => {
     try {
@@ -2344,5 +5183,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+
+  // Real-time queue updates share the HTTP server and the express-session cookie
+  queueEventHub.attach(httpServer, demoSession);
+
+  // Held waitlist slots that nobody answered move on to the next patient
+  waitlistManager.startExpirySweep();
+  reminderScheduler.start();
+
   return httpServer;
 }
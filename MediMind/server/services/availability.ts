@@ -0,0 +1,292 @@
+import { storage, type SessionCapacity } from "../storage";
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  type Appointment,
+  type Doctor,
+  type DoctorSchedule,
+  type InsertDoctorSchedule,
+  type ScheduleException,
+  type UpdateDoctorSchedule,
+} from "@shared/schema";
+
+export type SlotStatus = "open" | "booked" | "full";
+
+export interface AppointmentSlot {
+  doctorId: number;
+  departmentId: number | null;
+  scheduleId: number | null; // null for a doctor without schedule templates
+  roomId: number | null;
+  date: string; // YYYY-MM-DD
+  start: Date;
+  end: Date;
+  status: SlotStatus;
+  capacity: SessionCapacity | null; // the session's patient limit, if it has one
+}
+
+export interface AvailabilityQuery {
+  doctorId?: number;
+  departmentId?: number;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+// Longest range a single availability request may cover
+const MAX_RANGE_DAYS = 62;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class AvailabilityError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AvailabilityError';
+  }
+}
+
+export function appointmentEnd(appointment: Pick<Appointment, "appointmentDate" | "endsAt">): Date {
+  return appointment.endsAt ?? new Date(appointment.appointmentDate.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60000);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function atTime(day: Date, time: string): Date {
+  const result = new Date(day);
+  const [hours, minutes] = time.split(":").map(Number);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+export function formatDate(day: Date): string {
+  return [
+    day.getFullYear(),
+    (day.getMonth() + 1).toString().padStart(2, '0'),
+    day.getDate().toString().padStart(2, '0'),
+  ].join('-');
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Turns weekly schedule templates into concrete slots, taking out leave,
+// holidays, breaks and slots that are already taken
+export class AvailabilityEngine {
+  // An excluded appointment is treated as not booked, as when it is being moved
+  async getSlots(query: AvailabilityQuery, now: Date = new Date(), excludeAppointmentId?: number): Promise<AppointmentSlot[]> {
+    const days = this.eachDay(query.from, query.to);
+    const doctors = (await storage.getDoctors()).filter(doctor =>
+      query.doctorId ? doctor.id === query.doctorId : doctor.departmentId === query.departmentId
+    );
+    if (doctors.length === 0) return [];
+
+    const doctorIds = doctors.map(doctor => doctor.id);
+    const rangeEnd = new Date(days[days.length - 1]);
+    rangeEnd.setHours(23, 59, 59, 999);
+
+    const [schedules, exceptions, appointments] = await Promise.all([
+      storage.getDoctorSchedules(doctorIds),
+      storage.getScheduleExceptions(query.from, query.to, doctorIds),
+      storage.getAppointmentsByDoctorsBetween(doctorIds, days[0], rangeEnd),
+    ]);
+
+    const booked = appointments.filter(appointment => appointment.id !== excludeAppointmentId);
+    return this.buildSlots(doctors, days, schedules, exceptions, booked, now);
+  }
+
+  // The schedule slot starting at the given time, whatever its status.
+  // Throws when the doctor does not work then. Doctors who have no schedule
+  // templates yet can be booked at any time, for the default appointment length.
+  async findSlot(doctorId: number, at: Date, now: Date = new Date(), excludeAppointmentId?: number): Promise<AppointmentSlot> {
+    if (at < now) {
+      throw new AvailabilityError("Appointment time is in the past");
+    }
+
+    const date = formatDate(at);
+    const slots = await this.getSlots({ doctorId, from: date, to: date }, now, excludeAppointmentId);
+    if (slots.length === 0) {
+      const unscheduled = await this.unscheduledSlot(doctorId, at);
+      if (unscheduled) return unscheduled;
+      throw new AvailabilityError("The doctor is not taking appointments on that day");
+    }
+
+    const slot = slots.find(candidate => candidate.start.getTime() === at.getTime());
+    if (!slot) {
+      throw new AvailabilityError("Appointment time does not match one of the doctor's slots");
+    }
+    return slot;
+  }
+
+  private async unscheduledSlot(doctorId: number, at: Date): Promise<AppointmentSlot | null> {
+    const date = formatDate(at);
+    const [doctor, schedules, exceptions] = await Promise.all([
+      storage.getDoctorById(doctorId),
+      storage.getDoctorSchedules([doctorId]),
+      storage.getScheduleExceptions(date, date, [doctorId]),
+    ]);
+    if (!doctor) {
+      throw new AvailabilityError("Doctor not found", 404);
+    }
+    if (schedules.length > 0 || exceptions.length > 0) return null;
+
+    return {
+      doctorId,
+      departmentId: doctor.departmentId,
+      scheduleId: null,
+      roomId: null,
+      date,
+      start: at,
+      end: new Date(at.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60000),
+      status: "open",
+      capacity: null,
+    };
+  }
+
+  async createSchedule(data: InsertDoctorSchedule): Promise<DoctorSchedule> {
+    await this.validateSchedule(data);
+    return storage.createDoctorSchedule(data);
+  }
+
+  async updateSchedule(id: number, data: UpdateDoctorSchedule): Promise<DoctorSchedule> {
+    const existing = await storage.getDoctorScheduleById(id);
+    if (!existing) {
+      throw new AvailabilityError("Schedule not found", 404);
+    }
+
+    await this.validateSchedule({ ...existing, ...data }, id);
+    const updated = await storage.updateDoctorSchedule(id, data);
+    return updated!;
+  }
+
+  buildSlots(
+    doctors: Doctor[],
+    days: Date[],
+    schedules: DoctorSchedule[],
+    exceptions: ScheduleException[],
+    appointments: Appointment[],
+    now: Date = new Date()
+  ): AppointmentSlot[] {
+    const slots: AppointmentSlot[] = [];
+
+    for (const day of days) {
+      const date = formatDate(day);
+
+      for (const doctor of doctors) {
+        const onLeave = exceptions.some(exception =>
+          (exception.doctorId === null || exception.doctorId === doctor.id) &&
+          exception.startDate <= date && exception.endDate >= date
+        );
+        if (onLeave) continue;
+
+        const sessions = schedules.filter(schedule =>
+          schedule.doctorId === doctor.id && schedule.dayOfWeek === day.getDay() && schedule.isActive !== false
+        );
+
+        for (const session of sessions) {
+          const sessionStart = atTime(day, session.startTime);
+          const sessionEnd = atTime(day, session.endTime);
+          const breakStart = session.breakStart && session.breakEnd ? atTime(day, session.breakStart) : null;
+          const breakEnd = session.breakStart && session.breakEnd ? atTime(day, session.breakEnd) : null;
+          const slotMs = session.slotMinutes * 60000;
+
+          const booked = appointments.filter(appointment =>
+            appointment.doctorId === doctor.id &&
+            appointment.appointmentDate >= sessionStart &&
+            appointment.appointmentDate < sessionEnd
+          );
+          const sessionFull = session.maxPatients !== null && booked.length >= session.maxPatients;
+          const capacity = session.maxPatients !== null
+            ? { start: sessionStart, end: sessionEnd, maxPatients: session.maxPatients }
+            : null;
+
+          let start = sessionStart;
+          while (start.getTime() + slotMs <= sessionEnd.getTime()) {
+            const end = new Date(start.getTime() + slotMs);
+
+            // Slots resume at the end of the break rather than straddling it
+            if (breakStart && breakEnd && start < breakEnd && end > breakStart) {
+              start = breakEnd;
+              continue;
+            }
+
+            if (start >= now) {
+              const taken = booked.some(appointment => appointment.appointmentDate < end && appointmentEnd(appointment) > start);
+              slots.push({
+                doctorId: doctor.id,
+                departmentId: doctor.departmentId,
+                scheduleId: session.id,
+                roomId: session.roomId,
+                date,
+                start,
+                end,
+                status: taken ? "booked" : sessionFull ? "full" : "open",
+                capacity,
+              });
+            }
+            start = end;
+          }
+        }
+      }
+    }
+
+    return slots.sort((a, b) => a.start.getTime() - b.start.getTime() || a.doctorId - b.doctorId);
+  }
+
+  private eachDay(from: string, to: string): Date[] {
+    if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '')) {
+      throw new AvailabilityError("from and to must be dates in YYYY-MM-DD format");
+    }
+
+    const days: Date[] = [];
+    for (let day = parseDate(from); day <= parseDate(to); day.setDate(day.getDate() + 1)) {
+      days.push(new Date(day));
+      if (days.length > MAX_RANGE_DAYS) {
+        throw new AvailabilityError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+      }
+    }
+    if (days.length === 0) {
+      throw new AvailabilityError("from must not be after to");
+    }
+    return days;
+  }
+
+  // Sessions must have a sensible shape and must not overlap the doctor's other sessions that day
+  private async validateSchedule(schedule: InsertDoctorSchedule, id?: number): Promise<void> {
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+    if (end <= start) {
+      throw new AvailabilityError("Session must end after it starts");
+    }
+    if (end - start < (schedule.slotMinutes ?? 15)) {
+      throw new AvailabilityError("Session is shorter than one slot");
+    }
+
+    if (!!schedule.breakStart !== !!schedule.breakEnd) {
+      throw new AvailabilityError("Break needs both a start and an end");
+    }
+    if (schedule.breakStart && schedule.breakEnd) {
+      const breakStart = toMinutes(schedule.breakStart);
+      const breakEnd = toMinutes(schedule.breakEnd);
+      if (breakEnd <= breakStart || breakStart < start || breakEnd > end) {
+        throw new AvailabilityError("Break must fall within the session");
+      }
+    }
+
+    const sameDay = (await storage.getDoctorSchedules([schedule.doctorId])).filter(other =>
+      other.id !== id && other.dayOfWeek === schedule.dayOfWeek && other.isActive !== false
+    );
+    const overlapping = sameDay.find(other => toMinutes(other.startTime) < end && toMinutes(other.endTime) > start);
+    if (overlapping && schedule.isActive !== false) {
+      throw new AvailabilityError(
+        `Overlaps the existing ${overlapping.startTime}-${overlapping.endTime} session`,
+        409
+      );
+    }
+  }
+}
+
+export const availabilityEngine = new AvailabilityEngine();
@@ -0,0 +1,441 @@
+import { storage, type SessionCapacity } from "../storage";
+import { availabilityEngine, appointmentEnd, formatDate, type AppointmentSlot } from "./availability";
+import { notificationManager } from "./notifications";
+import { waitlistManager, releasedSlot } from "./waitlist";
+import {
+  APPOINTMENT_CANCELLATION_REASONS,
+  DEFAULT_APPOINTMENT_MINUTES,
+  type Appointment,
+  type AppointmentHistoryEntry,
+  type InsertAppointment,
+} from "@shared/schema";
+
+export type ConflictType = "doctor" | "patient" | "room";
+
+export interface BookingConflict {
+  type: ConflictType;
+  start: Date;
+  end: Date;
+  appointmentId?: number; // only for the patient's own appointments
+}
+
+export interface AlternativeSlot {
+  doctorId: number;
+  departmentId: number | null;
+  roomId: number | null;
+  start: Date;
+  end: Date;
+}
+
+export type AppointmentAction = "reschedule" | "cancel" | "no-show" | "complete";
+
+export const APPOINTMENT_ACTIONS: AppointmentAction[] = ["reschedule", "cancel", "no-show", "complete"];
+
+export type CancellationReason = typeof APPOINTMENT_CANCELLATION_REASONS[number];
+
+// Statuses each action may be applied from, and the status it leads to
+const APPOINTMENT_TRANSITIONS: Record<AppointmentAction, { from: string[]; to: string }> = {
+  "reschedule": { from: ["scheduled"], to: "scheduled" },
+  "cancel": { from: ["scheduled"], to: "cancelled" },
+  "no-show": { from: ["scheduled"], to: "no-show" },
+  "complete": { from: ["scheduled", "in-progress"], to: "completed" },
+};
+
+const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  "patient-request": "at the patient's request",
+  "doctor-unavailable": "the doctor is unavailable",
+  "clinical-reason": "clinical reasons",
+  "duplicate-booking": "duplicate booking",
+  "hospital-closure": "the hospital is closed",
+  "other": "other reasons",
+};
+
+// Cancellation policy. Patients cannot cancel or reschedule online inside the
+// cut-off and must call the front desk; cancellations inside the late window are
+// allowed but recorded as late.
+export const APPOINTMENT_POLICY = {
+  selfServiceCutoffHours: 2,
+  lateCancellationHours: 24,
+  maxPatientReschedules: 3,
+  noShowGraceMinutes: 15, // after the start, before a no-show can be recorded
+};
+
+// How far ahead to look for alternatives, and how many to offer
+const ALTERNATIVE_SEARCH_DAYS = 14;
+const MAX_ALTERNATIVES = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CONFLICT_MESSAGES: Record<ConflictType, string> = {
+  doctor: "The doctor already has an appointment at that time",
+  patient: "The patient already has an overlapping appointment",
+  room: "The consultation room is already booked at that time",
+};
+
+export class BookingConflictError extends Error {
+  isOperational = true;
+  statusCode = 409;
+  code = 'APPOINTMENT_CONFLICT';
+
+  constructor(public conflicts: BookingConflict[], public alternatives: AlternativeSlot[], message?: string) {
+    super(message || (conflicts.length > 0 ? CONFLICT_MESSAGES[conflicts[0].type] : "That slot is no longer available"));
+    this.name = 'BookingConflictError';
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      conflicts: this.conflicts,
+      alternatives: this.alternatives,
+    };
+  }
+}
+
+export class AppointmentTransitionError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = 'AppointmentTransitionError';
+  }
+}
+
+// Who is changing an appointment; patients are held to the cancellation policy
+export interface AppointmentActor {
+  userId: string;
+  role: string;
+}
+
+export interface AppointmentChange {
+  previousStatus: string;
+  appointment: Appointment;
+}
+
+export function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// Books appointments without double-booking the doctor, the patient or the room,
+// and moves them through reschedule, cancellation, no-show and completion
+export class AppointmentBooking {
+  async book(data: InsertAppointment): Promise<Appointment> {
+    const { appointment, capacity } = await this.withSlot(data);
+
+    const conflicts = await this.findConflicts(appointment);
+    if (conflicts.length > 0) {
+      throw new BookingConflictError(conflicts, await this.suggestAlternatives(appointment));
+    }
+
+    // Somebody may take the slot between the check above and the insert
+    const created = await storage.createAppointmentIfFree(appointment, capacity);
+    if (!created) {
+      throw new BookingConflictError(await this.findConflicts(appointment), await this.suggestAlternatives(appointment));
+    }
+    return created;
+  }
+
+  async findConflicts(appointment: InsertAppointment, excludeId?: number): Promise<BookingConflict[]> {
+    const start = appointment.appointmentDate;
+    const end = appointment.endsAt ?? new Date(start.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60000);
+    const overlapping = await storage.findAppointmentConflicts({
+      doctorId: appointment.doctorId,
+      patientId: appointment.patientId,
+      roomId: appointment.roomId,
+      start,
+      end,
+    }, excludeId);
+
+    const conflicts: BookingConflict[] = [];
+    for (const existing of overlapping) {
+      const window = { start: existing.appointmentDate, end: appointmentEnd(existing) };
+      if (appointment.patientId && existing.patientId === appointment.patientId) {
+        conflicts.push({ type: "patient", ...window, appointmentId: existing.id });
+      } else if (appointment.doctorId && existing.doctorId === appointment.doctorId) {
+        conflicts.push({ type: "doctor", ...window });
+      } else {
+        conflicts.push({ type: "room", ...window });
+      }
+    }
+    return conflicts;
+  }
+
+  // Open slots with the same doctor from the requested day on, then the same day
+  // with other doctors in the department, skipping any the patient is busy for
+  async suggestAlternatives(appointment: InsertAppointment): Promise<AlternativeSlot[]> {
+    if (!appointment.doctorId && !appointment.departmentId) return [];
+
+    const now = new Date();
+    const from = appointment.appointmentDate > now ? appointment.appointmentDate : now;
+    const until = new Date(from);
+    until.setDate(until.getDate() + ALTERNATIVE_SEARCH_DAYS - 1);
+
+    const candidates: AppointmentSlot[] = [];
+    if (appointment.doctorId) {
+      candidates.push(...await availabilityEngine.getSlots({
+        doctorId: appointment.doctorId,
+        from: formatDate(from),
+        to: formatDate(until),
+      }, now));
+    }
+    if (appointment.departmentId) {
+      const sameDay = await availabilityEngine.getSlots({
+        departmentId: appointment.departmentId,
+        from: formatDate(from),
+        to: formatDate(from),
+      }, now);
+      candidates.push(...sameDay.filter(slot => slot.doctorId !== appointment.doctorId));
+    }
+
+    const patientBusy = appointment.patientId
+      ? await storage.findAppointmentConflicts({ patientId: appointment.patientId, start: from, end: until })
+      : [];
+
+    const alternatives: AlternativeSlot[] = [];
+    for (const slot of candidates) {
+      if (slot.status !== "open" || slot.start.getTime() === appointment.appointmentDate.getTime()) continue;
+      if (patientBusy.some(busy => busy.appointmentDate < slot.end && appointmentEnd(busy) > slot.start)) continue;
+
+      alternatives.push({
+        doctorId: slot.doctorId,
+        departmentId: slot.departmentId,
+        roomId: slot.roomId,
+        start: slot.start,
+        end: slot.end,
+      });
+      if (alternatives.length >= MAX_ALTERNATIVES) break;
+    }
+    return alternatives;
+  }
+
+  // Moves the appointment to another slot, with the same or another doctor. The
+  // previous slot is kept in the appointment's history and becomes bookable again.
+  async reschedule(
+    appointmentId: number,
+    target: { appointmentDate: Date; doctorId?: number; note?: string },
+    actor: AppointmentActor,
+    now: Date = new Date()
+  ): Promise<AppointmentChange> {
+    const existing = await this.getTransitionable(appointmentId, "reschedule");
+    this.checkSelfService(existing, actor, "reschedule", now);
+    if (actor.role === 'patient' && (existing.rescheduleCount || 0) >= APPOINTMENT_POLICY.maxPatientReschedules) {
+      throw new AppointmentTransitionError(
+        `Appointments can be rescheduled online at most ${APPOINTMENT_POLICY.maxPatientReschedules} times. Please contact the front desk.`,
+        403
+      );
+    }
+    if (await storage.getQueueTokenByAppointment(appointmentId)) {
+      throw new AppointmentTransitionError("The patient has already checked in for this appointment");
+    }
+
+    if (target.appointmentDate < now) {
+      throw new AppointmentTransitionError("Appointment time is in the past", 400);
+    }
+
+    const doctorId = target.doctorId ?? existing.doctorId;
+    if (doctorId === existing.doctorId && target.appointmentDate.getTime() === existing.appointmentDate.getTime()) {
+      throw new AppointmentTransitionError("The appointment is already in that slot", 400);
+    }
+
+    // The department and room follow the new slot
+    const { appointment: moved, capacity } = await this.withSlot({
+      patientId: existing.patientId,
+      doctorId,
+      departmentId: doctorId === existing.doctorId ? existing.departmentId : null,
+      roomId: doctorId ? null : existing.roomId,
+      appointmentDate: target.appointmentDate,
+      appointmentType: existing.appointmentType,
+    }, appointmentId);
+    const endsAt = moved.endsAt ?? new Date(
+      target.appointmentDate.getTime() + (appointmentEnd(existing).getTime() - existing.appointmentDate.getTime())
+    );
+
+    const conflicts = await this.findConflicts({ ...moved, endsAt }, appointmentId);
+    if (conflicts.length > 0) {
+      throw new BookingConflictError(conflicts, await this.suggestAlternatives(moved));
+    }
+
+    const updated = await storage.moveAppointmentIfFree(appointmentId, existing.appointmentDate, {
+      doctorId: moved.doctorId ?? null,
+      departmentId: moved.departmentId ?? null,
+      roomId: moved.roomId ?? null,
+      appointmentDate: moved.appointmentDate,
+      endsAt,
+    }, capacity);
+    if (!updated) {
+      // Either the slot went in the meantime or someone else changed the appointment
+      const current = await storage.getAppointmentById(appointmentId);
+      if (!current || current.status !== existing.status || current.appointmentDate.getTime() !== existing.appointmentDate.getTime()) {
+        throw new AppointmentTransitionError("The appointment was changed by someone else. Please reload and try again.");
+      }
+      throw new BookingConflictError(
+        await this.findConflicts({ ...moved, endsAt }, appointmentId),
+        await this.suggestAlternatives(moved)
+      );
+    }
+
+    await storage.createAppointmentHistory({
+      appointmentId,
+      action: "reschedule",
+      fromStatus: existing.status,
+      toStatus: updated.status,
+      previousDate: existing.appointmentDate,
+      previousDoctorId: existing.doctorId,
+      newDate: updated.appointmentDate,
+      note: target.note,
+      changedBy: actor.userId,
+    });
+
+    const patient = existing.patientId ? await storage.getPatientById(existing.patientId) : undefined;
+    if (patient?.userId) {
+      await notificationManager.notifyAppointmentRescheduled(
+        patient.userId,
+        formatDateTime(existing.appointmentDate),
+        formatDateTime(updated.appointmentDate)
+      );
+    }
+
+    await waitlistManager.offerSlot(releasedSlot(existing), now);
+    return { previousStatus: existing.status || "scheduled", appointment: updated };
+  }
+
+  // Cancelled appointments no longer count towards availability or conflicts, so
+  // the slot is open again at once and is first offered to the waitlist
+  async cancel(
+    appointmentId: number,
+    reasonCode: CancellationReason,
+    actor: AppointmentActor,
+    note?: string,
+    now: Date = new Date()
+  ): Promise<AppointmentChange> {
+    const existing = await this.getTransitionable(appointmentId, "cancel");
+    this.checkSelfService(existing, actor, "cancel", now);
+
+    const late = existing.appointmentDate.getTime() - now.getTime() < APPOINTMENT_POLICY.lateCancellationHours * HOUR_MS;
+    const change = await this.applyStatus(existing, "cancel", actor, { cancellationReason: reasonCode }, { reasonCode, note, late });
+
+    const patient = existing.patientId ? await storage.getPatientById(existing.patientId) : undefined;
+    if (patient?.userId) {
+      await notificationManager.notifyAppointmentCancelled(
+        patient.userId,
+        formatDateTime(existing.appointmentDate),
+        CANCELLATION_REASON_LABELS[reasonCode]
+      );
+    }
+
+    await waitlistManager.offerSlot(releasedSlot(existing), now);
+    return change;
+  }
+
+  async markNoShow(appointmentId: number, actor: AppointmentActor, note?: string, now: Date = new Date()): Promise<AppointmentChange> {
+    const existing = await this.getTransitionable(appointmentId, "no-show");
+    if (now.getTime() < existing.appointmentDate.getTime() + APPOINTMENT_POLICY.noShowGraceMinutes * 60000) {
+      throw new AppointmentTransitionError(
+        `A no-show can only be recorded ${APPOINTMENT_POLICY.noShowGraceMinutes} minutes after the appointment starts`,
+        400
+      );
+    }
+    if (await storage.getQueueTokenByAppointment(appointmentId)) {
+      throw new AppointmentTransitionError("The patient checked in for this appointment");
+    }
+
+    const change = await this.applyStatus(existing, "no-show", actor, {}, { note });
+
+    const patient = existing.patientId ? await storage.getPatientById(existing.patientId) : undefined;
+    if (patient?.userId) {
+      await notificationManager.notifyAppointmentMissed(patient.userId, formatDateTime(existing.appointmentDate));
+    }
+    return change;
+  }
+
+  async complete(appointmentId: number, actor: AppointmentActor, note?: string, now: Date = new Date()): Promise<AppointmentChange> {
+    const existing = await this.getTransitionable(appointmentId, "complete");
+    if (now < existing.appointmentDate) {
+      throw new AppointmentTransitionError("Appointment has not started yet", 400);
+    }
+    return this.applyStatus(existing, "complete", actor, {}, { note });
+  }
+
+  async getHistory(appointmentId: number): Promise<AppointmentHistoryEntry[]> {
+    return storage.getAppointmentHistory(appointmentId);
+  }
+
+  private async getTransitionable(appointmentId: number, action: AppointmentAction): Promise<Appointment> {
+    const appointment = await storage.getAppointmentById(appointmentId);
+    if (!appointment) {
+      throw new AppointmentTransitionError("Appointment not found", 404);
+    }
+
+    const status = appointment.status || "scheduled";
+    if (!APPOINTMENT_TRANSITIONS[action].from.includes(status)) {
+      throw new AppointmentTransitionError(`Cannot ${action} an appointment that is ${status}`);
+    }
+    return appointment;
+  }
+
+  // Patients change their own bookings online only up to the cut-off; staff are not limited
+  private checkSelfService(appointment: Appointment, actor: AppointmentActor, action: "reschedule" | "cancel", now: Date) {
+    if (actor.role !== 'patient') return;
+
+    if (appointment.appointmentDate.getTime() - now.getTime() < APPOINTMENT_POLICY.selfServiceCutoffHours * HOUR_MS) {
+      throw new AppointmentTransitionError(
+        `Appointments cannot be ${action === "cancel" ? "cancelled" : "rescheduled"} online within ${APPOINTMENT_POLICY.selfServiceCutoffHours} hours of the start. Please contact the front desk.`,
+        403
+      );
+    }
+  }
+
+  private async applyStatus(
+    existing: Appointment,
+    action: Exclude<AppointmentAction, "reschedule">,
+    actor: AppointmentActor,
+    data: Partial<InsertAppointment>,
+    history: { reasonCode?: string; note?: string; late?: boolean }
+  ): Promise<AppointmentChange> {
+    const transition = APPOINTMENT_TRANSITIONS[action];
+    const updated = await storage.transitionAppointment(existing.id, transition.from, { ...data, status: transition.to });
+    if (!updated) {
+      throw new AppointmentTransitionError("The appointment was changed by someone else. Please reload and try again.");
+    }
+
+    await storage.createAppointmentHistory({
+      appointmentId: existing.id,
+      action,
+      fromStatus: existing.status,
+      toStatus: updated.status,
+      changedBy: actor.userId,
+      ...history,
+    });
+
+    return { previousStatus: existing.status || "scheduled", appointment: updated };
+  }
+
+  // Fills in the slot's end and room from the doctor's schedule. A slot that is
+  // already taken or whose session is full is reported as a conflict; an
+  // appointment being moved does not count against its own session.
+  private async withSlot(
+    data: InsertAppointment,
+    movingAppointmentId?: number
+  ): Promise<{ appointment: InsertAppointment; capacity: SessionCapacity | null }> {
+    if (!data.doctorId) return { appointment: data, capacity: null };
+
+    const slot = await availabilityEngine.findSlot(data.doctorId, data.appointmentDate, new Date(), movingAppointmentId);
+    const appointment: InsertAppointment = {
+      ...data,
+      departmentId: data.departmentId ?? slot.departmentId,
+      roomId: data.roomId ?? slot.roomId,
+      endsAt: slot.end,
+    };
+
+    if (slot.status === "full") {
+      throw new BookingConflictError(
+        [{ type: "doctor", start: slot.start, end: slot.end }],
+        await this.suggestAlternatives(appointment),
+        "The doctor's session is fully booked"
+      );
+    }
+    return { appointment, capacity: slot.capacity };
+  }
+}
+
+export const appointmentBooking = new AppointmentBooking();
@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import { storage } from "../storage";
+import { appointmentEnd } from "./availability";
+import { reminderScheduler } from "./reminders";
+import type { EmailAttachment } from "./notifications";
+import type { Appointment, User } from "@shared/schema";
+
+const PRODUCT_ID = "-//MediMind//Appointments//EN";
+const UID_DOMAIN = process.env.CALENDAR_UID_DOMAIN || "medimind.local";
+
+// How far back feeds reach; calendar apps keep their own copy of older events
+const FEED_HISTORY_DAYS = 30;
+
+// Appointment times are wall-clock times in the server's zone, like the schedules they are booked from
+const TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A single calendar event, already worded for whoever reads the calendar
+interface CalendarEvent {
+  appointment: Appointment;
+  summary: string;
+  location: string;
+  description: string;
+}
+
+export class CalendarError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CalendarError';
+  }
+}
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets, continuing with a leading space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatLocal(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// UTC offset east of Greenwich in minutes at the given instant
+function offsetAt(instant: number): number {
+  return -new Date(instant).getTimezoneOffset();
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+// Wall-clock time of an instant under the given offset, as a DATE-TIME without zone
+function formatWallClock(instant: number, offsetMinutes: number): string {
+  return formatUtc(new Date(instant + offsetMinutes * 60000)).slice(0, -1);
+}
+
+// Describes the server's zone over the years the events span. Zones without
+// daylight saving get a single STANDARD observance; otherwise every transition
+// in those years is listed explicitly, which needs no knowledge of the zone's rules.
+function timezoneComponent(events: Appointment[]): string[] {
+  const times = events.map(event => event.appointmentDate.getTime());
+  const firstYear = new Date(times.length ? Math.min(...times) : Date.now()).getFullYear();
+  const lastYear = new Date(times.length ? Math.max(...times) : Date.now()).getFullYear();
+
+  const rangeStart = new Date(firstYear, 0, 1).getTime();
+  const rangeEnd = new Date(lastYear + 1, 0, 1).getTime();
+
+  const transitions: { at: number; from: number; to: number }[] = [];
+  for (let day = rangeStart; day < rangeEnd; day += DAY_MS) {
+    const from = offsetAt(day);
+    const to = offsetAt(day + DAY_MS);
+    if (from === to) continue;
+
+    // Narrow the change down to the minute
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 2);
+      if (offsetAt(middle) === from) low = middle; else high = middle;
+    }
+    // Offsets change on a whole minute, the first one at or before `high`
+    transitions.push({ at: high - (high % 60000), from, to });
+  }
+
+  const initial = offsetAt(rangeStart);
+  const standard = Math.min(initial, ...transitions.map(transition => transition.to));
+  const observance = (onset: string, from: number, to: number) => [
+    to === standard ? "BEGIN:STANDARD" : "BEGIN:DAYLIGHT",
+    `DTSTART:${onset}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    to === standard ? "END:STANDARD" : "END:DAYLIGHT",
+  ];
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${TIMEZONE}`,
+    ...observance(transitions.length ? formatWallClock(rangeStart, initial) : "19700101T000000", initial, initial),
+    ...transitions.flatMap(transition => observance(formatWallClock(transition.at, transition.from), transition.from, transition.to)),
+    "END:VTIMEZONE",
+  ];
+}
+
+// SEQUENCE must grow with every change attendees should see: each reschedule,
+// and the cancellation itself
+function sequenceOf(appointment: Appointment): number {
+  return (appointment.rescheduleCount ?? 0) + (appointment.status === 'cancelled' ? 1 : 0);
+}
+
+function eventStatus(appointment: Appointment): string {
+  return appointment.status === 'cancelled' ? "CANCELLED" : "CONFIRMED";
+}
+
+function eventComponent(event: CalendarEvent, stampedAt: Date): string[] {
+  const { appointment } = event;
+  const changedAt = appointment.updatedAt ?? appointment.createdAt ?? stampedAt;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:appointment-${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(stampedAt)}`,
+    `CREATED:${formatUtc(appointment.createdAt ?? changedAt)}`,
+    `LAST-MODIFIED:${formatUtc(changedAt)}`,
+    `SEQUENCE:${sequenceOf(appointment)}`,
+    `STATUS:${eventStatus(appointment)}`,
+    `DTSTART;TZID=${TIMEZONE}:${formatLocal(appointment.appointmentDate)}`,
+    `DTEND;TZID=${TIMEZONE}:${formatLocal(appointmentEnd(appointment))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+}
+
+function buildCalendar(name: string, events: CalendarEvent[], stampedAt: Date): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...timezoneComponent(events.map(event => event.appointment)),
+    ...events.flatMap(event => eventComponent(event, stampedAt)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Builds iCalendar files for single appointments and per-user subscription feeds.
+// Feeds are read by calendar apps without a session, so they are addressed by a
+// secret token and show patients to doctors by patient ID only.
+export class CalendarExporter {
+  async getFeedToken(userId: string): Promise<string> {
+    const feed = await storage.getCalendarFeedByUserId(userId);
+    return feed?.token ?? this.rotateFeedToken(userId);
+  }
+
+  async rotateFeedToken(userId: string): Promise<string> {
+    const feed = await storage.saveCalendarFeedToken(userId, crypto.randomBytes(24).toString('hex'));
+    return feed.token;
+  }
+
+  // Resolves a feed URL's token to its owner and renders their calendar
+  async renderFeed(token: string, now: Date = new Date()): Promise<{ user: User; calendar: string }> {
+    const feed = /^[0-9a-f]{48}$/.test(token) ? await storage.getCalendarFeedByToken(token) : undefined;
+    const user = feed ? await storage.getUser(feed.userId) : undefined;
+    if (!feed || !user || user.isActive === false) {
+      throw new CalendarError("Calendar feed not found", 404);
+    }
+
+    const since = now.getTime() - FEED_HISTORY_DAYS * DAY_MS;
+    const recent = (appointments: Appointment[]) => appointments
+      .filter(appointment => appointment.status !== 'held' && appointment.appointmentDate.getTime() >= since)
+      .sort((a, b) => a.appointmentDate.getTime() - b.appointmentDate.getTime());
+
+    let calendar: string;
+    if (user.role === 'doctor') {
+      const doctor = await storage.getDoctorByUserId(user.id);
+      const appointments = doctor ? recent(await storage.getAppointmentsByDoctor(doctor.id)) : [];
+      calendar = buildCalendar("OPD Schedule", await this.doctorEvents(appointments), now);
+    } else if (user.role === 'patient') {
+      const patient = await storage.getPatientByUserId(user.id);
+      const appointments = patient ? recent(await storage.getAppointmentsByPatient(patient.id)) : [];
+      calendar = buildCalendar("My Appointments", await this.patientEvents(appointments), now);
+    } else {
+      throw new CalendarError("Calendar feed not found", 404);
+    }
+
+    await storage.touchCalendarFeed(feed.id, now);
+    return { user, calendar };
+  }
+
+  // A one-event calendar file for the patient, e.g. to attach to a confirmation
+  async appointmentFile(appointment: Appointment, now: Date = new Date()): Promise<EmailAttachment> {
+    const [event] = await this.patientEvents([appointment]);
+    return {
+      filename: `appointment-${appointment.id}.ics`,
+      contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+      content: buildCalendar("Appointment", [event], now),
+    };
+  }
+
+  private async patientEvents(appointments: Appointment[]): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    for (const appointment of appointments) {
+      const details = await reminderScheduler.describe(appointment);
+      events.push({
+        appointment,
+        summary: `${appointment.status === 'cancelled' ? "Cancelled: " : ""}Appointment with ${details.doctor}`,
+        location: details.department,
+        description: `Reference: ${details.reference}\nPlease check in at the kiosk or front desk on arrival.`,
+      });
+    }
+    return events;
+  }
+
+  private async doctorEvents(appointments: Appointment[]): Promise<CalendarEvent[]> {
+    const patientCodes = new Map<number, string>();
+    const events: CalendarEvent[] = [];
+    for (const appointment of appointments) {
+      if (appointment.patientId && !patientCodes.has(appointment.patientId)) {
+        const patient = await storage.getPatientById(appointment.patientId);
+        patientCodes.set(appointment.patientId, patient?.patientId ?? `#${appointment.patientId}`);
+      }
+      const patientCode = appointment.patientId ? patientCodes.get(appointment.patientId) : undefined;
+      const type = appointment.appointmentType || "consultation";
+
+      events.push({
+        appointment,
+        summary: `${appointment.status === 'cancelled' ? "Cancelled: " : ""}${type[0].toUpperCase()}${type.slice(1)}${patientCode ? ` - ${patientCode}` : ""}`,
+        location: appointment.roomId ? `Room #${appointment.roomId}` : "OPD",
+        description: `Reference: APT-${appointment.id}`,
+      });
+    }
+    return events;
+  }
+}
+
+export const calendarExporter = new CalendarExporter();
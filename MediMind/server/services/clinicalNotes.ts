@@ -0,0 +1,126 @@
+import { storage } from "../storage";
+import type { ClinicalNote, ClinicalNoteDraft, UpdateClinicalNoteDraft, ClinicalNoteAmendment } from "@shared/schema";
+
+const SECTIONS = ["subjective", "objective", "assessment", "plan", "content"] as const;
+
+// A note as listed for a patient: its latest version, numbered from 1 for the original
+export interface ClinicalNoteVersion extends ClinicalNote {
+  version: number;
+}
+
+export class ClinicalNoteError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ClinicalNoteError';
+  }
+}
+
+// Drafting, signing and amending of clinical notes. Only the author may edit or sign
+// a draft; signing locks it for good. A locked note is corrected by an amendment: a
+// new signed version linked to the one it replaces, so the history stays intact.
+export class ClinicalNoteService {
+  // Latest version of each note, newest first. Unsigned drafts are shown to
+  // their author only.
+  async listForPatient(patientId: number, viewerId: string): Promise<ClinicalNoteVersion[]> {
+    const notes = await storage.getClinicalNotesByPatient(patientId);
+    const byId = new Map(notes.map(note => [note.id, note]));
+    const amended = new Set(notes.map(note => note.originalNoteId).filter((id): id is number => id != null));
+
+    return notes
+      .filter(note => !amended.has(note.id) && (note.isLocked || note.authorId === viewerId))
+      .map(note => ({ ...note, version: this.versionOf(note, byId) }));
+  }
+
+  // Every version of the note, oldest first, whichever version is asked about
+  async getHistory(noteId: number): Promise<ClinicalNoteVersion[]> {
+    const note = await this.getNote(noteId);
+    const notes = note.patientId ? await storage.getClinicalNotesByPatient(note.patientId) : [note];
+    const byId = new Map(notes.map(entry => [entry.id, entry]));
+    const amendedBy = new Map(notes.filter(entry => entry.originalNoteId != null).map(entry => [entry.originalNoteId!, entry]));
+
+    let first = note;
+    while (first.originalNoteId != null && byId.has(first.originalNoteId)) {
+      first = byId.get(first.originalNoteId)!;
+    }
+    const history: ClinicalNoteVersion[] = [];
+    for (let entry: ClinicalNote | undefined = first; entry; entry = amendedBy.get(entry.id)) {
+      history.push({ ...entry, version: history.length + 1 });
+    }
+    return history;
+  }
+
+  async getNote(id: number): Promise<ClinicalNote> {
+    const note = await storage.getClinicalNoteById(id);
+    if (!note) {
+      throw new ClinicalNoteError("Clinical note not found", 404);
+    }
+    return note;
+  }
+
+  async createDraft(draft: ClinicalNoteDraft, authorId: string): Promise<ClinicalNote> {
+    const patient = await storage.getPatientById(draft.patientId);
+    if (!patient) {
+      throw new ClinicalNoteError("Patient not found", 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new ClinicalNoteError("This record has been merged into another; write notes there", 409);
+    }
+    return storage.createClinicalNote({ ...draft, authorId, isLocked: false, isAmended: false });
+  }
+
+  async updateDraft(id: number, changes: UpdateClinicalNoteDraft, userId: string): Promise<ClinicalNote> {
+    const note = await this.getEditableDraft(id, userId, "edit");
+    const updated = await storage.updateClinicalNoteDraft(note.id, changes);
+    if (!updated) {
+      throw new ClinicalNoteError("Signed notes are locked; add an amendment instead", 409);
+    }
+    return updated;
+  }
+
+  async sign(id: number, userId: string): Promise<ClinicalNote> {
+    const note = await this.getEditableDraft(id, userId, "sign");
+    if (!SECTIONS.some(section => note[section]?.trim())) {
+      throw new ClinicalNoteError("Add the note's content before signing it");
+    }
+    const signed = await storage.signClinicalNote(note.id, userId);
+    if (!signed) {
+      throw new ClinicalNoteError("This note has already been signed", 409);
+    }
+    return signed;
+  }
+
+  async amend(id: number, amendment: ClinicalNoteAmendment, userId: string): Promise<ClinicalNote> {
+    const note = await this.getNote(id);
+    if (!note.isLocked) {
+      throw new ClinicalNoteError("Only signed notes are amended; edit the draft instead", 409);
+    }
+    const amended = await storage.amendClinicalNote(note.id, amendment, userId);
+    if (!amended) {
+      throw new ClinicalNoteError("This version has already been amended; amend the latest version instead", 409);
+    }
+    return amended;
+  }
+
+  private async getEditableDraft(id: number, userId: string, action: "edit" | "sign"): Promise<ClinicalNote> {
+    const note = await this.getNote(id);
+    if (note.isLocked) {
+      throw new ClinicalNoteError("Signed notes are locked; add an amendment instead", 409);
+    }
+    if (note.authorId !== userId) {
+      throw new ClinicalNoteError(`Only the author can ${action} this draft`, 403);
+    }
+    return note;
+  }
+
+  private versionOf(note: ClinicalNote, byId: Map<number, ClinicalNote>): number {
+    let version = 1;
+    for (let entry = note; entry.originalNoteId != null && byId.has(entry.originalNoteId); entry = byId.get(entry.originalNoteId)!) {
+      version++;
+    }
+    return version;
+  }
+}
+
+export const clinicalNoteService = new ClinicalNoteService();
@@ -0,0 +1,231 @@
+import { storage } from "../storage";
+import type {
+  LabResult,
+  ImagingStudy,
+  Medication,
+  AllergyAndReaction,
+  Problem,
+  InsertLabResult,
+  InsertImagingStudy,
+  InsertMedication,
+  InsertAllergy,
+  InsertProblem,
+} from "@shared/schema";
+
+export type EmrEntryKind = "lab-results" | "imaging" | "medications" | "allergies" | "problems";
+
+export const EMR_ENTRY_KINDS: EmrEntryKind[] = ["lab-results", "imaging", "medications", "allergies", "problems"];
+
+export type EmrEntry = LabResult | ImagingStudy | Medication | AllergyAndReaction | Problem;
+export type EmrEntryInput = InsertLabResult | InsertImagingStudy | InsertMedication | InsertAllergy | InsertProblem;
+
+// Who is adding an entry: the user, and their doctor record if they are a doctor
+export interface EmrEntryAuthor {
+  userId: string;
+  doctorId?: number;
+}
+
+interface StatusAction {
+  from: string[];
+  to: string;
+}
+
+const LIST_ACTIONS: Record<string, StatusAction> = {
+  "inactivate": { from: ["active"], to: "inactive" },
+  "resolve": { from: ["active", "inactive"], to: "resolved" },
+  "reactivate": { from: ["inactive", "resolved"], to: "active" },
+};
+
+// Status changes for each kind of entry: the statuses each may be applied from and
+// the status it leads to. "correct" reopens a finished result for editing; it has
+// to be completed or reported, and so verified, again.
+export const EMR_STATUS_ACTIONS: Record<EmrEntryKind, Record<string, StatusAction>> = {
+  "lab-results": {
+    "start": { from: ["pending"], to: "in-progress" },
+    "complete": { from: ["pending", "in-progress"], to: "completed" },
+    "correct": { from: ["completed"], to: "in-progress" },
+    "cancel": { from: ["pending", "in-progress"], to: "cancelled" },
+  },
+  "imaging": {
+    "start": { from: ["pending"], to: "in-progress" },
+    "complete": { from: ["in-progress"], to: "completed" },
+    "report": { from: ["completed"], to: "reported" },
+    "correct": { from: ["reported"], to: "completed" },
+    "cancel": { from: ["pending", "in-progress"], to: "cancelled" },
+  },
+  "medications": {
+    "hold": { from: ["active"], to: "on-hold" },
+    "resume": { from: ["on-hold"], to: "active" },
+    "complete": { from: ["active", "on-hold"], to: "completed" },
+    "discontinue": { from: ["active", "on-hold"], to: "discontinued" },
+  },
+  "allergies": LIST_ACTIONS,
+  "problems": LIST_ACTIONS,
+};
+
+// Entries in these statuses are closed and can no longer be edited. Signed-off
+// results are changed only through "correct".
+const CLOSED_STATUSES: Record<EmrEntryKind, string[]> = {
+  "lab-results": ["completed", "cancelled"],
+  "imaging": ["reported", "cancelled"],
+  "medications": ["completed", "discontinued"],
+  "allergies": [],
+  "problems": [],
+};
+
+const ENTRY_LABELS: Record<EmrEntryKind, string> = {
+  "lab-results": "Lab result",
+  "imaging": "Imaging study",
+  "medications": "Medication",
+  "allergies": "Allergy",
+  "problems": "Problem",
+};
+
+interface EntryStore {
+  get(id: number): Promise<EmrEntry | undefined>;
+  create(entry: EmrEntryInput): Promise<EmrEntry>;
+  update(id: number, changes: Record<string, unknown>, fromStatuses?: string[]): Promise<EmrEntry | undefined>;
+}
+
+const ENTRY_STORES: Record<EmrEntryKind, EntryStore> = {
+  "lab-results": {
+    get: (id) => storage.getLabResultById(id),
+    create: (entry) => storage.createLabResult(entry as InsertLabResult),
+    update: (id, changes, fromStatuses) => storage.updateLabResult(id, changes as Partial<InsertLabResult>, fromStatuses),
+  },
+  "imaging": {
+    get: (id) => storage.getImagingStudyById(id),
+    create: (entry) => storage.createImagingStudy(entry as InsertImagingStudy),
+    update: (id, changes, fromStatuses) => storage.updateImagingStudy(id, changes as Partial<InsertImagingStudy>, fromStatuses),
+  },
+  "medications": {
+    get: (id) => storage.getMedicationById(id),
+    create: (entry) => storage.createMedication(entry as InsertMedication),
+    update: (id, changes, fromStatuses) => storage.updateMedication(id, changes as Partial<InsertMedication>, fromStatuses),
+  },
+  "allergies": {
+    get: (id) => storage.getAllergyById(id),
+    create: (entry) => storage.createAllergy(entry as InsertAllergy),
+    update: (id, changes, fromStatuses) => storage.updateAllergy(id, changes as Partial<InsertAllergy>, fromStatuses),
+  },
+  "problems": {
+    get: (id) => storage.getProblemById(id),
+    create: (entry) => storage.createProblem(entry as InsertProblem),
+    update: (id, changes, fromStatuses) => storage.updateProblem(id, changes as Partial<InsertProblem>, fromStatuses),
+  },
+};
+
+export class EmrEntryError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'EmrEntryError';
+  }
+}
+
+// Adds, edits and moves through their statuses the structured parts of a patient's
+// record: lab results, imaging studies, medications, allergies and the problem list.
+// Status only changes through the actions above, and closed entries stay as they are.
+export class EmrEntryService {
+  async getEntry(kind: EmrEntryKind, id: number): Promise<EmrEntry> {
+    const entry = await ENTRY_STORES[kind].get(id);
+    if (!entry) {
+      throw new EmrEntryError(`${ENTRY_LABELS[kind]} not found`, 404);
+    }
+    return entry;
+  }
+
+  async create(kind: EmrEntryKind, input: EmrEntryInput, author: EmrEntryAuthor): Promise<EmrEntry> {
+    const patient = input.patientId ? await storage.getPatientById(input.patientId) : undefined;
+    if (!patient) {
+      throw new EmrEntryError("Patient not found", 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new EmrEntryError("This record has been merged into another; add entries there", 409);
+    }
+
+    // New entries start in their default status; who recorded them comes from the session
+    const entry: Record<string, unknown> = { ...input, status: undefined };
+    switch (kind) {
+      case "lab-results":
+        Object.assign(entry, { doctorId: author.doctorId ?? null, verifiedBy: null });
+        break;
+      case "imaging":
+        entry.doctorId = author.doctorId ?? null;
+        break;
+      case "medications":
+        // Prescription items are only added through their prescription
+        Object.assign(entry, { doctorId: author.doctorId ?? null, prescriptionId: null });
+        break;
+      case "allergies":
+        entry.verifiedBy = author.userId;
+        break;
+      case "problems":
+        entry.managingPhysician = (input as InsertProblem).managingPhysician ?? (author.doctorId ? author.userId : null);
+        break;
+    }
+    return ENTRY_STORES[kind].create(entry as EmrEntryInput);
+  }
+
+  async update(kind: EmrEntryKind, entry: EmrEntry, changes: Record<string, unknown>, now: Date = new Date()): Promise<EmrEntry> {
+    if (Object.keys(changes).length === 0) {
+      throw new EmrEntryError("Nothing to update");
+    }
+    const status = entry.status ?? "";
+    if (CLOSED_STATUSES[kind].includes(status)) {
+      throw new EmrEntryError(`This ${ENTRY_LABELS[kind].toLowerCase()} is ${status} and can no longer be edited`, 409);
+    }
+    if (kind === "medications" && (entry as Medication).prescriptionId) {
+      throw new EmrEntryError("This medication is part of a prescription; change the prescription instead", 409);
+    }
+
+    const updated = await ENTRY_STORES[kind].update(
+      entry.id,
+      { ...changes, ...this.touched(kind, now) },
+      entry.status ? [entry.status] : undefined
+    );
+    if (!updated) {
+      throw new EmrEntryError(`This ${ENTRY_LABELS[kind].toLowerCase()} has just been changed by someone else`, 409);
+    }
+    return updated;
+  }
+
+  async changeStatus(kind: EmrEntryKind, entry: EmrEntry, action: string, userId: string, now: Date = new Date()): Promise<EmrEntry> {
+    const transition = EMR_STATUS_ACTIONS[kind][action];
+    if (!transition) {
+      throw new EmrEntryError(`Unknown action for ${ENTRY_LABELS[kind].toLowerCase()}: ${action}`);
+    }
+    if (!transition.from.includes(entry.status ?? "")) {
+      throw new EmrEntryError(`Cannot ${action} a ${ENTRY_LABELS[kind].toLowerCase()} that is ${entry.status}`, 409);
+    }
+
+    const changes: Record<string, unknown> = { status: transition.to, ...this.touched(kind, now) };
+    if (kind === "medications" && (action === "discontinue" || action === "complete")) {
+      changes.endDate = action === "complete" ? (entry as Medication).endDate ?? now : now;
+    } else if (kind === "problems") {
+      changes.resolvedDate = action === "resolve" ? now : null;
+    } else if (kind === "lab-results" && action === "complete") {
+      Object.assign(changes, { reportDate: now, verifiedBy: userId });
+    } else if (kind === "lab-results" && action === "correct") {
+      Object.assign(changes, { reportDate: null, verifiedBy: null });
+    } else if (kind === "imaging" && action === "report") {
+      changes.reportDate = now;
+    } else if (kind === "imaging" && action === "correct") {
+      changes.reportDate = null;
+    }
+
+    const updated = await ENTRY_STORES[kind].update(entry.id, changes, transition.from);
+    if (!updated) {
+      throw new EmrEntryError(`This ${ENTRY_LABELS[kind].toLowerCase()} has just been changed by someone else`, 409);
+    }
+    return updated;
+  }
+
+  // Allergies and problems keep their own last-changed time
+  private touched(kind: EmrEntryKind, now: Date): Record<string, unknown> {
+    return kind === "allergies" || kind === "problems" ? { updatedAt: now } : {};
+  }
+}
+
+export const emrEntryService = new EmrEntryService();
@@ -93,7 +93,7 @@ export class HIPAAService {
     if (!user) return false;
 
     // Role-based access control matrix
-    const accessMatrix = {
+    const accessMatrix: Record<string, Record<string, string[]>> = {
       'patient': {
         'medical-records': ['read'],
         'appointments': ['read', 'create'],
@@ -122,6 +122,9 @@ export class HIPAAService {
         'appointments': ['read', 'create', 'update'],
         'patients': ['read', 'create', 'update'],
         'queue': ['read', 'create', 'update']
+      },
+      'pharmacy': {
+        'prescriptions': ['read', 'update']
       }
     };
 
@@ -0,0 +1,149 @@
+import type { InteractionDataset } from "./interactions";
+
+// Bundled starter dataset: common drugs on Indian formularies and their best-known
+// interactions. It is meant to catch the classic dangerous combinations, not to be
+// exhaustive; point INTERACTION_DATASET_FILE at a fuller dataset in the same shape
+// to replace it. Drug keys are generic names; "class:<name>" in an interaction
+// stands for every drug in that class.
+export const DEFAULT_INTERACTION_DATASET: InteractionDataset = {
+  version: "bundled-2026.10",
+  classes: {
+    "penicillins": { label: "Penicillins", aliases: ["penicillin", "pcn"], allergenic: true },
+    "cephalosporins": { label: "Cephalosporins", aliases: ["cephalosporin"], allergenic: true },
+    "sulfonamides": { label: "Sulfonamide antibiotics", aliases: ["sulfa", "sulpha", "sulfonamide", "sulphonamide", "sulfa drugs"], allergenic: true },
+    "macrolides": { label: "Macrolides", aliases: ["macrolide"], allergenic: true },
+    "fluoroquinolones": { label: "Fluoroquinolones", aliases: ["fluoroquinolone", "quinolone", "quinolones"], allergenic: true },
+    "nsaids": { label: "NSAIDs", aliases: ["nsaid", "anti-inflammatories"], allergenic: true },
+    "opioids": { label: "Opioids", aliases: ["opioid", "opiate", "opiates"], allergenic: true },
+    "anticoagulants": { label: "Anticoagulants", aliases: ["blood thinner", "blood thinners"] },
+    "antiplatelets": { label: "Antiplatelets", aliases: ["antiplatelet"] },
+    "statins": { label: "Statins", aliases: ["statin"] },
+    "ace-inhibitors": { label: "ACE inhibitors", aliases: ["ace inhibitor"] },
+    "arbs": { label: "Angiotensin receptor blockers", aliases: ["arb", "sartans"] },
+    "potassium-sparing-diuretics": { label: "Potassium-sparing diuretics" },
+    "potassium-supplements": { label: "Potassium supplements" },
+    "nitrates": { label: "Nitrates", aliases: ["nitrate"] },
+    "pde5-inhibitors": { label: "PDE5 inhibitors" },
+    "ssris": { label: "SSRIs", aliases: ["ssri"] },
+    "benzodiazepines": { label: "Benzodiazepines", aliases: ["benzodiazepine", "benzos"] },
+    "azole-antifungals": { label: "Azole antifungals" },
+    "ppis": { label: "Proton pump inhibitors", aliases: ["ppi"] },
+    "sulfonylureas": { label: "Sulfonylureas" },
+    "cyp-inducers": { label: "Strong enzyme inducers" },
+  },
+  drugs: {
+    "warfarin": { classes: ["anticoagulants"], brands: ["warf", "coumadin"] },
+    "acenocoumarol": { classes: ["anticoagulants"], brands: ["acitrom"] },
+    "apixaban": { classes: ["anticoagulants"], brands: ["eliquis"] },
+    "rivaroxaban": { classes: ["anticoagulants"], brands: ["xarelto"] },
+    "aspirin": { classes: ["antiplatelets", "nsaids"], brands: ["ecosprin", "disprin"] },
+    "clopidogrel": { classes: ["antiplatelets"], brands: ["clopilet", "plavix"] },
+    "ibuprofen": { classes: ["nsaids"], brands: ["brufen", "combiflam"] },
+    "diclofenac": { classes: ["nsaids"], brands: ["voveran"] },
+    "naproxen": { classes: ["nsaids"], brands: ["naprosyn"] },
+    "aceclofenac": { classes: ["nsaids"], brands: ["zerodol", "hifenac"] },
+    "paracetamol": { classes: [], brands: ["acetaminophen", "crocin", "dolo", "calpol"] },
+    "amoxicillin": { classes: ["penicillins"], brands: ["mox", "novamox"] },
+    "co-amoxiclav": { classes: ["penicillins"], brands: ["augmentin", "clavam", "moxclav", "amoxicillin clavulanate"] },
+    "ampicillin": { classes: ["penicillins"] },
+    "cloxacillin": { classes: ["penicillins"] },
+    "cefalexin": { classes: ["cephalosporins"], brands: ["cephalexin", "sporidex"] },
+    "cefuroxime": { classes: ["cephalosporins"], brands: ["ceftum"] },
+    "cefixime": { classes: ["cephalosporins"], brands: ["taxim-o", "zifi"] },
+    "ceftriaxone": { classes: ["cephalosporins"], brands: ["monocef"] },
+    "azithromycin": { classes: ["macrolides"], brands: ["azithral", "azee"] },
+    "clarithromycin": { classes: ["macrolides"], brands: ["claribid"] },
+    "erythromycin": { classes: ["macrolides"] },
+    "ciprofloxacin": { classes: ["fluoroquinolones"], brands: ["ciplox", "cifran"] },
+    "levofloxacin": { classes: ["fluoroquinolones"], brands: ["levoflox"] },
+    "cotrimoxazole": { classes: ["sulfonamides"], brands: ["septran", "bactrim", "sulfamethoxazole trimethoprim"] },
+    "fluconazole": { classes: ["azole-antifungals"], brands: ["forcan"] },
+    "rifampicin": { classes: ["cyp-inducers"], brands: ["rifampin", "r-cin"] },
+    "carbamazepine": { classes: ["cyp-inducers"], brands: ["tegretol"] },
+    "phenytoin": { classes: ["cyp-inducers"], brands: ["eptoin", "dilantin"] },
+    "metformin": { classes: [], brands: ["glycomet", "glucophage"] },
+    "glimepiride": { classes: ["sulfonylureas"], brands: ["amaryl"] },
+    "gliclazide": { classes: ["sulfonylureas"], brands: ["diamicron"] },
+    "atorvastatin": { classes: ["statins"], brands: ["atorva", "lipitor"] },
+    "simvastatin": { classes: ["statins"], brands: ["zocor"] },
+    "rosuvastatin": { classes: ["statins"], brands: ["rosuvas", "crestor"] },
+    "enalapril": { classes: ["ace-inhibitors"], brands: ["envas"] },
+    "ramipril": { classes: ["ace-inhibitors"], brands: ["cardace"] },
+    "losartan": { classes: ["arbs"], brands: ["losar", "cozaar"] },
+    "telmisartan": { classes: ["arbs"], brands: ["telma"] },
+    "spironolactone": { classes: ["potassium-sparing-diuretics"], brands: ["aldactone"] },
+    "potassium chloride": { classes: ["potassium-supplements"], brands: ["k-cl"] },
+    "furosemide": { classes: [], brands: ["lasix", "frusemide"] },
+    "digoxin": { classes: [], brands: ["lanoxin"] },
+    "amiodarone": { classes: [], brands: ["cordarone"] },
+    "isosorbide mononitrate": { classes: ["nitrates"], brands: ["monotrate"] },
+    "nitroglycerin": { classes: ["nitrates"], brands: ["glyceryl trinitrate", "sorbitrate"] },
+    "sildenafil": { classes: ["pde5-inhibitors"], brands: ["viagra", "penegra"] },
+    "tadalafil": { classes: ["pde5-inhibitors"], brands: ["cialis", "tadacip"] },
+    "fluoxetine": { classes: ["ssris"], brands: ["prodep", "fludac"] },
+    "sertraline": { classes: ["ssris"], brands: ["zoloft", "serta"] },
+    "escitalopram": { classes: ["ssris"], brands: ["nexito", "cipralex"] },
+    "tramadol": { classes: ["opioids"], brands: ["ultracet", "contramal"] },
+    "morphine": { classes: ["opioids"] },
+    "codeine": { classes: ["opioids"] },
+    "alprazolam": { classes: ["benzodiazepines"], brands: ["alprax", "restyl"] },
+    "diazepam": { classes: ["benzodiazepines"], brands: ["valium", "calmpose"] },
+    "clonazepam": { classes: ["benzodiazepines"], brands: ["clonotril", "rivotril"] },
+    "omeprazole": { classes: ["ppis"], brands: ["omez"] },
+    "pantoprazole": { classes: ["ppis"], brands: ["pan", "pantocid"] },
+    "methotrexate": { classes: [], brands: ["folitrax"] },
+    "allopurinol": { classes: [], brands: ["zyloric"] },
+    "azathioprine": { classes: [], brands: ["azoran", "imuran"] },
+    "lithium": { classes: [], brands: ["licab", "lithosun"] },
+  },
+  interactions: [
+    { between: ["sildenafil", "class:nitrates"], severity: "contraindicated", effect: "Profound, potentially fatal hypotension", management: "Do not combine; allow at least 24 hours after sildenafil before a nitrate" },
+    { between: ["tadalafil", "class:nitrates"], severity: "contraindicated", effect: "Profound, potentially fatal hypotension", management: "Do not combine; allow at least 48 hours after tadalafil before a nitrate" },
+    { between: ["simvastatin", "clarithromycin"], severity: "contraindicated", effect: "Greatly raised simvastatin levels with risk of rhabdomyolysis", management: "Suspend simvastatin during the course or choose azithromycin" },
+    { between: ["simvastatin", "erythromycin"], severity: "contraindicated", effect: "Greatly raised simvastatin levels with risk of rhabdomyolysis", management: "Suspend simvastatin during the course or choose azithromycin" },
+    { between: ["class:anticoagulants", "class:nsaids"], severity: "major", effect: "Increased risk of serious bleeding, especially gastrointestinal", management: "Prefer paracetamol; if an NSAID is essential, add a PPI and monitor closely" },
+    { between: ["class:anticoagulants", "class:antiplatelets"], severity: "major", effect: "Additive bleeding risk", management: "Combine only with a clear indication and review the duration" },
+    { between: ["class:anticoagulants", "class:anticoagulants"], severity: "major", effect: "Duplicate anticoagulation with high bleeding risk", management: "Stop one anticoagulant; bridge only under a defined protocol" },
+    { between: ["warfarin", "fluconazole"], severity: "major", effect: "Fluconazole inhibits warfarin metabolism; INR can rise sharply", management: "Reduce the warfarin dose and check INR within 3 to 5 days" },
+    { between: ["warfarin", "amiodarone"], severity: "major", effect: "Raised INR that can persist for weeks", management: "Reduce the warfarin dose by about a third and monitor INR weekly" },
+    { between: ["warfarin", "cotrimoxazole"], severity: "major", effect: "Marked rise in INR", management: "Avoid if possible; otherwise monitor INR closely" },
+    { between: ["warfarin", "class:cyp-inducers"], severity: "major", effect: "Enzyme induction reduces the anticoagulant effect", management: "Monitor INR and expect to need a higher dose; reverse on stopping the inducer" },
+    { between: ["apixaban", "class:cyp-inducers"], severity: "major", effect: "Reduced apixaban levels and loss of protection", management: "Avoid the combination" },
+    { between: ["rivaroxaban", "class:cyp-inducers"], severity: "major", effect: "Reduced rivaroxaban levels and loss of protection", management: "Avoid the combination" },
+    { between: ["warfarin", "class:fluoroquinolones"], severity: "moderate", effect: "May raise INR", management: "Check INR during and after the course" },
+    { between: ["warfarin", "class:macrolides"], severity: "moderate", effect: "May raise INR", management: "Check INR during and after the course" },
+    { between: ["clopidogrel", "omeprazole"], severity: "moderate", effect: "Omeprazole reduces activation of clopidogrel", management: "Use pantoprazole instead if a PPI is needed" },
+    { between: ["simvastatin", "amiodarone"], severity: "major", effect: "Raised simvastatin levels and myopathy risk", management: "Do not exceed simvastatin 20 mg daily" },
+    { between: ["atorvastatin", "clarithromycin"], severity: "major", effect: "Raised atorvastatin levels and myopathy risk", management: "Limit atorvastatin to 20 mg or pause it during the course" },
+    { between: ["simvastatin", "fluconazole"], severity: "major", effect: "Raised simvastatin levels and myopathy risk", management: "Pause simvastatin during treatment" },
+    { between: ["class:ace-inhibitors", "class:potassium-sparing-diuretics"], severity: "major", effect: "Risk of severe hyperkalaemia", management: "Check potassium and renal function within a week and regularly after" },
+    { between: ["class:arbs", "class:potassium-sparing-diuretics"], severity: "major", effect: "Risk of severe hyperkalaemia", management: "Check potassium and renal function within a week and regularly after" },
+    { between: ["class:ace-inhibitors", "class:potassium-supplements"], severity: "major", effect: "Risk of severe hyperkalaemia", management: "Avoid routine supplements; monitor potassium if essential" },
+    { between: ["class:potassium-sparing-diuretics", "class:potassium-supplements"], severity: "major", effect: "Risk of severe hyperkalaemia", management: "Avoid the combination" },
+    { between: ["class:ace-inhibitors", "class:arbs"], severity: "major", effect: "Dual RAS blockade raises the risk of hyperkalaemia, hypotension and renal failure", management: "Avoid the combination" },
+    { between: ["class:ace-inhibitors", "class:nsaids"], severity: "moderate", effect: "Reduced antihypertensive effect and risk of acute kidney injury", management: "Use the lowest NSAID dose briefly and check renal function" },
+    { between: ["class:arbs", "class:nsaids"], severity: "moderate", effect: "Reduced antihypertensive effect and risk of acute kidney injury", management: "Use the lowest NSAID dose briefly and check renal function" },
+    { between: ["lithium", "class:nsaids"], severity: "major", effect: "Reduced lithium clearance and toxicity", management: "Avoid, or monitor lithium levels within 5 days" },
+    { between: ["lithium", "class:ace-inhibitors"], severity: "major", effect: "Reduced lithium clearance and toxicity", management: "Monitor lithium levels closely" },
+    { between: ["lithium", "class:arbs"], severity: "major", effect: "Reduced lithium clearance and toxicity", management: "Monitor lithium levels closely" },
+    { between: ["lithium", "furosemide"], severity: "moderate", effect: "Diuretic may raise lithium levels", management: "Monitor lithium levels" },
+    { between: ["methotrexate", "cotrimoxazole"], severity: "major", effect: "Additive folate antagonism and bone marrow suppression", management: "Avoid the combination" },
+    { between: ["methotrexate", "class:nsaids"], severity: "major", effect: "Reduced methotrexate clearance and toxicity", management: "Avoid with high-dose methotrexate; monitor blood counts with low-dose" },
+    { between: ["azathioprine", "allopurinol"], severity: "major", effect: "Allopurinol blocks azathioprine breakdown; risk of severe marrow suppression", management: "Reduce azathioprine to a quarter of the dose and monitor blood counts" },
+    { between: ["digoxin", "amiodarone"], severity: "major", effect: "Raised digoxin levels and toxicity", management: "Halve the digoxin dose and monitor levels" },
+    { between: ["digoxin", "clarithromycin"], severity: "major", effect: "Raised digoxin levels and toxicity", management: "Monitor digoxin levels or choose another antibiotic" },
+    { between: ["class:ssris", "tramadol"], severity: "major", effect: "Risk of serotonin syndrome and seizures", management: "Avoid, or use the lowest dose and watch for agitation, tremor and fever" },
+    { between: ["class:ssris", "class:nsaids"], severity: "moderate", effect: "Increased risk of gastrointestinal bleeding", management: "Consider a PPI for gastroprotection" },
+    { between: ["class:opioids", "class:benzodiazepines"], severity: "major", effect: "Profound sedation and respiratory depression", management: "Avoid, or use the lowest doses for the shortest time" },
+    { between: ["class:sulfonylureas", "cotrimoxazole"], severity: "moderate", effect: "Enhanced hypoglycaemic effect", management: "Monitor blood glucose" },
+    { between: ["class:sulfonylureas", "fluconazole"], severity: "moderate", effect: "Enhanced hypoglycaemic effect", management: "Monitor blood glucose" },
+    { between: ["carbamazepine", "clarithromycin"], severity: "major", effect: "Raised carbamazepine levels and toxicity", management: "Choose azithromycin or monitor carbamazepine levels" },
+    { between: ["amiodarone", "class:fluoroquinolones"], severity: "major", effect: "Additive QT prolongation and risk of torsades de pointes", management: "Avoid; choose a non-QT-prolonging antibiotic" },
+    { between: ["amiodarone", "class:macrolides"], severity: "major", effect: "Additive QT prolongation and risk of torsades de pointes", management: "Avoid; choose a non-QT-prolonging antibiotic" },
+  ],
+  crossReactivity: [
+    { allergy: "penicillins", drugs: "cephalosporins", severity: "moderate", note: "Cross-reactivity is low but real; avoid after an anaphylactic penicillin reaction" },
+    { allergy: "cephalosporins", drugs: "penicillins", severity: "moderate", note: "Cross-reactivity is low but real; avoid after an anaphylactic cephalosporin reaction" },
+    { allergy: "nsaids", drugs: "nsaids", severity: "major", note: "NSAID hypersensitivity commonly extends across the class" },
+  ],
+};
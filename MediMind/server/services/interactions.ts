@@ -0,0 +1,330 @@
+import fs from "fs";
+import { z } from "zod";
+import { storage } from "../storage";
+import { INTERACTION_SEVERITIES, type AllergyAndReaction, type Medication } from "@shared/schema";
+import { DEFAULT_INTERACTION_DATASET } from "./interactionData";
+
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+const severitySchema = z.enum(INTERACTION_SEVERITIES);
+
+// Shape of an interaction dataset, bundled or loaded from INTERACTION_DATASET_FILE
+const interactionDatasetSchema = z.object({
+  version: z.string(),
+  classes: z.record(z.object({
+    label: z.string(),
+    aliases: z.array(z.string()).optional(),
+    // Whether an allergy to one member implies an allergy to the others
+    allergenic: z.boolean().optional(),
+  })),
+  drugs: z.record(z.object({
+    classes: z.array(z.string()),
+    brands: z.array(z.string()).optional(),
+  })),
+  interactions: z.array(z.object({
+    between: z.tuple([z.string(), z.string()]),
+    severity: severitySchema,
+    effect: z.string(),
+    management: z.string().optional(),
+  })),
+  crossReactivity: z.array(z.object({
+    allergy: z.string(),
+    drugs: z.string(),
+    severity: severitySchema,
+    note: z.string(),
+  })),
+});
+
+export type InteractionDataset = z.infer<typeof interactionDatasetSchema>;
+
+// Alerts at these grades stop a prescription unless the prescriber gives a reason
+const SERIOUS_SEVERITIES: InteractionSeverity[] = ["contraindicated", "major"];
+
+// Medication and allergy statuses that still count
+const CURRENT_MEDICATION_STATUSES = ["active", "on-hold"];
+const CURRENT_ALLERGY_STATUSES = ["active"];
+
+// Shortest unrecognised allergen matched against drug names as plain text
+const MIN_FREE_TEXT_ALLERGEN = 4;
+
+export interface InteractionAlert {
+  type: "drug-drug" | "drug-allergy";
+  severity: InteractionSeverity;
+  drug: string; // the medication being prescribed, as written
+  conflictsWith: string; // the other medication, or the recorded allergen
+  medicationId?: number;
+  allergyId?: number;
+  effect: string;
+  management?: string;
+}
+
+// What a prescriber writes; any of the names may identify the drug
+export interface PrescribedDrug {
+  medicationName: string;
+  genericName?: string | null;
+  brandName?: string | null;
+}
+
+export interface InteractionScreening {
+  alerts: InteractionAlert[];
+  overridden: InteractionAlert[];
+  overrideReason?: string;
+}
+
+export class InteractionAlertError extends Error {
+  isOperational = true;
+  statusCode = 409;
+  code = 'INTERACTION_OVERRIDE_REQUIRED';
+
+  constructor(public alerts: InteractionAlert[]) {
+    super("This prescription has serious interaction alerts; give a reason to go ahead");
+    this.name = 'InteractionAlertError';
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      alerts: this.alerts,
+    };
+  }
+}
+
+function normalise(text: string | null | undefined): string {
+  return (text ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function containsWords(text: string, words: string): boolean {
+  return words.length > 0 && ` ${text} `.includes(` ${words} `);
+}
+
+function severityRank(severity: InteractionSeverity): number {
+  return INTERACTION_SEVERITIES.indexOf(severity);
+}
+
+function loadDataset(): InteractionDataset {
+  const file = process.env.INTERACTION_DATASET_FILE;
+  if (!file) return DEFAULT_INTERACTION_DATASET;
+
+  // A broken dataset must stop the server rather than let prescriptions go unchecked
+  const parsed = interactionDatasetSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`Interaction dataset ${file} is invalid: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+// Checks a prescription against the patient's current medications, their recorded
+// drug allergies and the other drugs prescribed with it. Drugs are recognised by
+// generic or brand name anywhere in what was written, so "Tab. Ecosprin 75mg" is
+// aspirin; drugs the dataset does not know are only matched against allergies by name.
+export class InteractionChecker {
+  private names = new Map<string, string>(); // generic or brand name -> generic
+  private drugClasses = new Map<string, string[]>();
+  private classNames = new Map<string, string>(); // class key, label or alias -> class key
+
+  constructor(private dataset: InteractionDataset = loadDataset()) {
+    for (const [generic, drug] of Object.entries(dataset.drugs)) {
+      for (const name of [generic, ...(drug.brands ?? [])]) {
+        this.names.set(normalise(name), generic);
+      }
+      this.drugClasses.set(generic, drug.classes);
+    }
+    for (const [key, drugClass] of Object.entries(dataset.classes)) {
+      for (const name of [key, drugClass.label, ...(drugClass.aliases ?? [])]) {
+        this.classNames.set(normalise(name), key);
+      }
+    }
+  }
+
+  get version(): string {
+    return this.dataset.version;
+  }
+
+  // Generic names of every known drug mentioned, e.g. both parts of a combination
+  resolve(drug: PrescribedDrug): string[] {
+    const text = normalise([drug.genericName, drug.medicationName, drug.brandName].filter(Boolean).join(" "));
+    const generics = new Set<string>();
+    this.names.forEach((generic, name) => {
+      if (containsWords(text, name)) generics.add(generic);
+    });
+    return Array.from(generics);
+  }
+
+  isSerious(alert: InteractionAlert): boolean {
+    return SERIOUS_SEVERITIES.includes(alert.severity);
+  }
+
+  async check(patientId: number, drugs: PrescribedDrug[], excludeMedicationId?: number): Promise<InteractionAlert[]> {
+    const [medications, allergies] = await Promise.all([
+      storage.getMedicationsByPatient(patientId),
+      storage.getAllergiesByPatient(patientId),
+    ]);
+    const current = medications.filter(medication =>
+      medication.id !== excludeMedicationId && CURRENT_MEDICATION_STATUSES.includes(medication.status ?? "active")
+    );
+    const drugAllergies = allergies.filter(allergy =>
+      normalise(allergy.allergenType) === "drug" && CURRENT_ALLERGY_STATUSES.includes(allergy.status ?? "active")
+    );
+
+    const alerts: InteractionAlert[] = [];
+    drugs.forEach((drug, index) => {
+      const generics = this.resolve(drug);
+      for (const medication of current) {
+        alerts.push(...this.pairAlerts(drug, generics, medication.medicationName, this.resolve(medication), medication));
+      }
+      for (const other of drugs.slice(index + 1)) {
+        alerts.push(...this.pairAlerts(drug, generics, other.medicationName, this.resolve(other)));
+      }
+      for (const allergy of drugAllergies) {
+        const alert = this.allergyAlert(drug, generics, allergy);
+        if (alert) alerts.push(alert);
+      }
+    });
+    return alerts.sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+  }
+
+  // Checks a new prescription. Serious alerts stop it unless a reason to go ahead
+  // is given, in which case they are returned as overridden.
+  async screen(patientId: number, drugs: PrescribedDrug[], overrideReason?: string, excludeMedicationId?: number): Promise<InteractionScreening> {
+    const alerts = await this.check(patientId, drugs, excludeMedicationId);
+    const serious = alerts.filter(alert => this.isSerious(alert));
+    const reason = overrideReason?.trim();
+    if (serious.length > 0 && !reason) {
+      throw new InteractionAlertError(alerts);
+    }
+    return { alerts, overridden: serious, overrideReason: serious.length > 0 ? reason : undefined };
+  }
+
+  // The screening as kept on the medication: drug interactions and allergy
+  // contraindications, with the override reason on those that were overridden
+  recordedAlerts(screening: InteractionScreening): { interactions: InteractionAlert[]; contraindications: InteractionAlert[] } {
+    const recorded = screening.alerts.map(alert => this.isSerious(alert) && screening.overrideReason
+      ? { ...alert, overrideReason: screening.overrideReason }
+      : alert);
+    return {
+      interactions: recorded.filter(alert => alert.type === "drug-drug"),
+      contraindications: recorded.filter(alert => alert.type === "drug-allergy"),
+    };
+  }
+
+  // The alerts that concern one of the drugs screened together. A pair within the
+  // same prescription concerns both of its drugs, so the other drug gets it too,
+  // seen from its side.
+  alertsFor(alerts: InteractionAlert[], medicationName: string): InteractionAlert[] {
+    return alerts.flatMap(alert => {
+      if (alert.drug === medicationName) return [alert];
+      if (alert.type === "drug-drug" && alert.medicationId === undefined && alert.conflictsWith === medicationName) {
+        return [{ ...alert, drug: alert.conflictsWith, conflictsWith: alert.drug }];
+      }
+      return [];
+    });
+  }
+
+  private pairAlerts(
+    drug: PrescribedDrug,
+    generics: string[],
+    otherName: string,
+    otherGenerics: string[],
+    medication?: Medication,
+  ): InteractionAlert[] {
+    const alerts: InteractionAlert[] = [];
+    const base = { type: "drug-drug" as const, drug: drug.medicationName, conflictsWith: otherName, medicationId: medication?.id };
+
+    for (const generic of generics) {
+      for (const other of otherGenerics) {
+        if (generic === other) {
+          alerts.push({
+            ...base,
+            severity: "moderate",
+            effect: `Duplicate therapy: ${generic} is already prescribed`,
+            management: "Check whether this replaces the existing prescription",
+          });
+          continue;
+        }
+        for (const interaction of this.dataset.interactions) {
+          const [left, right] = interaction.between;
+          if ((this.matches(left, generic) && this.matches(right, other)) || (this.matches(left, other) && this.matches(right, generic))) {
+            alerts.push({ ...base, severity: interaction.severity, effect: interaction.effect, management: interaction.management });
+          }
+        }
+      }
+    }
+    return alerts;
+  }
+
+  // The most serious reason the allergy rules the drug out, if any
+  private allergyAlert(drug: PrescribedDrug, generics: string[], allergy: AllergyAndReaction): InteractionAlert | undefined {
+    const allergen = normalise(allergy.allergen);
+    const allergenGenerics = this.resolve({ medicationName: allergy.allergen });
+    const allergenClasses = new Set<string>();
+    this.classNames.forEach((key, name) => {
+      if (containsWords(allergen, name)) allergenClasses.add(key);
+    });
+
+    const base = {
+      type: "drug-allergy" as const,
+      drug: drug.medicationName,
+      conflictsWith: allergy.allergen,
+      allergyId: allergy.id,
+    };
+    const reaction = allergy.reaction ? ` (${allergy.reaction})` : "";
+    const found: InteractionAlert[] = [];
+
+    for (const generic of generics) {
+      const classes = this.drugClasses.get(generic) ?? [];
+      if (allergenGenerics.includes(generic)) {
+        found.push({ ...base, severity: "contraindicated", effect: `Recorded allergy to ${allergy.allergen}${reaction}` });
+        continue;
+      }
+      const allergicClass = classes.find(drugClass => allergenClasses.has(drugClass));
+      if (allergicClass) {
+        found.push({
+          ...base,
+          severity: "contraindicated",
+          effect: `${generic} is one of the ${this.dataset.classes[allergicClass].label}, to which the patient is allergic${reaction}`,
+        });
+        continue;
+      }
+
+      // An allergy to one drug carries over to its class where the class is allergenic,
+      // unless the dataset grades that cross-reactivity itself
+      const relatedClasses = new Set(allergenClasses);
+      for (const allergenGeneric of allergenGenerics) {
+        for (const drugClass of this.drugClasses.get(allergenGeneric) ?? []) {
+          relatedClasses.add(drugClass);
+        }
+      }
+      for (const drugClass of Array.from(relatedClasses)) {
+        const crossReaction = this.dataset.crossReactivity.find(entry => entry.allergy === drugClass && classes.includes(entry.drugs));
+        if (crossReaction) {
+          found.push({ ...base, severity: crossReaction.severity, effect: `Possible cross-reaction with the recorded ${allergy.allergen} allergy${reaction}`, management: crossReaction.note });
+        } else if (classes.includes(drugClass) && this.dataset.classes[drugClass]?.allergenic) {
+          found.push({
+            ...base,
+            severity: "contraindicated",
+            effect: `${generic} is in the same class (${this.dataset.classes[drugClass].label}) as ${allergy.allergen}, to which the patient is allergic${reaction}`,
+          });
+        }
+      }
+    }
+
+    // Allergens the dataset does not know are matched against the drug as written
+    if (allergenGenerics.length === 0 && allergenClasses.size === 0 && allergen.length >= MIN_FREE_TEXT_ALLERGEN) {
+      const written = normalise([drug.genericName, drug.medicationName, drug.brandName].filter(Boolean).join(" "));
+      if (containsWords(written, allergen)) {
+        found.push({ ...base, severity: "contraindicated", effect: `Recorded allergy to ${allergy.allergen}${reaction}` });
+      }
+    }
+
+    return found.sort((a, b) => severityRank(a.severity) - severityRank(b.severity))[0];
+  }
+
+  private matches(term: string, generic: string): boolean {
+    return term.startsWith("class:")
+      ? (this.drugClasses.get(generic) ?? []).includes(term.slice("class:".length))
+      : term === generic;
+  }
+}
+
+export const interactionChecker = new InteractionChecker();
@@ -1,8 +1,25 @@
 import { storage } from "../storage";
+import { REMINDER_CHANNELS } from "@shared/schema";
+
+export type NotificationChannel = typeof REMINDER_CHANNELS[number];
+
+// What a patient is told about an appointment in confirmations and reminders
+export interface AppointmentDetails {
+  date: string;
+  doctor: string;
+  department: string;
+  reference: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
 
 export interface NotificationService {
   sendSMS(phoneNumber: string, message: string): Promise<boolean>;
-  sendEmail(email: string, subject: string, message: string): Promise<boolean>;
+  sendEmail(email: string, subject: string, message: string, attachments?: EmailAttachment[]): Promise<boolean>;
   sendWhatsApp(phoneNumber: string, message: string): Promise<boolean>;
 }
 
@@ -22,14 +39,15 @@ export class MockNotificationService implements NotificationService {
     return true;
   }
 
-  async sendEmail(email: string, subject: string, message: string): Promise<boolean> {
+  async sendEmail(email: string, subject: string, message: string, attachments: EmailAttachment[] = []): Promise<boolean> {
     // Mock email integration
-    console.log(`Email to ${email}: ${subject} - ${message}`);
+    const attached = attachments.map(attachment => attachment.filename).join(', ');
+    console.log(`Email to ${email}: ${subject} - ${message}${attached ? ` [attached: ${attached}]` : ''}`);
     
     // In production, integrate with SMTP/Gmail:
     // const nodemailer = require('nodemailer');
     // const transporter = nodemailer.createTransporter({...});
-    // await transporter.sendMail({ to: email, subject, text: message });
+    // await transporter.sendMail({ to: email, subject, text: message, attachments });
     
     return true;
   }
@@ -56,11 +74,35 @@ export class NotificationManager {
     this.service = new MockNotificationService();
   }
 
+  // Sends one message over a single channel. The recipient is a user id for
+  // in-app notifications, a phone number for SMS/WhatsApp and an address for email.
+  async deliver(
+    channel: NotificationChannel,
+    recipient: string,
+    title: string,
+    message: string
+  ): Promise<boolean> {
+    switch (channel) {
+      case "in-app":
+        await storage.createNotification({ userId: recipient, title, message, type: "info" });
+        return true;
+      case "sms":
+        return this.service.sendSMS(recipient, message);
+      case "email":
+        return this.service.sendEmail(recipient, title, message);
+      case "whatsapp":
+        return this.service.sendWhatsApp(recipient, message);
+    }
+  }
+
+  // Also emails the patient, with the appointment attached as a calendar file
+  // when one is given
   async notifyAppointmentConfirmation(
     userId: string,
-    appointmentDetails: any
+    appointmentDetails: AppointmentDetails,
+    calendarFile?: EmailAttachment
   ): Promise<void> {
-    const message = `Your appointment is confirmed for ${appointmentDetails.date} with ${appointmentDetails.doctor}. Token: ${appointmentDetails.token}`;
+    const message = `Your appointment is confirmed for ${appointmentDetails.date} with ${appointmentDetails.doctor} (${appointmentDetails.department}). Reference: ${appointmentDetails.reference}. Your queue token is issued when you check in.`;
     
     await storage.createNotification({
       userId,
@@ -69,6 +111,11 @@ export class NotificationManager {
       type: "success"
     });
 
+    const user = await storage.getUser(userId);
+    if (user?.email) {
+      await this.service.sendEmail(user.email, "Appointment Confirmed", message, calendarFile ? [calendarFile] : []);
+    }
+
     // Send SMS/WhatsApp notification if phone number available
     // const patient = await storage.getPatientByUserId(userId);
     // if (patient?.phoneNumber) {
@@ -76,6 +123,106 @@ export class NotificationManager {
     // }
   }
 
+  async notifyAppointmentReminder(
+    channel: NotificationChannel,
+    recipient: string,
+    appointmentDetails: AppointmentDetails,
+    leadTime: string
+  ): Promise<boolean> {
+    const message = `Reminder: your appointment with ${appointmentDetails.doctor} (${appointmentDetails.department}) is ${leadTime}, on ${appointmentDetails.date}. Reference: ${appointmentDetails.reference}.`;
+
+    return this.deliver(channel, recipient, "Appointment Reminder", message);
+  }
+
+  async notifyAppointmentRescheduled(
+    userId: string,
+    previousDate: string,
+    newDate: string
+  ): Promise<void> {
+    const message = `Your appointment on ${previousDate} has been moved to ${newDate}.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Rescheduled",
+      message,
+      type: "info"
+    });
+  }
+
+  async notifyAppointmentCancelled(
+    userId: string,
+    date: string,
+    reason: string
+  ): Promise<void> {
+    const message = `Your appointment on ${date} has been cancelled (${reason}). Please book a new slot if you still need to be seen.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Cancelled",
+      message,
+      type: "warning"
+    });
+  }
+
+  async notifyAppointmentMissed(
+    userId: string,
+    date: string
+  ): Promise<void> {
+    const message = `You missed your appointment on ${date}. Please book a new slot if you still need to be seen.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Missed",
+      message,
+      type: "warning"
+    });
+  }
+
+  async notifyAppointmentSeriesBooked(
+    userId: string,
+    sessions: number,
+    firstDate: string
+  ): Promise<void> {
+    const message = `${sessions} recurring appointments have been booked for you, starting ${firstDate}.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Series Booked",
+      message,
+      type: "success"
+    });
+  }
+
+  async notifyAppointmentSeriesCancelled(
+    userId: string,
+    sessions: number,
+    fromDate: string
+  ): Promise<void> {
+    const message = `${sessions} remaining appointments in your series from ${fromDate} have been cancelled.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Series Cancelled",
+      message,
+      type: "warning"
+    });
+  }
+
+  async notifyWaitlistOffer(
+    userId: string,
+    slotDate: string,
+    holdUntil: string
+  ): Promise<void> {
+    const message = `An appointment slot on ${slotDate} is now available and is being held for you until ${holdUntil}. Accept it from your appointments page before then.`;
+
+    await storage.createNotification({
+      userId,
+      title: "Appointment Slot Available",
+      message,
+      type: "info"
+    });
+  }
+
   async notifyQueueUpdate(
     userId: string,
     tokenNumber: string,
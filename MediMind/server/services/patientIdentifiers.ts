@@ -0,0 +1,220 @@
+import { storage } from "../storage";
+import { PATIENT_IDENTIFIER_TYPES, type Patient, type PatientIdentifier } from "@shared/schema";
+
+export type PatientIdentifierType = typeof PATIENT_IDENTIFIER_TYPES[number];
+
+// MRN layout. Tokens: {FACILITY}, {YYYY}, {YY}, {SEQ:n} (zero-padded to n digits,
+// default 6) and {CHECK}, a Luhn digit over every digit before it. Anything else
+// is copied literally, e.g. "{FACILITY}-{YYYY}-{SEQ:5}{CHECK}" gives MED-2026-000428
+// for the 42nd patient of 2026.
+const MRN_PATTERN = process.env.MRN_PATTERN || "{FACILITY}{YY}{SEQ:6}{CHECK}";
+const FACILITY_PREFIX = (process.env.MRN_FACILITY_PREFIX || "MED").toUpperCase();
+
+const TOKEN = /\{(FACILITY|YYYY|YY|SEQ(?::(\d+))?|CHECK)\}/g;
+
+const IDENTIFIER_LABELS: Record<PatientIdentifierType, string> = {
+  aadhaar: "Aadhaar number",
+  abha: "ABHA number",
+  insurance: "Insurance member ID",
+  passport: "Passport number",
+};
+
+// Verhoeff tables, as used for the Aadhaar check digit
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function verhoeffValid(digits: string): boolean {
+  let check = 0;
+  digits.split("").reverse().forEach((digit, index) => {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[index % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+// Luhn check digit for a run of digits
+function luhnDigit(digits: string): string {
+  let sum = 0;
+  digits.split("").reverse().forEach((digit, index) => {
+    let value = Number(digit);
+    if (index % 2 === 0) {
+      value *= 2;
+      if (value > 9) value -= 9;
+    }
+    sum += value;
+  });
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export class PatientIdentifierError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PatientIdentifierError';
+  }
+}
+
+// Issues MRNs and keeps the other identifiers a patient is known by, so that any
+// of them finds the patient. MRNs come from a per-facility sequence, restarting
+// each year when the pattern includes the year.
+export class PatientIdentifierService {
+  async issueMrn(now: Date = new Date()): Promise<string> {
+    const year = now.getFullYear().toString();
+    const scope = /\{YYYY\}|\{YY\}/.test(MRN_PATTERN) ? `${FACILITY_PREFIX}:${year}` : FACILITY_PREFIX;
+    const sequence = await storage.nextPatientIdSequence(scope);
+
+    const body = MRN_PATTERN.replace(TOKEN, (_match, token: string, width?: string) => {
+      if (token === "FACILITY") return FACILITY_PREFIX;
+      if (token === "YYYY") return year;
+      if (token === "YY") return year.slice(-2);
+      if (token === "CHECK") return "{CHECK}";
+      return sequence.toString().padStart(width ? Number(width) : 6, "0");
+    });
+    const [beforeCheck] = body.split("{CHECK}");
+    return body.replace("{CHECK}", luhnDigit(beforeCheck.replace(/\D/g, "")));
+  }
+
+  // Whether the value has the MRN layout and a correct check digit, so a lookup
+  // that finds nothing can tell a mistyped MRN from something else entirely
+  checkMrn(value: string): "valid" | "bad-check" | "not-mrn" {
+    let pattern = "";
+    let lastIndex = 0;
+    for (const match of Array.from(MRN_PATTERN.matchAll(TOKEN))) {
+      pattern += escapeRegex(MRN_PATTERN.slice(lastIndex, match.index));
+      const token = match[1];
+      if (token === "FACILITY") pattern += escapeRegex(FACILITY_PREFIX);
+      else if (token === "YYYY") pattern += "\\d{4}";
+      else if (token === "YY") pattern += "\\d{2}";
+      else if (token === "CHECK") pattern = `(?<body>${pattern})(?<check>\\d)`;
+      else pattern += `\\d{${match[2] ?? 6},}`;
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    pattern += escapeRegex(MRN_PATTERN.slice(lastIndex));
+
+    const match = new RegExp(`^${pattern}$`, "i").exec(value.trim());
+    if (!match) return "not-mrn";
+    if (!match.groups) return "valid";
+    return luhnDigit(match.groups.body.replace(/\D/g, "")) === match.groups.check ? "valid" : "bad-check";
+  }
+
+  // Strips formatting so the same identifier always compares equal
+  normalise(type: PatientIdentifierType, value: string): string {
+    const compact = value.replace(/[\s-]/g, "").toUpperCase();
+    return type === "aadhaar" || type === "abha" ? compact.replace(/\D/g, "") : compact;
+  }
+
+  // Returns a message describing what is wrong, or null if the value is acceptable
+  validate(type: PatientIdentifierType, value: string): string | null {
+    switch (type) {
+      case "aadhaar":
+        return /^[2-9]\d{11}$/.test(value) && verhoeffValid(value) ? null : "Aadhaar number is not valid";
+      case "abha":
+        return /^\d{14}$/.test(value) ? null : "ABHA number must have 14 digits";
+      case "passport":
+        return /^[A-Z0-9]{6,9}$/.test(value) ? null : "Passport number must be 6 to 9 letters or digits";
+      case "insurance":
+        return /^[A-Z0-9./]{1,40}$/.test(value) ? null : "Insurance member ID may only contain letters, digits, dots and slashes";
+    }
+  }
+
+  async getIdentifiers(patientId: number): Promise<PatientIdentifier[]> {
+    return storage.getPatientIdentifiers(patientId);
+  }
+
+  async addIdentifier(patientId: number, type: PatientIdentifierType, rawValue: string, issuer: string, createdBy: string): Promise<PatientIdentifier> {
+    const patient = await storage.getPatientById(patientId);
+    if (!patient) {
+      throw new PatientIdentifierError("Patient not found", 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new PatientIdentifierError("This record has been merged into another; add identifiers there", 409);
+    }
+
+    const value = this.normalise(type, rawValue);
+    const problem = this.validate(type, value);
+    if (problem) {
+      throw new PatientIdentifierError(problem);
+    }
+
+    const normalisedIssuer = type === "insurance" || type === "passport" ? issuer.trim() : "";
+    const created = await storage.createPatientIdentifier({ patientId, type, value, issuer: normalisedIssuer, createdBy });
+    if (created) return created;
+
+    const existing = await storage.findPatientIdentifier(type, normalisedIssuer, value);
+    if (existing?.patientId === patientId) {
+      throw new PatientIdentifierError(`This ${IDENTIFIER_LABELS[type]} is already recorded for this patient`, 409);
+    }
+    const owner = existing ? await storage.getPatientById(existing.patientId) : undefined;
+    throw new PatientIdentifierError(
+      `This ${IDENTIFIER_LABELS[type]} belongs to patient ${owner?.patientId ?? "another record"}`,
+      409
+    );
+  }
+
+  async removeIdentifier(patientId: number, identifierId: number): Promise<PatientIdentifier> {
+    const identifier = await storage.getPatientIdentifier(identifierId);
+    if (!identifier || identifier.patientId !== patientId) {
+      throw new PatientIdentifierError("Identifier not found", 404);
+    }
+    await storage.deletePatientIdentifier(identifier.id);
+    return identifier;
+  }
+
+  // Records the Aadhaar and insurance numbers captured at registration. One already
+  // held by another record is left off; duplicate detection has flagged that pair.
+  async recordRegistrationIdentifiers(patient: Patient, createdBy: string): Promise<void> {
+    const captured: { type: PatientIdentifierType; value: string | null; issuer: string }[] = [
+      { type: "aadhaar", value: patient.aadhaarNumber, issuer: "" },
+      { type: "insurance", value: patient.insuranceNumber, issuer: patient.insuranceProvider?.trim() ?? "" },
+    ];
+    for (const { type, value, issuer } of captured) {
+      if (!value) continue;
+      const normalised = this.normalise(type, value);
+      if (this.validate(type, normalised)) continue;
+      await storage.createPatientIdentifier({ patientId: patient.id, type, value: normalised, issuer, createdBy });
+    }
+  }
+
+  // Finds the live patient an MRN or any recorded identifier belongs to
+  async resolve(query: string): Promise<Patient | undefined> {
+    const trimmed = query.trim();
+    if (!trimmed) return undefined;
+
+    const byMrn = await storage.getPatientByPatientId(trimmed.toUpperCase());
+    if (byMrn) return byMrn;
+
+    const matches = await storage.findPatientIdentifiersByValue(trimmed.replace(/[\s-]/g, "").toUpperCase());
+    const patientIds = Array.from(new Set(matches.map(match => match.patientId)));
+    // The same member ID at two insurers is ambiguous; leave it to a search
+    if (patientIds.length !== 1) return undefined;
+
+    const patient = await storage.getPatientById(patientIds[0]);
+    return patient?.mergedIntoId ? storage.getPatientByPatientId(patient.patientId) : patient;
+  }
+}
+
+export const patientIdentifierService = new PatientIdentifierService();
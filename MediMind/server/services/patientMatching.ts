@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import type { Patient, User } from "@shared/schema";
+
+// Scores at or above these mark a pair as a likely or a possible duplicate
+const PROBABLE_SCORE = 60;
+const POSSIBLE_SCORE = 40;
+
+// Agreement adds to the score; disagreement on a field both records carry subtracts.
+// Phones weigh little since families often register under one number.
+const WEIGHTS = {
+  aadhaarMatch: 50,
+  aadhaarMismatch: -50,
+  birthDateMatch: 20,
+  birthDateMismatch: -10,
+  phoneMatch: 15,
+  firstNameMatch: 20,
+  firstNameSoundsAlike: 15,
+  lastNameMatch: 15,
+  lastNameSoundsAlike: 10,
+};
+
+// What registration knows about the person being registered
+export interface PatientIdentity {
+  firstName?: string | null;
+  lastName?: string | null;
+  dateOfBirth?: Date | null;
+  phoneNumber?: string | null;
+  aadhaarNumber?: string | null;
+}
+
+export interface DuplicateCandidate {
+  patient: Patient;
+  name: string | null;
+  score: number;
+  likelihood: "probable" | "possible";
+  reasons: string[];
+}
+
+function digits(value: string | null | undefined): string {
+  return (value ?? "").replace(/\D/g, "");
+}
+
+function normaliseName(value: string | null | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function birthDate(value: Date | null | undefined): string | undefined {
+  return value && !isNaN(value.getTime()) ? value.toISOString().slice(0, 10) : undefined;
+}
+
+// Soundex over a name with common romanisation variants folded together first,
+// so that e.g. "Bhaskar"/"Baskar" and "Mohammed"/"Muhammad" sound alike
+export function phoneticKey(name: string): string {
+  const folded = normaliseName(name)
+    .replace(/ph/g, "f")
+    .replace(/([bcdgjkst])h/g, "$1")
+    .replace(/w/g, "v")
+    .replace(/z/g, "j")
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u");
+  if (!folded) return "";
+
+  const codes: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2",
+    d: "3", t: "3",
+    l: "4",
+    m: "5", n: "5",
+    r: "6",
+  };
+
+  let key = folded[0].toUpperCase();
+  let previous = codes[folded[0]] ?? "";
+  for (const char of folded.slice(1)) {
+    const code = codes[char] ?? "";
+    if (code && code !== previous) key += code;
+    // An h does not separate letters with the same code; vowels do
+    if (char !== "h") previous = code;
+    if (key.length === 4) break;
+  }
+  return key.padEnd(4, "0");
+}
+
+// Finds records that probably belong to the same person, for warning at registration
+// and for admin review. Candidates are drawn from records sharing an Aadhaar number,
+// phone, date of birth or surname, then scored field by field.
+export class PatientMatcher {
+  async findDuplicates(identity: PatientIdentity, excludeId?: number): Promise<DuplicateCandidate[]> {
+    const candidates = await storage.findPatientMatchCandidates({
+      aadhaarDigits: digits(identity.aadhaarNumber).length === 12 ? digits(identity.aadhaarNumber) : undefined,
+      phoneDigits: digits(identity.phoneNumber).length >= 10 ? digits(identity.phoneNumber).slice(-10) : undefined,
+      dateOfBirth: birthDate(identity.dateOfBirth),
+      lastName: identity.lastName?.trim() || undefined,
+    }, excludeId);
+
+    const duplicates: DuplicateCandidate[] = [];
+    for (const patient of candidates) {
+      const user = patient.userId ? await storage.getUser(patient.userId) : undefined;
+      const { score, reasons } = this.compare(identity, this.identityOf(patient, user));
+      if (score < POSSIBLE_SCORE) continue;
+
+      const name = [patient.firstName ?? user?.firstName, patient.lastName ?? user?.lastName].filter(Boolean).join(" ");
+      duplicates.push({
+        patient,
+        name: name || null,
+        score,
+        likelihood: score >= PROBABLE_SCORE ? "probable" : "possible",
+        reasons,
+      });
+    }
+    return duplicates.sort((a, b) => b.score - a.score);
+  }
+
+  // Matches an existing record against the rest, e.g. from the patient's profile
+  async findDuplicatesOf(patient: Patient): Promise<DuplicateCandidate[]> {
+    const user = patient.userId ? await storage.getUser(patient.userId) : undefined;
+    return this.findDuplicates(this.identityOf(patient, user), patient.id);
+  }
+
+  compare(left: PatientIdentity, right: PatientIdentity): { score: number; reasons: string[] } {
+    let score = 0;
+    const reasons: string[] = [];
+
+    const leftAadhaar = digits(left.aadhaarNumber);
+    const rightAadhaar = digits(right.aadhaarNumber);
+    if (leftAadhaar && rightAadhaar) {
+      if (leftAadhaar === rightAadhaar) {
+        score += WEIGHTS.aadhaarMatch;
+        reasons.push("Same Aadhaar number");
+      } else {
+        score += WEIGHTS.aadhaarMismatch;
+      }
+    }
+
+    const leftBirth = birthDate(left.dateOfBirth);
+    const rightBirth = birthDate(right.dateOfBirth);
+    if (leftBirth && rightBirth) {
+      if (leftBirth === rightBirth) {
+        score += WEIGHTS.birthDateMatch;
+        reasons.push("Same date of birth");
+      } else {
+        score += WEIGHTS.birthDateMismatch;
+      }
+    }
+
+    const leftPhone = digits(left.phoneNumber).slice(-10);
+    if (leftPhone.length === 10 && leftPhone === digits(right.phoneNumber).slice(-10)) {
+      score += WEIGHTS.phoneMatch;
+      reasons.push("Same phone number");
+    }
+
+    score += this.compareName(left.firstName, right.firstName, "first name", WEIGHTS.firstNameMatch, WEIGHTS.firstNameSoundsAlike, reasons);
+    score += this.compareName(left.lastName, right.lastName, "last name", WEIGHTS.lastNameMatch, WEIGHTS.lastNameSoundsAlike, reasons);
+
+    return { score, reasons };
+  }
+
+  private compareName(
+    left: string | null | undefined,
+    right: string | null | undefined,
+    label: string,
+    matchWeight: number,
+    soundsAlikeWeight: number,
+    reasons: string[],
+  ): number {
+    const leftName = normaliseName(left);
+    const rightName = normaliseName(right);
+    if (!leftName || !rightName) return 0;
+
+    if (leftName === rightName) {
+      reasons.push(`Same ${label}`);
+      return matchWeight;
+    }
+    if (phoneticKey(leftName) === phoneticKey(rightName)) {
+      reasons.push(`Similar-sounding ${label}`);
+      return soundsAlikeWeight;
+    }
+    return 0;
+  }
+
+  // Names recorded at the desk win over the linked login's profile
+  private identityOf(patient: Patient, user: User | undefined): PatientIdentity {
+    return {
+      firstName: patient.firstName ?? user?.firstName,
+      lastName: patient.lastName ?? user?.lastName,
+      dateOfBirth: patient.dateOfBirth,
+      phoneNumber: patient.phoneNumber,
+      aadhaarNumber: patient.aadhaarNumber,
+    };
+  }
+}
+
+export const patientMatcher = new PatientMatcher();
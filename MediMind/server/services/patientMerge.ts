@@ -0,0 +1,164 @@
+import { storage } from "../storage";
+import { patientMatcher, type DuplicateCandidate } from "./patientMatching";
+import type { Patient, PatientDuplicateFlag, PatientMerge } from "@shared/schema";
+
+// How long after a merge it can still be undone
+const UNMERGE_WINDOW_DAYS = Number(process.env.PATIENT_UNMERGE_WINDOW_DAYS || 30);
+
+// Demographics copied onto the survivor where it has none of its own
+const FILLABLE_FIELDS = [
+  "userId",
+  "firstName",
+  "lastName",
+  "aadhaarNumber",
+  "panNumber",
+  "phoneNumber",
+  "address",
+  "emergencyContact",
+  "bloodGroup",
+  "dateOfBirth",
+  "gender",
+  "insuranceProvider",
+  "insuranceNumber",
+] as const;
+
+export interface DuplicateFlagReview {
+  flag: PatientDuplicateFlag;
+  patient: Patient | undefined;
+  candidate: Patient | undefined;
+}
+
+export interface MergeHistoryEntry extends PatientMerge {
+  survivorPatientId: string | null;
+  mergedPatientId: string | null;
+  unmergeUntil: Date | null;
+}
+
+export class PatientMergeError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PatientMergeError';
+  }
+}
+
+// Folds a duplicate patient record into the one that survives. Everything linked to
+// the duplicate moves to the survivor and the duplicate stays behind, marked merged,
+// so that old patient IDs still resolve and the merge can be undone for a while.
+export class PatientMergeService {
+  // Flags duplicates a registration went ahead despite, for admin review
+  async flagDuplicates(patient: Patient, duplicates: DuplicateCandidate[], flaggedBy: string): Promise<void> {
+    await storage.createPatientDuplicateFlags(duplicates.map(duplicate => ({
+      patientId: patient.id,
+      candidateId: duplicate.patient.id,
+      score: duplicate.score,
+      reasons: duplicate.reasons,
+      flaggedBy,
+    })));
+  }
+
+  async getOpenFlags(): Promise<DuplicateFlagReview[]> {
+    const flags = await storage.getPatientDuplicateFlags("open");
+    const reviews: DuplicateFlagReview[] = [];
+    for (const flag of flags) {
+      reviews.push({
+        flag,
+        patient: await storage.getPatientById(flag.patientId),
+        candidate: await storage.getPatientById(flag.candidateId),
+      });
+    }
+    return reviews;
+  }
+
+  async dismissFlag(id: number, userId: string): Promise<PatientDuplicateFlag> {
+    const flag = await storage.reviewPatientDuplicateFlag(id, "dismissed", userId);
+    if (!flag) {
+      const existing = await storage.getPatientDuplicateFlag(id);
+      throw existing
+        ? new PatientMergeError("This flag has already been reviewed", 409)
+        : new PatientMergeError("Duplicate flag not found", 404);
+    }
+    return flag;
+  }
+
+  // Past merges with the patient IDs staff know the records by
+  async getHistory(): Promise<MergeHistoryEntry[]> {
+    const merges = await storage.getPatientMerges();
+    const codes = new Map<number, string | null>();
+    for (const id of merges.flatMap(merge => [merge.survivorId, merge.mergedId])) {
+      if (!codes.has(id)) codes.set(id, (await storage.getPatientById(id))?.patientId ?? null);
+    }
+    return merges.map(merge => ({
+      ...merge,
+      survivorPatientId: codes.get(merge.survivorId) ?? null,
+      mergedPatientId: codes.get(merge.mergedId) ?? null,
+      unmergeUntil: merge.status === 'merged' ? this.unmergeDeadline(merge) : null,
+    }));
+  }
+
+  async findDuplicatesOf(patientId: number): Promise<DuplicateCandidate[]> {
+    const patient = await storage.getPatientById(patientId);
+    if (!patient) {
+      throw new PatientMergeError("Patient not found", 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new PatientMergeError("This record has been merged into another", 409);
+    }
+    return patientMatcher.findDuplicatesOf(patient);
+  }
+
+  async merge(survivorId: number, mergedId: number, userId: string, reason: string): Promise<PatientMerge> {
+    const [survivor, merged] = await Promise.all([
+      storage.getPatientById(survivorId),
+      storage.getPatientById(mergedId),
+    ]);
+    if (!survivor || !merged) {
+      throw new PatientMergeError("Patient not found", 404);
+    }
+    if (survivor.mergedIntoId || merged.mergedIntoId) {
+      throw new PatientMergeError("One of these records has already been merged", 409);
+    }
+
+    const filledFields = FILLABLE_FIELDS.filter(field => survivor[field] == null && merged[field] != null);
+    const merge = await storage.mergePatients(survivor.id, merged.id, filledFields, userId, reason);
+    if (!merge) {
+      throw new PatientMergeError("One of these records has just been merged by someone else", 409);
+    }
+
+    await storage.resolvePatientDuplicateFlags(survivor.id, merged.id, userId);
+    return merge;
+  }
+
+  async unmerge(mergeId: number, userId: string, reason: string, now: Date = new Date()): Promise<PatientMerge> {
+    const merge = await storage.getPatientMerge(mergeId);
+    if (!merge) {
+      throw new PatientMergeError("Merge not found", 404);
+    }
+    if (merge.status !== 'merged') {
+      throw new PatientMergeError("This merge has already been undone", 409);
+    }
+
+    const closesAt = this.unmergeDeadline(merge);
+    if (closesAt && now > closesAt) {
+      throw new PatientMergeError(`Merges can only be undone within ${UNMERGE_WINDOW_DAYS} days`, 409);
+    }
+
+    const survivor = await storage.getPatientById(merge.survivorId);
+    if (survivor?.mergedIntoId) {
+      throw new PatientMergeError("The surviving record has since been merged into another; undo that merge first", 409);
+    }
+
+    const reverted = await storage.unmergePatients(merge, userId, reason);
+    if (!reverted) {
+      throw new PatientMergeError("This merge has just been changed by someone else", 409);
+    }
+    return reverted;
+  }
+
+  unmergeDeadline(merge: PatientMerge): Date | null {
+    return merge.mergedAt ? new Date(merge.mergedAt.getTime() + UNMERGE_WINDOW_DAYS * 24 * 60 * 60 * 1000) : null;
+  }
+}
+
+export const patientMergeService = new PatientMergeService();
@@ -0,0 +1,257 @@
+import { storage, type DispenseAllocation, type PharmacyCharge } from "../storage";
+import { formatDate } from "./availability";
+import type {
+  PharmacyItem,
+  PharmacyBatch,
+  PharmacyGoodsReceipt,
+  PharmacyStockMovement,
+  InsertPharmacyItem,
+  UpdatePharmacyItem,
+  GoodsReceipt,
+  StockAdjustment,
+  PrescriptionDispense,
+} from "@shared/schema";
+
+// Batches expiring within this many days are flagged for use first or return
+const NEAR_EXPIRY_DAYS = parseInt(process.env.PHARMACY_NEAR_EXPIRY_DAYS || "90");
+
+// Most ledger entries returned at once
+const MOVEMENT_LIMIT = 200;
+
+export type StockStatus = "available" | "low-stock" | "out-of-stock";
+
+// A catalog item with its stock. Expired batches are counted apart since they
+// can no longer be dispensed.
+export interface StockLevel extends PharmacyItem {
+  onHand: number;
+  expiredOnHand: number;
+  nearestExpiry: string | null;
+  status: StockStatus;
+}
+
+export interface BatchAlert {
+  batch: PharmacyBatch;
+  item: Pick<PharmacyItem, "id" | "code" | "name" | "unit">;
+  daysToExpiry: number;
+}
+
+export interface StockAlerts {
+  nearExpiryDays: number;
+  lowStock: StockLevel[];
+  nearExpiry: BatchAlert[];
+  expired: BatchAlert[];
+}
+
+// Where the units for a dispensing come from, and what they are charged at
+export interface DispensePlan {
+  allocations: DispenseAllocation[];
+  charges: PharmacyCharge[];
+}
+
+export class PharmacyInventoryError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PharmacyInventoryError';
+  }
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+function itemLabel(item: PharmacyItem): string {
+  return [item.name, item.strength, item.form].filter(Boolean).join(" ");
+}
+
+// The pharmacy's drug catalog and its stock, batch by batch. Stock only changes
+// through goods receipts, dispensing and adjustments with a reason, each written
+// to the stock ledger. Dispensing takes the batch that expires first (FEFO) and
+// never touches expired stock.
+export class PharmacyInventoryService {
+  async listStock(includeInactive: boolean, now: Date = new Date()): Promise<StockLevel[]> {
+    const items = await storage.getPharmacyItems(includeInactive);
+    const batches = await storage.getPharmacyBatches(items.map(item => item.id));
+    return items.map(item => this.stockLevel(item, batches.filter(batch => batch.itemId === item.id), formatDate(now)));
+  }
+
+  async getItem(id: number): Promise<PharmacyItem> {
+    const item = await storage.getPharmacyItemById(id);
+    if (!item) {
+      throw new PharmacyInventoryError("Pharmacy item not found", 404);
+    }
+    return item;
+  }
+
+  async getBatches(itemId: number): Promise<PharmacyBatch[]> {
+    const item = await this.getItem(itemId);
+    return storage.getPharmacyBatches([item.id]);
+  }
+
+  async createItem(item: InsertPharmacyItem): Promise<PharmacyItem> {
+    try {
+      return await storage.createPharmacyItem(item);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new PharmacyInventoryError(`Item code ${item.code} is already in use`, 409);
+      }
+      throw error;
+    }
+  }
+
+  async updateItem(id: number, changes: UpdatePharmacyItem): Promise<PharmacyItem> {
+    if (Object.keys(changes).length === 0) {
+      throw new PharmacyInventoryError("Nothing to update");
+    }
+    const item = await this.getItem(id);
+    try {
+      return (await storage.updatePharmacyItem(item.id, changes))!;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new PharmacyInventoryError(`Item code ${changes.code} is already in use`, 409);
+      }
+      throw error;
+    }
+  }
+
+  async movements(filter: { itemId?: number; batchId?: number }): Promise<PharmacyStockMovement[]> {
+    return storage.getPharmacyStockMovements({ ...filter, limit: MOVEMENT_LIMIT });
+  }
+
+  // Takes stock in. Lines for the same batch are added together, and a batch
+  // already held must arrive with the expiry it was recorded with.
+  async receive(receipt: GoodsReceipt, userId: string, now: Date = new Date()): Promise<PharmacyGoodsReceipt> {
+    const { lines, ...details } = receipt;
+    const merged = new Map<string, GoodsReceipt["lines"][number]>();
+    for (const line of lines) {
+      const key = `${line.itemId}:${line.batchNumber.toUpperCase()}`;
+      const existing = merged.get(key);
+      if (existing && existing.expiryDate !== line.expiryDate) {
+        throw new PharmacyInventoryError(`Batch ${line.batchNumber} is listed with two different expiry dates`);
+      }
+      merged.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line, batchNumber: line.batchNumber.toUpperCase() });
+    }
+
+    const itemIds = Array.from(new Set(lines.map(line => line.itemId)));
+    const items = await Promise.all(itemIds.map(id => storage.getPharmacyItemById(id)));
+    const missing = itemIds.filter((id, index) => !items[index]);
+    if (missing.length > 0) {
+      throw new PharmacyInventoryError(`Unknown pharmacy item: ${missing.join(", ")}`, 404);
+    }
+
+    const held = await storage.getPharmacyBatches(itemIds);
+    const today = formatDate(now);
+    for (const line of Array.from(merged.values())) {
+      if (line.expiryDate <= today) {
+        throw new PharmacyInventoryError(`Batch ${line.batchNumber} has already expired`);
+      }
+      const batch = held.find(entry => entry.itemId === line.itemId && entry.batchNumber === line.batchNumber);
+      if (batch && batch.expiryDate !== line.expiryDate) {
+        throw new PharmacyInventoryError(`Batch ${line.batchNumber} is recorded as expiring on ${batch.expiryDate}`, 409);
+      }
+    }
+
+    return storage.receivePharmacyGoods({ ...details, receivedBy: userId }, Array.from(merged.values()));
+  }
+
+  async adjust(batchId: number, adjustment: StockAdjustment, userId: string): Promise<PharmacyBatch> {
+    const batch = await storage.getPharmacyBatchById(batchId);
+    if (!batch) {
+      throw new PharmacyInventoryError("Batch not found", 404);
+    }
+    if (batch.quantityOnHand + adjustment.quantity < 0) {
+      throw new PharmacyInventoryError(`Only ${batch.quantityOnHand} left in batch ${batch.batchNumber}`, 409);
+    }
+
+    try {
+      return (await storage.adjustPharmacyStock(batch.id, adjustment.quantity, adjustment.reason, adjustment.notes ?? null, userId))!;
+    } catch (error: any) {
+      // pharmacy_batches_quantity_non_negative: stock went out in the meantime
+      if (error?.code === '23514') {
+        throw new PharmacyInventoryError(`Not enough left in batch ${batch.batchNumber}; check the stock and try again`, 409);
+      }
+      throw error;
+    }
+  }
+
+  // Low stock counts only what can still be dispensed
+  async alerts(now: Date = new Date()): Promise<StockAlerts> {
+    const today = formatDate(now);
+    const items = await storage.getPharmacyItems();
+    const batches = await storage.getPharmacyBatches(items.map(item => item.id));
+    const itemsById = new Map(items.map(item => [item.id, item]));
+
+    const batchAlert = (batch: PharmacyBatch): BatchAlert => {
+      const item = itemsById.get(batch.itemId)!;
+      return { batch, item: { id: item.id, code: item.code, name: item.name, unit: item.unit }, daysToExpiry: daysBetween(today, batch.expiryDate) };
+    };
+    const inStock = batches.filter(batch => batch.quantityOnHand > 0);
+
+    return {
+      nearExpiryDays: NEAR_EXPIRY_DAYS,
+      lowStock: items
+        .map(item => this.stockLevel(item, batches.filter(batch => batch.itemId === item.id), today))
+        .filter(level => level.status !== "available"),
+      nearExpiry: inStock
+        .filter(batch => batch.expiryDate >= today && daysBetween(today, batch.expiryDate) <= NEAR_EXPIRY_DAYS)
+        .map(batchAlert),
+      expired: inStock.filter(batch => batch.expiryDate < today).map(batchAlert),
+    };
+  }
+
+  // Picks batches for each line, earliest expiry first, skipping expired ones.
+  // Lines drawing on the same item share its stock.
+  async planDispense(lines: PrescriptionDispense["lines"], now: Date = new Date()): Promise<DispensePlan> {
+    const today = formatDate(now);
+    const itemIds = Array.from(new Set(lines.map(line => line.itemId)));
+    const items = await Promise.all(itemIds.map(id => storage.getPharmacyItemById(id)));
+    const itemsById = new Map(items.filter((item): item is PharmacyItem => !!item).map(item => [item.id, item]));
+    const available = new Map((await storage.getPharmacyBatches(itemIds))
+      .filter(batch => batch.expiryDate >= today && batch.quantityOnHand > 0)
+      .map(batch => [batch.id, { batch, left: batch.quantityOnHand }]));
+
+    const plan: DispensePlan = { allocations: [], charges: [] };
+    for (const line of lines) {
+      const item = itemsById.get(line.itemId);
+      if (!item) {
+        throw new PharmacyInventoryError(`Unknown pharmacy item: ${line.itemId}`, 404);
+      }
+      if (!item.isActive) {
+        throw new PharmacyInventoryError(`${item.name} is no longer stocked`, 409);
+      }
+
+      let needed = line.quantity;
+      for (const stock of Array.from(available.values())) {
+        if (needed === 0) break;
+        if (stock.batch.itemId !== item.id || stock.left === 0) continue;
+        const quantity = Math.min(needed, stock.left);
+        stock.left -= quantity;
+        needed -= quantity;
+        plan.allocations.push({ medicationId: line.medicationId, itemId: item.id, batchId: stock.batch.id, quantity });
+        plan.charges.push({
+          description: `${itemLabel(item)} (batch ${stock.batch.batchNumber}, exp ${stock.batch.expiryDate})`,
+          quantity,
+          unitPrice: item.unitPrice,
+          serviceCode: item.code,
+        });
+      }
+      if (needed > 0) {
+        throw new PharmacyInventoryError(`Only ${line.quantity - needed} ${item.unit}(s) of ${item.name} in date and in stock`, 409);
+      }
+    }
+    return plan;
+  }
+
+  private stockLevel(item: PharmacyItem, batches: PharmacyBatch[], today: string): StockLevel {
+    const usable = batches.filter(batch => batch.expiryDate >= today && batch.quantityOnHand > 0);
+    const onHand = usable.reduce((sum, batch) => sum + batch.quantityOnHand, 0);
+    const expiredOnHand = batches
+      .filter(batch => batch.expiryDate < today)
+      .reduce((sum, batch) => sum + batch.quantityOnHand, 0);
+    const status: StockStatus = onHand === 0 ? "out-of-stock" : onHand <= item.reorderLevel ? "low-stock" : "available";
+    return { ...item, onHand, expiredOnHand, nearestExpiry: usable[0]?.expiryDate ?? null, status };
+  }
+}
+
+export const pharmacyInventory = new PharmacyInventoryService();
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+
+// Signed payload printed as a prescription's QR code. Ties the printout to the
+// prescription and to what was signed, without exposing the patient.
+export interface PrescriptionQrPayload {
+  p: number;   // prescription id
+  h: string;   // start of the signature hash
+}
+
+export type PrescriptionQrVerification =
+  | { valid: true; payload: PrescriptionQrPayload }
+  | { valid: false; reason: "malformed" | "signature" };
+
+const CODE_PREFIX = "RX1";
+// Enough of the signature hash to tell one signed version from another
+const HASH_PREFIX_LENGTH = 16;
+
+// Signs and verifies prescription QR codes with HMAC-SHA256. Unlike queue slips
+// they do not expire; whether the prescription can still be dispensed is
+// decided by its status.
+export class PrescriptionQrCodes {
+  private secret: string;
+
+  constructor() {
+    this.secret = process.env.PRESCRIPTION_QR_SECRET || '';
+    if (!this.secret) {
+      // Prescriptions printed before a restart will no longer verify
+      console.warn("PRESCRIPTION_QR_SECRET is not set; using a per-process key for prescription QR codes");
+      this.secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  sign(prescriptionId: number, signatureHash: string): string {
+    const payload: PrescriptionQrPayload = { p: prescriptionId, h: signatureHash.slice(0, HASH_PREFIX_LENGTH) };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${CODE_PREFIX}.${body}.${this.signature(body)}`;
+  }
+
+  verify(code: string): PrescriptionQrVerification {
+    const [prefix, body, signature] = (code || '').trim().split('.');
+    if (prefix !== CODE_PREFIX || !body || !signature) {
+      return { valid: false, reason: "malformed" };
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { valid: false, reason: "signature" };
+    }
+
+    let payload: PrescriptionQrPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      return { valid: false, reason: "malformed" };
+    }
+
+    if (!Number.isInteger(payload.p) || typeof payload.h !== 'string' || !payload.h) {
+      return { valid: false, reason: "malformed" };
+    }
+
+    return { valid: true, payload };
+  }
+
+  // Whether the code was printed for this signed version of the prescription
+  matches(payload: PrescriptionQrPayload, signatureHash: string | null): boolean {
+    return !!signatureHash && signatureHash.startsWith(payload.h);
+  }
+
+  private signature(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+}
+
+export const prescriptionQrCodes = new PrescriptionQrCodes();
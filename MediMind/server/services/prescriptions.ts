@@ -0,0 +1,455 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { interactionChecker, type InteractionAlert, type InteractionScreening } from "./interactions";
+import { prescriptionQrCodes } from "./prescriptionQr";
+import { pharmacyInventory } from "./pharmacyInventory";
+import type { PrescriptionDocument } from "./printing";
+import type {
+  Doctor,
+  Medication,
+  Patient,
+  PharmacyItem,
+  Prescription,
+  PrescriptionDispense,
+  PrescriptionDraft,
+  UpdatePrescriptionDraft,
+} from "@shared/schema";
+
+// Pharmacy steps after signing: the statuses each may be applied from and the
+// status it leads to. Dispensing also takes stock, so it has its own method.
+export const PRESCRIPTION_ACTIONS: Record<string, { from: string[]; to: string }> = {
+  "prepare": { from: ["signed"], to: "prepared" },
+};
+
+const DISPENSABLE_STATUSES = ["signed", "prepared"];
+
+// What the pharmacy still has to work on
+const PHARMACY_QUEUE_STATUSES = ["signed", "prepared"];
+
+// Who may cancel a prescription, and from which statuses
+const CANCELLABLE_STATUSES: Record<"prescriber" | "pharmacy", string[]> = {
+  prescriber: ["draft", "signed", "prepared"],
+  pharmacy: ["signed", "prepared"],
+};
+
+// A prescription with its items and who it is for and from, as shown to
+// prescribers and the pharmacy
+export interface PrescriptionDetails extends Prescription {
+  number: string;
+  items: Medication[];
+  patient: { id: number; name: string; mrn: string } | null;
+  doctor: { id: number; name: string; registrationNumber: string | null; specialization: string | null } | null;
+}
+
+// A saved draft, with the alerts signing it would raise as things stand
+export interface PrescriptionDraftResult {
+  prescription: PrescriptionDetails;
+  alerts: InteractionAlert[];
+}
+
+export interface SignedPrescription {
+  prescription: PrescriptionDetails;
+  screening: InteractionScreening;
+}
+
+// A dispensing line that is not what was prescribed: another drug, or more of
+// it than the prescription allows
+export interface DispenseMismatch {
+  medicationId: number;
+  itemId: number;
+  prescribed: string;
+  dispensed: string;
+  problem: "different-drug" | "over-quantity";
+}
+
+export interface DispensedPrescription {
+  prescription: PrescriptionDetails;
+  billId: number | null;
+  overridden: DispenseMismatch[];
+  overrideReason?: string;
+}
+
+export class PrescriptionError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PrescriptionError';
+  }
+}
+
+export class DispenseMismatchError extends Error {
+  isOperational = true;
+  statusCode = 409;
+  code = 'DISPENSE_OVERRIDE_REQUIRED';
+
+  constructor(public mismatches: DispenseMismatch[]) {
+    super("What is being dispensed does not match the prescription; give a reason to go ahead");
+    this.name = 'DispenseMismatchError';
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      mismatches: this.mismatches,
+    };
+  }
+}
+
+// Printed prescription number, e.g. RX-2026-000042
+export function prescriptionNumber(prescription: Pick<Prescription, "id" | "createdAt">): string {
+  const year = (prescription.createdAt ?? new Date()).getFullYear();
+  return `RX-${year}-${String(prescription.id).padStart(6, "0")}`;
+}
+
+// Lower-case words padded with spaces, so names can be matched as whole words
+function drugWords(...names: (string | null | undefined)[]): string {
+  return ` ${names.filter(Boolean).join(" ").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+// Whether a catalog item is the drug prescribed. Drugs the interaction dataset
+// knows are compared by their generics, so a brand matches its generic and a
+// combination only matches the same combination; others by name.
+function isPrescribedDrug(medication: Medication, item: PharmacyItem): boolean {
+  const prescribed = interactionChecker.resolve(medication);
+  const stocked = interactionChecker.resolve({ medicationName: item.name, genericName: item.genericName });
+  if (prescribed.length > 0 && stocked.length > 0) {
+    return prescribed.length === stocked.length && prescribed.every(generic => stocked.includes(generic));
+  }
+
+  const prescribedText = drugWords(medication.medicationName, medication.genericName, medication.brandName);
+  const stockedText = drugWords(item.name, item.genericName);
+  return [item.name, item.genericName].some(name => drugWords(name).trim() && prescribedText.includes(drugWords(name)))
+    || [medication.genericName, medication.brandName].some(name => drugWords(name).trim() && stockedText.includes(drugWords(name)));
+}
+
+function patientName(patient: Patient): string {
+  return [patient.firstName, patient.lastName].filter(Boolean).join(" ") || patient.patientId;
+}
+
+function ageInYears(dateOfBirth: Date, now: Date): number {
+  const age = now.getFullYear() - dateOfBirth.getFullYear();
+  const beforeBirthday = now.getMonth() < dateOfBirth.getMonth()
+    || (now.getMonth() === dateOfBirth.getMonth() && now.getDate() < dateOfBirth.getDate());
+  return beforeBirthday ? age - 1 : age;
+}
+
+// Structured prescriptions from writing to dispensing. The prescribing doctor
+// drafts and signs; signing screens the items for interactions, locks them and
+// turns them into active medications. The pharmacy then prepares and dispenses
+// from its queue, checking printouts against the signed QR code.
+export class PrescriptionService {
+  async getPrescription(id: number): Promise<Prescription> {
+    const prescription = await storage.getPrescriptionById(id);
+    if (!prescription) {
+      throw new PrescriptionError("Prescription not found", 404);
+    }
+    return prescription;
+  }
+
+  async getDetails(id: number): Promise<PrescriptionDetails> {
+    const [details] = await this.withDetails([await this.getPrescription(id)]);
+    return details;
+  }
+
+  // Newest first. Drafts are left out for readers who should only see what was signed.
+  async listForPatient(patientId: number, includeDrafts: boolean): Promise<PrescriptionDetails[]> {
+    const prescriptions = await storage.getPrescriptionsByPatient(patientId);
+    return this.withDetails(prescriptions.filter(prescription => includeDrafts || prescription.status !== "draft"));
+  }
+
+  async pharmacyQueue(): Promise<PrescriptionDetails[]> {
+    return this.withDetails(await storage.getPrescriptionsByStatus(PHARMACY_QUEUE_STATUSES));
+  }
+
+  async createDraft(draft: PrescriptionDraft, doctor: Doctor): Promise<PrescriptionDraftResult> {
+    const patient = await storage.getPatientById(draft.patientId);
+    if (!patient) {
+      throw new PrescriptionError("Patient not found", 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new PrescriptionError("This record has been merged into another; prescribe there", 409);
+    }
+
+    const { items, ...fields } = draft;
+    const prescription = await storage.createPrescription({ ...fields, doctorId: doctor.id, status: "draft" }, items);
+    return this.draftResult(prescription);
+  }
+
+  async updateDraft(id: number, changes: UpdatePrescriptionDraft, doctor: Doctor): Promise<PrescriptionDraftResult> {
+    const prescription = await this.getOwnDraft(id, doctor, "edit");
+    const { items, ...fields } = changes;
+    if (Object.keys(fields).length === 0 && !items) {
+      throw new PrescriptionError("Nothing to update");
+    }
+    const updated = await storage.updatePrescriptionDraft(prescription.id, fields, items);
+    if (!updated) {
+      throw new PrescriptionError("Signed prescriptions are locked; cancel and write a new one instead", 409);
+    }
+    return this.draftResult(updated);
+  }
+
+  // Serious interaction alerts stop the signature unless a reason to go ahead is given
+  async sign(id: number, doctor: Doctor, overrideReason?: string): Promise<SignedPrescription> {
+    const prescription = await this.getOwnDraft(id, doctor, "sign");
+    if (!doctor.licenseNumber?.trim()) {
+      throw new PrescriptionError("Add your medical registration number to your profile before signing prescriptions");
+    }
+    const patient = await storage.getPatientById(prescription.patientId);
+    if (patient?.mergedIntoId) {
+      throw new PrescriptionError("This record has been merged into another; prescribe there", 409);
+    }
+    const items = await storage.getPrescriptionItems([prescription.id]);
+    if (items.length === 0) {
+      throw new PrescriptionError("Add at least one medication before signing");
+    }
+
+    const screening = await interactionChecker.screen(prescription.patientId, items, overrideReason);
+    const itemAlerts = Object.fromEntries(items.map(item => [item.id, interactionChecker.recordedAlerts({
+      ...screening,
+      alerts: interactionChecker.alertsFor(screening.alerts, item.medicationName),
+    })]));
+
+    const signed = await storage.signPrescription(
+      prescription.id,
+      this.signatureHash(prescription, items, doctor),
+      items.map(item => item.id),
+      itemAlerts,
+    );
+    if (!signed) {
+      throw new PrescriptionError("This prescription was changed while it was being signed; review it and sign again", 409);
+    }
+    const [details] = await this.withDetails([signed]);
+    return { prescription: details, screening };
+  }
+
+  async changeStatus(id: number, action: string, userId: string, now: Date = new Date()): Promise<PrescriptionDetails> {
+    const transition = PRESCRIPTION_ACTIONS[action];
+    if (!transition) {
+      throw new PrescriptionError(`Unknown prescription action: ${action}`);
+    }
+    const prescription = await this.getPrescription(id);
+    if (!transition.from.includes(prescription.status ?? "")) {
+      throw new PrescriptionError(`Cannot ${action} a prescription that is ${prescription.status}`, 409);
+    }
+
+    const updated = await storage.updatePrescriptionStatus(
+      prescription.id,
+      { status: transition.to, preparedBy: userId, preparedAt: now },
+      transition.from,
+    );
+    if (!updated) {
+      throw new PrescriptionError("This prescription has just been changed by someone else", 409);
+    }
+    const [details] = await this.withDetails([updated]);
+    return details;
+  }
+
+  // Hands over the prescription. Each line takes a prescription item from a
+  // catalog item, batch by batch in expiry order, and is charged on one pharmacy
+  // bill; items the patient gets elsewhere are simply left out. A line that is
+  // not the prescribed drug, or exceeds the prescribed quantity, needs a reason.
+  async dispense(id: number, lines: PrescriptionDispense["lines"], userId: string, overrideReason?: string): Promise<DispensedPrescription> {
+    const prescription = await this.getPrescription(id);
+    if (!DISPENSABLE_STATUSES.includes(prescription.status ?? "")) {
+      throw new PrescriptionError(`Cannot dispense a prescription that is ${prescription.status}`, 409);
+    }
+    const prescribed = new Map((await storage.getPrescriptionItems([prescription.id])).map(item => [item.id, item]));
+    const seen = new Set<number>();
+    for (const line of lines) {
+      if (!prescribed.has(line.medicationId)) {
+        throw new PrescriptionError(`Medication ${line.medicationId} is not on this prescription`);
+      }
+      if (seen.has(line.medicationId)) {
+        throw new PrescriptionError("Dispense each prescription item on one line");
+      }
+      seen.add(line.medicationId);
+    }
+
+    const plan = await pharmacyInventory.planDispense(lines);
+    const mismatches: DispenseMismatch[] = [];
+    for (const line of lines) {
+      const medication = prescribed.get(line.medicationId)!;
+      const item = await pharmacyInventory.getItem(line.itemId);
+      const base = { medicationId: medication.id, itemId: item.id, prescribed: medication.medicationName, dispensed: item.name };
+      if (!isPrescribedDrug(medication, item)) {
+        mismatches.push({ ...base, problem: "different-drug" });
+      }
+      if (medication.quantity !== null && line.quantity > medication.quantity) {
+        mismatches.push({ ...base, problem: "over-quantity" });
+      }
+    }
+    const reason = overrideReason?.trim();
+    if (mismatches.length > 0 && !reason) {
+      throw new DispenseMismatchError(mismatches);
+    }
+
+    const bill = plan.charges.length > 0
+      ? { billNumber: prescriptionNumber(prescription).replace(/^RX-/, "PH-"), patientId: prescription.patientId, charges: plan.charges }
+      : null;
+    let dispensed;
+    try {
+      dispensed = await storage.dispensePrescription(prescription.id, DISPENSABLE_STATUSES, userId, plan.allocations, bill);
+    } catch (error: any) {
+      // pharmacy_batches_quantity_non_negative: another dispensing took the stock first
+      if (error?.code === '23514') {
+        throw new PrescriptionError("Stock changed while dispensing; check the stock and try again", 409);
+      }
+      throw error;
+    }
+    if (!dispensed) {
+      throw new PrescriptionError("This prescription has just been changed by someone else", 409);
+    }
+    return {
+      prescription: await this.getDetails(prescription.id),
+      billId: dispensed.billId,
+      overridden: mismatches,
+      overrideReason: mismatches.length > 0 ? reason : undefined,
+    };
+  }
+
+  // The prescribing doctor may withdraw a prescription until it is dispensed; the
+  // pharmacy may turn down one it has been sent
+  async cancel(id: number, reason: string, userId: string, canceller: { doctorId?: number; pharmacy: boolean }): Promise<PrescriptionDetails> {
+    const prescription = await this.getPrescription(id);
+    const statuses = canceller.doctorId === prescription.doctorId
+      ? CANCELLABLE_STATUSES.prescriber
+      : canceller.pharmacy ? CANCELLABLE_STATUSES.pharmacy : null;
+    if (!statuses) {
+      throw new PrescriptionError("Only the prescribing doctor or the pharmacy can cancel this prescription", 403);
+    }
+    if (!statuses.includes(prescription.status ?? "")) {
+      throw new PrescriptionError(`Cannot cancel a prescription that is ${prescription.status}`, 409);
+    }
+
+    const cancelled = await storage.cancelPrescription(prescription.id, userId, reason, statuses);
+    if (!cancelled) {
+      throw new PrescriptionError("This prescription has just been changed by someone else", 409);
+    }
+    const [details] = await this.withDetails([cancelled]);
+    return details;
+  }
+
+  // The prescription a scanned printout stands for
+  async verifyCode(code: string): Promise<PrescriptionDetails> {
+    const verification = prescriptionQrCodes.verify(code);
+    if (!verification.valid) {
+      throw new PrescriptionError("This is not a valid prescription code");
+    }
+    const prescription = await this.getPrescription(verification.payload.p);
+    if (!prescriptionQrCodes.matches(verification.payload, prescription.signatureHash)) {
+      throw new PrescriptionError("This printout does not match the signed prescription", 409);
+    }
+    const [details] = await this.withDetails([prescription]);
+    return details;
+  }
+
+  async printable(id: number, now: Date = new Date()): Promise<PrescriptionDocument> {
+    const details = await this.getDetails(id);
+    if (!details.signedAt || !details.signatureHash) {
+      throw new PrescriptionError("Sign the prescription before printing it", 409);
+    }
+    if (details.status === "cancelled") {
+      throw new PrescriptionError("Cancelled prescriptions cannot be printed", 409);
+    }
+
+    const [patient, doctor] = await Promise.all([
+      storage.getPatientById(details.patientId),
+      storage.getDoctorById(details.doctorId),
+    ]);
+    const department = doctor?.departmentId ? await storage.getDepartmentById(doctor.departmentId) : undefined;
+    const ageAndSex = [
+      patient?.dateOfBirth ? `${ageInYears(patient.dateOfBirth, now)} y` : null,
+      patient?.gender,
+    ].filter(Boolean).join(" / ");
+
+    return {
+      prescriptionNumber: details.number,
+      doctorName: details.doctor?.name ?? "",
+      specialization: details.doctor?.specialization ?? null,
+      registrationNumber: details.doctor?.registrationNumber ?? "",
+      departmentName: department?.name ?? null,
+      patientName: details.patient?.name ?? "",
+      patientMrn: details.patient?.mrn ?? "",
+      patientAgeAndSex: ageAndSex || null,
+      diagnosis: details.diagnosis,
+      advice: details.advice,
+      items: details.items,
+      qrCode: prescriptionQrCodes.sign(details.id, details.signatureHash),
+      signedAt: details.signedAt,
+      signatureHash: details.signatureHash,
+    };
+  }
+
+  private async getOwnDraft(id: number, doctor: Doctor, action: "edit" | "sign"): Promise<Prescription> {
+    const prescription = await this.getPrescription(id);
+    if (prescription.status !== "draft") {
+      throw new PrescriptionError("Signed prescriptions are locked; cancel and write a new one instead", 409);
+    }
+    if (prescription.doctorId !== doctor.id) {
+      throw new PrescriptionError(`Only the prescribing doctor can ${action} this prescription`, 403);
+    }
+    return prescription;
+  }
+
+  private async draftResult(prescription: Prescription): Promise<PrescriptionDraftResult> {
+    const [details] = await this.withDetails([prescription]);
+    const alerts = await interactionChecker.check(prescription.patientId, details.items);
+    return { prescription: details, alerts };
+  }
+
+  // Fingerprint of exactly what the doctor signed, printed on the prescription
+  private signatureHash(prescription: Prescription, items: Medication[], doctor: Doctor): string {
+    const signed = {
+      id: prescription.id,
+      patientId: prescription.patientId,
+      doctorId: doctor.id,
+      registrationNumber: doctor.licenseNumber,
+      diagnosis: prescription.diagnosis,
+      advice: prescription.advice,
+      items: items.map(item => [
+        item.medicationName, item.genericName, item.brandName, item.dosage, item.frequency, item.route,
+        item.duration, item.quantity, item.refills, item.instructions, item.indication,
+      ]),
+    };
+    return crypto.createHash("sha256").update(JSON.stringify(signed)).digest("hex");
+  }
+
+  private async withDetails(prescriptions: Prescription[]): Promise<PrescriptionDetails[]> {
+    const items = await storage.getPrescriptionItems(prescriptions.map(prescription => prescription.id));
+    const patientIds = Array.from(new Set(prescriptions.map(prescription => prescription.patientId)));
+    const doctorIds = Array.from(new Set(prescriptions.map(prescription => prescription.doctorId)));
+
+    const [patients, doctors] = await Promise.all([
+      Promise.all(patientIds.map(id => storage.getPatientById(id))),
+      Promise.all(doctorIds.map(async id => {
+        const doctor = await storage.getDoctorById(id);
+        const user = doctor?.userId ? await storage.getUser(doctor.userId) : undefined;
+        if (!doctor) return undefined;
+        const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+        return {
+          id: doctor.id,
+          name: name ? `Dr. ${name}` : "Doctor",
+          registrationNumber: doctor.licenseNumber,
+          specialization: doctor.specialization,
+        };
+      })),
+    ]);
+    const patientsById = new Map(patients.filter((patient): patient is Patient => !!patient).map(patient => [patient.id, patient]));
+    const doctorsById = new Map(doctors.filter(doctor => !!doctor).map(doctor => [doctor!.id, doctor!]));
+
+    return prescriptions.map(prescription => {
+      const patient = patientsById.get(prescription.patientId);
+      return {
+        ...prescription,
+        number: prescriptionNumber(prescription),
+        items: items.filter(item => item.prescriptionId === prescription.id),
+        patient: patient ? { id: patient.id, name: patientName(patient), mrn: patient.patientId } : null,
+        doctor: doctorsById.get(prescription.doctorId) ?? null,
+      };
+    });
+  }
+}
+
+export const prescriptionService = new PrescriptionService();
@@ -0,0 +1,420 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+
+export interface TokenSlip {
+  hospitalName?: string;
+  departmentName: string;
+  tokenNumber: string;
+  qrCode: string | null;
+  estimatedWaitTime: number | null;
+  priority?: number | null;
+  issuedAt: Date;
+}
+
+export interface ReceiptLine {
+  description: string;
+  quantity?: number;
+  amount: number; // in cents
+}
+
+export interface PaymentReceipt {
+  hospitalName?: string;
+  receiptNumber: string;
+  patientLabel: string;
+  lines: ReceiptLine[];
+  total: number; // in cents
+  currency: string;
+  paymentMethod: string;
+  status: string;
+  paidAt: Date;
+}
+
+export interface PrescriptionLine {
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  route: string;
+  duration?: string | null;
+  quantity?: number | null;
+  refills?: number | null;
+  instructions?: string | null;
+}
+
+export interface PrescriptionDocument {
+  hospitalName?: string;
+  prescriptionNumber: string;
+  doctorName: string;
+  specialization?: string | null;
+  registrationNumber: string;
+  departmentName?: string | null;
+  patientName: string;
+  patientMrn: string;
+  patientAgeAndSex?: string | null;
+  diagnosis?: string | null;
+  advice?: string | null;
+  items: PrescriptionLine[];
+  qrCode: string;
+  signedAt: Date;
+  signatureHash: string;
+}
+
+// Characters per line for Font A on 80mm paper
+const PAPER_COLUMNS = 48;
+// 80mm roll with the printer's unprintable margins taken off
+const PDF_PAGE_WIDTH = 226;
+const PDF_MARGIN = 12;
+// Prescriptions print on A5 sheets
+const A5_MARGIN = 36;
+const PRESCRIPTION_QR_SIZE = 84;
+
+const DEFAULT_HOSPITAL_NAME = process.env.HOSPITAL_NAME || "Government Hospital";
+
+const PRIORITY_LABELS: Record<number, string> = { 2: "URGENT", 3: "EMERGENCY" };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+function formatAmount(cents: number, currency: string): string {
+  return `${currency} ${(cents / 100).toFixed(2)}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function qrPng(data: string): Promise<Buffer> {
+  return QRCode.toBuffer(data, { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+}
+
+function collectPdf(doc: PDFKit.PDFDocument, draw: () => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    draw();
+    doc.end();
+  });
+}
+
+// Builds a raw ESC/POS command stream for 80mm receipt printers
+class EscPosBuilder {
+  private chunks: Buffer[] = [];
+
+  constructor() {
+    this.raw(ESC, 0x40); // initialize
+  }
+
+  align(position: "left" | "center" | "right"): this {
+    return this.raw(ESC, 0x61, { left: 0, center: 1, right: 2 }[position]);
+  }
+
+  bold(on: boolean): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // Character magnification, 1-8 in each direction
+  size(width: number, height: number = width): this {
+    return this.raw(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  text(value: string): this {
+    // The default code page is ASCII; anything else would print as garbage
+    this.chunks.push(Buffer.from(value.replace(/[^\x20-\x7e]/g, '?'), 'ascii'));
+    return this;
+  }
+
+  line(value: string = ""): this {
+    return this.text(value).raw(0x0a);
+  }
+
+  columns(left: string, right: string): this {
+    const space = Math.max(1, PAPER_COLUMNS - left.length - right.length);
+    if (left.length + right.length + 1 > PAPER_COLUMNS) {
+      return this.line(left).align("right").line(right).align("left");
+    }
+    return this.line(left + " ".repeat(space) + right);
+  }
+
+  rule(): this {
+    return this.line("-".repeat(PAPER_COLUMNS));
+  }
+
+  feed(lines: number): this {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  // Native QR printing (GS ( k), model 2, error correction M
+  qr(data: string, moduleSize: number = 6): this {
+    const payload = Buffer.from(data, 'ascii');
+    const storeLength = payload.length + 3;
+    this.raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+    this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize);
+    this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);
+    this.raw(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30);
+    this.chunks.push(payload);
+    return this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+  }
+
+  cut(): this {
+    return this.raw(GS, 0x56, 0x42, 0x00); // feed to the cutter, then partial cut
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  private raw(...bytes: number[]): this {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+}
+
+// Renders token slips and payment receipts for thermal printers, with a PDF
+// fallback for desks that only have an ordinary printer
+export class SlipPrinter {
+  tokenSlipEscPos(slip: TokenSlip): Buffer {
+    const printer = new EscPosBuilder()
+      .align("center")
+      .bold(true).line(slip.hospitalName || DEFAULT_HOSPITAL_NAME).bold(false)
+      .line(slip.departmentName)
+      .rule()
+      .line("TOKEN NUMBER")
+      .size(3).bold(true).line(slip.tokenNumber).bold(false).size(1);
+
+    const priorityLabel = PRIORITY_LABELS[slip.priority ?? 1];
+    if (priorityLabel) {
+      printer.bold(true).line(priorityLabel).bold(false);
+    }
+
+    printer.feed(1);
+    if (slip.qrCode) {
+      printer.qr(slip.qrCode).feed(1);
+    }
+
+    printer
+      .align("left")
+      .columns("Estimated wait:", slip.estimatedWaitTime !== null ? `${slip.estimatedWaitTime} min` : "-")
+      .columns("Issued:", formatDateTime(slip.issuedAt))
+      .rule()
+      .align("center")
+      .line("Please wait for your number to be called.")
+      .line("Scan the code to check your place in the queue.")
+      .feed(2)
+      .cut();
+
+    return printer.build();
+  }
+
+  async tokenSlipPdf(slip: TokenSlip): Promise<Buffer> {
+    const qrImage = slip.qrCode ? await qrPng(slip.qrCode) : null;
+
+    return this.renderPdf(340, (doc, width) => {
+      doc.font('Helvetica-Bold').fontSize(12).text(slip.hospitalName || DEFAULT_HOSPITAL_NAME, { align: 'center', width });
+      doc.font('Helvetica').fontSize(10).text(slip.departmentName, { align: 'center', width });
+      this.pdfRule(doc, width);
+      doc.fontSize(9).text("TOKEN NUMBER", { align: 'center', width });
+      doc.font('Helvetica-Bold').fontSize(36).text(slip.tokenNumber, { align: 'center', width });
+
+      const priorityLabel = PRIORITY_LABELS[slip.priority ?? 1];
+      if (priorityLabel) {
+        doc.fontSize(11).text(priorityLabel, { align: 'center', width });
+      }
+
+      if (qrImage) {
+        const size = 120;
+        doc.moveDown(0.5);
+        doc.image(qrImage, PDF_MARGIN + (width - size) / 2, doc.y, { width: size });
+        doc.y += size + 6;
+      }
+
+      doc.font('Helvetica').fontSize(9);
+      this.pdfColumns(doc, width, "Estimated wait:", slip.estimatedWaitTime !== null ? `${slip.estimatedWaitTime} min` : "-");
+      this.pdfColumns(doc, width, "Issued:", formatDateTime(slip.issuedAt));
+      this.pdfRule(doc, width);
+      doc.fontSize(8).text("Please wait for your number to be called. Scan the code to check your place in the queue.", { align: 'center', width });
+    });
+  }
+
+  receiptEscPos(receipt: PaymentReceipt): Buffer {
+    const printer = new EscPosBuilder()
+      .align("center")
+      .bold(true).line(receipt.hospitalName || DEFAULT_HOSPITAL_NAME).bold(false)
+      .line("PAYMENT RECEIPT")
+      .rule()
+      .align("left")
+      .columns("Receipt:", receipt.receiptNumber)
+      .columns("Date:", formatDateTime(receipt.paidAt))
+      .columns("Patient:", receipt.patientLabel)
+      .rule();
+
+    for (const line of receipt.lines) {
+      const label = line.quantity && line.quantity > 1 ? `${line.quantity} x ${line.description}` : line.description;
+      printer.columns(label, formatAmount(line.amount, receipt.currency));
+    }
+
+    printer
+      .rule()
+      .bold(true).columns("TOTAL", formatAmount(receipt.total, receipt.currency)).bold(false)
+      .columns("Paid by:", receipt.paymentMethod)
+      .columns("Status:", receipt.status.toUpperCase())
+      .feed(1)
+      .align("center")
+      .line("Thank you. Please keep this receipt.")
+      .feed(2)
+      .cut();
+
+    return printer.build();
+  }
+
+  async receiptPdf(receipt: PaymentReceipt): Promise<Buffer> {
+    return this.renderPdf(220 + receipt.lines.length * 14, (doc, width) => {
+      doc.font('Helvetica-Bold').fontSize(12).text(receipt.hospitalName || DEFAULT_HOSPITAL_NAME, { align: 'center', width });
+      doc.font('Helvetica').fontSize(10).text("PAYMENT RECEIPT", { align: 'center', width });
+      this.pdfRule(doc, width);
+
+      doc.fontSize(9);
+      this.pdfColumns(doc, width, "Receipt:", receipt.receiptNumber);
+      this.pdfColumns(doc, width, "Date:", formatDateTime(receipt.paidAt));
+      this.pdfColumns(doc, width, "Patient:", receipt.patientLabel);
+      this.pdfRule(doc, width);
+
+      for (const line of receipt.lines) {
+        const label = line.quantity && line.quantity > 1 ? `${line.quantity} x ${line.description}` : line.description;
+        this.pdfColumns(doc, width, label, formatAmount(line.amount, receipt.currency));
+      }
+
+      this.pdfRule(doc, width);
+      doc.font('Helvetica-Bold');
+      this.pdfColumns(doc, width, "TOTAL", formatAmount(receipt.total, receipt.currency));
+      doc.font('Helvetica');
+      this.pdfColumns(doc, width, "Paid by:", receipt.paymentMethod);
+      this.pdfColumns(doc, width, "Status:", receipt.status.toUpperCase());
+      doc.moveDown();
+      doc.fontSize(8).text("Thank you. Please keep this receipt.", { align: 'center', width });
+    });
+  }
+
+  private renderPdf(height: number, draw: (doc: PDFKit.PDFDocument, width: number) => void): Promise<Buffer> {
+    const doc = new PDFDocument({ size: [PDF_PAGE_WIDTH, height], margin: PDF_MARGIN });
+    return collectPdf(doc, () => draw(doc, PDF_PAGE_WIDTH - PDF_MARGIN * 2));
+  }
+
+  private pdfColumns(doc: PDFKit.PDFDocument, width: number, left: string, right: string): void {
+    const y = doc.y;
+    doc.text(left, PDF_MARGIN, y, { width: width * 0.6 });
+    const leftBottom = doc.y;
+    doc.text(right, PDF_MARGIN, y, { width, align: 'right' });
+    doc.y = Math.max(leftBottom, doc.y);
+    doc.x = PDF_MARGIN;
+  }
+
+  private pdfRule(doc: PDFKit.PDFDocument, width: number): void {
+    doc.moveDown(0.3);
+    doc.moveTo(PDF_MARGIN, doc.y).lineTo(PDF_MARGIN + width, doc.y).dash(2, { space: 2 }).stroke().undash();
+    doc.moveDown(0.5);
+  }
+}
+
+export const slipPrinter = new SlipPrinter();
+
+// Renders signed prescriptions as A5 PDFs for the patient to take away. The QR
+// code lets a pharmacy check the printout against the signed prescription.
+export class PrescriptionPrinter {
+  async pdf(prescription: PrescriptionDocument): Promise<Buffer> {
+    const qrImage = await qrPng(prescription.qrCode);
+    const doc = new PDFDocument({ size: 'A5', margin: A5_MARGIN });
+    const width = doc.page.width - A5_MARGIN * 2;
+
+    return collectPdf(doc, () => {
+      doc.font('Helvetica-Bold').fontSize(14).text(prescription.hospitalName || DEFAULT_HOSPITAL_NAME, { align: 'center', width });
+      if (prescription.departmentName) {
+        doc.font('Helvetica').fontSize(9).text(prescription.departmentName, { align: 'center', width });
+      }
+      doc.moveDown(0.6);
+
+      doc.font('Helvetica-Bold').fontSize(11).text(prescription.doctorName, { width });
+      doc.font('Helvetica').fontSize(9);
+      if (prescription.specialization) {
+        doc.text(prescription.specialization, { width });
+      }
+      doc.text(`Reg. No. ${prescription.registrationNumber}`, { width });
+      this.rule(doc, width);
+
+      this.columns(doc, width, `Patient: ${prescription.patientName}`, `Date: ${formatDateTime(prescription.signedAt)}`);
+      this.columns(doc, width, `MRN: ${prescription.patientMrn}`, prescription.prescriptionNumber);
+      if (prescription.patientAgeAndSex) {
+        doc.text(`Age / Sex: ${prescription.patientAgeAndSex}`, { width });
+      }
+      if (prescription.diagnosis) {
+        doc.moveDown(0.4);
+        doc.font('Helvetica-Bold').text("Diagnosis: ", { continued: true }).font('Helvetica').text(prescription.diagnosis, { width });
+      }
+      this.rule(doc, width);
+
+      doc.font('Helvetica-Bold').fontSize(16).text("Rx", { width });
+      doc.moveDown(0.3);
+      prescription.items.forEach((item, index) => {
+        const details = [
+          item.dosage,
+          item.frequency,
+          item.route,
+          item.duration ? `for ${item.duration}` : null,
+          item.quantity ? `Qty ${item.quantity}` : null,
+          item.refills ? `Refills ${item.refills}` : null,
+        ].filter(Boolean).join(" | ");
+        doc.font('Helvetica-Bold').fontSize(10).text(`${index + 1}. ${item.medicationName}`, { width });
+        doc.font('Helvetica').fontSize(9).text(details, A5_MARGIN + 14, doc.y, { width: width - 14 });
+        if (item.instructions) {
+          doc.font('Helvetica-Oblique').text(item.instructions, A5_MARGIN + 14, doc.y, { width: width - 14 });
+        }
+        doc.x = A5_MARGIN;
+        doc.moveDown(0.5);
+      });
+
+      if (prescription.advice) {
+        this.rule(doc, width);
+        doc.font('Helvetica-Bold').fontSize(9).text("Advice", { width });
+        doc.font('Helvetica').text(prescription.advice, { width });
+      }
+
+      // The signature block stays together at the foot of the last page
+      const footerHeight = PRESCRIPTION_QR_SIZE + 16;
+      const footerTop = doc.page.height - A5_MARGIN - footerHeight;
+      if (doc.y > footerTop) {
+        doc.addPage();
+      }
+      doc.moveTo(A5_MARGIN, footerTop).lineTo(A5_MARGIN + width, footerTop).stroke();
+      const top = footerTop + 8;
+      doc.image(qrImage, A5_MARGIN, top, { width: PRESCRIPTION_QR_SIZE });
+
+      const textLeft = A5_MARGIN + PRESCRIPTION_QR_SIZE + 12;
+      const textWidth = width - PRESCRIPTION_QR_SIZE - 12;
+      doc.font('Helvetica-Bold').fontSize(9).text(`Digitally signed by ${prescription.doctorName}`, textLeft, top, { width: textWidth, align: 'right' });
+      doc.font('Helvetica').fontSize(8)
+        .text(`Reg. No. ${prescription.registrationNumber}`, textLeft, doc.y, { width: textWidth, align: 'right' })
+        .text(`Signed ${formatDateTime(prescription.signedAt)}`, textLeft, doc.y, { width: textWidth, align: 'right' })
+        .text(`Signature ${prescription.signatureHash.slice(0, 16)}`, textLeft, doc.y, { width: textWidth, align: 'right' });
+      doc.moveDown(0.8);
+      doc.fontSize(7).text("Scan the code to verify this prescription. Valid only with the signature above.", textLeft, doc.y, { width: textWidth, align: 'right' });
+    });
+  }
+
+  private columns(doc: PDFKit.PDFDocument, width: number, left: string, right: string): void {
+    const y = doc.y;
+    doc.text(left, A5_MARGIN, y, { width: width * 0.6 });
+    const leftBottom = doc.y;
+    doc.text(right, A5_MARGIN, y, { width, align: 'right' });
+    doc.y = Math.max(leftBottom, doc.y);
+    doc.x = A5_MARGIN;
+  }
+
+  private rule(doc: PDFKit.PDFDocument, width: number): void {
+    doc.moveDown(0.3);
+    doc.moveTo(A5_MARGIN, doc.y).lineTo(A5_MARGIN + width, doc.y).stroke();
+    doc.moveDown(0.5);
+  }
+}
+
+export const prescriptionPrinter = new PrescriptionPrinter();
@@ -1,5 +1,10 @@
 import { storage } from "../storage";
-import { type InsertQueueToken } from "@shared/schema";
+import { queueEventHub, type QueueEventType } from "./queueEvents";
+import { queueQrCodes } from "./queueQr";
+import { type TokenSlip } from "./printing";
+import { waitTimeEstimator, type DepartmentServiceStats } from "./waitTimes";
+import { queueScheduler, DEFAULT_QUEUE_POLICY, type QueuePolicySettings, type ScheduledToken } from "./queueScheduler";
+import { type Appointment, type InsertQueueCounter, type InsertQueueToken, type QueueCounter, type QueueToken, type UpdateQueueCounter } from "@shared/schema";
 
 export interface QueueStatus {
   departmentId: number;
@@ -8,6 +13,82 @@ export interface QueueStatus {
   waitingCount: number;
   averageWaitTime: number;
   estimatedWaitTime: number;
+  calledToken: string | null;
+  calledAt: Date | null;
+  calledCounter: string | null;
+  nowServing: Array<{ tokenNumber: string; counterName: string | null }>;
+  upcomingTokens: string[];
+}
+
+export type ServingToken = QueueToken & { counterName: string | null };
+
+export interface TokenLiveStatus {
+  tokenNumber: string;
+  departmentId: number;
+  departmentName: string;
+  status: string;
+  position: number | null;
+  estimatedWaitTime: number | null;
+  calledAt: Date | null;
+  counterName: string | null;
+  queueDate: string;
+}
+
+// How a patient identifies themselves at check-in. Registration cards carry the
+// patient code as their QR, so a scanned card resolves like a typed patient id.
+export interface CheckInLookup {
+  patientCode?: string;
+  phoneNumber?: string;
+  qrCode?: string;
+}
+
+export interface CheckInAppointment {
+  appointmentId: number;
+  patientId: number;
+  patientCode: string;
+  appointmentDate: Date;
+  appointmentType: string | null;
+  departmentId: number | null;
+  departmentName: string;
+  doctorId: number | null;
+  status: string;
+  tokenNumber: string | null; // set once the patient has checked in
+}
+
+// Number of waiting tokens listed on public queue boards
+const UPCOMING_TOKENS_SHOWN = 5;
+
+export type TokenAction = "start" | "complete" | "skip" | "recall" | "no-show" | "transfer";
+
+export const TOKEN_ACTIONS: TokenAction[] = ["start", "complete", "skip", "recall", "no-show", "transfer"];
+
+// Statuses each action may be applied from, and the status it leads to.
+// Entering "called" from the waiting list goes through callNextToken.
+const TOKEN_TRANSITIONS: Record<TokenAction, { from: string[]; to: string }> = {
+  "start": { from: ["called"], to: "in-progress" },
+  "complete": { from: ["called", "in-progress"], to: "completed" },
+  "skip": { from: ["called"], to: "skipped" },
+  "recall": { from: ["called", "skipped"], to: "called" },
+  "no-show": { from: ["called", "skipped"], to: "no-show" },
+  "transfer": { from: ["waiting", "called", "skipped", "in-progress"], to: "waiting" },
+};
+
+const TOKEN_EVENTS: Record<TokenAction, QueueEventType> = {
+  "start": "token.in-progress",
+  "complete": "token.completed",
+  "skip": "token.skipped",
+  "recall": "token.recalled",
+  "no-show": "token.no-show",
+  "transfer": "token.transferred",
+};
+
+export class QueueTransitionError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = 'QueueTransitionError';
+  }
 }
 
 export class QueueManager {
@@ -15,33 +96,198 @@ export class QueueManager {
     patientId: number,
     departmentId: number,
     doctorId?: number,
-    priority: number = 1
-  ): Promise<string> {
+    priority: number = 1,
+    appointmentId?: number
+  ): Promise<QueueToken> {
     // Generate token number based on department code and sequence
     const tokenPrefix = await this.getDepartmentPrefix(departmentId);
-    const sequence = await this.getNextSequence(departmentId);
+    const { queueDate } = await this.getQueueDay(departmentId);
+    const sequence = await storage.nextQueueTokenSequence(departmentId, queueDate);
     const tokenNumber = `${tokenPrefix}${sequence.toString().padStart(3, '0')}`;
 
-    // Create QR code data
-    const qrData = JSON.stringify({
-      token: tokenNumber,
-      patientId,
-      departmentId,
-      timestamp: new Date().toISOString()
-    });
-
     const tokenData: InsertQueueToken = {
       tokenNumber,
       patientId,
       departmentId,
       doctorId,
       priority,
-      qrCode: qrData,
-      estimatedWaitTime: await this.calculateWaitTime(departmentId, priority)
+      qrCode: queueQrCodes.sign(tokenNumber, departmentId, queueDate),
+      queueDate,
+      appointmentId,
+      estimatedWaitTime: await this.calculateWaitTime(departmentId, priority, doctorId, appointmentId)
+    };
+
+    const token = await storage.createQueueToken(tokenData);
+    queueEventHub.publish("token.created", token);
+    return token;
+  }
+
+  // Today's appointments for the patients matching a kiosk or front-desk lookup
+  async findCheckInAppointments(lookup: CheckInLookup): Promise<CheckInAppointment[]> {
+    const patientCode = (lookup.qrCode || lookup.patientCode || '').trim();
+    const phoneNumber = (lookup.phoneNumber || '').trim();
+
+    let matches: { id: number; patientId: string }[] = [];
+    if (patientCode) {
+      const patient = await storage.getPatientByPatientId(patientCode);
+      matches = patient ? [patient] : [];
+    } else if (phoneNumber) {
+      matches = await storage.getPatientsByPhoneNumber(phoneNumber);
+    } else {
+      throw new QueueTransitionError("Enter a patient id or phone number, or scan a QR code", 400);
+    }
+
+    if (matches.length === 0) {
+      throw new QueueTransitionError("No patient found", 404);
+    }
+
+    const { start, end } = this.getCalendarDay();
+    const [appointments, departments] = await Promise.all([
+      storage.getAppointmentsByPatientsBetween(matches.map(p => p.id), start, end),
+      storage.getDepartments(),
+    ]);
+    const codes = new Map(matches.map(p => [p.id, p.patientId]));
+
+    const results: CheckInAppointment[] = [];
+    for (const appointment of appointments) {
+      if (appointment.status !== "scheduled" || !appointment.patientId) continue;
+      const token = await storage.getQueueTokenByAppointment(appointment.id);
+      results.push({
+        appointmentId: appointment.id,
+        patientId: appointment.patientId,
+        patientCode: codes.get(appointment.patientId) || "",
+        appointmentDate: appointment.appointmentDate,
+        appointmentType: appointment.appointmentType,
+        departmentId: appointment.departmentId,
+        departmentName: departments.find(d => d.id === appointment.departmentId)?.name || "General",
+        doctorId: appointment.doctorId,
+        status: appointment.status,
+        tokenNumber: token?.tokenNumber || null,
+      });
+    }
+    return results;
+  }
+
+  // Issues a queue token for a booked appointment. The token carries the
+  // appointment so the scheduler gives it the booked-slot head start.
+  async checkInAppointment(appointmentId: number): Promise<{ token: QueueToken; appointment: Appointment }> {
+    const appointment = await storage.getAppointmentById(appointmentId);
+    if (!appointment || !appointment.patientId) {
+      throw new QueueTransitionError("Appointment not found", 404);
+    }
+    if (appointment.status !== "scheduled") {
+      throw new QueueTransitionError(`Cannot check in an appointment that is ${appointment.status}`);
+    }
+
+    const { start, end } = this.getCalendarDay();
+    if (appointment.appointmentDate < start || appointment.appointmentDate > end) {
+      throw new QueueTransitionError("Appointment is not booked for today", 400);
+    }
+
+    const existing = await storage.getQueueTokenByAppointment(appointment.id);
+    if (existing) {
+      throw new QueueTransitionError(`Already checked in with token ${existing.tokenNumber}`);
+    }
+
+    let departmentId = appointment.departmentId;
+    if (!departmentId && appointment.doctorId) {
+      const doctors = await storage.getDoctors();
+      departmentId = doctors.find(d => d.id === appointment.doctorId)?.departmentId ?? null;
+    }
+    if (!departmentId) {
+      throw new QueueTransitionError("Appointment has no department to queue for", 400);
+    }
+
+    try {
+      const token = await this.generateToken(
+        appointment.patientId,
+        departmentId,
+        appointment.doctorId ?? undefined,
+        1,
+        appointment.id
+      );
+      return { token, appointment };
+    } catch (error: any) {
+      // queue_tokens_appointment_unique: a second desk checked the same patient in
+      if (error?.code === '23505') {
+        throw new QueueTransitionError("Appointment is already checked in");
+      }
+      throw error;
+    }
+  }
+
+  async getTokenSlip(tokenId: number): Promise<TokenSlip> {
+    const token = await storage.getQueueTokenById(tokenId);
+    if (!token) {
+      throw new QueueTransitionError("Token not found", 404);
+    }
+
+    const departments = await storage.getDepartments();
+    const department = departments.find(d => d.id === token.departmentId);
+
+    return {
+      departmentName: department?.name || "General",
+      tokenNumber: token.tokenNumber,
+      qrCode: token.qrCode,
+      estimatedWaitTime: token.estimatedWaitTime,
+      priority: token.priority,
+      issuedAt: token.createdAt || new Date(),
     };
+  }
 
-    await storage.createQueueToken(tokenData);
-    return tokenNumber;
+  // Resolves a scanned QR code to the token's current place in the queue
+  async getTokenByQrCode(code: string): Promise<TokenLiveStatus> {
+    const verification = queueQrCodes.verify(code);
+    if (!verification.valid) {
+      throw new QueueTransitionError(
+        verification.reason === "expired" ? "QR code has expired" : "QR code is not valid",
+        verification.reason === "expired" ? 410 : 400
+      );
+    }
+
+    const { n: tokenNumber, d: departmentId, q: queueDate } = verification.payload;
+    const token = await storage.getQueueTokenByNumber(tokenNumber, departmentId, queueDate, code.trim());
+    if (!token) {
+      throw new QueueTransitionError("Token not found", 404);
+    }
+
+    // The token may have been transferred since the slip was printed
+    return this.getTokenStatus(token, token.departmentId ?? departmentId, queueDate);
+  }
+
+  // Live status of the patient's tokens that are still waiting or being served
+  async getPatientTokens(patientId: number, now: Date = new Date()): Promise<TokenLiveStatus[]> {
+    const tokens = await storage.getActiveQueueTokensByPatient(patientId, new Date(now.getTime() - 24 * 60 * 60 * 1000));
+    const statuses: TokenLiveStatus[] = [];
+    for (const token of tokens) {
+      if (!token.departmentId) continue;
+      statuses.push(await this.getTokenStatus(token, token.departmentId, token.queueDate || ""));
+    }
+    return statuses;
+  }
+
+  private async getTokenStatus(token: QueueToken, currentDepartmentId: number, queueDate: string): Promise<TokenLiveStatus> {
+    const [departments, ordered] = await Promise.all([
+      storage.getDepartments(),
+      this.getOrderedQueue(currentDepartmentId),
+    ]);
+    const department = departments.find(d => d.id === currentDepartmentId);
+    const index = ordered.findIndex(entry => entry.token.id === token.id);
+    const ahead = index >= 0 ? ordered.slice(0, index).map(entry => entry.token) : [];
+
+    return {
+      tokenNumber: token.tokenNumber,
+      departmentId: currentDepartmentId,
+      departmentName: department?.name || "Unknown",
+      status: token.status || "waiting",
+      position: index >= 0 ? index + 1 : null,
+      estimatedWaitTime: index >= 0
+        ? await waitTimeEstimator.estimateWaitMinutes(currentDepartmentId, ahead, { doctorId: token.doctorId })
+        : null,
+      calledAt: token.calledAt,
+      counterName: token.counterId ? (await storage.getQueueCounterById(token.counterId))?.name || null : null,
+      queueDate,
+    };
   }
 
   async getQueueStatus(departmentId?: number): Promise<QueueStatus[]> {
@@ -51,9 +297,12 @@ export class QueueManager {
     for (const dept of departments) {
       if (departmentId && dept.id !== departmentId) continue;
 
-      const activeQueue = await storage.getActiveQueueByDepartment(dept.id);
+      const activeQueue = (await this.getOrderedQueue(dept.id)).map(entry => entry.token);
       const waitingCount = activeQueue.length;
       const averageWaitTime = await this.calculateAverageWaitTime(dept.id);
+      const calledToken = await storage.getLatestCalledTokenByDepartment(dept.id);
+      const serving = (await this.getServingTokens(dept.id)).filter(token => token.status !== "skipped");
+      const counterNames = await this.getCounterNames(dept.id);
       
       statusList.push({
         departmentId: dept.id,
@@ -61,37 +310,312 @@ export class QueueManager {
         currentToken: activeQueue[0]?.tokenNumber || "None",
         waitingCount,
         averageWaitTime,
-        estimatedWaitTime: waitingCount * averageWaitTime
+        estimatedWaitTime: await waitTimeEstimator.estimateWaitMinutes(dept.id, activeQueue),
+        calledToken: calledToken?.tokenNumber || null,
+        calledAt: calledToken?.calledAt || null,
+        calledCounter: calledToken?.counterId ? counterNames.get(calledToken.counterId) || null : null,
+        nowServing: serving.map(token => ({ tokenNumber: token.tokenNumber, counterName: token.counterName })),
+        upcomingTokens: activeQueue.slice(0, UPCOMING_TOKENS_SHOWN).map(t => t.tokenNumber)
       });
     }
 
     return statusList;
   }
 
-  async callNextToken(departmentId: number, doctorId?: number): Promise<string | null> {
-    const queue = await storage.getActiveQueueByDepartment(departmentId);
+  async getServiceTimeStats(departmentId?: number): Promise<DepartmentServiceStats[]> {
+    const departments = await storage.getDepartments();
+    const stats: DepartmentServiceStats[] = [];
+
+    for (const dept of departments) {
+      if (departmentId && dept.id !== departmentId) continue;
+      stats.push(await waitTimeEstimator.getDepartmentStats(dept.id, dept.name));
+    }
+
+    return stats;
+  }
+
+  // Waiting tokens in the order they will be called under the department's policy
+  async getOrderedQueue(departmentId: number): Promise<ScheduledToken[]> {
+    const [queue, policy] = await Promise.all([
+      storage.getActiveQueueByDepartment(departmentId),
+      this.getPolicy(departmentId),
+    ]);
+    return queueScheduler.order(queue, policy);
+  }
+
+  async getPolicy(departmentId: number): Promise<QueuePolicySettings> {
+    const policy = await storage.getQueuePolicy(departmentId);
+    return policy || DEFAULT_QUEUE_POLICY;
+  }
+
+  async updatePolicy(departmentId: number, settings: Partial<QueuePolicySettings>, updatedBy: string): Promise<QueuePolicySettings> {
+    const merged = { ...(await this.getPolicy(departmentId)), ...settings };
+    return storage.upsertQueuePolicy({
+      departmentId,
+      strategy: merged.strategy,
+      emergencyPreempts: merged.emergencyPreempts,
+      urgentBoostMinutes: merged.urgentBoostMinutes,
+      emergencyBoostMinutes: merged.emergencyBoostMinutes,
+      bookedBoostMinutes: merged.bookedBoostMinutes,
+      maxWaitMinutes: merged.maxWaitMinutes,
+      dayResetTime: merged.dayResetTime,
+      updatedBy,
+    });
+  }
+
+  // Calls the next eligible token. A counter with a seated doctor only serves that
+  // doctor's tokens and those not booked with anyone.
+  async callNextToken(
+    departmentId: number,
+    doctorId?: number,
+    counterId?: number
+  ): Promise<{ token: QueueToken; counter: QueueCounter | null } | null> {
+    let counter: QueueCounter | null = null;
+    if (counterId) {
+      counter = (await storage.getQueueCounterById(counterId)) || null;
+      if (!counter || counter.departmentId !== departmentId || !counter.isActive) {
+        throw new QueueTransitionError("Counter is not an active counter of this department", 400);
+      }
+    }
+
+    const servingDoctorId = counter?.doctorId ?? doctorId;
+    const ordered = await this.getOrderedQueue(departmentId);
+    // A doctor only calls tokens booked for them or not tied to any doctor
+    const queue = ordered
+      .map(entry => entry.token)
+      .filter(token => !servingDoctorId || !token.doctorId || token.doctorId === servingDoctorId);
     
-    if (queue.length === 0) return null;
+    // Another counter calling at the same moment may take a token first; move on to the next
+    let calledToken: QueueToken | undefined;
+    for (const nextToken of queue) {
+      calledToken = await storage.transitionQueueToken(nextToken.id, ["waiting"], {
+        status: "called",
+        calledAt: new Date(),
+        counterId: counter?.id ?? null,
+      });
+      if (calledToken) break;
+    }
+    if (!calledToken) return null;
 
-    const nextToken = queue[0];
-    await storage.updateQueueTokenStatus(nextToken.id, "called");
+    queueEventHub.publish("token.called", calledToken, calledToken.departmentId, counter?.name ?? null);
+
+    if (calledToken.appointmentId) {
+      await storage.updateAppointmentStatus(calledToken.appointmentId, "in-progress");
+    }
 
     // Create notification for patient
-    if (nextToken.patientId) {
-      const patient = await storage.getPatients();
-      const patientData = patient.find(p => p.id === nextToken.patientId);
-      
-      if (patientData?.userId) {
-        await storage.createNotification({
-          userId: patientData.userId,
-          title: "Your Turn!",
-          message: `Token ${nextToken.tokenNumber} is now being called. Please proceed to the consultation room.`,
-          type: "info"
-        });
+    await this.notifyPatient(calledToken, "Your Turn!", `Token ${calledToken.tokenNumber} is now being called. Please proceed to ${counter?.name || "the consultation room"}.`);
+
+    return { token: calledToken, counter };
+  }
+
+  // Applies a lifecycle action to a token, enforcing TOKEN_TRANSITIONS
+  async transitionToken(
+    tokenId: number,
+    action: TokenAction,
+    options: { departmentId?: number; doctorId?: number | null } = {}
+  ): Promise<{ previousStatus: string; token: QueueToken }> {
+    const token = await storage.getQueueTokenById(tokenId);
+    if (!token) {
+      throw new QueueTransitionError("Token not found", 404);
+    }
+
+    const previousStatus = token.status || "waiting";
+    const transition = TOKEN_TRANSITIONS[action];
+    if (!transition.from.includes(previousStatus)) {
+      throw new QueueTransitionError(`Cannot ${action} a token that is ${previousStatus}`);
+    }
+
+    const now = new Date();
+    const update: Partial<InsertQueueToken> = { status: transition.to };
+
+    switch (action) {
+      case "start":
+        update.startedAt = now;
+        break;
+      case "complete":
+        update.completedAt = now;
+        break;
+      case "skip":
+        update.skippedAt = now;
+        break;
+      case "recall":
+        update.calledAt = now;
+        update.recallCount = (token.recallCount || 0) + 1;
+        break;
+      case "no-show":
+        update.noShowAt = now;
+        break;
+      case "transfer": {
+        const departmentId = options.departmentId ?? token.departmentId;
+        const doctorId = options.doctorId !== undefined
+          ? options.doctorId
+          : departmentId === token.departmentId ? token.doctorId : null;
+
+        if (departmentId === token.departmentId && doctorId === token.doctorId) {
+          throw new QueueTransitionError("Transfer needs a different department or doctor", 400);
+        }
+        await this.checkTransferTarget(departmentId, doctorId);
+
+        // The patient keeps their token number and their place by arrival time
+        update.departmentId = departmentId;
+        update.doctorId = doctorId;
+        update.transferredAt = now;
+        update.startedAt = null;
+        update.counterId = null;
+        break;
       }
     }
 
-    return nextToken.tokenNumber;
+    let updated: QueueToken | undefined;
+    try {
+      updated = await storage.transitionQueueToken(tokenId, transition.from, update);
+    } catch (error: any) {
+      // queue_tokens_number_department_date_unique: the target already has this number today
+      if (error?.code === '23505') {
+        throw new QueueTransitionError(`Token ${token.tokenNumber} is already in use in that department today`);
+      }
+      // The department or doctor was removed since it was checked
+      if (error?.code === '23503') {
+        throw new QueueTransitionError("Transfer department or doctor not found", 404);
+      }
+      throw error;
+    }
+    if (!updated) {
+      throw new QueueTransitionError("This token has just been changed by someone else");
+    }
+    const counter = updated.counterId ? await storage.getQueueCounterById(updated.counterId) : undefined;
+
+    if (action === "complete" || action === "no-show") {
+      waitTimeEstimator.invalidate(updated.departmentId ?? undefined);
+    }
+
+    if (action === "transfer" && token.departmentId !== updated.departmentId) {
+      queueEventHub.publish("token.transferred", updated, token.departmentId);
+    }
+    queueEventHub.publish(TOKEN_EVENTS[action], updated, updated.departmentId, counter?.name ?? null);
+
+    if (action === "recall") {
+      await this.notifyPatient(updated, "Your Turn!", `Token ${updated.tokenNumber} is being called again. Please proceed to ${counter?.name || "the consultation room"}.`);
+    }
+
+    return { previousStatus, token: updated };
+  }
+
+  private async checkTransferTarget(departmentId: number | null, doctorId: number | null): Promise<void> {
+    const department = departmentId ? await storage.getDepartmentById(departmentId) : undefined;
+    if (!department) {
+      throw new QueueTransitionError("Department not found", 404);
+    }
+    if (department.isActive === false) {
+      throw new QueueTransitionError(`${department.name} is not taking patients`);
+    }
+    if (doctorId === null) return;
+
+    const doctor = await storage.getDoctorById(doctorId);
+    if (!doctor) {
+      throw new QueueTransitionError("Doctor not found", 404);
+    }
+    if (doctor.departmentId !== department.id) {
+      throw new QueueTransitionError(`That doctor does not work in ${department.name}`, 400);
+    }
+    const doctorUser = doctor.userId ? await storage.getUser(doctor.userId) : undefined;
+    if (doctor.isAvailable === false || doctorUser?.isActive === false) {
+      throw new QueueTransitionError("That doctor is not available");
+    }
+  }
+
+  async createCounter(counter: InsertQueueCounter): Promise<QueueCounter> {
+    await this.checkCounterDoctor(counter.departmentId, counter.doctorId ?? null);
+    return storage.createQueueCounter(counter);
+  }
+
+  async updateCounter(id: number, changes: UpdateQueueCounter): Promise<QueueCounter> {
+    const counter = await storage.getQueueCounterById(id);
+    if (!counter) {
+      throw new QueueTransitionError("Counter not found", 404);
+    }
+    if (changes.doctorId !== undefined) {
+      await this.checkCounterDoctor(counter.departmentId, changes.doctorId);
+    }
+    const updated = await storage.updateQueueCounter(id, changes);
+    if (!updated) {
+      throw new QueueTransitionError("Counter not found", 404);
+    }
+    return updated;
+  }
+
+  // Call-next at a counter only serves its doctor's tokens, so the doctor has to
+  // work in the counter's department
+  private async checkCounterDoctor(departmentId: number, doctorId: number | null): Promise<void> {
+    if (doctorId === null) return;
+    const doctor = await storage.getDoctorById(doctorId);
+    if (!doctor) {
+      throw new QueueTransitionError("Doctor not found", 404);
+    }
+    if (doctor.departmentId !== departmentId) {
+      throw new QueueTransitionError("The doctor seated at a counter must work in its department", 400);
+    }
+  }
+
+  async getServingTokens(departmentId: number): Promise<ServingToken[]> {
+    const { startsAt } = await this.getQueueDay(departmentId);
+    const [tokens, counterNames] = await Promise.all([
+      storage.getServingTokensByDepartment(departmentId, startsAt),
+      this.getCounterNames(departmentId),
+    ]);
+    return tokens.map(token => ({
+      ...token,
+      counterName: token.counterId ? counterNames.get(token.counterId) || null : null,
+    }));
+  }
+
+  private async getCounterNames(departmentId: number): Promise<Map<number, string>> {
+    const counters = await storage.getQueueCounters(departmentId);
+    return new Map(counters.map(counter => [counter.id, counter.name]));
+  }
+
+  // The operational day a moment belongs to. Before the department's reset time
+  // it is still the previous calendar day, so an overnight OPD keeps one numbering run.
+  async getQueueDay(departmentId: number, at: Date = new Date()): Promise<{ queueDate: string; startsAt: Date }> {
+    const { dayResetTime } = await this.getPolicy(departmentId);
+    const [hours, minutes] = (dayResetTime || "00:00").split(":").map(Number);
+
+    const startsAt = new Date(at);
+    startsAt.setHours(hours, minutes, 0, 0);
+    if (startsAt > at) {
+      startsAt.setDate(startsAt.getDate() - 1);
+    }
+
+    const queueDate = [
+      startsAt.getFullYear(),
+      (startsAt.getMonth() + 1).toString().padStart(2, '0'),
+      startsAt.getDate().toString().padStart(2, '0'),
+    ].join('-');
+
+    return { queueDate, startsAt };
+  }
+
+  private getCalendarDay(at: Date = new Date()): { start: Date; end: Date } {
+    const start = new Date(at);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setHours(23, 59, 59, 999);
+    return { start, end };
+  }
+
+  private async notifyPatient(token: QueueToken, title: string, message: string): Promise<void> {
+    if (!token.patientId) return;
+
+    const patient = await storage.getPatientById(token.patientId);
+    if (patient?.userId) {
+      await storage.createNotification({
+        userId: patient.userId,
+        title,
+        message,
+        type: "info"
+      });
+    }
   }
 
   private async getDepartmentPrefix(departmentId: number): Promise<string> {
@@ -100,32 +624,17 @@ export class QueueManager {
     return dept?.code || "GEN";
   }
 
-  private async getNextSequence(departmentId: number): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const todayTokens = await storage.getQueueTokens();
-    const deptTokensToday = todayTokens.filter(t => 
-      t.departmentId === departmentId && 
-      t.createdAt && 
-      new Date(t.createdAt) >= today
-    );
-    
-    return deptTokensToday.length + 1;
-  }
-
-  private async calculateWaitTime(departmentId: number, priority: number): Promise<number> {
-    const baseWaitTime = 15; // 15 minutes base
-    const priorityMultiplier = priority === 3 ? 0.5 : priority === 2 ? 0.7 : 1;
-    const queueLength = (await storage.getActiveQueueByDepartment(departmentId)).length;
-    
-    return Math.round(baseWaitTime * priorityMultiplier * (queueLength + 1));
+  private async calculateWaitTime(departmentId: number, priority: number, doctorId?: number, appointmentId?: number): Promise<number> {
+    const [queue, policy] = await Promise.all([
+      storage.getActiveQueueByDepartment(departmentId),
+      this.getPolicy(departmentId),
+    ]);
+    const ahead = queueScheduler.ahead(queue, { priority, appointmentId: appointmentId ?? null }, policy);
+    return waitTimeEstimator.estimateWaitMinutes(departmentId, ahead, { doctorId });
   }
 
   private async calculateAverageWaitTime(departmentId: number): Promise<number> {
-    // Simple calculation - in production this would analyze historical data
-    const queueLength = (await storage.getActiveQueueByDepartment(departmentId)).length;
-    return Math.max(10, 15 - queueLength); // Decrease wait time as queue shortens
+    return Math.round(await waitTimeEstimator.estimateServiceMinutes(departmentId));
   }
 }
 
@@ -0,0 +1,221 @@
+import { ServerResponse, type IncomingMessage, type Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { storage } from "../storage";
+import { type QueueToken } from "@shared/schema";
+
+export const QUEUE_SOCKET_PATH = "/ws/queue";
+
+export type QueueEventType =
+  | "token.created"
+  | "token.called"
+  | "token.in-progress"
+  | "token.completed"
+  | "token.skipped"
+  | "token.recalled"
+  | "token.no-show"
+  | "token.transferred";
+
+export interface QueueEvent {
+  type: QueueEventType;
+  departmentId: number;
+  token: {
+    id: number;
+    tokenNumber: string;
+    departmentId: number | null;
+    doctorId: number | null;
+    priority: number | null;
+    status: string | null;
+    estimatedWaitTime: number | null;
+    recallCount: number | null;
+    counterId: number | null;
+    counterName: string | null;
+    createdAt: Date | null;
+    calledAt: Date | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    patientId?: number | null;
+  };
+  timestamp: string;
+}
+
+interface QueueClient {
+  socket: WebSocket;
+  userId: string | null;
+  role: string | null;
+  departmentIds: Set<number>;
+  isAlive: boolean;
+}
+
+// Roles that may see which patient a token belongs to. Everyone else (waiting-room
+// displays, the kiosk, patients) only receives the token number and its status.
+const PATIENT_VISIBLE_ROLES = ["front-desk", "doctor", "nurse", "admin", "super-admin", "department-head"];
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Frames a client may send: which departments' events it wants
+const queueClientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  departmentIds: z.array(z.number().int().positive()).max(100),
+});
+
+type QueueClientMessage = z.infer<typeof queueClientMessageSchema>;
+
+// Pushes queue_tokens changes to subscribed WebSocket clients, per department
+export class QueueEventHub {
+  private wss: WebSocketServer | null = null;
+  private clients = new Set<QueueClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  attach(server: Server, sessionMiddleware: RequestHandler): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url || "/", "http://localhost");
+      // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+      if (pathname !== QUEUE_SOCKET_PATH) return;
+
+      // The upgrade request goes through the session middleware as an express request would
+      const request = req as Request;
+      sessionMiddleware(request, new ServerResponse(req) as Response, async () => {
+        try {
+          const userId = request.session?.user?.claims.sub || null;
+          const user = userId ? await storage.getUser(userId) : undefined;
+
+          this.wss!.handleUpgrade(req, socket, head, (ws) => {
+            this.register(ws, user?.id || null, user?.role || null);
+          });
+        } catch (error) {
+          console.error("Queue socket upgrade error:", error);
+          socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+          socket.destroy();
+        }
+      });
+    });
+
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach((client) => {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  // `departmentId` overrides the token's own department, e.g. to tell the
+  // department a token was transferred away from
+  publish(
+    type: QueueEventType,
+    token: QueueToken,
+    departmentId: number | null = token.departmentId,
+    counterName: string | null = null
+  ): void {
+    if (!departmentId) return;
+
+    const event: QueueEvent = {
+      type,
+      departmentId,
+      token: {
+        id: token.id,
+        tokenNumber: token.tokenNumber,
+        departmentId: token.departmentId,
+        doctorId: token.doctorId,
+        priority: token.priority,
+        status: token.status,
+        estimatedWaitTime: token.estimatedWaitTime,
+        recallCount: token.recallCount,
+        counterId: token.counterId,
+        counterName,
+        createdAt: token.createdAt,
+        calledAt: token.calledAt,
+        startedAt: token.startedAt,
+        completedAt: token.completedAt,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    const publicPayload = JSON.stringify(event);
+    const staffPayload = JSON.stringify({
+      ...event,
+      token: { ...event.token, patientId: token.patientId },
+    });
+
+    this.clients.forEach((client) => {
+      if (client.socket.readyState !== WebSocket.OPEN) return;
+      if (!client.departmentIds.has(event.departmentId)) return;
+
+      const canSeePatient = PATIENT_VISIBLE_ROLES.includes(client.role || "");
+      client.socket.send(canSeePatient ? staffPayload : publicPayload);
+    });
+  }
+
+  private register(socket: WebSocket, userId: string | null, role: string | null): void {
+    const client: QueueClient = {
+      socket,
+      userId,
+      role,
+      departmentIds: new Set(),
+      isAlive: true,
+    };
+    this.clients.add(client);
+
+    socket.on("pong", () => {
+      client.isAlive = true;
+    });
+
+    socket.on("message", (raw) => {
+      this.handleMessage(client, raw.toString());
+    });
+
+    socket.on("close", () => {
+      this.clients.delete(client);
+    });
+
+    socket.send(JSON.stringify({
+      type: "connected",
+      authenticated: !!userId,
+      timestamp: new Date().toISOString(),
+    }));
+  }
+
+  private handleMessage(client: QueueClient, raw: string): void {
+    let frame: unknown;
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      client.socket.send(JSON.stringify({ type: "error", message: "Invalid message format" }));
+      return;
+    }
+
+    const parsed = queueClientMessageSchema.safeParse(frame);
+    if (!parsed.success) {
+      client.socket.send(JSON.stringify({ type: "error", message: "Send subscribe or unsubscribe with departmentIds" }));
+      return;
+    }
+
+    const message: QueueClientMessage = parsed.data;
+    switch (message.type) {
+      case "subscribe":
+        message.departmentIds.forEach((id) => client.departmentIds.add(id));
+        break;
+      case "unsubscribe":
+        message.departmentIds.forEach((id) => client.departmentIds.delete(id));
+        break;
+    }
+
+    client.socket.send(JSON.stringify({
+      type: "subscribed",
+      departmentIds: Array.from(client.departmentIds),
+    }));
+  }
+}
+
+export const queueEventHub = new QueueEventHub();
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+
+// Compact signed payload printed as the token's QR code.
+// Identifies the token without exposing the patient.
+export interface QueueQrPayload {
+  n: string;   // token number
+  d: number;   // department id
+  q: string;   // queue date (YYYY-MM-DD)
+  e: number;   // expiry, unix seconds
+}
+
+export type QueueQrVerification =
+  | { valid: true; payload: QueueQrPayload }
+  | { valid: false; reason: "malformed" | "signature" | "expired" };
+
+const CODE_PREFIX = "MQ1";
+// Slips stay scannable for the rest of an overnight shift, not beyond
+const CODE_TTL_HOURS = 24;
+
+// Signs and verifies queue token QR codes with HMAC-SHA256
+export class QueueQrCodes {
+  private secret: string;
+
+  constructor() {
+    this.secret = process.env.QUEUE_QR_SECRET || '';
+    if (!this.secret) {
+      // Codes printed before a restart will no longer verify
+      console.warn("QUEUE_QR_SECRET is not set; using a per-process key for queue QR codes");
+      this.secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  sign(tokenNumber: string, departmentId: number, queueDate: string, issuedAt: Date = new Date()): string {
+    const payload: QueueQrPayload = {
+      n: tokenNumber,
+      d: departmentId,
+      q: queueDate,
+      e: Math.floor(issuedAt.getTime() / 1000) + CODE_TTL_HOURS * 3600,
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${CODE_PREFIX}.${body}.${this.signature(body)}`;
+  }
+
+  verify(code: string, now: Date = new Date()): QueueQrVerification {
+    const [prefix, body, signature] = (code || '').trim().split('.');
+    if (prefix !== CODE_PREFIX || !body || !signature) {
+      return { valid: false, reason: "malformed" };
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { valid: false, reason: "signature" };
+    }
+
+    let payload: QueueQrPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      return { valid: false, reason: "malformed" };
+    }
+
+    if (!payload.n || !payload.d || !payload.q || !payload.e) {
+      return { valid: false, reason: "malformed" };
+    }
+    if (payload.e * 1000 < now.getTime()) {
+      return { valid: false, reason: "expired" };
+    }
+
+    return { valid: true, payload };
+  }
+
+  private signature(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+}
+
+export const queueQrCodes = new QueueQrCodes();
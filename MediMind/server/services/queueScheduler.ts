@@ -0,0 +1,119 @@
+import { type QueuePolicy, type QueueToken } from "@shared/schema";
+
+export type QueuePolicySettings = Pick<
+  QueuePolicy,
+  "strategy" | "emergencyPreempts" | "urgentBoostMinutes" | "emergencyBoostMinutes" | "bookedBoostMinutes" | "maxWaitMinutes" | "dayResetTime"
+>;
+
+export type QueueOrderReason = "emergency" | "starvation-guard" | "urgent" | "booked" | "normal" | "fifo";
+
+export interface ScheduledToken {
+  token: QueueToken;
+  position: number;
+  waitedMinutes: number;
+  effectiveWaitMinutes: number;
+  reason: QueueOrderReason;
+}
+
+export const DEFAULT_QUEUE_POLICY: QueuePolicySettings = {
+  strategy: "priority",
+  emergencyPreempts: true,
+  urgentBoostMinutes: 30,
+  emergencyBoostMinutes: 120,
+  bookedBoostMinutes: 20,
+  maxWaitMinutes: 90,
+  dayResetTime: "00:00",
+};
+
+// Lower tier is called first; within a tier the longest effective wait goes first
+const TIER: Record<QueueOrderReason, number> = {
+  "emergency": 0,
+  "starvation-guard": 1,
+  "urgent": 2,
+  "booked": 2,
+  "normal": 2,
+  "fifo": 2,
+};
+
+type Ranked = Pick<ScheduledToken, "reason" | "effectiveWaitMinutes"> & { token: Pick<QueueToken, "id"> };
+
+function compare(a: Ranked, b: Ranked): number {
+  return TIER[a.reason] - TIER[b.reason] ||
+    b.effectiveWaitMinutes - a.effectiveWaitMinutes ||
+    a.token.id - b.token.id;
+}
+
+// Orders waiting tokens according to a department's queue policy.
+// Priority is expressed as a head start in minutes, so a normal token that has waited
+// longer than an urgent token's boost moves ahead of it and can never starve.
+// Patients checked in against a booked appointment get a smaller head start of their own.
+export class QueueScheduler {
+  order(tokens: QueueToken[], policy: QueuePolicySettings = DEFAULT_QUEUE_POLICY, now: Date = new Date()): ScheduledToken[] {
+    const scheduled = tokens
+      .map(token => this.schedule(token, policy, now))
+      .sort(compare);
+
+    scheduled.forEach((entry, index) => {
+      entry.position = index + 1;
+      entry.waitedMinutes = Math.round(entry.waitedMinutes);
+      entry.effectiveWaitMinutes = Math.round(entry.effectiveWaitMinutes);
+    });
+
+    return scheduled;
+  }
+
+  // The waiting tokens that would be called before a patient joining now
+  ahead(
+    tokens: QueueToken[],
+    arrival: Pick<QueueToken, "priority" | "appointmentId">,
+    policy: QueuePolicySettings = DEFAULT_QUEUE_POLICY,
+    now: Date = new Date()
+  ): QueueToken[] {
+    // Ties with a newcomer go to the tokens already waiting
+    const newcomer = this.schedule({ ...arrival, id: Number.MAX_SAFE_INTEGER, createdAt: now }, policy, now);
+    return this.order(tokens, policy, now)
+      .filter(entry => compare(entry, newcomer) < 0)
+      .map(entry => entry.token);
+  }
+
+  private schedule<T extends Pick<QueueToken, "id" | "priority" | "appointmentId" | "createdAt">>(
+    token: T,
+    policy: QueuePolicySettings,
+    now: Date
+  ): Omit<ScheduledToken, "token"> & { token: T } {
+    const maxWait = policy.maxWaitMinutes ?? null;
+    const priority = token.priority ?? 1;
+    const waitedMinutes = token.createdAt
+      ? Math.max(0, (now.getTime() - new Date(token.createdAt).getTime()) / 60000)
+      : 0;
+
+    let reason: QueueOrderReason;
+    let boost = 0;
+
+    if (priority === 3 && policy.emergencyPreempts) {
+      reason = "emergency";
+    } else if (policy.strategy === "fifo") {
+      reason = "fifo";
+    } else {
+      if (priority === 3) boost = policy.emergencyBoostMinutes ?? 0;
+      if (priority === 2) boost = policy.urgentBoostMinutes ?? 0;
+      if (priority === 1 && token.appointmentId) boost = policy.bookedBoostMinutes ?? 0;
+
+      if (maxWait !== null && priority === 1 && waitedMinutes >= maxWait) {
+        reason = "starvation-guard";
+      } else {
+        reason = priority > 1 ? "urgent" : token.appointmentId ? "booked" : "normal";
+      }
+    }
+
+    return {
+      token,
+      position: 0,
+      waitedMinutes,
+      effectiveWaitMinutes: waitedMinutes + boost,
+      reason,
+    };
+  }
+}
+
+export const queueScheduler = new QueueScheduler();
@@ -0,0 +1,144 @@
+import { formatDate } from "./availability";
+
+// The subset of RFC 5545 RRULE we support: FREQ (DAILY or WEEKLY), INTERVAL,
+// BYDAY and either COUNT or UNTIL, e.g. FREQ=WEEKLY;BYDAY=MO,TH;COUNT=12
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY";
+  interval: number;
+  byDay: number[]; // 0 = Sunday, as Date.getDay()
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+// Upper bound on a single series, roughly two years of weekly sessions
+export const MAX_OCCURRENCES = 104;
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+export class RecurrenceError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, partValue] = part.split('=');
+    if (!key || !partValue) {
+      throw new RecurrenceError(`Malformed recurrence rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    throw new RecurrenceError("FREQ must be DAILY or WEEKLY");
+  }
+
+  const unsupported = Array.from(parts.keys()).filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key));
+  if (unsupported.length > 0) {
+    throw new RecurrenceError(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    throw new RecurrenceError("INTERVAL must be a whole number between 1 and 52");
+  }
+
+  const byDay = (parts.get('BYDAY') || '').split(',').filter(Boolean).map(day => {
+    if (!(day in WEEKDAYS)) {
+      throw new RecurrenceError(`Unknown weekday "${day}" in BYDAY`);
+    }
+    return WEEKDAYS[day];
+  });
+
+  const rule: RecurrenceRule = { freq, interval, byDay: Array.from(new Set(byDay)).sort() };
+
+  if (parts.has('COUNT')) {
+    rule.count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_OCCURRENCES) {
+      throw new RecurrenceError(`COUNT must be between 1 and ${MAX_OCCURRENCES}`);
+    }
+  }
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+      throw new RecurrenceError("UNTIL must be a date in YYYYMMDD format");
+    }
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (rule.count === undefined && rule.until === undefined) {
+    throw new RecurrenceError("The rule needs COUNT or UNTIL so the series ends");
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceError("Use either COUNT or UNTIL, not both");
+  }
+
+  return rule;
+}
+
+// Start times of every occurrence, keeping the first session's time of day. As in
+// RFC 5545, COUNT is applied before exception dates are removed, so skipping a
+// date shortens the series rather than adding a session at the end.
+export function expandOccurrences(rule: RecurrenceRule, firstStart: Date, exceptionDates: string[] = []): Date[] {
+  const days = rule.byDay.length > 0 ? rule.byDay : [firstStart.getDay()];
+  if (!days.includes(firstStart.getDay())) {
+    throw new RecurrenceError("The first session must fall on one of the rule's weekdays");
+  }
+  if (rule.until && rule.until < formatDate(firstStart)) {
+    throw new RecurrenceError("UNTIL is before the first session");
+  }
+
+  const occurrences: Date[] = [];
+  const firstDay = new Date(firstStart);
+  firstDay.setHours(0, 0, 0, 0);
+
+  // Weekly rules step a week at a time from the Monday of the first session's week
+  const periodStart = new Date(firstDay);
+  if (rule.freq === 'WEEKLY') {
+    periodStart.setDate(periodStart.getDate() - ((periodStart.getDay() + 6) % 7));
+  }
+
+  for (let period = 0; ; period++) {
+    const candidates: Date[] = [];
+    if (rule.freq === 'WEEKLY') {
+      for (const weekday of days) {
+        const day = new Date(periodStart);
+        day.setDate(day.getDate() + period * 7 * rule.interval + ((weekday + 6) % 7));
+        candidates.push(day);
+      }
+      candidates.sort((a, b) => a.getTime() - b.getTime());
+    } else {
+      const day = new Date(firstDay);
+      day.setDate(day.getDate() + period * rule.interval);
+      if (days.includes(day.getDay()) || rule.byDay.length === 0) candidates.push(day);
+    }
+
+    for (const day of candidates) {
+      if (day < firstDay) continue;
+      if (rule.until && formatDate(day) > rule.until) return removeExceptions(occurrences, exceptionDates);
+
+      const start = new Date(day);
+      start.setHours(firstStart.getHours(), firstStart.getMinutes(), 0, 0);
+      occurrences.push(start);
+
+      if (rule.count !== undefined && occurrences.length >= rule.count) return removeExceptions(occurrences, exceptionDates);
+      if (occurrences.length > MAX_OCCURRENCES) {
+        throw new RecurrenceError(`A series cannot have more than ${MAX_OCCURRENCES} sessions`);
+      }
+    }
+  }
+}
+
+function removeExceptions(occurrences: Date[], exceptionDates: string[]): Date[] {
+  const skipped = new Set(exceptionDates);
+  const remaining = occurrences.filter(start => !skipped.has(formatDate(start)));
+  if (remaining.length === 0) {
+    throw new RecurrenceError("Every session in the series falls on an exception date");
+  }
+  return remaining;
+}
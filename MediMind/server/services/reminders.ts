@@ -0,0 +1,160 @@
+import { storage } from "../storage";
+import { formatDateTime } from "./booking";
+import { notificationManager, type AppointmentDetails, type NotificationChannel } from "./notifications";
+import { REMINDER_CHANNELS, type Appointment, type Patient, type User } from "@shared/schema";
+
+// Minutes before the start at which reminders go out, e.g. "1440,120" for 24h and 2h
+const REMINDER_OFFSETS = parseOffsets(process.env.REMINDER_OFFSETS_MINUTES || "1440,120");
+
+// Channels the hospital sends reminders over; patients can narrow these further
+const ENABLED_CHANNELS = (process.env.REMINDER_CHANNELS || REMINDER_CHANNELS.join(","))
+  .split(",")
+  .map(channel => channel.trim())
+  .filter((channel): channel is NotificationChannel => (REMINDER_CHANNELS as readonly string[]).includes(channel));
+
+// A failed delivery is retried on later runs up to this many attempts in total
+const MAX_ATTEMPTS = 3;
+
+const RUN_INTERVAL_MS = 60 * 1000;
+
+function parseOffsets(value: string): number[] {
+  const offsets = value
+    .split(",")
+    .map(offset => Number(offset.trim()))
+    .filter(offset => Number.isInteger(offset) && offset > 0);
+  return Array.from(new Set(offsets)).sort((a, b) => a - b);
+}
+
+function formatLeadTime(minutes: number): string {
+  if (minutes % 1440 === 0) return minutes === 1440 ? "in 24 hours" : `in ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? "in 1 hour" : `in ${minutes / 60} hours`;
+  return `in ${minutes} minutes`;
+}
+
+// Sends appointment reminders at the configured offsets. Each run looks at every
+// booked appointment inside the largest offset and sends the tightest reminder
+// that has come due, so an appointment booked at short notice gets one reminder
+// rather than all of them at once.
+export class ReminderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.timer || REMINDER_OFFSETS.length === 0) return;
+
+    this.timer = setInterval(() => {
+      this.runDue().catch((error) => console.error("Appointment reminder run failed:", error));
+    }, RUN_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  getOffsets(): number[] {
+    return [...REMINDER_OFFSETS];
+  }
+
+  // Returns the number of reminders delivered
+  async runDue(now: Date = new Date()): Promise<number> {
+    if (REMINDER_OFFSETS.length === 0) return 0;
+
+    const horizon = new Date(now.getTime() + REMINDER_OFFSETS[REMINDER_OFFSETS.length - 1] * 60000);
+    const upcoming = await storage.getUpcomingAppointments(now, horizon);
+
+    let delivered = 0;
+    for (const appointment of upcoming) {
+      const offset = this.dueOffset(appointment, now);
+      if (offset === undefined) continue;
+
+      try {
+        delivered += await this.remind(appointment, offset);
+      } catch (error) {
+        console.error(`Reminder for appointment ${appointment.id} failed:`, error);
+      }
+    }
+    return delivered;
+  }
+
+  // Names the doctor and department for patient-facing messages
+  async describe(appointment: Appointment): Promise<AppointmentDetails> {
+    const doctor = appointment.doctorId ? await storage.getDoctorById(appointment.doctorId) : undefined;
+    const doctorUser = doctor?.userId ? await storage.getUser(doctor.userId) : undefined;
+    const departmentId = appointment.departmentId ?? doctor?.departmentId;
+    const department = departmentId ? await storage.getDepartmentById(departmentId) : undefined;
+
+    const doctorName = [doctorUser?.firstName, doctorUser?.lastName].filter(Boolean).join(" ");
+    return {
+      date: formatDateTime(appointment.appointmentDate),
+      doctor: doctorName ? `Dr. ${doctorName}` : doctor ? `Doctor #${doctor.id}` : "the duty doctor",
+      department: department?.name || doctor?.specialization || "General",
+      reference: `APT-${appointment.id}`,
+    };
+  }
+
+  // The smallest offset whose send time has passed. Offsets that were already due
+  // when the appointment was booked are left to the booking confirmation.
+  private dueOffset(appointment: Appointment, now: Date): number | undefined {
+    const start = appointment.appointmentDate.getTime();
+    const bookedAt = appointment.createdAt?.getTime() ?? 0;
+
+    return REMINDER_OFFSETS.find(offset => {
+      const sendAt = start - offset * 60000;
+      return sendAt <= now.getTime() && sendAt >= bookedAt;
+    });
+  }
+
+  private async remind(appointment: Appointment, offset: number): Promise<number> {
+    const patient = appointment.patientId ? await storage.getPatientById(appointment.patientId) : undefined;
+    if (!patient || patient.remindersOptOut) return 0;
+
+    const user = patient.userId ? await storage.getUser(patient.userId) : undefined;
+    const channels = ENABLED_CHANNELS.filter(channel => !patient.reminderChannels || patient.reminderChannels.includes(channel));
+    if (channels.length === 0) return 0;
+
+    const details = await this.describe(appointment);
+
+    let delivered = 0;
+    for (const channel of channels) {
+      const recipient = this.recipientFor(channel, patient, user);
+      const claimed = await storage.claimAppointmentReminder({
+        appointmentId: appointment.id,
+        appointmentDate: appointment.appointmentDate,
+        offsetMinutes: offset,
+        channel,
+        recipient,
+      }, MAX_ATTEMPTS);
+      // Already sent, or another run has it
+      if (!claimed) continue;
+
+      if (!recipient) {
+        await storage.updateAppointmentReminder(claimed.id, { status: "skipped", error: `No ${channel} contact on file` });
+        continue;
+      }
+
+      try {
+        const sent = await notificationManager.notifyAppointmentReminder(channel, recipient, details, formatLeadTime(offset));
+        await storage.updateAppointmentReminder(claimed.id, sent
+          ? { status: "sent", sentAt: new Date() }
+          : { status: "failed", error: "Rejected by the provider" });
+        if (sent) delivered++;
+      } catch (error) {
+        await storage.updateAppointmentReminder(claimed.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return delivered;
+  }
+
+  private recipientFor(channel: NotificationChannel, patient: Patient, user: User | undefined): string | null {
+    switch (channel) {
+      case "in-app":
+        return patient.userId;
+      case "sms":
+      case "whatsapp":
+        return patient.phoneNumber;
+      case "email":
+        return user?.email ?? null;
+    }
+  }
+}
+
+export const reminderScheduler = new ReminderScheduler();
@@ -0,0 +1,242 @@
+import { storage, type SessionCapacity } from "../storage";
+import { availabilityEngine, AvailabilityError, formatDate } from "./availability";
+import {
+  appointmentBooking,
+  AppointmentTransitionError,
+  APPOINTMENT_POLICY,
+  CONFLICT_MESSAGES,
+  formatDateTime,
+  type AppointmentActor,
+  type BookingConflict,
+  type CancellationReason,
+} from "./booking";
+import { notificationManager } from "./notifications";
+import { expandOccurrences, parseRecurrenceRule } from "./recurrence";
+import { waitlistManager, releasedSlot } from "./waitlist";
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  type Appointment,
+  type AppointmentSeries,
+  type InsertAppointmentSeries,
+} from "@shared/schema";
+
+// One session of a series as it would be booked
+export interface SeriesOccurrence {
+  start: Date;
+  end: Date;
+  departmentId: number | null;
+  roomId: number | null;
+  problem?: string; // why this session cannot be booked
+  conflicts: BookingConflict[];
+  capacity?: SessionCapacity | null;
+}
+
+export interface SeriesBooking {
+  series: AppointmentSeries;
+  appointments: Appointment[];
+  skipped: SeriesOccurrence[];
+}
+
+export class SeriesConflictError extends Error {
+  isOperational = true;
+  statusCode = 409;
+  code = 'SERIES_CONFLICT';
+
+  constructor(public occurrences: SeriesOccurrence[], message?: string) {
+    super(message || `${occurrences.length} session${occurrences.length === 1 ? '' : 's'} of the series cannot be booked`);
+    this.name = 'SeriesConflictError';
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      occurrences: this.occurrences,
+    };
+  }
+}
+
+// Books recurring appointments. Every occurrence is checked against the doctor's
+// schedule and existing bookings before anything is written.
+export class AppointmentSeriesScheduler {
+  async plan(series: InsertAppointmentSeries, now: Date = new Date()): Promise<SeriesOccurrence[]> {
+    const rule = parseRecurrenceRule(series.recurrenceRule);
+    const starts = expandOccurrences(rule, series.firstStart, series.exceptionDates ?? []);
+
+    const occurrences: SeriesOccurrence[] = [];
+    for (const start of starts) {
+      occurrences.push(await this.checkOccurrence(series, start, now));
+    }
+    return occurrences;
+  }
+
+  // Books every occurrence or none. With skipConflicts, sessions that cannot be
+  // booked are left out and recorded as exception dates instead.
+  async create(
+    data: InsertAppointmentSeries,
+    options: { skipConflicts?: boolean } = {},
+    now: Date = new Date()
+  ): Promise<SeriesBooking> {
+    const occurrences = await this.plan(data, now);
+    const blocked = occurrences.filter(occurrence => occurrence.problem);
+    if (blocked.length === occurrences.length) {
+      throw new SeriesConflictError(blocked, "None of the sessions in the series can be booked");
+    }
+    if (blocked.length > 0 && !options.skipConflicts) {
+      throw new SeriesConflictError(blocked);
+    }
+
+    const series = await storage.createAppointmentSeries({
+      ...data,
+      exceptionDates: [...(data.exceptionDates ?? []), ...blocked.map(occurrence => formatDate(occurrence.start))],
+    });
+
+    const created: Appointment[] = [];
+    for (const occurrence of occurrences.filter(candidate => !candidate.problem)) {
+      const appointment = await storage.createAppointmentIfFree({
+        patientId: data.patientId,
+        doctorId: data.doctorId,
+        departmentId: occurrence.departmentId,
+        roomId: occurrence.roomId,
+        appointmentDate: occurrence.start,
+        endsAt: occurrence.end,
+        appointmentType: data.appointmentType,
+        notes: data.notes,
+        seriesId: series.id,
+      }, occurrence.capacity);
+
+      if (!appointment) {
+        // A slot or the last place in its session went between the check and the insert;
+        // back out rather than leave half a series
+        await storage.deleteAppointmentSeries(series.id);
+        const conflicts = await appointmentBooking.findConflicts({
+          patientId: data.patientId,
+          doctorId: data.doctorId,
+          roomId: occurrence.roomId,
+          appointmentDate: occurrence.start,
+          endsAt: occurrence.end,
+        });
+        const problem = conflicts.length > 0
+          ? "Booked by someone else while the series was being created"
+          : "The doctor's session filled up while the series was being created";
+        throw new SeriesConflictError([{ ...occurrence, conflicts, problem }]);
+      }
+      created.push(appointment);
+    }
+
+    const patient = await storage.getPatientById(data.patientId);
+    if (patient?.userId) {
+      await notificationManager.notifyAppointmentSeriesBooked(patient.userId, created.length, formatDateTime(created[0].appointmentDate));
+    }
+
+    return { series, appointments: created, skipped: blocked };
+  }
+
+  async getSeries(id: number): Promise<{ series: AppointmentSeries; appointments: Appointment[] }> {
+    const series = await storage.getAppointmentSeriesById(id);
+    if (!series) {
+      throw new AppointmentTransitionError("Appointment series not found", 404);
+    }
+    return { series, appointments: await storage.getAppointmentsBySeries(id) };
+  }
+
+  // Cancels every scheduled occurrence from the given time on and ends the series.
+  // Occurrences already attended, missed or cancelled are left as they are.
+  async cancelRemaining(
+    id: number,
+    reasonCode: CancellationReason,
+    actor: AppointmentActor,
+    options: { from?: Date; note?: string } = {},
+    now: Date = new Date()
+  ): Promise<{ series: AppointmentSeries; cancelled: Appointment[] }> {
+    const { series, appointments } = await this.getSeries(id);
+    if (series.status === 'cancelled') {
+      throw new AppointmentTransitionError("The series is already cancelled");
+    }
+
+    const from = options.from && options.from > now ? options.from : now;
+    const remaining = appointments.filter(appointment =>
+      (appointment.status || "scheduled") === "scheduled" && appointment.appointmentDate >= from
+    );
+
+    const cancelled: Appointment[] = [];
+    for (const appointment of remaining) {
+      const updated = await storage.transitionAppointment(appointment.id, ["scheduled"], {
+        status: "cancelled",
+        cancellationReason: reasonCode,
+      });
+      // Someone else changed this one in the meantime; leave it to them
+      if (!updated) continue;
+
+      await storage.createAppointmentHistory({
+        appointmentId: appointment.id,
+        action: "cancel",
+        fromStatus: appointment.status,
+        toStatus: updated.status,
+        reasonCode,
+        note: options.note || "Series cancelled",
+        late: appointment.appointmentDate.getTime() - now.getTime() < APPOINTMENT_POLICY.lateCancellationHours * 60 * 60 * 1000,
+        changedBy: actor.userId,
+      });
+      cancelled.push(updated);
+    }
+
+    const ended = await storage.updateAppointmentSeries(id, { status: "cancelled" });
+
+    const patient = await storage.getPatientById(series.patientId);
+    if (patient?.userId && cancelled.length > 0) {
+      await notificationManager.notifyAppointmentSeriesCancelled(patient.userId, cancelled.length, formatDateTime(cancelled[0].appointmentDate));
+    }
+
+    for (const appointment of cancelled) {
+      await waitlistManager.offerSlot(releasedSlot(appointment), now);
+    }
+
+    return { series: ended!, cancelled };
+  }
+
+  private async checkOccurrence(series: InsertAppointmentSeries, start: Date, now: Date): Promise<SeriesOccurrence> {
+    const fallback: SeriesOccurrence = {
+      start,
+      end: new Date(start.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60000),
+      departmentId: series.departmentId ?? null,
+      roomId: null,
+      conflicts: [],
+    };
+
+    let slot;
+    try {
+      slot = await availabilityEngine.findSlot(series.doctorId, start, now);
+    } catch (error) {
+      if (error instanceof AvailabilityError) {
+        return { ...fallback, problem: error.message };
+      }
+      throw error;
+    }
+
+    const occurrence: SeriesOccurrence = {
+      ...fallback,
+      end: slot.end,
+      departmentId: series.departmentId ?? slot.departmentId,
+      roomId: slot.roomId,
+      capacity: slot.capacity,
+    };
+    if (slot.status === "full") {
+      return { ...occurrence, problem: "The doctor's session is fully booked" };
+    }
+
+    const conflicts = await appointmentBooking.findConflicts({
+      patientId: series.patientId,
+      doctorId: series.doctorId,
+      roomId: slot.roomId,
+      appointmentDate: start,
+      endsAt: slot.end,
+    });
+    if (conflicts.length > 0) {
+      return { ...occurrence, conflicts, problem: CONFLICT_MESSAGES[conflicts[0].type] };
+    }
+    return occurrence;
+  }
+}
+
+export const appointmentSeriesScheduler = new AppointmentSeriesScheduler();
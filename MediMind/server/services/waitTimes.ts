@@ -0,0 +1,232 @@
+import { storage } from "../storage";
+import { type QueueToken } from "@shared/schema";
+
+export interface ServiceTimeBucket {
+  key: number | string;
+  sampleSize: number;
+  meanMinutes: number;
+  medianMinutes: number;
+}
+
+export interface DepartmentServiceStats {
+  departmentId: number;
+  departmentName: string;
+  sampleSize: number;
+  meanServiceMinutes: number;
+  medianServiceMinutes: number;
+  p90ServiceMinutes: number;
+  meanWaitMinutes: number;
+  currentEstimateMinutes: number;
+  byHour: ServiceTimeBucket[];
+  byWeekday: ServiceTimeBucket[];
+  byDoctor: ServiceTimeBucket[];
+  byPriority: ServiceTimeBucket[];
+  computedAt: string;
+}
+
+interface ServiceSample {
+  doctorId: number | null;
+  priority: number;
+  hour: number;
+  weekday: number;
+  serviceMinutes: number;
+  waitMinutes: number;
+}
+
+interface SampleCacheEntry {
+  samples: ServiceSample[];
+  loadedAt: number;
+}
+
+const LOOKBACK_DAYS = 30;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// A bucket needs at least this many samples before we trust it over a broader one
+const MIN_SAMPLES = 5;
+// Used until a department has any history at all
+const DEFAULT_SERVICE_MINUTES = 15;
+// Consultations outside this range are almost always tokens closed in bulk or left open overnight
+const MIN_PLAUSIBLE_MINUTES = 1;
+const MAX_PLAUSIBLE_MINUTES = 240;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Estimates queue waits from the called/completed timestamps of past tokens,
+// falling back from the most specific bucket (doctor, weekday, hour) to the department average
+export class WaitTimeEstimator {
+  private cache = new Map<number, SampleCacheEntry>();
+
+  async estimateServiceMinutes(departmentId: number, doctorId?: number | null, at: Date = new Date()): Promise<number> {
+    const samples = await this.getSamples(departmentId);
+    return this.serviceMinutesFor(samples, doctorId ?? null, at);
+  }
+
+  // Expected wait for a patient with `ahead` to be served first, in the order the
+  // department's scheduler calls them. Each token is weighted by how long its
+  // priority class usually takes.
+  async estimateWaitMinutes(
+    departmentId: number,
+    ahead: QueueToken[],
+    options: { doctorId?: number | null; at?: Date } = {}
+  ): Promise<number> {
+    const { doctorId = null, at = new Date() } = options;
+    const samples = await this.getSamples(departmentId);
+    const baseMinutes = this.serviceMinutesFor(samples, doctorId, at);
+    const priorityFactors = this.priorityFactors(samples);
+
+    // A specific doctor's patient only waits behind that doctor's and unassigned tokens
+    const sharing = ahead.filter(token => !doctorId || !token.doctorId || token.doctorId === doctorId);
+
+    const totalMinutes = sharing.reduce(
+      (sum, token) => sum + baseMinutes * (priorityFactors.get(token.priority ?? 1) ?? 1),
+      0
+    );
+
+    // A token for a specific doctor is served by that doctor alone
+    const servers = doctorId ? 1 : await this.countServers(departmentId);
+
+    return Math.round(totalMinutes / servers);
+  }
+
+  async getDepartmentStats(departmentId: number, departmentName: string): Promise<DepartmentServiceStats> {
+    const samples = await this.getSamples(departmentId);
+    const serviceTimes = samples.map(s => s.serviceMinutes);
+    const hasSamples = serviceTimes.length > 0;
+
+    return {
+      departmentId,
+      departmentName,
+      sampleSize: samples.length,
+      meanServiceMinutes: hasSamples ? round(mean(serviceTimes)) : DEFAULT_SERVICE_MINUTES,
+      medianServiceMinutes: hasSamples ? round(percentile(serviceTimes, 0.5)) : DEFAULT_SERVICE_MINUTES,
+      p90ServiceMinutes: hasSamples ? round(percentile(serviceTimes, 0.9)) : DEFAULT_SERVICE_MINUTES,
+      meanWaitMinutes: hasSamples ? round(mean(samples.map(s => s.waitMinutes))) : 0,
+      currentEstimateMinutes: round(this.serviceMinutesFor(samples, null, new Date())),
+      byHour: this.bucketize(samples, s => s.hour),
+      byWeekday: this.bucketize(samples, s => s.weekday),
+      byDoctor: this.bucketize(samples.filter(s => s.doctorId !== null), s => s.doctorId!),
+      byPriority: this.bucketize(samples, s => s.priority),
+      computedAt: new Date().toISOString(),
+    };
+  }
+
+  invalidate(departmentId?: number): void {
+    if (departmentId) {
+      this.cache.delete(departmentId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private serviceMinutesFor(samples: ServiceSample[], doctorId: number | null, at: Date): number {
+    const hour = at.getHours();
+    const weekday = at.getDay();
+
+    // Most specific first; the first bucket with enough history wins
+    const candidates: Array<(s: ServiceSample) => boolean> = [];
+    if (doctorId) {
+      candidates.push(s => s.doctorId === doctorId && s.weekday === weekday && s.hour === hour);
+      candidates.push(s => s.doctorId === doctorId && s.hour === hour);
+      candidates.push(s => s.doctorId === doctorId);
+    }
+    candidates.push(s => s.weekday === weekday && s.hour === hour);
+    candidates.push(s => s.hour === hour);
+    candidates.push(s => s.weekday === weekday);
+    candidates.push(() => true);
+
+    for (const matches of candidates) {
+      const bucket = samples.filter(matches);
+      if (bucket.length >= MIN_SAMPLES) {
+        return percentile(bucket.map(s => s.serviceMinutes), 0.5);
+      }
+    }
+
+    return samples.length > 0
+      ? percentile(samples.map(s => s.serviceMinutes), 0.5)
+      : DEFAULT_SERVICE_MINUTES;
+  }
+
+  // Relative service time per priority class, e.g. emergencies taking 1.6x a normal visit
+  private priorityFactors(samples: ServiceSample[]): Map<number, number> {
+    const factors = new Map<number, number>();
+    if (samples.length < MIN_SAMPLES) return factors;
+
+    const overall = mean(samples.map(s => s.serviceMinutes));
+    for (const priority of [1, 2, 3]) {
+      const bucket = samples.filter(s => s.priority === priority);
+      if (bucket.length >= MIN_SAMPLES) {
+        factors.set(priority, mean(bucket.map(s => s.serviceMinutes)) / overall);
+      }
+    }
+    return factors;
+  }
+
+  private bucketize(samples: ServiceSample[], keyOf: (s: ServiceSample) => number): ServiceTimeBucket[] {
+    const groups = new Map<number, number[]>();
+    for (const sample of samples) {
+      const key = keyOf(sample);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(sample.serviceMinutes);
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([key, values]) => ({
+        key,
+        sampleSize: values.length,
+        meanMinutes: round(mean(values)),
+        medianMinutes: round(percentile(values, 0.5)),
+      }));
+  }
+
+  private async countServers(departmentId: number): Promise<number> {
+    const doctors = await storage.getDoctorsByDepartment(departmentId);
+    return Math.max(1, doctors.length);
+  }
+
+  private async getSamples(departmentId: number): Promise<ServiceSample[]> {
+    const cached = this.cache.get(departmentId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.samples;
+    }
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const tokens = await storage.getServedQueueTokens(since, departmentId);
+
+    const samples: ServiceSample[] = [];
+    for (const token of tokens) {
+      if (!token.createdAt || !token.calledAt || !token.completedAt) continue;
+
+      const calledAt = new Date(token.calledAt);
+      // Prefer the consultation start over the call time when the doctor recorded it
+      const serviceStart = token.startedAt ? new Date(token.startedAt) : calledAt;
+      const serviceMinutes = (new Date(token.completedAt).getTime() - serviceStart.getTime()) / 60000;
+      if (serviceMinutes < MIN_PLAUSIBLE_MINUTES || serviceMinutes > MAX_PLAUSIBLE_MINUTES) continue;
+
+      samples.push({
+        doctorId: token.doctorId,
+        priority: token.priority ?? 1,
+        hour: calledAt.getHours(),
+        weekday: calledAt.getDay(),
+        serviceMinutes,
+        waitMinutes: Math.max(0, (calledAt.getTime() - new Date(token.createdAt).getTime()) / 60000),
+      });
+    }
+
+    this.cache.set(departmentId, { samples, loadedAt: Date.now() });
+    return samples;
+  }
+}
+
+export const waitTimeEstimator = new WaitTimeEstimator();
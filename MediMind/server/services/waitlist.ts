@@ -0,0 +1,260 @@
+import { storage } from "../storage";
+import { appointmentEnd, formatDate } from "./availability";
+import { formatDateTime } from "./booking";
+import { notificationManager } from "./notifications";
+import {
+  WAITLIST_TIME_PREFERENCES,
+  type Appointment,
+  type InsertWaitlistEntry,
+  type WaitlistEntry,
+  type WaitlistOffer,
+} from "@shared/schema";
+
+// A slot that has just become free, e.g. through a cancellation
+export interface ReleasedSlot {
+  doctorId: number | null;
+  departmentId: number | null;
+  roomId: number | null;
+  start: Date;
+  end: Date;
+}
+
+export interface WaitlistEntryWithOffer extends WaitlistEntry {
+  offer: WaitlistOffer | null; // the pending offer, if any
+}
+
+// How long an offered slot is held before it moves to the next patient
+const HOLD_MINUTES = Number(process.env.WAITLIST_HOLD_MINUTES) || 30;
+
+// How often lapsed offers are swept up
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Minutes from midnight covered by each time-of-day preference
+const TIME_WINDOWS: Record<typeof WAITLIST_TIME_PREFERENCES[number], [number, number]> = {
+  any: [0, 24 * 60],
+  morning: [0, 12 * 60],
+  afternoon: [12 * 60, 17 * 60],
+  evening: [17 * 60, 24 * 60],
+};
+
+export function releasedSlot(appointment: Appointment): ReleasedSlot {
+  return {
+    doctorId: appointment.doctorId,
+    departmentId: appointment.departmentId,
+    roomId: appointment.roomId,
+    start: appointment.appointmentDate,
+    end: appointmentEnd(appointment),
+  };
+}
+
+export class WaitlistError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WaitlistError';
+  }
+}
+
+// Offers released slots to waitlisted patients one at a time. The slot is held by
+// an appointment in "held" status until the patient answers or the hold lapses,
+// then it is offered to the next eligible patient.
+export class WaitlistManager {
+  private sweep: NodeJS.Timeout | null = null;
+
+  startExpirySweep(): void {
+    if (this.sweep) return;
+
+    this.sweep = setInterval(() => {
+      this.expireOffers().catch((error) => console.error("Waitlist expiry sweep failed:", error));
+    }, SWEEP_INTERVAL_MS);
+    this.sweep.unref();
+  }
+
+  async join(data: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    if (data.earliestDate && data.latestDate && data.latestDate < data.earliestDate) {
+      throw new WaitlistError("Latest date must not be before the earliest date");
+    }
+
+    const existing = await storage.getWaitlistEntries({ patientId: data.patientId });
+    const duplicate = existing.find(entry =>
+      ['waiting', 'offered'].includes(entry.status || 'waiting') &&
+      (entry.doctorId ?? null) === (data.doctorId ?? null) &&
+      (entry.doctorId || (entry.departmentId ?? null) === (data.departmentId ?? null))
+    );
+    if (duplicate) {
+      throw new WaitlistError("The patient is already on this waitlist", 409);
+    }
+
+    return storage.createWaitlistEntry(data);
+  }
+
+  async getEntries(filters: { patientId?: number; doctorId?: number; departmentId?: number; status?: string }): Promise<WaitlistEntryWithOffer[]> {
+    const entries = await storage.getWaitlistEntries(filters);
+    const offers = await storage.getWaitlistOffersByEntries(entries.map(entry => entry.id));
+
+    return entries.map(entry => ({
+      ...entry,
+      offer: offers.find(offer => offer.entryId === entry.id && offer.status === 'pending') ?? null,
+    }));
+  }
+
+  // Takes the patient off the waitlist, passing any slot held for them to the next patient
+  async remove(entryId: number, now: Date = new Date()): Promise<WaitlistEntry> {
+    const entry = await storage.getWaitlistEntryById(entryId);
+    if (!entry) {
+      throw new WaitlistError("Waitlist entry not found", 404);
+    }
+
+    const [pending] = (await storage.getWaitlistOffersByEntries([entryId])).filter(offer => offer.status === 'pending');
+    if (pending) {
+      await this.release(pending, 'withdrawn', now);
+    }
+
+    const removed = await storage.transitionWaitlistEntry(entryId, ['waiting', 'offered'], { status: 'removed' });
+    if (!removed) {
+      throw new WaitlistError(`Cannot remove an entry that is ${entry.status}`, 409);
+    }
+    return removed;
+  }
+
+  // Offers the slot to the first waiting patient whose preferences it fits. Called
+  // after a cancellation has already succeeded, so failures are logged, not thrown.
+  async offerSlot(slot: ReleasedSlot, now: Date = new Date()): Promise<WaitlistOffer | undefined> {
+    try {
+      if (!slot.doctorId || slot.start <= now) return undefined;
+
+      const [candidates, previousOffers] = await Promise.all([
+        storage.getWaitlistCandidates(slot.doctorId, slot.departmentId),
+        storage.getWaitlistOffersForSlot(slot.doctorId, slot.start),
+      ]);
+      // Nobody is offered the same slot twice
+      const alreadyOffered = new Set(previousOffers.map(offer => offer.entryId));
+
+      for (const entry of candidates) {
+        if (alreadyOffered.has(entry.id) || !this.fits(entry, slot)) continue;
+
+        const busy = await storage.findAppointmentConflicts({ patientId: entry.patientId, start: slot.start, end: slot.end });
+        if (busy.length > 0) continue;
+
+        const offer = await this.makeOffer(entry, slot, now);
+        if (offer !== null) return offer;
+      }
+      return undefined;
+    } catch (error) {
+      console.error("Waitlist backfill failed:", error);
+      return undefined;
+    }
+  }
+
+  async respond(offerId: number, accept: boolean, now: Date = new Date()): Promise<{ offer: WaitlistOffer; appointment?: Appointment }> {
+    const offer = await storage.getWaitlistOfferById(offerId);
+    if (!offer) {
+      throw new WaitlistError("Offer not found", 404);
+    }
+    if (offer.status !== 'pending') {
+      throw new WaitlistError(`This offer was already ${offer.status}`, 409);
+    }
+    if (offer.expiresAt <= now) {
+      await this.release(offer, 'expired', now);
+      throw new WaitlistError("This offer has expired", 410);
+    }
+
+    if (!accept) {
+      const declined = await this.release(offer, 'declined', now);
+      return { offer: declined ?? offer };
+    }
+
+    const appointment = offer.appointmentId
+      ? await storage.transitionAppointment(offer.appointmentId, ['held'], { status: 'scheduled' })
+      : undefined;
+    const accepted = appointment ? await storage.closeWaitlistOffer(offer.id, 'accepted', now) : undefined;
+    if (!appointment || !accepted) {
+      throw new WaitlistError("This offer is no longer available", 409);
+    }
+
+    await storage.transitionWaitlistEntry(offer.entryId, ['offered'], {
+      status: 'booked',
+      bookedAppointmentId: appointment.id,
+    });
+    return { offer: accepted, appointment };
+  }
+
+  async expireOffers(now: Date = new Date()): Promise<number> {
+    const expired = await storage.getExpiredWaitlistOffers(now);
+    for (const offer of expired) {
+      await this.release(offer, 'expired', now);
+    }
+    return expired.length;
+  }
+
+  private fits(entry: WaitlistEntry, slot: ReleasedSlot): boolean {
+    const date = formatDate(slot.start);
+    if (entry.earliestDate && date < entry.earliestDate) return false;
+    if (entry.latestDate && date > entry.latestDate) return false;
+
+    const [from, to] = TIME_WINDOWS[(entry.timeOfDay || 'any') as keyof typeof TIME_WINDOWS] ?? TIME_WINDOWS.any;
+    const minutes = slot.start.getHours() * 60 + slot.start.getMinutes();
+    return minutes >= from && minutes < to;
+  }
+
+  // Holds the slot for the patient. Returns null when the entry was claimed by
+  // another offer first, and undefined when the slot itself has gone.
+  private async makeOffer(entry: WaitlistEntry, slot: ReleasedSlot, now: Date): Promise<WaitlistOffer | null | undefined> {
+    const claimed = await storage.transitionWaitlistEntry(entry.id, ['waiting'], { status: 'offered' });
+    if (!claimed) return null;
+
+    const hold = await storage.createAppointmentIfFree({
+      patientId: entry.patientId,
+      doctorId: slot.doctorId,
+      departmentId: slot.departmentId,
+      roomId: slot.roomId,
+      appointmentDate: slot.start,
+      endsAt: slot.end,
+      appointmentType: entry.appointmentType,
+      notes: entry.notes,
+      status: 'held',
+    });
+    if (!hold) {
+      await storage.transitionWaitlistEntry(entry.id, ['offered'], { status: 'waiting' });
+      return undefined;
+    }
+
+    // A slot starting soon is only held until it starts
+    const holdEnds = new Date(Math.min(now.getTime() + HOLD_MINUTES * 60000, slot.start.getTime()));
+    const offer = await storage.createWaitlistOffer({
+      entryId: entry.id,
+      appointmentId: hold.id,
+      doctorId: slot.doctorId!,
+      slotStart: slot.start,
+      slotEnd: slot.end,
+      expiresAt: holdEnds,
+    });
+
+    const patient = await storage.getPatientById(entry.patientId);
+    if (patient?.userId) {
+      await notificationManager.notifyWaitlistOffer(patient.userId, formatDateTime(slot.start), formatDateTime(holdEnds));
+    }
+    return offer;
+  }
+
+  // Closes the offer, frees the held slot, puts the patient back on the waitlist
+  // and moves the slot on to the next patient
+  private async release(offer: WaitlistOffer, status: 'declined' | 'expired' | 'withdrawn', now: Date): Promise<WaitlistOffer | undefined> {
+    const closed = await storage.closeWaitlistOffer(offer.id, status, now);
+    if (!closed) return undefined;
+
+    const hold = offer.appointmentId ? await storage.getAppointmentById(offer.appointmentId) : undefined;
+    if (offer.appointmentId) {
+      await storage.releaseHeldAppointment(offer.id, offer.appointmentId);
+    }
+    await storage.transitionWaitlistEntry(offer.entryId, ['offered'], { status: 'waiting' });
+
+    if (hold?.status === 'held') {
+      await this.offerSlot(releasedSlot(hold), now);
+    }
+    return closed;
+  }
+}
+
+export const waitlistManager = new WaitlistManager();
@@ -3,11 +3,31 @@ import {
   departments,
   doctors,
   patients,
+  patientIdentifiers,
+  patientIdSequences,
+  patientDuplicateFlags,
+  patientMerges,
+  patientConsents,
+  subscriptions,
+  paymentMethods,
+  insuranceClaims,
   appointments,
+  appointmentHistory,
+  appointmentSeries,
+  waitlistEntries,
+  waitlistOffers,
+  appointmentReminders,
+  calendarFeeds,
   queueTokens,
+  queuePolicies,
+  queueTokenSequences,
+  queueCounters,
+  doctorSchedules,
+  scheduleExceptions,
   medicalRecords,
   labResults,
   imagingStudies,
+  prescriptions,
   medications,
   clinicalNotes,
   vitalSigns,
@@ -15,16 +35,37 @@ import {
   problemList,
   notifications,
   chatHistory,
+  payments,
+  bills,
+  billItems,
+  pharmacyItems,
+  pharmacyGoodsReceipts,
+  pharmacyBatches,
+  pharmacyStockMovements,
   type User,
   type UpsertUser,
   type Department,
   type Doctor,
   type Patient,
+  type PatientIdentifier,
+  type PatientDuplicateFlag,
+  type PatientMerge,
   type Appointment,
+  type AppointmentHistoryEntry,
+  type AppointmentSeries,
+  type WaitlistEntry,
+  type WaitlistOffer,
+  type AppointmentReminder,
+  type CalendarFeed,
   type QueueToken,
+  type QueuePolicy,
+  type QueueCounter,
+  type DoctorSchedule,
+  type ScheduleException,
   type MedicalRecord,
   type LabResult,
   type ImagingStudy,
+  type Prescription,
   type Medication,
   type ClinicalNote,
   type VitalSigns,
@@ -32,24 +73,142 @@ import {
   type Problem,
   type Notification,
   type ChatHistory,
+  type Payment,
+  type Bill,
+  type BillItem,
+  type PharmacyItem,
+  type PharmacyGoodsReceipt,
+  type PharmacyBatch,
+  type PharmacyStockMovement,
+  type InsertPharmacyItem,
+  type GoodsReceipt,
   type InsertDepartment,
   type InsertDoctor,
   type InsertPatient,
+  type InsertPatientIdentifier,
+  type InsertPatientDuplicateFlag,
   type InsertAppointment,
+  type InsertAppointmentHistory,
+  type InsertAppointmentSeries,
+  type InsertWaitlistEntry,
+  type InsertWaitlistOffer,
+  type InsertAppointmentReminder,
   type InsertQueueToken,
+  type InsertQueuePolicy,
+  type InsertQueueCounter,
+  type InsertDoctorSchedule,
+  type InsertScheduleException,
   type InsertMedicalRecord,
   type InsertLabResult,
   type InsertImagingStudy,
+  type InsertPrescription,
+  type PrescriptionItem,
   type InsertMedication,
   type InsertClinicalNote,
+  type UpdateClinicalNoteDraft,
+  type ClinicalNoteAmendment,
   type InsertVitalSigns,
   type InsertAllergy,
   type InsertProblem,
   type InsertNotification,
   type InsertChatHistory,
+  DEFAULT_APPOINTMENT_MINUTES,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, like, count, or } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { eq, ne, desc, and, gte, lt, lte, like, ilike, count, or, isNotNull, isNull, inArray, sql, getTableName, getTableColumns } from "drizzle-orm";
+
+// Who and what an appointment occupies for its duration
+export interface AppointmentSlotClaim {
+  doctorId?: number | null;
+  patientId?: number | null;
+  roomId?: number | null;
+  start: Date;
+  end: Date;
+}
+
+// A schedule session's patient limit, checked under the doctor's lock
+export interface SessionCapacity {
+  start: Date;
+  end: Date;
+  maxPatients: number;
+}
+
+// Advisory lock classes, taken in this order so concurrent bookings cannot deadlock
+const BOOKING_LOCKS = { doctor: 1, patient: 2, room: 3 } as const;
+
+// Tables whose rows follow a patient when duplicate records are merged. Audit and
+// access logs are left pointing at the record they were written against.
+const PATIENT_LINKED_TABLES = [
+  patientIdentifiers,
+  appointmentSeries,
+  appointments,
+  waitlistEntries,
+  queueTokens,
+  medicalRecords,
+  labResults,
+  imagingStudies,
+  prescriptions,
+  medications,
+  clinicalNotes,
+  vitalSigns,
+  allergiesAndReactions,
+  problemList,
+  patientConsents,
+  payments,
+  subscriptions,
+  bills,
+  paymentMethods,
+  insuranceClaims,
+];
+
+// Interaction alerts recorded on a prescription item when it is signed
+export interface PrescriptionItemAlerts {
+  interactions: unknown[];
+  contraindications: unknown[];
+}
+
+// Units taken from one batch for one prescription item when dispensing
+export interface DispenseAllocation {
+  medicationId: number;
+  itemId: number;
+  batchId: number;
+  quantity: number;
+}
+
+// A line on the bill raised for what was dispensed, in cents
+export interface PharmacyCharge {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  serviceCode: string;
+}
+
+// Medication columns a prescriber writes for each prescription item
+const PRESCRIPTION_ITEM_FIELDS = [
+  "medicationName", "genericName", "brandName", "dosage", "frequency", "route",
+  "duration", "quantity", "refills", "instructions", "indication",
+] as const;
+
+// Most rows a duplicate check compares in detail
+const MATCH_CANDIDATE_LIMIT = 50;
+
+// Identifiers a possible duplicate must share at least one of, already normalised
+export interface PatientMatchCriteria {
+  aadhaarDigits?: string;
+  phoneDigits?: string; // last 10 digits
+  dateOfBirth?: string; // YYYY-MM-DD
+  lastName?: string;
+}
+
+// Where a rescheduled appointment moves to
+export interface AppointmentMove {
+  doctorId: number | null;
+  departmentId: number | null;
+  roomId: number | null;
+  appointmentDate: Date;
+  endsAt: Date;
+}
 
 export interface IStorage {
   // User operations - mandatory for Replit Auth
@@ -59,10 +218,12 @@ export interface IStorage {
   
   // Department operations
   getDepartments(): Promise<Department[]>;
+  getDepartmentById(id: number): Promise<Department | undefined>;
   createDepartment(department: InsertDepartment): Promise<Department>;
   
   // Doctor operations
   getDoctors(): Promise<Doctor[]>;
+  getDoctorById(id: number): Promise<Doctor | undefined>;
   getDoctorsByDepartment(departmentId: number): Promise<Doctor[]>;
   createDoctor(doctor: InsertDoctor): Promise<Doctor>;
   
@@ -70,25 +231,172 @@ export interface IStorage {
   getPatients(): Promise<Patient[]>;
   getPatientByUserId(userId: string): Promise<Patient | undefined>;
   getPatientByPatientId(patientId: string): Promise<Patient | undefined>;
+  getPatientsByPhoneNumber(phoneNumber: string): Promise<Patient[]>;
   createPatient(patient: InsertPatient): Promise<Patient>;
   searchPatients(query: string): Promise<Patient[]>;
+  findPatientMatchCandidates(criteria: PatientMatchCriteria, excludeId?: number): Promise<Patient[]>;
+  nextPatientIdSequence(scope: string): Promise<number>;
+
+  // Patient identifier operations
+  getPatientIdentifiers(patientId: number): Promise<PatientIdentifier[]>;
+  getPatientIdentifier(id: number): Promise<PatientIdentifier | undefined>;
+  findPatientIdentifier(type: string, issuer: string, value: string): Promise<PatientIdentifier | undefined>;
+  findPatientIdentifiersByValue(value: string): Promise<PatientIdentifier[]>;
+  createPatientIdentifier(identifier: InsertPatientIdentifier): Promise<PatientIdentifier | undefined>;
+  deletePatientIdentifier(id: number): Promise<void>;
+
+  // Duplicate review and merge operations
+  createPatientDuplicateFlags(flags: InsertPatientDuplicateFlag[]): Promise<void>;
+  getPatientDuplicateFlags(status: string): Promise<PatientDuplicateFlag[]>;
+  getPatientDuplicateFlag(id: number): Promise<PatientDuplicateFlag | undefined>;
+  reviewPatientDuplicateFlag(id: number, status: string, reviewedBy: string): Promise<PatientDuplicateFlag | undefined>;
+  resolvePatientDuplicateFlags(firstId: number, secondId: number, reviewedBy: string): Promise<void>;
+  getPatientMerges(): Promise<PatientMerge[]>;
+  getPatientMerge(id: number): Promise<PatientMerge | undefined>;
+  mergePatients(survivorId: number, mergedId: number, filledFields: string[], mergedBy: string, reason: string): Promise<PatientMerge | undefined>;
+  unmergePatients(merge: PatientMerge, revertedBy: string, reason: string): Promise<PatientMerge | undefined>;
   
   // Appointment operations
   getAppointments(): Promise<Appointment[]>;
   getAppointmentsByPatient(patientId: number): Promise<Appointment[]>;
   getAppointmentsByDoctor(doctorId: number): Promise<Appointment[]>;
+  getAppointmentById(id: number): Promise<Appointment | undefined>;
+  getAppointmentsByPatientsBetween(patientIds: number[], start: Date, end: Date): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointmentStatus(id: number, status: string): Promise<Appointment>;
+  getAppointmentsByDoctorsBetween(doctorIds: number[], start: Date, end: Date): Promise<Appointment[]>;
+  findAppointmentConflicts(slot: AppointmentSlotClaim, excludeId?: number): Promise<Appointment[]>;
+  createAppointmentIfFree(appointment: InsertAppointment, capacity?: SessionCapacity | null): Promise<Appointment | undefined>;
+  moveAppointmentIfFree(id: number, previousDate: Date, slot: AppointmentMove, capacity?: SessionCapacity | null): Promise<Appointment | undefined>;
+  transitionAppointment(id: number, fromStatuses: string[], data: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  getAppointmentHistory(appointmentId: number): Promise<AppointmentHistoryEntry[]>;
+  createAppointmentHistory(entry: InsertAppointmentHistory): Promise<AppointmentHistoryEntry>;
+  getUpcomingAppointments(from: Date, to: Date): Promise<Appointment[]>;
+
+  // Appointment reminder operations
+  getAppointmentReminders(appointmentId: number): Promise<AppointmentReminder[]>;
+  claimAppointmentReminder(reminder: InsertAppointmentReminder, maxAttempts: number): Promise<AppointmentReminder | undefined>;
+  updateAppointmentReminder(id: number, data: Partial<InsertAppointmentReminder>): Promise<AppointmentReminder | undefined>;
+
+  // Calendar feed operations
+  getCalendarFeedByUserId(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  saveCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed>;
+  touchCalendarFeed(id: number, accessedAt: Date): Promise<void>;
+
+  // Appointment series operations
+  getAppointmentSeriesById(id: number): Promise<AppointmentSeries | undefined>;
+  getAppointmentSeriesByPatient(patientId: number): Promise<AppointmentSeries[]>;
+  getAppointmentsBySeries(seriesId: number): Promise<Appointment[]>;
+  createAppointmentSeries(series: InsertAppointmentSeries): Promise<AppointmentSeries>;
+  updateAppointmentSeries(id: number, data: Partial<InsertAppointmentSeries>): Promise<AppointmentSeries | undefined>;
+  deleteAppointmentSeries(id: number): Promise<void>;
+
+  // Waitlist operations
+  getWaitlistEntries(filters: { patientId?: number; doctorId?: number; departmentId?: number; status?: string }): Promise<WaitlistEntry[]>;
+  getWaitlistEntryById(id: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistCandidates(doctorId: number, departmentId: number | null): Promise<WaitlistEntry[]>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  transitionWaitlistEntry(id: number, fromStatuses: string[], data: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined>;
+  getWaitlistOfferById(id: number): Promise<WaitlistOffer | undefined>;
+  getWaitlistOffersByEntries(entryIds: number[]): Promise<WaitlistOffer[]>;
+  getWaitlistOffersForSlot(doctorId: number, slotStart: Date): Promise<WaitlistOffer[]>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]>;
+  createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer>;
+  closeWaitlistOffer(id: number, status: string, respondedAt: Date): Promise<WaitlistOffer | undefined>;
+  releaseHeldAppointment(offerId: number, appointmentId: number): Promise<void>;
+
+  // Doctor schedule operations
+  getDoctorSchedules(doctorIds?: number[]): Promise<DoctorSchedule[]>;
+  getDoctorScheduleById(id: number): Promise<DoctorSchedule | undefined>;
+  createDoctorSchedule(schedule: InsertDoctorSchedule): Promise<DoctorSchedule>;
+  updateDoctorSchedule(id: number, data: Partial<InsertDoctorSchedule>): Promise<DoctorSchedule | undefined>;
+  deleteDoctorSchedule(id: number): Promise<void>;
+  getScheduleExceptions(from: string, to: string, doctorIds?: number[]): Promise<ScheduleException[]>;
+  createScheduleException(exception: InsertScheduleException): Promise<ScheduleException>;
+  deleteScheduleException(id: number): Promise<void>;
   
   // Queue operations
   getQueueTokens(): Promise<QueueToken[]>;
   getActiveQueueByDepartment(departmentId: number): Promise<QueueToken[]>;
+  getLatestCalledTokenByDepartment(departmentId: number): Promise<QueueToken | undefined>;
+  getServedQueueTokens(since: Date, departmentId?: number): Promise<QueueToken[]>;
   createQueueToken(token: InsertQueueToken): Promise<QueueToken>;
   updateQueueTokenStatus(id: number, status: string): Promise<QueueToken>;
+  getQueueTokenById(id: number): Promise<QueueToken | undefined>;
+  getQueueTokenByNumber(tokenNumber: string, departmentId: number, queueDate: string, qrCode?: string): Promise<QueueToken | undefined>;
+  getQueueTokenByAppointment(appointmentId: number): Promise<QueueToken | undefined>;
+  getActiveQueueTokensByPatient(patientId: number, since: Date): Promise<QueueToken[]>;
+  updateQueueToken(id: number, data: Partial<InsertQueueToken>): Promise<QueueToken>;
+  transitionQueueToken(id: number, fromStatuses: string[], data: Partial<InsertQueueToken>): Promise<QueueToken | undefined>;
+  getServingTokensByDepartment(departmentId: number, since: Date): Promise<QueueToken[]>;
+  nextQueueTokenSequence(departmentId: number, queueDate: string): Promise<number>;
+  getQueuePolicy(departmentId: number): Promise<QueuePolicy | undefined>;
+  upsertQueuePolicy(policy: InsertQueuePolicy): Promise<QueuePolicy>;
+  getQueueCounters(departmentId?: number): Promise<QueueCounter[]>;
+  getQueueCounterById(id: number): Promise<QueueCounter | undefined>;
+  createQueueCounter(counter: InsertQueueCounter): Promise<QueueCounter>;
+  updateQueueCounter(id: number, data: Partial<InsertQueueCounter>): Promise<QueueCounter | undefined>;
   
   // Medical records
   getMedicalRecordsByPatient(patientId: number): Promise<MedicalRecord[]>;
   createMedicalRecord(record: InsertMedicalRecord): Promise<MedicalRecord>;
+
+  // EMR entries
+  getLabResultById(id: number): Promise<LabResult | undefined>;
+  updateLabResult(id: number, changes: Partial<InsertLabResult>, fromStatuses?: string[]): Promise<LabResult | undefined>;
+  getImagingStudyById(id: number): Promise<ImagingStudy | undefined>;
+  updateImagingStudy(id: number, changes: Partial<InsertImagingStudy>, fromStatuses?: string[]): Promise<ImagingStudy | undefined>;
+  getMedicationById(id: number): Promise<Medication | undefined>;
+  updateMedication(id: number, changes: Partial<InsertMedication>, fromStatuses?: string[]): Promise<Medication | undefined>;
+  getAllergyById(id: number): Promise<AllergyAndReaction | undefined>;
+  updateAllergy(id: number, changes: Partial<InsertAllergy>, fromStatuses?: string[]): Promise<AllergyAndReaction | undefined>;
+  getProblemById(id: number): Promise<Problem | undefined>;
+  updateProblem(id: number, changes: Partial<InsertProblem>, fromStatuses?: string[]): Promise<Problem | undefined>;
+
+  // Prescriptions
+  getPrescriptionById(id: number): Promise<Prescription | undefined>;
+  getPrescriptionsByPatient(patientId: number): Promise<Prescription[]>;
+  getPrescriptionsByStatus(statuses: string[]): Promise<Prescription[]>;
+  getPrescriptionItems(prescriptionIds: number[]): Promise<Medication[]>;
+  createPrescription(prescription: InsertPrescription, items: PrescriptionItem[]): Promise<Prescription>;
+  updatePrescriptionDraft(id: number, changes: Partial<InsertPrescription>, items?: PrescriptionItem[]): Promise<Prescription | undefined>;
+  signPrescription(id: number, signatureHash: string, itemIds: number[], itemAlerts: Record<number, PrescriptionItemAlerts>): Promise<Prescription | undefined>;
+  updatePrescriptionStatus(id: number, changes: Partial<InsertPrescription>, fromStatuses: string[]): Promise<Prescription | undefined>;
+  cancelPrescription(id: number, cancelledBy: string, reason: string, fromStatuses: string[]): Promise<Prescription | undefined>;
+
+  // Clinical notes
+  getClinicalNotesByPatient(patientId: number): Promise<ClinicalNote[]>;
+  getClinicalNoteById(id: number): Promise<ClinicalNote | undefined>;
+  createClinicalNote(note: InsertClinicalNote): Promise<ClinicalNote>;
+  updateClinicalNoteDraft(id: number, data: UpdateClinicalNoteDraft): Promise<ClinicalNote | undefined>;
+  signClinicalNote(id: number, signedBy: string): Promise<ClinicalNote | undefined>;
+  amendClinicalNote(id: number, amendment: ClinicalNoteAmendment, authorId: string): Promise<ClinicalNote | undefined>;
+  
+  // Payments
+  getPaymentByTransactionId(transactionId: string): Promise<Payment | undefined>;
+
+  // Bills
+  getBillsByPatient(patientId: number): Promise<Bill[]>;
+  getBillItems(billIds: number[]): Promise<BillItem[]>;
+
+  // Pharmacy inventory
+  getPharmacyItems(includeInactive?: boolean): Promise<PharmacyItem[]>;
+  getPharmacyItemById(id: number): Promise<PharmacyItem | undefined>;
+  createPharmacyItem(item: InsertPharmacyItem): Promise<PharmacyItem>;
+  updatePharmacyItem(id: number, changes: Partial<InsertPharmacyItem>): Promise<PharmacyItem | undefined>;
+  getPharmacyBatches(itemIds?: number[]): Promise<PharmacyBatch[]>;
+  getPharmacyBatchById(id: number): Promise<PharmacyBatch | undefined>;
+  getPharmacyStockMovements(filter: { itemId?: number; batchId?: number; limit: number }): Promise<PharmacyStockMovement[]>;
+  receivePharmacyGoods(receipt: Omit<GoodsReceipt, "lines"> & { receivedBy: string }, lines: GoodsReceipt["lines"]): Promise<PharmacyGoodsReceipt>;
+  adjustPharmacyStock(batchId: number, quantity: number, reason: string, notes: string | null, userId: string): Promise<PharmacyBatch | undefined>;
+  dispensePrescription(
+    id: number,
+    fromStatuses: string[],
+    dispensedBy: string,
+    allocations: DispenseAllocation[],
+    bill: { billNumber: string; patientId: number; charges: PharmacyCharge[] } | null,
+  ): Promise<{ prescriptionId: number; billId: number | null } | undefined>;
   
   // Notifications
   getNotificationsByUser(userId: string): Promise<Notification[]>;
@@ -132,6 +440,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(departments).where(eq(departments.isActive, true));
   }
 
+  async getDepartmentById(id: number): Promise<Department | undefined> {
+    const [department] = await db.select().from(departments).where(eq(departments.id, id));
+    return department;
+  }
+
   async createDepartment(department: InsertDepartment): Promise<Department> {
     const [newDept] = await db.insert(departments).values(department).returning();
     return newDept;
@@ -142,6 +455,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(doctors).where(eq(doctors.isAvailable, true));
   }
 
+  async getDoctorById(id: number): Promise<Doctor | undefined> {
+    const [doctor] = await db.select().from(doctors).where(eq(doctors.id, id));
+    return doctor;
+  }
+
   async getDoctorsByDepartment(departmentId: number): Promise<Doctor[]> {
     return await db
       .select()
@@ -161,17 +479,31 @@ export class DatabaseStorage implements IStorage {
 
   // Patient operations
   async getPatients(): Promise<Patient[]> {
-    return await db.select().from(patients).orderBy(desc(patients.createdAt));
+    return await db.select().from(patients).where(isNull(patients.mergedIntoId)).orderBy(desc(patients.createdAt));
   }
 
+  // A login linked to a merged-away record resolves to the surviving one
   async getPatientByUserId(userId: string): Promise<Patient | undefined> {
-    const [patient] = await db.select().from(patients).where(eq(patients.userId, userId));
-    return patient;
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.userId, userId))
+      .orderBy(sql`${patients.mergedIntoId} is not null`);
+    return this.followMerges(patient);
   }
 
+  // Old patient IDs, e.g. on a printed card, keep working after a merge
   async getPatientByPatientId(patientId: string): Promise<Patient | undefined> {
     const [patient] = await db.select().from(patients).where(eq(patients.patientId, patientId));
-    return patient;
+    return this.followMerges(patient);
+  }
+
+  // Several family members may share one phone number
+  async getPatientsByPhoneNumber(phoneNumber: string): Promise<Patient[]> {
+    return await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.phoneNumber, phoneNumber), isNull(patients.mergedIntoId)));
   }
 
   async createPatient(patient: InsertPatient): Promise<Patient> {
@@ -184,16 +516,112 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(patients)
       .where(
-        or(
-          like(patients.patientId, `%${query}%`),
-          like(patients.aadhaarNumber, `%${query}%`),
-          like(patients.phoneNumber, `%${query}%`),
-          like(patients.emergencyContact, `%${query}%`)
+        and(
+          isNull(patients.mergedIntoId),
+          or(
+            like(patients.patientId, `%${query}%`),
+            inArray(
+              patients.id,
+              db.select({ patientId: patientIdentifiers.patientId })
+                .from(patientIdentifiers)
+                .where(eq(patientIdentifiers.value, query.replace(/[\s-]/g, "").toUpperCase()))
+            ),
+            ilike(patients.firstName, `%${query}%`),
+            ilike(patients.lastName, `%${query}%`),
+            like(patients.aadhaarNumber, `%${query}%`),
+            like(patients.phoneNumber, `%${query}%`),
+            like(patients.emergencyContact, `%${query}%`)
+          )
         )
       )
       .orderBy(desc(patients.createdAt));
   }
 
+  // Live records sharing any identifier with the criteria; scoring is left to the caller
+  async findPatientMatchCandidates(criteria: PatientMatchCriteria, excludeId?: number): Promise<Patient[]> {
+    const shared = [
+      criteria.aadhaarDigits ? sql`regexp_replace(${patients.aadhaarNumber}, '[^0-9]', '', 'g') = ${criteria.aadhaarDigits}` : undefined,
+      criteria.phoneDigits ? sql`right(regexp_replace(${patients.phoneNumber}, '[^0-9]', '', 'g'), 10) = ${criteria.phoneDigits}` : undefined,
+      criteria.dateOfBirth ? sql`${patients.dateOfBirth}::date = ${criteria.dateOfBirth}::date` : undefined,
+      criteria.lastName ? sql`lower(${patients.lastName}) = ${criteria.lastName.toLowerCase()}` : undefined,
+    ].filter((condition) => condition !== undefined);
+    if (shared.length === 0) return [];
+
+    return await db
+      .select()
+      .from(patients)
+      .where(
+        and(
+          isNull(patients.mergedIntoId),
+          excludeId ? ne(patients.id, excludeId) : undefined,
+          or(...shared)
+        )
+      )
+      .orderBy(desc(patients.createdAt))
+      .limit(MATCH_CANDIDATE_LIMIT);
+  }
+
+  async nextPatientIdSequence(scope: string): Promise<number> {
+    const [row] = await db
+      .insert(patientIdSequences)
+      .values({ scope, lastSequence: 1 })
+      .onConflictDoUpdate({
+        target: patientIdSequences.scope,
+        set: {
+          lastSequence: sql`${patientIdSequences.lastSequence} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ lastSequence: patientIdSequences.lastSequence });
+    return row.lastSequence;
+  }
+
+  // Patient identifier operations
+  async getPatientIdentifiers(patientId: number): Promise<PatientIdentifier[]> {
+    return await db
+      .select()
+      .from(patientIdentifiers)
+      .where(eq(patientIdentifiers.patientId, patientId))
+      .orderBy(patientIdentifiers.type, patientIdentifiers.createdAt);
+  }
+
+  async getPatientIdentifier(id: number): Promise<PatientIdentifier | undefined> {
+    const [identifier] = await db.select().from(patientIdentifiers).where(eq(patientIdentifiers.id, id));
+    return identifier;
+  }
+
+  async findPatientIdentifier(type: string, issuer: string, value: string): Promise<PatientIdentifier | undefined> {
+    const [identifier] = await db
+      .select()
+      .from(patientIdentifiers)
+      .where(
+        and(
+          eq(patientIdentifiers.type, type),
+          eq(patientIdentifiers.issuer, issuer),
+          eq(patientIdentifiers.value, value)
+        )
+      );
+    return identifier;
+  }
+
+  async findPatientIdentifiersByValue(value: string): Promise<PatientIdentifier[]> {
+    return await db.select().from(patientIdentifiers).where(eq(patientIdentifiers.value, value));
+  }
+
+  // Returns undefined if the identifier is already recorded, for this or another patient
+  async createPatientIdentifier(identifier: InsertPatientIdentifier): Promise<PatientIdentifier | undefined> {
+    const [created] = await db
+      .insert(patientIdentifiers)
+      .values(identifier)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async deletePatientIdentifier(id: number): Promise<void> {
+    await db.delete(patientIdentifiers).where(eq(patientIdentifiers.id, id));
+  }
+
   async updatePatient(id: number, patientData: Partial<InsertPatient>): Promise<Patient> {
     const [updatedPatient] = await db
       .update(patients)
@@ -212,6 +640,154 @@ export class DatabaseStorage implements IStorage {
     return patient;
   }
 
+  private async followMerges(patient: Patient | undefined): Promise<Patient | undefined> {
+    // Survivors cannot themselves be merged while a merge into them stands, but
+    // older merges may have been chained before that; stop at a few hops
+    for (let hops = 0; patient?.mergedIntoId && hops < 5; hops++) {
+      patient = await this.getPatientById(patient.mergedIntoId);
+    }
+    return patient;
+  }
+
+  // Duplicate review and merge operations
+  async createPatientDuplicateFlags(flags: InsertPatientDuplicateFlag[]): Promise<void> {
+    if (flags.length === 0) return;
+    await db.insert(patientDuplicateFlags).values(flags).onConflictDoNothing();
+  }
+
+  async getPatientDuplicateFlags(status: string): Promise<PatientDuplicateFlag[]> {
+    return await db
+      .select()
+      .from(patientDuplicateFlags)
+      .where(eq(patientDuplicateFlags.status, status))
+      .orderBy(desc(patientDuplicateFlags.score), desc(patientDuplicateFlags.createdAt));
+  }
+
+  async getPatientDuplicateFlag(id: number): Promise<PatientDuplicateFlag | undefined> {
+    const [flag] = await db.select().from(patientDuplicateFlags).where(eq(patientDuplicateFlags.id, id));
+    return flag;
+  }
+
+  // Only open flags can be reviewed, so two admins cannot both act on one
+  async reviewPatientDuplicateFlag(id: number, status: string, reviewedBy: string): Promise<PatientDuplicateFlag | undefined> {
+    const [flag] = await db
+      .update(patientDuplicateFlags)
+      .set({ status, reviewedBy, reviewedAt: new Date() })
+      .where(and(eq(patientDuplicateFlags.id, id), eq(patientDuplicateFlags.status, "open")))
+      .returning();
+    return flag;
+  }
+
+  // Closes every open flag between two records once they have been merged
+  async resolvePatientDuplicateFlags(firstId: number, secondId: number, reviewedBy: string): Promise<void> {
+    await db
+      .update(patientDuplicateFlags)
+      .set({ status: "merged", reviewedBy, reviewedAt: new Date() })
+      .where(
+        and(
+          eq(patientDuplicateFlags.status, "open"),
+          or(
+            and(eq(patientDuplicateFlags.patientId, firstId), eq(patientDuplicateFlags.candidateId, secondId)),
+            and(eq(patientDuplicateFlags.patientId, secondId), eq(patientDuplicateFlags.candidateId, firstId))
+          )
+        )
+      );
+  }
+
+  async getPatientMerges(): Promise<PatientMerge[]> {
+    return await db.select().from(patientMerges).orderBy(desc(patientMerges.mergedAt));
+  }
+
+  async getPatientMerge(id: number): Promise<PatientMerge | undefined> {
+    const [merge] = await db.select().from(patientMerges).where(eq(patientMerges.id, id));
+    return merge;
+  }
+
+  // Marks the duplicate as merged, fills the survivor's empty fields from it, re-points
+  // every linked row and records what moved, all in one statement. Returns undefined
+  // if either record was merged away in the meantime.
+  async mergePatients(survivorId: number, mergedId: number, filledFields: string[], mergedBy: string, reason: string): Promise<PatientMerge | undefined> {
+    const columns = this.patientColumnNames(filledFields);
+    const fill = columns.length > 0 ? sql`,
+      filled as (
+        update patients survivor set ${sql.join(columns.map((column) => sql`${column} = coalesce(survivor.${column}, duplicate.${column})`), sql`, `)}
+        from patients duplicate
+        where survivor.id = ${survivorId} and duplicate.id = ${mergedId} and exists (select 1 from marked)
+        returning survivor.id
+      )` : sql``;
+    const moves = PATIENT_LINKED_TABLES.map((table, index) => sql`,
+      ${sql.raw(`moved_${index}`)} as (
+        update ${table} set patient_id = ${survivorId}
+        where patient_id = ${mergedId} and exists (select 1 from marked)
+        returning id
+      )`);
+    const movedRows = sql.join(PATIENT_LINKED_TABLES.map((table, index) =>
+      sql`${getTableName(table)}::text, (select coalesce(jsonb_agg(id order by id), '[]'::jsonb) from ${sql.raw(`moved_${index}`)})`
+    ), sql`, `);
+
+    const result = await db.execute<{ id: number }>(sql`
+      with marked as (
+        update patients set merged_into_id = ${survivorId}, merged_at = now()
+        where id = ${mergedId} and merged_into_id is null
+          and exists (select 1 from patients survivor where survivor.id = ${survivorId} and survivor.merged_into_id is null)
+        returning id
+      )${fill}${sql.join(moves, sql``)}
+      insert into patient_merges (survivor_id, merged_id, status, reason, moved_rows, filled_fields, merged_by)
+      select ${survivorId}::int, ${mergedId}::int, 'merged', ${reason}, jsonb_build_object(${movedRows}), ${JSON.stringify(filledFields)}::jsonb, ${mergedBy}
+      from marked
+      returning id
+    `);
+    const [created] = result.rows;
+    return created ? this.getPatientMerge(created.id) : undefined;
+  }
+
+  // Moves the recorded rows back and clears survivor fields that still hold what the
+  // merge copied in. Rows added to the survivor since the merge stay with it. Returns
+  // undefined if the merge was already undone or the survivor has since been merged.
+  async unmergePatients(merge: PatientMerge, revertedBy: string, reason: string): Promise<PatientMerge | undefined> {
+    const columns = this.patientColumnNames(merge.filledFields ?? []);
+    const clear = columns.length > 0 ? sql`,
+      cleared as (
+        update patients survivor set ${sql.join(columns.map((column) => sql`${column} = case when survivor.${column} is not distinct from duplicate.${column} then null else survivor.${column} end`), sql`, `)}
+        from patients duplicate
+        where survivor.id = ${merge.survivorId} and duplicate.id = ${merge.mergedId} and exists (select 1 from reverted)
+        returning survivor.id
+      )` : sql``;
+    const moves = PATIENT_LINKED_TABLES.map((table, index) => sql`,
+      ${sql.raw(`moved_${index}`)} as (
+        update ${table} set patient_id = ${merge.mergedId}
+        where patient_id = ${merge.survivorId}
+          and id in (select jsonb_array_elements_text(coalesce(moved_rows -> ${getTableName(table)}::text, '[]'::jsonb))::int from patient_merges where id = ${merge.id})
+          and exists (select 1 from reverted)
+        returning id
+      )`);
+
+    const result = await db.execute<{ id: number }>(sql`
+      with reverted as (
+        update patient_merges set status = 'reverted', reverted_by = ${revertedBy}, reverted_at = now(), revert_reason = ${reason}
+        where id = ${merge.id} and status = 'merged'
+          and exists (select 1 from patients survivor where survivor.id = ${merge.survivorId} and survivor.merged_into_id is null)
+        returning id
+      ),
+      unmarked as (
+        update patients set merged_into_id = null, merged_at = null
+        where id = ${merge.mergedId} and merged_into_id = ${merge.survivorId} and exists (select 1 from reverted)
+        returning id
+      )${clear}${sql.join(moves, sql``)}
+      select id from reverted
+    `);
+    const [reverted] = result.rows;
+    return reverted ? this.getPatientMerge(reverted.id) : undefined;
+  }
+
+  // Quoted column names for patients fields, skipping anything that is not a column
+  private patientColumnNames(fields: string[]) {
+    const columns = getTableColumns(patients);
+    return fields
+      .filter((field): field is keyof typeof columns => field in columns)
+      .map((field) => sql.identifier(columns[field].name));
+  }
+
   async getPatientStatistics(): Promise<{
     totalPatients: number;
     newThisMonth: number;
@@ -226,12 +802,13 @@ export class DatabaseStorage implements IStorage {
 
     const [totalPatients] = await db
       .select({ count: count() })
-      .from(patients);
+      .from(patients)
+      .where(isNull(patients.mergedIntoId));
 
     const [newThisMonth] = await db
       .select({ count: count() })
       .from(patients)
-      .where(gte(patients.createdAt, startOfMonth));
+      .where(and(gte(patients.createdAt, startOfMonth), isNull(patients.mergedIntoId)));
 
     const [activeCases] = await db
       .select({ count: count() })
@@ -296,6 +873,26 @@ export class DatabaseStorage implements IStorage {
       .orderBy(appointments.appointmentDate);
   }
 
+  async getAppointmentById(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async getAppointmentsByPatientsBetween(patientIds: number[], start: Date, end: Date): Promise<Appointment[]> {
+    if (patientIds.length === 0) return [];
+    return await db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          inArray(appointments.patientId, patientIds),
+          gte(appointments.appointmentDate, start),
+          lte(appointments.appointmentDate, end)
+        )
+      )
+      .orderBy(appointments.appointmentDate);
+  }
+
   async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
     const [newAppointment] = await db.insert(appointments).values(appointment).returning();
     return newAppointment;
@@ -310,124 +907,1003 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  // Queue operations
-  async getQueueTokens(): Promise<QueueToken[]> {
-    return await db.select().from(queueTokens).orderBy(desc(queueTokens.createdAt));
+  // Appointments that still hold their slot
+  async getAppointmentsByDoctorsBetween(doctorIds: number[], start: Date, end: Date): Promise<Appointment[]> {
+    if (doctorIds.length === 0) return [];
+    return await db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          inArray(appointments.doctorId, doctorIds),
+          gte(appointments.appointmentDate, start),
+          lte(appointments.appointmentDate, end),
+          sql`coalesce(${appointments.status}, 'scheduled') not in ('cancelled', 'no-show')`
+        )
+      )
+      .orderBy(appointments.appointmentDate);
   }
 
-  async getActiveQueueByDepartment(departmentId: number): Promise<QueueToken[]> {
+  // Live appointments overlapping the slot that share its doctor, patient or room
+  async findAppointmentConflicts(slot: AppointmentSlotClaim, excludeId?: number): Promise<Appointment[]> {
+    const parties = [
+      slot.doctorId ? eq(appointments.doctorId, slot.doctorId) : undefined,
+      slot.patientId ? eq(appointments.patientId, slot.patientId) : undefined,
+      slot.roomId ? eq(appointments.roomId, slot.roomId) : undefined,
+    ].filter(Boolean);
+    if (parties.length === 0) return [];
+
     return await db
       .select()
-      .from(queueTokens)
+      .from(appointments)
       .where(
         and(
-          eq(queueTokens.departmentId, departmentId),
-          eq(queueTokens.status, "waiting")
+          or(...parties),
+          sql`coalesce(${appointments.status}, 'scheduled') not in ('cancelled', 'no-show')`,
+          sql`${appointments.appointmentDate} < ${slot.end.toISOString()}::timestamp`,
+          sql`coalesce(${appointments.endsAt}, ${appointments.appointmentDate} + make_interval(mins => ${DEFAULT_APPOINTMENT_MINUTES})) > ${slot.start.toISOString()}::timestamp`,
+          excludeId ? sql`${appointments.id} <> ${excludeId}` : undefined
         )
       )
-      .orderBy(queueTokens.priority, queueTokens.createdAt);
+      .orderBy(appointments.appointmentDate);
   }
 
-  async createQueueToken(token: InsertQueueToken): Promise<QueueToken> {
-    const [newToken] = await db.insert(queueTokens).values(token).returning();
-    return newToken;
+  // Books only if nothing overlaps for the doctor, patient or room and the session
+  // has room left. The locks and the guarded insert run as one transaction, so two
+  // desks racing for a slot cannot both win.
+  async createAppointmentIfFree(appointment: InsertAppointment, capacity?: SessionCapacity | null): Promise<Appointment | undefined> {
+    const start = appointment.appointmentDate;
+    const end = appointment.endsAt ?? new Date(start.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60000);
+    const doctorId = appointment.doctorId ?? null;
+    const patientId = appointment.patientId ?? null;
+    const roomId = appointment.roomId ?? null;
+
+    const insert = db.execute<{ id: number }>(sql`
+      insert into appointments
+        (patient_id, doctor_id, department_id, room_id, appointment_date, ends_at, appointment_type, status, notes, symptoms, series_id)
+      select
+        ${patientId}::int, ${doctorId}::int, ${appointment.departmentId ?? null}::int, ${roomId}::int,
+        ${start.toISOString()}::timestamp, ${end.toISOString()}::timestamp,
+        ${appointment.appointmentType ?? 'consultation'}, ${appointment.status ?? 'scheduled'},
+        ${appointment.notes ?? null}, ${appointment.symptoms ?? null}, ${appointment.seriesId ?? null}::int
+      where not exists (${this.overlappingAppointments({ doctorId, patientId, roomId, start, end })})
+        ${this.sessionHasRoom(doctorId, capacity)}
+      returning id
+    `);
+
+    const results = await db.batch(this.lockedBatch({ doctorId, patientId, roomId }, insert));
+    const [inserted] = (results[results.length - 1] as { rows: { id: number }[] }).rows;
+    return inserted ? this.getAppointmentById(inserted.id) : undefined;
   }
 
-  async updateQueueTokenStatus(id: number, status: string): Promise<QueueToken> {
-    const updateData: any = { status };
-    if (status === "called") {
-      updateData.calledAt = new Date();
-    } else if (status === "completed") {
-      updateData.completedAt = new Date();
-    }
+  // Moves a scheduled appointment to a new slot under the same locks as booking. Returns
+  // undefined if the slot was taken or the appointment changed since it was read.
+  async moveAppointmentIfFree(id: number, previousDate: Date, slot: AppointmentMove, capacity?: SessionCapacity | null): Promise<Appointment | undefined> {
+    const current = await this.getAppointmentById(id);
+    if (!current) return undefined;
+
+    const claim: AppointmentSlotClaim = {
+      doctorId: slot.doctorId,
+      patientId: current.patientId,
+      roomId: slot.roomId,
+      start: slot.appointmentDate,
+      end: slot.endsAt,
+    };
+    const update = db.execute<{ id: number }>(sql`
+      update appointments set
+        doctor_id = ${slot.doctorId}::int,
+        department_id = ${slot.departmentId}::int,
+        room_id = ${slot.roomId}::int,
+        appointment_date = ${slot.appointmentDate.toISOString()}::timestamp,
+        ends_at = ${slot.endsAt.toISOString()}::timestamp,
+        reschedule_count = coalesce(reschedule_count, 0) + 1,
+        updated_at = now()
+      where id = ${id}
+        and coalesce(status, 'scheduled') = 'scheduled'
+        and appointment_date = ${previousDate.toISOString()}::timestamp
+        and not exists (${this.overlappingAppointments(claim, id)})
+        ${this.sessionHasRoom(slot.doctorId, capacity, id)}
+      returning id
+    `);
 
+    const results = await db.batch(this.lockedBatch(claim, update));
+    const [moved] = (results[results.length - 1] as { rows: { id: number }[] }).rows;
+    return moved ? this.getAppointmentById(moved.id) : undefined;
+  }
+
+  // Changes the appointment only while it is still in one of the expected states,
+  // so two people acting on the same appointment cannot both succeed
+  async transitionAppointment(id: number, fromStatuses: string[], data: Partial<InsertAppointment>): Promise<Appointment | undefined> {
     const [updated] = await db
-      .update(queueTokens)
-      .set(updateData)
-      .where(eq(queueTokens.id, id))
+      .update(appointments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(appointments.id, id),
+          inArray(sql`coalesce(${appointments.status}, 'scheduled')`, fromStatuses)
+        )
+      )
       .returning();
     return updated;
   }
 
-  // Medical records
-  async getMedicalRecordsByPatient(patientId: number): Promise<MedicalRecord[]> {
+  async getAppointmentHistory(appointmentId: number): Promise<AppointmentHistoryEntry[]> {
     return await db
       .select()
-      .from(medicalRecords)
-      .where(eq(medicalRecords.patientId, patientId))
-      .orderBy(desc(medicalRecords.createdAt));
+      .from(appointmentHistory)
+      .where(eq(appointmentHistory.appointmentId, appointmentId))
+      .orderBy(appointmentHistory.createdAt, appointmentHistory.id);
   }
 
-  async getAllMedicalRecords(): Promise<MedicalRecord[]> {
-    return await db
-      .select()
-      .from(medicalRecords)
-      .orderBy(desc(medicalRecords.createdAt));
+  async createAppointmentHistory(entry: InsertAppointmentHistory): Promise<AppointmentHistoryEntry> {
+    const [newEntry] = await db.insert(appointmentHistory).values(entry).returning();
+    return newEntry;
   }
 
-  async createMedicalRecord(record: InsertMedicalRecord): Promise<MedicalRecord> {
-    const [newRecord] = await db.insert(medicalRecords).values(record).returning();
-    return newRecord;
+  // Booked appointments starting in [from, to), soonest first
+  async getUpcomingAppointments(from: Date, to: Date): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          gte(appointments.appointmentDate, from),
+          lt(appointments.appointmentDate, to),
+          sql`coalesce(${appointments.status}, 'scheduled') in ('scheduled', 'confirmed')`
+        )
+      )
+      .orderBy(appointments.appointmentDate);
   }
 
-  // Lab Results
-  async getLabResultsByPatient(patientId: number): Promise<LabResult[]> {
+  // Appointment reminder operations
+  async getAppointmentReminders(appointmentId: number): Promise<AppointmentReminder[]> {
     return await db
       .select()
-      .from(labResults)
-      .where(eq(labResults.patientId, patientId))
-      .orderBy(desc(labResults.createdAt));
+      .from(appointmentReminders)
+      .where(eq(appointmentReminders.appointmentId, appointmentId))
+      .orderBy(appointmentReminders.createdAt, appointmentReminders.id);
   }
 
-  async createLabResult(labResult: InsertLabResult): Promise<LabResult> {
-    const [newResult] = await db.insert(labResults).values(labResult).returning();
-    return newResult;
+  // Claims the right to send a reminder. Undefined when it has already been sent,
+  // is being sent by someone else, or has failed too often to retry.
+  async claimAppointmentReminder(reminder: InsertAppointmentReminder, maxAttempts: number): Promise<AppointmentReminder | undefined> {
+    const [claimed] = await db
+      .insert(appointmentReminders)
+      .values({ ...reminder, status: "sending", attempts: 1 })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed) return claimed;
+
+    const [retried] = await db
+      .update(appointmentReminders)
+      .set({ status: "sending", error: null, attempts: sql`${appointmentReminders.attempts} + 1` })
+      .where(
+        and(
+          eq(appointmentReminders.appointmentId, reminder.appointmentId),
+          eq(appointmentReminders.appointmentDate, reminder.appointmentDate),
+          eq(appointmentReminders.offsetMinutes, reminder.offsetMinutes),
+          eq(appointmentReminders.channel, reminder.channel),
+          eq(appointmentReminders.status, "failed"),
+          lt(appointmentReminders.attempts, maxAttempts)
+        )
+      )
+      .returning();
+    return retried;
   }
 
-  // Imaging Studies
-  async getImagingStudiesByPatient(patientId: number): Promise<ImagingStudy[]> {
-    return await db
-      .select()
-      .from(imagingStudies)
-      .where(eq(imagingStudies.patientId, patientId))
-      .orderBy(desc(imagingStudies.createdAt));
+  async updateAppointmentReminder(id: number, data: Partial<InsertAppointmentReminder>): Promise<AppointmentReminder | undefined> {
+    const [updated] = await db
+      .update(appointmentReminders)
+      .set(data)
+      .where(eq(appointmentReminders.id, id))
+      .returning();
+    return updated;
   }
 
-  async createImagingStudy(study: InsertImagingStudy): Promise<ImagingStudy> {
-    const [newStudy] = await db.insert(imagingStudies).values(study).returning();
-    return newStudy;
+  // Calendar feed operations
+  async getCalendarFeedByUserId(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
   }
 
-  // Medications
-  async getMedicationsByPatient(patientId: number): Promise<Medication[]> {
-    return await db
-      .select()
-      .from(medications)
-      .where(eq(medications.patientId, patientId))
-      .orderBy(desc(medications.createdAt));
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
   }
 
-  async createMedication(medication: InsertMedication): Promise<Medication> {
-    const [newMedication] = await db.insert(medications).values(medication).returning();
-    return newMedication;
+  // Creates the user's feed, or replaces its token so the old URL stops working
+  async saveCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed> {
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { token, lastAccessedAt: null, createdAt: new Date() },
+      })
+      .returning();
+    return feed;
   }
 
-  // Clinical Notes
-  async getClinicalNotesByPatient(patientId: number): Promise<ClinicalNote[]> {
-    return await db
-      .select()
-      .from(clinicalNotes)
-      .where(eq(clinicalNotes.patientId, patientId))
-      .orderBy(desc(clinicalNotes.createdAt));
+  async touchCalendarFeed(id: number, accessedAt: Date): Promise<void> {
+    await db.update(calendarFeeds).set({ lastAccessedAt: accessedAt }).where(eq(calendarFeeds.id, id));
   }
 
-  async createClinicalNote(note: InsertClinicalNote): Promise<ClinicalNote> {
-    const [newNote] = await db.insert(clinicalNotes).values(note).returning();
-    return newNote;
+  // Appointment series operations
+  async getAppointmentSeriesById(id: number): Promise<AppointmentSeries | undefined> {
+    const [series] = await db.select().from(appointmentSeries).where(eq(appointmentSeries.id, id));
+    return series;
   }
 
-  // Vital Signs
-  async getVitalSignsByPatient(patientId: number): Promise<VitalSigns[]> {
+  async getAppointmentSeriesByPatient(patientId: number): Promise<AppointmentSeries[]> {
+    return await db
+      .select()
+      .from(appointmentSeries)
+      .where(eq(appointmentSeries.patientId, patientId))
+      .orderBy(desc(appointmentSeries.firstStart));
+  }
+
+  async getAppointmentsBySeries(seriesId: number): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.seriesId, seriesId))
+      .orderBy(appointments.appointmentDate);
+  }
+
+  async createAppointmentSeries(series: InsertAppointmentSeries): Promise<AppointmentSeries> {
+    const [newSeries] = await db.insert(appointmentSeries).values(series).returning();
+    return newSeries;
+  }
+
+  async updateAppointmentSeries(id: number, data: Partial<InsertAppointmentSeries>): Promise<AppointmentSeries | undefined> {
+    const [updated] = await db
+      .update(appointmentSeries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(appointmentSeries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Removes a series and its occurrences, for backing out a booking that failed part way
+  async deleteAppointmentSeries(id: number): Promise<void> {
+    await db.batch([
+      db.delete(appointments).where(eq(appointments.seriesId, id)),
+      db.delete(appointmentSeries).where(eq(appointmentSeries.id, id)),
+    ]);
+  }
+
+  // Waitlist operations
+  async getWaitlistEntries(filters: { patientId?: number; doctorId?: number; departmentId?: number; status?: string }): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          filters.patientId ? eq(waitlistEntries.patientId, filters.patientId) : undefined,
+          filters.doctorId ? eq(waitlistEntries.doctorId, filters.doctorId) : undefined,
+          filters.departmentId ? eq(waitlistEntries.departmentId, filters.departmentId) : undefined,
+          filters.status ? eq(waitlistEntries.status, filters.status) : undefined
+        )
+      )
+      .orderBy(waitlistEntries.createdAt);
+  }
+
+  async getWaitlistEntryById(id: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  // Waiting entries for the doctor, or for anyone in the doctor's department, oldest first
+  async getWaitlistCandidates(doctorId: number, departmentId: number | null): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.status, "waiting"),
+          or(
+            eq(waitlistEntries.doctorId, doctorId),
+            departmentId
+              ? and(isNull(waitlistEntries.doctorId), eq(waitlistEntries.departmentId, departmentId))
+              : undefined
+          )
+        )
+      )
+      .orderBy(waitlistEntries.createdAt, waitlistEntries.id);
+  }
+
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [newEntry] = await db.insert(waitlistEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async transitionWaitlistEntry(id: number, fromStatuses: string[], data: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.id, id), inArray(waitlistEntries.status, fromStatuses)))
+      .returning();
+    return updated;
+  }
+
+  async getWaitlistOfferById(id: number): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.select().from(waitlistOffers).where(eq(waitlistOffers.id, id));
+    return offer;
+  }
+
+  async getWaitlistOffersByEntries(entryIds: number[]): Promise<WaitlistOffer[]> {
+    if (entryIds.length === 0) return [];
+    return await db
+      .select()
+      .from(waitlistOffers)
+      .where(inArray(waitlistOffers.entryId, entryIds))
+      .orderBy(desc(waitlistOffers.createdAt));
+  }
+
+  async getWaitlistOffersForSlot(doctorId: number, slotStart: Date): Promise<WaitlistOffer[]> {
+    return await db
+      .select()
+      .from(waitlistOffers)
+      .where(and(eq(waitlistOffers.doctorId, doctorId), eq(waitlistOffers.slotStart, slotStart)));
+  }
+
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]> {
+    return await db
+      .select()
+      .from(waitlistOffers)
+      .where(and(eq(waitlistOffers.status, "pending"), lte(waitlistOffers.expiresAt, now)));
+  }
+
+  async createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const [newOffer] = await db.insert(waitlistOffers).values(offer).returning();
+    return newOffer;
+  }
+
+  // Closes a pending offer; undefined if it was already answered or expired
+  async closeWaitlistOffer(id: number, status: string, respondedAt: Date): Promise<WaitlistOffer | undefined> {
+    const [updated] = await db
+      .update(waitlistOffers)
+      .set({ status, respondedAt })
+      .where(and(eq(waitlistOffers.id, id), eq(waitlistOffers.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  // Drops the placeholder appointment that held an offered slot
+  async releaseHeldAppointment(offerId: number, appointmentId: number): Promise<void> {
+    await db.batch([
+      db.update(waitlistOffers).set({ appointmentId: null }).where(eq(waitlistOffers.id, offerId)),
+      db.delete(appointments).where(and(eq(appointments.id, appointmentId), eq(appointments.status, "held"))),
+    ]);
+  }
+
+  private bookingLocks(claim: Omit<AppointmentSlotClaim, "start" | "end">) {
+    return ([
+      [BOOKING_LOCKS.doctor, claim.doctorId ?? null],
+      [BOOKING_LOCKS.patient, claim.patientId ?? null],
+      [BOOKING_LOCKS.room, claim.roomId ?? null],
+    ] as const)
+      .filter(([, id]) => id !== null)
+      .map(([lockClass, id]) => db.execute(sql`select pg_advisory_xact_lock(${lockClass}::int, ${id}::int)`));
+  }
+
+  // The claim's locks followed by the write they guard, as one batch
+  private lockedBatch(claim: Omit<AppointmentSlotClaim, "start" | "end">, write: BatchItem<'pg'>): [BatchItem<'pg'>, ...BatchItem<'pg'>[]] {
+    const [first, ...rest] = this.bookingLocks(claim);
+    return first ? [first, ...rest, write] : [write];
+  }
+
+  // Live appointments holding any part of the claim, for use inside a guarded write
+  private overlappingAppointments(claim: AppointmentSlotClaim, excludeId?: number) {
+    return sql`
+      select 1 from appointments existing
+      where coalesce(existing.status, 'scheduled') not in ('cancelled', 'no-show')
+        and existing.appointment_date < ${claim.end.toISOString()}::timestamp
+        and coalesce(existing.ends_at, existing.appointment_date + make_interval(mins => ${DEFAULT_APPOINTMENT_MINUTES})) > ${claim.start.toISOString()}::timestamp
+        and (existing.doctor_id = ${claim.doctorId ?? null}::int or existing.patient_id = ${claim.patientId ?? null}::int or existing.room_id = ${claim.roomId ?? null}::int)
+        ${excludeId ? sql`and existing.id <> ${excludeId}` : sql``}
+    `;
+  }
+
+  // Guard for a write that adds a patient to a capped session; empty when there is no cap
+  private sessionHasRoom(doctorId: number | null, capacity?: SessionCapacity | null, excludeId?: number) {
+    if (!doctorId || !capacity) return sql``;
+    return sql`
+      and (
+        select count(*) from appointments booked
+        where booked.doctor_id = ${doctorId}::int
+          and coalesce(booked.status, 'scheduled') not in ('cancelled', 'no-show')
+          and booked.appointment_date >= ${capacity.start.toISOString()}::timestamp
+          and booked.appointment_date < ${capacity.end.toISOString()}::timestamp
+          ${excludeId ? sql`and booked.id <> ${excludeId}` : sql``}
+      ) < ${capacity.maxPatients}::int
+    `;
+  }
+
+  // Doctor schedule operations
+  async getDoctorSchedules(doctorIds?: number[]): Promise<DoctorSchedule[]> {
+    return await db
+      .select()
+      .from(doctorSchedules)
+      .where(doctorIds ? inArray(doctorSchedules.doctorId, doctorIds) : undefined)
+      .orderBy(doctorSchedules.doctorId, doctorSchedules.dayOfWeek, doctorSchedules.startTime);
+  }
+
+  async getDoctorScheduleById(id: number): Promise<DoctorSchedule | undefined> {
+    const [schedule] = await db.select().from(doctorSchedules).where(eq(doctorSchedules.id, id));
+    return schedule;
+  }
+
+  async createDoctorSchedule(schedule: InsertDoctorSchedule): Promise<DoctorSchedule> {
+    const [newSchedule] = await db.insert(doctorSchedules).values(schedule).returning();
+    return newSchedule;
+  }
+
+  async updateDoctorSchedule(id: number, data: Partial<InsertDoctorSchedule>): Promise<DoctorSchedule | undefined> {
+    const [updated] = await db
+      .update(doctorSchedules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(doctorSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDoctorSchedule(id: number): Promise<void> {
+    await db.delete(doctorSchedules).where(eq(doctorSchedules.id, id));
+  }
+
+  // Exceptions overlapping the date range, including hospital-wide holidays
+  async getScheduleExceptions(from: string, to: string, doctorIds?: number[]): Promise<ScheduleException[]> {
+    return await db
+      .select()
+      .from(scheduleExceptions)
+      .where(
+        and(
+          lte(scheduleExceptions.startDate, to),
+          gte(scheduleExceptions.endDate, from),
+          doctorIds
+            ? or(isNull(scheduleExceptions.doctorId), inArray(scheduleExceptions.doctorId, doctorIds))
+            : undefined
+        )
+      )
+      .orderBy(scheduleExceptions.startDate);
+  }
+
+  async createScheduleException(exception: InsertScheduleException): Promise<ScheduleException> {
+    const [newException] = await db.insert(scheduleExceptions).values(exception).returning();
+    return newException;
+  }
+
+  async deleteScheduleException(id: number): Promise<void> {
+    await db.delete(scheduleExceptions).where(eq(scheduleExceptions.id, id));
+  }
+
+  // Queue operations
+  async getQueueTokens(): Promise<QueueToken[]> {
+    return await db.select().from(queueTokens).orderBy(desc(queueTokens.createdAt));
+  }
+
+  async getActiveQueueByDepartment(departmentId: number): Promise<QueueToken[]> {
+    return await db
+      .select()
+      .from(queueTokens)
+      .where(
+        and(
+          eq(queueTokens.departmentId, departmentId),
+          eq(queueTokens.status, "waiting")
+        )
+      )
+      .orderBy(queueTokens.createdAt);
+  }
+
+  async getLatestCalledTokenByDepartment(departmentId: number): Promise<QueueToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(queueTokens)
+      .where(
+        and(
+          eq(queueTokens.departmentId, departmentId),
+          or(eq(queueTokens.status, "called"), eq(queueTokens.status, "in-progress"))
+        )
+      )
+      .orderBy(desc(queueTokens.calledAt))
+      .limit(1);
+    return token;
+  }
+
+  // Tokens that were both called and completed, used for service-time statistics
+  async getServedQueueTokens(since: Date, departmentId?: number): Promise<QueueToken[]> {
+    const conditions = [
+      gte(queueTokens.createdAt, since),
+      isNotNull(queueTokens.calledAt),
+      isNotNull(queueTokens.completedAt),
+    ];
+    if (departmentId) {
+      conditions.push(eq(queueTokens.departmentId, departmentId));
+    }
+
+    return await db
+      .select()
+      .from(queueTokens)
+      .where(and(...conditions))
+      .orderBy(queueTokens.createdAt);
+  }
+
+  async createQueueToken(token: InsertQueueToken): Promise<QueueToken> {
+    const [newToken] = await db.insert(queueTokens).values(token).returning();
+    return newToken;
+  }
+
+  async updateQueueTokenStatus(id: number, status: string): Promise<QueueToken> {
+    const updateData: any = { status };
+    if (status === "called") {
+      updateData.calledAt = new Date();
+    } else if (status === "completed") {
+      updateData.completedAt = new Date();
+    }
+
+    const [updated] = await db
+      .update(queueTokens)
+      .set(updateData)
+      .where(eq(queueTokens.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getQueueTokenById(id: number): Promise<QueueToken | undefined> {
+    const [token] = await db.select().from(queueTokens).where(eq(queueTokens.id, id));
+    return token;
+  }
+
+  // A transferred token keeps the number it was issued under in its original
+  // department, and the QR code printed there; the code tells it apart from
+  // tokens with the same number issued elsewhere
+  async getQueueTokenByNumber(tokenNumber: string, departmentId: number, queueDate: string, qrCode?: string): Promise<QueueToken | undefined> {
+    const tokens = await db
+      .select()
+      .from(queueTokens)
+      .where(and(
+        eq(queueTokens.tokenNumber, tokenNumber),
+        eq(queueTokens.queueDate, queueDate)
+      ));
+    return (qrCode ? tokens.find(t => t.qrCode === qrCode) : undefined)
+      ?? tokens.find(t => t.departmentId === departmentId);
+  }
+
+  async getQueueTokenByAppointment(appointmentId: number): Promise<QueueToken | undefined> {
+    const [token] = await db.select().from(queueTokens).where(eq(queueTokens.appointmentId, appointmentId));
+    return token;
+  }
+
+  // The patient's tokens still waiting or being served, newest first
+  async getActiveQueueTokensByPatient(patientId: number, since: Date): Promise<QueueToken[]> {
+    return await db
+      .select()
+      .from(queueTokens)
+      .where(
+        and(
+          eq(queueTokens.patientId, patientId),
+          gte(queueTokens.createdAt, since),
+          inArray(queueTokens.status, ["waiting", "called", "in-progress"])
+        )
+      )
+      .orderBy(desc(queueTokens.createdAt));
+  }
+
+  async updateQueueToken(id: number, data: Partial<InsertQueueToken>): Promise<QueueToken> {
+    const [updated] = await db
+      .update(queueTokens)
+      .set(data)
+      .where(eq(queueTokens.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Changes the token only while it is still in one of the expected states, so
+  // two staff acting on the same token cannot both succeed
+  async transitionQueueToken(id: number, fromStatuses: string[], data: Partial<InsertQueueToken>): Promise<QueueToken | undefined> {
+    const [updated] = await db
+      .update(queueTokens)
+      .set(data)
+      .where(
+        and(
+          eq(queueTokens.id, id),
+          inArray(sql`coalesce(${queueTokens.status}, 'waiting')`, fromStatuses)
+        )
+      )
+      .returning();
+    return updated;
+  }
+
+  // Tokens that have been called but not yet finished (including skipped ones that may be recalled)
+  async getServingTokensByDepartment(departmentId: number, since: Date): Promise<QueueToken[]> {
+    return await db
+      .select()
+      .from(queueTokens)
+      .where(
+        and(
+          eq(queueTokens.departmentId, departmentId),
+          inArray(queueTokens.status, ["called", "in-progress", "skipped"]),
+          gte(queueTokens.createdAt, since)
+        )
+      )
+      .orderBy(queueTokens.calledAt);
+  }
+
+  // Single upsert so concurrent registrations each get their own number
+  async nextQueueTokenSequence(departmentId: number, queueDate: string): Promise<number> {
+    const [row] = await db
+      .insert(queueTokenSequences)
+      .values({ departmentId, queueDate, lastSequence: 1 })
+      .onConflictDoUpdate({
+        target: [queueTokenSequences.departmentId, queueTokenSequences.queueDate],
+        set: {
+          lastSequence: sql`${queueTokenSequences.lastSequence} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ lastSequence: queueTokenSequences.lastSequence });
+    return row.lastSequence;
+  }
+
+  async getQueuePolicy(departmentId: number): Promise<QueuePolicy | undefined> {
+    const [policy] = await db
+      .select()
+      .from(queuePolicies)
+      .where(eq(queuePolicies.departmentId, departmentId));
+    return policy;
+  }
+
+  async upsertQueuePolicy(policy: InsertQueuePolicy): Promise<QueuePolicy> {
+    const [saved] = await db
+      .insert(queuePolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: queuePolicies.departmentId,
+        set: {
+          ...policy,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getQueueCounters(departmentId?: number): Promise<QueueCounter[]> {
+    return await db
+      .select()
+      .from(queueCounters)
+      .where(departmentId ? eq(queueCounters.departmentId, departmentId) : undefined)
+      .orderBy(queueCounters.departmentId, queueCounters.name);
+  }
+
+  async getQueueCounterById(id: number): Promise<QueueCounter | undefined> {
+    const [counter] = await db.select().from(queueCounters).where(eq(queueCounters.id, id));
+    return counter;
+  }
+
+  async createQueueCounter(counter: InsertQueueCounter): Promise<QueueCounter> {
+    const [newCounter] = await db.insert(queueCounters).values(counter).returning();
+    return newCounter;
+  }
+
+  async updateQueueCounter(id: number, data: Partial<InsertQueueCounter>): Promise<QueueCounter | undefined> {
+    const [updated] = await db
+      .update(queueCounters)
+      .set(data)
+      .where(eq(queueCounters.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Medical records
+  async getMedicalRecordsByPatient(patientId: number): Promise<MedicalRecord[]> {
+    return await db
+      .select()
+      .from(medicalRecords)
+      .where(eq(medicalRecords.patientId, patientId))
+      .orderBy(desc(medicalRecords.createdAt));
+  }
+
+  async getAllMedicalRecords(): Promise<MedicalRecord[]> {
+    return await db
+      .select()
+      .from(medicalRecords)
+      .orderBy(desc(medicalRecords.createdAt));
+  }
+
+  async createMedicalRecord(record: InsertMedicalRecord): Promise<MedicalRecord> {
+    const [newRecord] = await db.insert(medicalRecords).values(record).returning();
+    return newRecord;
+  }
+
+  // Lab Results
+  async getLabResultsByPatient(patientId: number): Promise<LabResult[]> {
+    return await db
+      .select()
+      .from(labResults)
+      .where(eq(labResults.patientId, patientId))
+      .orderBy(desc(labResults.createdAt));
+  }
+
+  async createLabResult(labResult: InsertLabResult): Promise<LabResult> {
+    const [newResult] = await db.insert(labResults).values(labResult).returning();
+    return newResult;
+  }
+
+  async getLabResultById(id: number): Promise<LabResult | undefined> {
+    const [result] = await db.select().from(labResults).where(eq(labResults.id, id));
+    return result;
+  }
+
+  // With fromStatuses, only applies while the entry is still in one of them, so a
+  // status change cannot overwrite one made concurrently
+  async updateLabResult(id: number, changes: Partial<InsertLabResult>, fromStatuses?: string[]): Promise<LabResult | undefined> {
+    const [result] = await db
+      .update(labResults)
+      .set(changes)
+      .where(fromStatuses ? and(eq(labResults.id, id), inArray(labResults.status, fromStatuses)) : eq(labResults.id, id))
+      .returning();
+    return result;
+  }
+
+  // Imaging Studies
+  async getImagingStudiesByPatient(patientId: number): Promise<ImagingStudy[]> {
+    return await db
+      .select()
+      .from(imagingStudies)
+      .where(eq(imagingStudies.patientId, patientId))
+      .orderBy(desc(imagingStudies.createdAt));
+  }
+
+  async createImagingStudy(study: InsertImagingStudy): Promise<ImagingStudy> {
+    const [newStudy] = await db.insert(imagingStudies).values(study).returning();
+    return newStudy;
+  }
+
+  async getImagingStudyById(id: number): Promise<ImagingStudy | undefined> {
+    const [study] = await db.select().from(imagingStudies).where(eq(imagingStudies.id, id));
+    return study;
+  }
+
+  async updateImagingStudy(id: number, changes: Partial<InsertImagingStudy>, fromStatuses?: string[]): Promise<ImagingStudy | undefined> {
+    const [study] = await db
+      .update(imagingStudies)
+      .set(changes)
+      .where(fromStatuses ? and(eq(imagingStudies.id, id), inArray(imagingStudies.status, fromStatuses)) : eq(imagingStudies.id, id))
+      .returning();
+    return study;
+  }
+
+  // Medications
+  async getMedicationsByPatient(patientId: number): Promise<Medication[]> {
+    return await db
+      .select()
+      .from(medications)
+      .where(eq(medications.patientId, patientId))
+      .orderBy(desc(medications.createdAt));
+  }
+
+  async createMedication(medication: InsertMedication): Promise<Medication> {
+    const [newMedication] = await db.insert(medications).values(medication).returning();
+    return newMedication;
+  }
+
+  async getMedicationById(id: number): Promise<Medication | undefined> {
+    const [medication] = await db.select().from(medications).where(eq(medications.id, id));
+    return medication;
+  }
+
+  async updateMedication(id: number, changes: Partial<InsertMedication>, fromStatuses?: string[]): Promise<Medication | undefined> {
+    const [medication] = await db
+      .update(medications)
+      .set(changes)
+      .where(fromStatuses ? and(eq(medications.id, id), inArray(medications.status, fromStatuses)) : eq(medications.id, id))
+      .returning();
+    return medication;
+  }
+
+  // Prescriptions
+  async getPrescriptionById(id: number): Promise<Prescription | undefined> {
+    const [prescription] = await db.select().from(prescriptions).where(eq(prescriptions.id, id));
+    return prescription;
+  }
+
+  async getPrescriptionsByPatient(patientId: number): Promise<Prescription[]> {
+    return await db
+      .select()
+      .from(prescriptions)
+      .where(eq(prescriptions.patientId, patientId))
+      .orderBy(desc(prescriptions.createdAt));
+  }
+
+  // Oldest signed first, the order a pharmacy works through them
+  async getPrescriptionsByStatus(statuses: string[]): Promise<Prescription[]> {
+    if (statuses.length === 0) return [];
+    return await db
+      .select()
+      .from(prescriptions)
+      .where(inArray(prescriptions.status, statuses))
+      .orderBy(prescriptions.signedAt, prescriptions.id);
+  }
+
+  async getPrescriptionItems(prescriptionIds: number[]): Promise<Medication[]> {
+    if (prescriptionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(medications)
+      .where(inArray(medications.prescriptionId, prescriptionIds))
+      .orderBy(medications.id);
+  }
+
+  // Adds the prescription and its items, as drafts, in one statement
+  async createPrescription(prescription: InsertPrescription, items: PrescriptionItem[]): Promise<Prescription> {
+    const created = db.insert(prescriptions).values(prescription).returning(this.prescriptionItemSource());
+    const result = await db.execute<{ id: number }>(sql`
+      with created as (${created.getSQL()}),
+      items as (${this.insertPrescriptionItems("created", items)})
+      select id from created
+    `);
+    const [row] = result.rows;
+    return (await this.getPrescriptionById(row.id))!;
+  }
+
+  // Edits a draft, replacing its items when they are given. Returns undefined
+  // once the prescription has been signed or cancelled.
+  async updatePrescriptionDraft(id: number, changes: Partial<InsertPrescription>, items?: PrescriptionItem[]): Promise<Prescription | undefined> {
+    const updated = db
+      .update(prescriptions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(prescriptions.id, id), eq(prescriptions.status, "draft")))
+      .returning(this.prescriptionItemSource());
+    const replaceItems = items ? sql`,
+      removed as (delete from medications where prescription_id in (select id from updated)),
+      items as (${this.insertPrescriptionItems("updated", items)})` : sql``;
+    const result = await db.execute<{ id: number }>(sql`
+      with updated as (${updated.getSQL()})${replaceItems}
+      select id from updated
+    `);
+    const [row] = result.rows;
+    return row ? this.getPrescriptionById(row.id) : undefined;
+  }
+
+  // Signs a draft and makes its items active medications with their alerts.
+  // Returns undefined if it is no longer a draft or its items are no longer the
+  // ones that were signed.
+  async signPrescription(id: number, signatureHash: string, itemIds: number[], itemAlerts: Record<number, PrescriptionItemAlerts>): Promise<Prescription | undefined> {
+    const alerts = JSON.stringify(itemAlerts);
+    const result = await db.execute<{ id: number }>(sql`
+      with signed as (
+        update prescriptions set status = 'signed', signed_at = now(), signature_hash = ${signatureHash}, updated_at = now()
+        where id = ${id} and status = 'draft'
+          and (select coalesce(jsonb_agg(id order by id), '[]'::jsonb) from medications where prescription_id = ${id}) = ${JSON.stringify(itemIds)}::jsonb
+        returning id
+      ),
+      items as (
+        update medications set status = 'active', prescribed_date = now(), start_date = coalesce(start_date, now()),
+          interactions = coalesce(${alerts}::jsonb -> id::text -> 'interactions', '[]'::jsonb),
+          contraindications = coalesce(${alerts}::jsonb -> id::text -> 'contraindications', '[]'::jsonb)
+        where prescription_id in (select id from signed)
+      )
+      select id from signed
+    `);
+    const [row] = result.rows;
+    return row ? this.getPrescriptionById(row.id) : undefined;
+  }
+
+  async updatePrescriptionStatus(id: number, changes: Partial<InsertPrescription>, fromStatuses: string[]): Promise<Prescription | undefined> {
+    const [prescription] = await db
+      .update(prescriptions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(prescriptions.id, id), inArray(prescriptions.status, fromStatuses)))
+      .returning();
+    return prescription;
+  }
+
+  // Cancels the prescription and discontinues whichever of its items are still current
+  async cancelPrescription(id: number, cancelledBy: string, reason: string, fromStatuses: string[]): Promise<Prescription | undefined> {
+    const cancelled = db
+      .update(prescriptions)
+      .set({ status: "cancelled", cancelledBy, cancelledAt: new Date(), cancelReason: reason, updatedAt: new Date() })
+      .where(and(eq(prescriptions.id, id), inArray(prescriptions.status, fromStatuses)))
+      .returning({ id: prescriptions.id });
+    const result = await db.execute<{ id: number }>(sql`
+      with cancelled as (${cancelled.getSQL()}),
+      items as (
+        update medications set status = 'discontinued', end_date = now()
+        where prescription_id in (select id from cancelled) and status in ('draft', 'active', 'on-hold')
+      )
+      select id from cancelled
+    `);
+    const [row] = result.rows;
+    return row ? this.getPrescriptionById(row.id) : undefined;
+  }
+
+  private prescriptionItemSource() {
+    return {
+      id: prescriptions.id,
+      patientId: prescriptions.patientId,
+      doctorId: prescriptions.doctorId,
+      medicalRecordId: prescriptions.medicalRecordId,
+    };
+  }
+
+  // Inserts the items as draft medications of the prescription returned by the named CTE
+  private insertPrescriptionItems(source: string, items: PrescriptionItem[]) {
+    const columns = PRESCRIPTION_ITEM_FIELDS.map((field) => medications[field]);
+    const rows = items.map((item) =>
+      Object.fromEntries(PRESCRIPTION_ITEM_FIELDS.map((field, index) => [columns[index].name, item[field] ?? null]))
+    );
+    return sql`
+      insert into medications (prescription_id, patient_id, doctor_id, medical_record_id, status, ${sql.join(columns.map((column) => sql.identifier(column.name)), sql`, `)})
+      select source.id, source.patient_id, source.doctor_id, source.medical_record_id, 'draft', ${sql.join(columns.map((column) => sql`item.${sql.identifier(column.name)}`), sql`, `)}
+      from ${sql.identifier(source)} source,
+        jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) as item(${sql.raw(columns.map((column) => `${column.name} ${column.getSQLType()}`).join(", "))})
+    `;
+  }
+
+  // Clinical Notes
+  async getClinicalNotesByPatient(patientId: number): Promise<ClinicalNote[]> {
+    return await db
+      .select()
+      .from(clinicalNotes)
+      .where(eq(clinicalNotes.patientId, patientId))
+      .orderBy(desc(clinicalNotes.createdAt));
+  }
+
+  async getClinicalNoteById(id: number): Promise<ClinicalNote | undefined> {
+    const [note] = await db.select().from(clinicalNotes).where(eq(clinicalNotes.id, id));
+    return note;
+  }
+
+  async createClinicalNote(note: InsertClinicalNote): Promise<ClinicalNote> {
+    const [newNote] = await db.insert(clinicalNotes).values(note).returning();
+    return newNote;
+  }
+
+  // Returns undefined once the note has been signed
+  async updateClinicalNoteDraft(id: number, data: UpdateClinicalNoteDraft): Promise<ClinicalNote | undefined> {
+    const [note] = await db
+      .update(clinicalNotes)
+      .set(data)
+      .where(and(eq(clinicalNotes.id, id), eq(clinicalNotes.isLocked, false)))
+      .returning();
+    return note;
+  }
+
+  // Returns undefined if the note was already signed
+  async signClinicalNote(id: number, signedBy: string): Promise<ClinicalNote | undefined> {
+    const [note] = await db
+      .update(clinicalNotes)
+      .set({ signedBy, signedAt: new Date(), isLocked: true })
+      .where(and(eq(clinicalNotes.id, id), eq(clinicalNotes.isLocked, false)))
+      .returning();
+    return note;
+  }
+
+  // Adds a signed version amending a locked note, carrying over any section the
+  // amendment leaves out. Returns undefined if the note is not locked or has
+  // already been amended, which the unique originalNoteId enforces.
+  async amendClinicalNote(id: number, amendment: ClinicalNoteAmendment, authorId: string): Promise<ClinicalNote | undefined> {
+    const sections = (["subjective", "objective", "assessment", "plan", "content"] as const).map((field) =>
+      amendment[field] !== undefined ? sql`${amendment[field]}` : sql.identifier(field)
+    );
+    const result = await db.execute<{ id: number }>(sql`
+      insert into clinical_notes (medical_record_id, patient_id, author_id, note_type, subjective, objective, assessment, plan, content,
+        is_amended, amendment_reason, original_note_id, signed_by, signed_at, is_locked)
+      select medical_record_id, patient_id, ${authorId}, note_type, ${sql.join(sections, sql`, `)},
+        true, ${amendment.reason}, id, ${authorId}, now(), true
+      from clinical_notes
+      where id = ${id} and is_locked = true
+      on conflict (original_note_id) do nothing
+      returning id
+    `);
+    const [created] = result.rows;
+    return created ? this.getClinicalNoteById(created.id) : undefined;
+  }
+
+  // Vital Signs
+  async getVitalSignsByPatient(patientId: number): Promise<VitalSigns[]> {
     return await db
       .select()
       .from(vitalSigns)
@@ -454,6 +1930,20 @@ export class DatabaseStorage implements IStorage {
     return newAllergy;
   }
 
+  async getAllergyById(id: number): Promise<AllergyAndReaction | undefined> {
+    const [allergy] = await db.select().from(allergiesAndReactions).where(eq(allergiesAndReactions.id, id));
+    return allergy;
+  }
+
+  async updateAllergy(id: number, changes: Partial<InsertAllergy>, fromStatuses?: string[]): Promise<AllergyAndReaction | undefined> {
+    const [allergy] = await db
+      .update(allergiesAndReactions)
+      .set(changes)
+      .where(fromStatuses ? and(eq(allergiesAndReactions.id, id), inArray(allergiesAndReactions.status, fromStatuses)) : eq(allergiesAndReactions.id, id))
+      .returning();
+    return allergy;
+  }
+
   // Problem List
   async getProblemsByPatient(patientId: number): Promise<Problem[]> {
     return await db
@@ -468,6 +1958,222 @@ export class DatabaseStorage implements IStorage {
     return newProblem;
   }
 
+  async getProblemById(id: number): Promise<Problem | undefined> {
+    const [problem] = await db.select().from(problemList).where(eq(problemList.id, id));
+    return problem;
+  }
+
+  async updateProblem(id: number, changes: Partial<InsertProblem>, fromStatuses?: string[]): Promise<Problem | undefined> {
+    const [problem] = await db
+      .update(problemList)
+      .set(changes)
+      .where(fromStatuses ? and(eq(problemList.id, id), inArray(problemList.status, fromStatuses)) : eq(problemList.id, id))
+      .returning();
+    return problem;
+  }
+
+  // Payments
+  async getPaymentByTransactionId(transactionId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.transactionId, transactionId));
+    return payment;
+  }
+
+  // Bills
+  async getBillsByPatient(patientId: number): Promise<Bill[]> {
+    return await db
+      .select()
+      .from(bills)
+      .where(eq(bills.patientId, patientId))
+      .orderBy(desc(bills.createdAt));
+  }
+
+  async getBillItems(billIds: number[]): Promise<BillItem[]> {
+    if (billIds.length === 0) return [];
+    return await db.select().from(billItems).where(inArray(billItems.billId, billIds));
+  }
+
+  // Pharmacy inventory
+  async getPharmacyItems(includeInactive: boolean = false): Promise<PharmacyItem[]> {
+    return await db
+      .select()
+      .from(pharmacyItems)
+      .where(includeInactive ? undefined : eq(pharmacyItems.isActive, true))
+      .orderBy(pharmacyItems.name);
+  }
+
+  async getPharmacyItemById(id: number): Promise<PharmacyItem | undefined> {
+    const [item] = await db.select().from(pharmacyItems).where(eq(pharmacyItems.id, id));
+    return item;
+  }
+
+  async createPharmacyItem(item: InsertPharmacyItem): Promise<PharmacyItem> {
+    const [newItem] = await db.insert(pharmacyItems).values(item).returning();
+    return newItem;
+  }
+
+  async updatePharmacyItem(id: number, changes: Partial<InsertPharmacyItem>): Promise<PharmacyItem | undefined> {
+    const [item] = await db
+      .update(pharmacyItems)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(pharmacyItems.id, id))
+      .returning();
+    return item;
+  }
+
+  // Earliest expiry first, the order stock is dispensed in
+  async getPharmacyBatches(itemIds?: number[]): Promise<PharmacyBatch[]> {
+    if (itemIds && itemIds.length === 0) return [];
+    return await db
+      .select()
+      .from(pharmacyBatches)
+      .where(itemIds ? inArray(pharmacyBatches.itemId, itemIds) : undefined)
+      .orderBy(pharmacyBatches.expiryDate, pharmacyBatches.id);
+  }
+
+  async getPharmacyBatchById(id: number): Promise<PharmacyBatch | undefined> {
+    const [batch] = await db.select().from(pharmacyBatches).where(eq(pharmacyBatches.id, id));
+    return batch;
+  }
+
+  async getPharmacyStockMovements(filter: { itemId?: number; batchId?: number; limit: number }): Promise<PharmacyStockMovement[]> {
+    const conditions = [];
+    if (filter.itemId) conditions.push(eq(pharmacyStockMovements.itemId, filter.itemId));
+    if (filter.batchId) conditions.push(eq(pharmacyStockMovements.batchId, filter.batchId));
+    return await db
+      .select()
+      .from(pharmacyStockMovements)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(pharmacyStockMovements.createdAt), desc(pharmacyStockMovements.id))
+      .limit(filter.limit);
+  }
+
+  // Records the receipt, adds each line to its batch (creating batches not seen
+  // before) and writes the stock movements, in one statement. Lines must not
+  // repeat a batch.
+  async receivePharmacyGoods(receipt: Omit<GoodsReceipt, "lines"> & { receivedBy: string }, lines: GoodsReceipt["lines"]): Promise<PharmacyGoodsReceipt> {
+    const created = db.insert(pharmacyGoodsReceipts).values(receipt).returning({ id: pharmacyGoodsReceipts.id });
+    const rows = JSON.stringify(lines.map((line) => ({
+      item_id: line.itemId,
+      batch_number: line.batchNumber,
+      expiry_date: line.expiryDate,
+      quantity: line.quantity,
+      unit_cost: line.unitCost ?? null,
+    })));
+    const result = await db.execute<{ id: number }>(sql`
+      with created as (${created.getSQL()}),
+      line as (
+        select * from jsonb_to_recordset(${rows}::jsonb)
+          as line(item_id integer, batch_number varchar, expiry_date date, quantity integer, unit_cost integer)
+      ),
+      stocked as (
+        insert into pharmacy_batches (item_id, batch_number, expiry_date, quantity_on_hand, unit_cost)
+        select item_id, batch_number, expiry_date, quantity, unit_cost from line
+        on conflict (item_id, batch_number) do update set
+          quantity_on_hand = pharmacy_batches.quantity_on_hand + excluded.quantity_on_hand,
+          unit_cost = coalesce(excluded.unit_cost, pharmacy_batches.unit_cost),
+          updated_at = now()
+        returning id, item_id, batch_number
+      ),
+      moved as (
+        insert into pharmacy_stock_movements (batch_id, item_id, type, quantity, receipt_id, user_id)
+        select stocked.id, stocked.item_id, 'receipt', line.quantity, created.id, ${receipt.receivedBy}
+        from stocked
+        join line on line.item_id = stocked.item_id and line.batch_number = stocked.batch_number
+        cross join created
+      )
+      select id from created
+    `);
+    const [row] = result.rows;
+    const [newReceipt] = await db.select().from(pharmacyGoodsReceipts).where(eq(pharmacyGoodsReceipts.id, row.id));
+    return newReceipt;
+  }
+
+  // Changes a batch's stock and records why. Taking out more than there is
+  // fails the stock check.
+  async adjustPharmacyStock(batchId: number, quantity: number, reason: string, notes: string | null, userId: string): Promise<PharmacyBatch | undefined> {
+    const adjusted = db
+      .update(pharmacyBatches)
+      .set({ quantityOnHand: sql`${pharmacyBatches.quantityOnHand} + ${quantity}`, updatedAt: new Date() })
+      .where(eq(pharmacyBatches.id, batchId))
+      .returning({ id: pharmacyBatches.id, itemId: pharmacyBatches.itemId });
+    const result = await db.execute<{ id: number }>(sql`
+      with adjusted as (${adjusted.getSQL()}),
+      moved as (
+        insert into pharmacy_stock_movements (batch_id, item_id, type, quantity, reason, notes, user_id)
+        select id, item_id, 'adjustment', ${quantity}::integer, ${reason}, ${notes}, ${userId} from adjusted
+      )
+      select id from adjusted
+    `);
+    const [row] = result.rows;
+    return row ? this.getPharmacyBatchById(row.id) : undefined;
+  }
+
+  // Marks the prescription dispensed, takes the allocated units out of their
+  // batches, raises the bill for them and writes the stock movements, all in one
+  // statement. Returns undefined if the prescription is no longer in one of
+  // fromStatuses; running short of stock fails the stock check.
+  async dispensePrescription(
+    id: number,
+    fromStatuses: string[],
+    dispensedBy: string,
+    allocations: DispenseAllocation[],
+    bill: { billNumber: string; patientId: number; charges: PharmacyCharge[] } | null,
+  ): Promise<{ prescriptionId: number; billId: number | null } | undefined> {
+    const dispensed = db
+      .update(prescriptions)
+      .set({ status: "dispensed", dispensedBy, dispensedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(prescriptions.id, id), inArray(prescriptions.status, fromStatuses)))
+      .returning({ id: prescriptions.id });
+
+    // A batch may feed several items, but each row can only be updated once per statement
+    const taken = new Map<number, number>();
+    for (const allocation of allocations) {
+      taken.set(allocation.batchId, (taken.get(allocation.batchId) ?? 0) + allocation.quantity);
+    }
+    const totals = JSON.stringify(Array.from(taken, ([batch_id, quantity]) => ({ batch_id, quantity })));
+    const moves = JSON.stringify(allocations.map((allocation) => ({
+      batch_id: allocation.batchId,
+      item_id: allocation.itemId,
+      medication_id: allocation.medicationId,
+      quantity: allocation.quantity,
+    })));
+
+    const raiseBill = bill ? sql`,
+      bill as (
+        insert into bills (bill_number, patient_id, total_amount, status)
+        select ${bill.billNumber}, ${bill.patientId}::integer, ${bill.charges.reduce((sum, charge) => sum + charge.unitPrice * charge.quantity, 0)}::integer, 'pending'
+        from dispensed
+        returning id
+      ),
+      bill_lines as (
+        insert into bill_items (bill_id, description, quantity, unit_price, total_price, category, service_code)
+        select bill.id, charge.description, charge.quantity, charge.unit_price, charge.quantity * charge.unit_price, 'medication', charge.service_code
+        from bill, jsonb_to_recordset(${JSON.stringify(bill.charges.map((charge) => ({
+          description: charge.description,
+          quantity: charge.quantity,
+          unit_price: charge.unitPrice,
+          service_code: charge.serviceCode,
+        })))}::jsonb) as charge(description varchar, quantity integer, unit_price integer, service_code varchar)
+      )` : sql``;
+
+    const result = await db.execute<{ id: number; bill_id: number | null }>(sql`
+      with dispensed as (${dispensed.getSQL()}),
+      stock as (
+        update pharmacy_batches set quantity_on_hand = pharmacy_batches.quantity_on_hand - taken.quantity, updated_at = now()
+        from jsonb_to_recordset(${totals}::jsonb) as taken(batch_id integer, quantity integer)
+        where pharmacy_batches.id = taken.batch_id and exists (select 1 from dispensed)
+      )${raiseBill},
+      moved as (
+        insert into pharmacy_stock_movements (batch_id, item_id, type, quantity, prescription_id, medication_id, bill_id, user_id)
+        select move.batch_id, move.item_id, 'dispense', -move.quantity, dispensed.id, move.medication_id, ${bill ? sql`(select id from bill)` : sql`null`}, ${dispensedBy}
+        from dispensed, jsonb_to_recordset(${moves}::jsonb) as move(batch_id integer, item_id integer, medication_id integer, quantity integer)
+      )
+      select id, ${bill ? sql`(select id from bill)` : sql`null::integer`} as bill_id from dispensed
+    `);
+    const [row] = result.rows;
+    return row ? { prescriptionId: row.id, billId: row.bill_id } : undefined;
+  }
+
   // Notifications
   async getNotificationsByUser(userId: string): Promise<Notification[]> {
     return await db
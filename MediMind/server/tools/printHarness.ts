@@ -0,0 +1,83 @@
+// Renders sample token slips and receipts to files so the printing output can be
+// checked without a thermal printer.
+//
+//   npm run print:sample -- [output-dir]
+//
+// Each document is written as .bin (raw ESC/POS, e.g. `cat token-slip.bin > /dev/usb/lp0`),
+// .txt (the printable text with control codes stripped) and .pdf.
+import fs from 'fs';
+import path from 'path';
+import { slipPrinter, type PaymentReceipt, type TokenSlip } from '../services/printing';
+import { queueQrCodes } from '../services/queueQr';
+
+const outputDir = path.resolve(process.argv[2] || 'print-output');
+
+const sampleSlip: TokenSlip = {
+  departmentName: "Cardiology",
+  tokenNumber: "CAR007",
+  qrCode: queueQrCodes.sign("CAR007", 1, new Date().toISOString().slice(0, 10)),
+  estimatedWaitTime: 25,
+  priority: 2,
+  issuedAt: new Date(),
+};
+
+const sampleReceipt: PaymentReceipt = {
+  receiptNumber: "pay_SAMPLE0001",
+  patientLabel: "PAT-000123",
+  lines: [
+    { description: "Consultation - Cardiology", amount: 50000 },
+    { description: "ECG", amount: 30000 },
+    { description: "Paracetamol 500mg", quantity: 10, amount: 2000 },
+  ],
+  total: 82000,
+  currency: "INR",
+  paymentMethod: "razorpay",
+  status: "succeeded",
+  paidAt: new Date(),
+};
+
+// Drops ESC/POS command sequences, keeping text and line breaks.
+// The QR store command carries its data inline, so it is replaced with a marker.
+function escPosToText(bytes: Buffer): string {
+  let text = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte === 0x1b) {
+      // ESC @ takes no argument; ESC a / E / d take one
+      i += bytes[i + 1] === 0x40 ? 2 : 3;
+    } else if (byte === 0x1d && bytes[i + 1] === 0x28 && bytes[i + 2] === 0x6b) {
+      const length = bytes[i + 3] | (bytes[i + 4] << 8);
+      if (bytes[i + 6] === 0x51) text += "[QR CODE]\n";
+      i += 5 + length;
+    } else if (byte === 0x1d) {
+      // GS ! n, GS V m n
+      i += bytes[i + 1] === 0x56 ? 4 : 3;
+    } else {
+      text += String.fromCharCode(byte);
+      i += 1;
+    }
+  }
+  return text;
+}
+
+async function writeDocument(name: string, escPos: Buffer, pdf: Promise<Buffer>) {
+  fs.writeFileSync(path.join(outputDir, `${name}.bin`), escPos);
+  fs.writeFileSync(path.join(outputDir, `${name}.txt`), escPosToText(escPos));
+  fs.writeFileSync(path.join(outputDir, `${name}.pdf`), await pdf);
+  console.log(`${name}: ${escPos.length} ESC/POS bytes`);
+}
+
+async function main() {
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  await writeDocument("token-slip", slipPrinter.tokenSlipEscPos(sampleSlip), slipPrinter.tokenSlipPdf(sampleSlip));
+  await writeDocument("receipt", slipPrinter.receiptEscPos(sampleReceipt), slipPrinter.receiptPdf(sampleReceipt));
+
+  console.log(`Wrote sample output to ${outputDir}`);
+}
+
+main().catch((error) => {
+  console.error("Print harness failed:", error);
+  process.exit(1);
+});
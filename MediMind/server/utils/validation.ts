@@ -32,7 +32,7 @@ export const ValidationSchemas = {
   paymentStatus: z.enum(['pending', 'succeeded', 'failed', 'refunded']),
   
   // Queue status
-  queueStatus: z.enum(['waiting', 'called', 'in-progress', 'completed']),
+  queueStatus: z.enum(['waiting', 'called', 'in-progress', 'completed', 'skipped', 'no-show']),
   
   // Appointment status
   appointmentStatus: z.enum(['scheduled', 'in-progress', 'completed', 'cancelled']),
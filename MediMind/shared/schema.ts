@@ -10,6 +10,9 @@ import {
   boolean,
   serial,
   decimal,
+  date,
+  unique,
+  check,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -67,6 +70,8 @@ export const patients = pgTable("patients", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id),
   patientId: varchar("patient_id").unique().notNull(),
+  firstName: varchar("first_name"),
+  lastName: varchar("last_name"),
   aadhaarNumber: varchar("aadhaar_number"),
   panNumber: varchar("pan_number"),
   phoneNumber: varchar("phone_number"),
@@ -77,20 +82,231 @@ export const patients = pgTable("patients", {
   gender: varchar("gender"),
   insuranceProvider: varchar("insurance_provider"),
   insuranceNumber: varchar("insurance_number"),
+  remindersOptOut: boolean("reminders_opt_out").default(false),
+  reminderChannels: jsonb("reminder_channels").$type<string[]>(), // subset of REMINDER_CHANNELS; null means all
+  mergedIntoId: integer("merged_into_id"), // surviving patients.id once this record has been merged away
+  mergedAt: timestamp("merged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const PATIENT_IDENTIFIER_TYPES = ["aadhaar", "abha", "insurance", "passport"] as const;
+
+// External identifiers a patient is known by besides their MRN (patients.patientId).
+// Values are stored normalised; issuer is the insurer or passport country, blank otherwise.
+export const patientIdentifiers = pgTable("patient_identifiers", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  type: varchar("type").notNull(), // one of PATIENT_IDENTIFIER_TYPES
+  value: varchar("value").notNull(),
+  issuer: varchar("issuer").notNull().default(""),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("patient_identifiers_type_issuer_value_unique").on(table.type, table.issuer, table.value),
+  index("idx_patient_identifiers_value").on(table.value),
+]);
+
+// Running MRN sequence per scope, e.g. facility and year when the pattern includes the year
+export const patientIdSequences = pgTable("patient_id_sequences", {
+  id: serial("id").primaryKey(),
+  scope: varchar("scope").notNull().unique(),
+  lastSequence: integer("last_sequence").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Possible duplicates found at registration and registered anyway, for an admin to
+// review. Each pair is flagged once, newer record first.
+export const patientDuplicateFlags = pgTable("patient_duplicate_flags", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  candidateId: integer("candidate_id").references(() => patients.id).notNull(),
+  score: integer("score").notNull(),
+  reasons: jsonb("reasons").$type<string[]>(),
+  status: varchar("status").default("open"), // open, dismissed, merged
+  flaggedBy: varchar("flagged_by").references(() => users.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("patient_duplicate_flags_pair_unique").on(table.patientId, table.candidateId),
+]);
+
+// One merge of a duplicate record into a surviving one. Records which rows were
+// re-pointed and which empty survivor fields were filled in, so it can be undone.
+export const patientMerges = pgTable("patient_merges", {
+  id: serial("id").primaryKey(),
+  survivorId: integer("survivor_id").references(() => patients.id).notNull(),
+  mergedId: integer("merged_id").references(() => patients.id).notNull(),
+  status: varchar("status").default("merged"), // merged, reverted
+  reason: text("reason"),
+  movedRows: jsonb("moved_rows").$type<Record<string, number[]>>(), // table name -> re-pointed row ids
+  filledFields: jsonb("filled_fields").$type<string[]>(), // survivor columns copied from the merged record
+  mergedBy: varchar("merged_by").references(() => users.id),
+  mergedAt: timestamp("merged_at").defaultNow(),
+  revertedBy: varchar("reverted_by").references(() => users.id),
+  revertedAt: timestamp("reverted_at"),
+  revertReason: text("revert_reason"),
+});
+
+// Recurring appointments, e.g. weekly physiotherapy. Each occurrence is an
+// ordinary appointments row pointing back at its series.
+export const appointmentSeries = pgTable("appointment_series", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  doctorId: integer("doctor_id").references(() => doctors.id).notNull(),
+  departmentId: integer("department_id").references(() => departments.id),
+  appointmentType: varchar("appointment_type").default("follow-up"),
+  recurrenceRule: varchar("recurrence_rule").notNull(), // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,TH;COUNT=12
+  firstStart: timestamp("first_start").notNull(),
+  exceptionDates: jsonb("exception_dates").$type<string[]>(), // YYYY-MM-DD dates skipped by the rule
+  status: varchar("status").default("active"), // active, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Appointments table
+// Length assumed for appointments booked without a slot end
+export const DEFAULT_APPOINTMENT_MINUTES = 15;
+
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").references(() => patients.id),
   doctorId: integer("doctor_id").references(() => doctors.id),
   departmentId: integer("department_id").references(() => departments.id),
   appointmentDate: timestamp("appointment_date").notNull(),
+  endsAt: timestamp("ends_at"), // end of the booked slot; older rows assume the default length
+  roomId: integer("room_id").references(() => queueCounters.id),
   appointmentType: varchar("appointment_type").default("consultation"), // consultation, follow-up, emergency
-  status: varchar("status").default("scheduled"), // scheduled, in-progress, completed, cancelled
+  status: varchar("status").default("scheduled"), // held, scheduled, in-progress, completed, cancelled, no-show
   notes: text("notes"),
   symptoms: text("symptoms"),
+  cancellationReason: varchar("cancellation_reason"), // one of APPOINTMENT_CANCELLATION_REASONS
+  rescheduleCount: integer("reschedule_count").default(0),
+  seriesId: integer("series_id").references(() => appointmentSeries.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const APPOINTMENT_CANCELLATION_REASONS = [
+  "patient-request",
+  "doctor-unavailable",
+  "clinical-reason",
+  "duplicate-booking",
+  "hospital-closure",
+  "other",
+] as const;
+
+// Every change to an appointment's slot or status, oldest first
+export const appointmentHistory = pgTable("appointment_history", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).notNull(),
+  action: varchar("action").notNull(), // reschedule, cancel, no-show, complete
+  fromStatus: varchar("from_status"),
+  toStatus: varchar("to_status"),
+  previousDate: timestamp("previous_date"), // slot held before a reschedule
+  previousDoctorId: integer("previous_doctor_id").references(() => doctors.id),
+  newDate: timestamp("new_date"),
+  reasonCode: varchar("reason_code"),
+  note: text("note"),
+  late: boolean("late").default(false), // inside the late-cancellation window
+  changedBy: varchar("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const REMINDER_CHANNELS = ["in-app", "sms", "email", "whatsapp"] as const;
+
+// One reminder per appointment slot, offset and channel. The unique key makes
+// delivery idempotent: whoever inserts the row is the one who sends it. Keying on
+// the slot start means a rescheduled appointment is reminded afresh.
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).notNull(),
+  appointmentDate: timestamp("appointment_date").notNull(), // slot start the reminder was for
+  offsetMinutes: integer("offset_minutes").notNull(), // how long before the start it was due
+  channel: varchar("channel").notNull(), // one of REMINDER_CHANNELS
+  status: varchar("status").default("sending"), // sending, sent, failed, skipped
+  recipient: varchar("recipient"), // phone number or email it went to
+  attempts: integer("attempts").default(1),
+  error: text("error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("appointment_reminders_slot_offset_channel_unique").on(table.appointmentId, table.appointmentDate, table.offsetMinutes, table.channel),
+]);
+
+// Secret-token iCalendar feed URL per user. Whoever holds the token can read the
+// feed, so rotating the token is how a leaked URL is revoked.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const WAITLIST_TIME_PREFERENCES = ["any", "morning", "afternoon", "evening"] as const;
+
+// Patients waiting for an earlier or any slot with a doctor, or anyone in a department
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  doctorId: integer("doctor_id").references(() => doctors.id),
+  departmentId: integer("department_id").references(() => departments.id),
+  earliestDate: date("earliest_date"), // YYYY-MM-DD, inclusive
+  latestDate: date("latest_date"),
+  timeOfDay: varchar("time_of_day").default("any"), // one of WAITLIST_TIME_PREFERENCES
+  appointmentType: varchar("appointment_type").default("consultation"),
+  notes: text("notes"),
+  status: varchar("status").default("waiting"), // waiting, offered, booked, removed
+  bookedAppointmentId: integer("booked_appointment_id").references(() => appointments.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A released slot offered to a waitlisted patient. While pending, the slot is
+// held by an appointment in "held" status so nobody else can book it.
+export const waitlistOffers = pgTable("waitlist_offers", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => waitlistEntries.id).notNull(),
+  appointmentId: integer("appointment_id").references(() => appointments.id), // the hold; cleared once released
+  doctorId: integer("doctor_id").references(() => doctors.id).notNull(),
+  slotStart: timestamp("slot_start").notNull(),
+  slotEnd: timestamp("slot_end").notNull(),
+  status: varchar("status").default("pending"), // pending, accepted, declined, expired, withdrawn
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Weekly working sessions per doctor; the availability engine cuts them into bookable slots
+export const doctorSchedules = pgTable("doctor_schedules", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").references(() => doctors.id).notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0=Sunday .. 6=Saturday
+  startTime: varchar("start_time", { length: 5 }).notNull(), // HH:MM local time
+  endTime: varchar("end_time", { length: 5 }).notNull(),
+  slotMinutes: integer("slot_minutes").notNull().default(15),
+  breakStart: varchar("break_start", { length: 5 }), // no slot may overlap the break
+  breakEnd: varchar("break_end", { length: 5 }),
+  maxPatients: integer("max_patients"), // per session; null means one patient per slot
+  roomId: integer("room_id").references(() => queueCounters.id), // consultation room appointments in this session are booked into
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Leave and holidays. Without a doctor the exception closes bookings hospital-wide.
+export const scheduleExceptions = pgTable("schedule_exceptions", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").references(() => doctors.id),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(), // inclusive
+  type: varchar("type").notNull().default("leave"), // leave, holiday, training
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -102,12 +318,60 @@ export const queueTokens = pgTable("queue_tokens", {
   departmentId: integer("department_id").references(() => departments.id),
   doctorId: integer("doctor_id").references(() => doctors.id),
   priority: integer("priority").default(1), // 1=normal, 2=urgent, 3=emergency
-  status: varchar("status").default("waiting"), // waiting, called, in-progress, completed
+  status: varchar("status").default("waiting"), // waiting, called, in-progress, completed, skipped, no-show
   estimatedWaitTime: integer("estimated_wait_time"),
   qrCode: text("qr_code"),
+  recallCount: integer("recall_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   calledAt: timestamp("called_at"),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
+  skippedAt: timestamp("skipped_at"),
+  noShowAt: timestamp("no_show_at"),
+  transferredAt: timestamp("transferred_at"),
+  queueDate: date("queue_date"), // operational day the token was issued for, see queuePolicies.dayResetTime
+  counterId: integer("counter_id").references(() => queueCounters.id), // room or counter the token was called to
+  appointmentId: integer("appointment_id").references(() => appointments.id), // set when issued by appointment check-in
+}, (table) => [
+  unique("queue_tokens_number_department_date_unique").on(table.tokenNumber, table.departmentId, table.queueDate),
+  unique("queue_tokens_appointment_unique").on(table.appointmentId),
+]);
+
+// Consultation rooms and service counters within a department
+export const queueCounters = pgTable("queue_counters", {
+  id: serial("id").primaryKey(),
+  departmentId: integer("department_id").references(() => departments.id).notNull(),
+  doctorId: integer("doctor_id").references(() => doctors.id), // doctor seated here; call-next only serves their tokens
+  name: varchar("name", { length: 50 }).notNull(), // shown to patients, e.g. "Room 4"
+  type: varchar("type").notNull().default("room"), // room, counter
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Last token sequence issued per department and operational day
+export const queueTokenSequences = pgTable("queue_token_sequences", {
+  id: serial("id").primaryKey(),
+  departmentId: integer("department_id").references(() => departments.id).notNull(),
+  queueDate: date("queue_date").notNull(),
+  lastSequence: integer("last_sequence").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("queue_token_sequences_department_date_unique").on(table.departmentId, table.queueDate),
+]);
+
+// Per-department queue scheduling policy
+export const queuePolicies = pgTable("queue_policies", {
+  id: serial("id").primaryKey(),
+  departmentId: integer("department_id").references(() => departments.id).notNull().unique(),
+  strategy: varchar("strategy").notNull().default("priority"), // priority, fifo
+  emergencyPreempts: boolean("emergency_preempts").default(true),
+  urgentBoostMinutes: integer("urgent_boost_minutes").default(30), // urgent tokens are treated as having waited this much longer
+  emergencyBoostMinutes: integer("emergency_boost_minutes").default(120), // used when emergencies do not preempt
+  bookedBoostMinutes: integer("booked_boost_minutes").default(20), // head start for patients checking in to a booked slot
+  maxWaitMinutes: integer("max_wait_minutes").default(90), // anti-starvation: tokens waiting longer jump ahead of urgent ones
+  dayResetTime: varchar("day_reset_time").default("00:00"), // HH:MM local time when token numbering restarts, later for overnight OPD
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Enhanced Medical records table with comprehensive EMR features
@@ -186,7 +450,7 @@ export const imagingStudies = pgTable("imaging_studies", {
   imageUrls: jsonb("image_urls"),
   dicomId: varchar("dicom_id"),
   radiologist: varchar("radiologist"),
-  status: varchar("status").default("pending"), // pending, in-progress, completed, reported
+  status: varchar("status").default("pending"), // pending, in-progress, completed, reported, cancelled
   studyDate: timestamp("study_date"),
   reportDate: timestamp("report_date"),
   priority: varchar("priority").default("routine"), // stat, urgent, routine
@@ -194,10 +458,40 @@ export const imagingStudies = pgTable("imaging_studies", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Grades of drug interaction and allergy alerts, most serious first
+export const INTERACTION_SEVERITIES = ["contraindicated", "major", "moderate"] as const;
+
+// A prescription moves draft -> signed -> prepared -> dispensed, or is cancelled
+// before it is dispensed. Its items are medications rows; signing locks them.
+export const PRESCRIPTION_STATUSES = ["draft", "signed", "prepared", "dispensed", "cancelled"] as const;
+
+// Prescriptions: one doctor's signed order for one or more medications
+export const prescriptions = pgTable("prescriptions", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  doctorId: integer("doctor_id").references(() => doctors.id).notNull(),
+  medicalRecordId: integer("medical_record_id").references(() => medicalRecords.id),
+  diagnosis: text("diagnosis"),
+  advice: text("advice"),
+  status: varchar("status").default("draft"), // draft, signed, prepared, dispensed, cancelled
+  signedAt: timestamp("signed_at"),
+  signatureHash: varchar("signature_hash"), // sha256 of what was signed
+  preparedBy: varchar("prepared_by").references(() => users.id),
+  preparedAt: timestamp("prepared_at"),
+  dispensedBy: varchar("dispensed_by").references(() => users.id),
+  dispensedAt: timestamp("dispensed_at"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelReason: text("cancel_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Medications and prescriptions table
 export const medications = pgTable("medications", {
   id: serial("id").primaryKey(),
   medicalRecordId: integer("medical_record_id").references(() => medicalRecords.id),
+  prescriptionId: integer("prescription_id").references(() => prescriptions.id),
   patientId: integer("patient_id").references(() => patients.id),
   doctorId: integer("doctor_id").references(() => doctors.id),
   medicationName: varchar("medication_name").notNull(),
@@ -212,9 +506,9 @@ export const medications = pgTable("medications", {
   instructions: text("instructions"),
   indication: text("indication"),
   sideEffects: jsonb("side_effects"),
-  contraindications: jsonb("contraindications"),
-  interactions: jsonb("interactions"),
-  status: varchar("status").default("active"), // active, discontinued, completed, on-hold
+  contraindications: jsonb("contraindications"), // allergy alerts raised when prescribed
+  interactions: jsonb("interactions"), // interaction alerts raised when prescribed
+  status: varchar("status").default("active"), // draft (unsigned prescription), active, discontinued, completed, on-hold
   prescribedDate: timestamp("prescribed_date").defaultNow(),
   startDate: timestamp("start_date"),
   endDate: timestamp("end_date"),
@@ -223,12 +517,16 @@ export const medications = pgTable("medications", {
 });
 
 // Clinical notes and progress notes
+export const CLINICAL_NOTE_TYPES = ["progress", "consultation", "discharge", "admission"] as const;
+
+// A note is drafted, then signed, which locks it. Corrections to a locked note are
+// new, already-signed versions whose originalNoteId points at the version they amend.
 export const clinicalNotes = pgTable("clinical_notes", {
   id: serial("id").primaryKey(),
   medicalRecordId: integer("medical_record_id").references(() => medicalRecords.id),
   patientId: integer("patient_id").references(() => patients.id),
   authorId: varchar("author_id").references(() => users.id),
-  noteType: varchar("note_type").notNull(), // progress, consultation, discharge, admission
+  noteType: varchar("note_type").notNull(), // one of CLINICAL_NOTE_TYPES
   subjective: text("subjective"), // SOAP format
   objective: text("objective"),
   assessment: text("assessment"),
@@ -241,7 +539,10 @@ export const clinicalNotes = pgTable("clinical_notes", {
   signedAt: timestamp("signed_at"),
   isLocked: boolean("is_locked").default(false),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Each version can be amended once, so a note's history is a single chain
+  unique("clinical_notes_original_note_unique").on(table.originalNoteId),
+]);
 
 // Vital signs tracking
 export const vitalSigns = pgTable("vital_signs", {
@@ -327,11 +628,26 @@ export type User = typeof users.$inferSelect;
 export type Department = typeof departments.$inferSelect;
 export type Doctor = typeof doctors.$inferSelect;
 export type Patient = typeof patients.$inferSelect;
+export type PatientIdentifier = typeof patientIdentifiers.$inferSelect;
+export type PatientDuplicateFlag = typeof patientDuplicateFlags.$inferSelect;
+export type PatientMerge = typeof patientMerges.$inferSelect;
 export type Appointment = typeof appointments.$inferSelect;
+export type AppointmentSeries = typeof appointmentSeries.$inferSelect;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+export type AppointmentHistoryEntry = typeof appointmentHistory.$inferSelect;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type DoctorSchedule = typeof doctorSchedules.$inferSelect;
+export type ScheduleException = typeof scheduleExceptions.$inferSelect;
 export type QueueToken = typeof queueTokens.$inferSelect;
+export type QueuePolicy = typeof queuePolicies.$inferSelect;
+export type QueueTokenSequence = typeof queueTokenSequences.$inferSelect;
+export type QueueCounter = typeof queueCounters.$inferSelect;
 export type MedicalRecord = typeof medicalRecords.$inferSelect;
 export type LabResult = typeof labResults.$inferSelect;
 export type ImagingStudy = typeof imagingStudies.$inferSelect;
+export type Prescription = typeof prescriptions.$inferSelect;
 export type Medication = typeof medications.$inferSelect;
 export type ClinicalNote = typeof clinicalNotes.$inferSelect;
 export type VitalSigns = typeof vitalSigns.$inferSelect;
@@ -344,17 +660,180 @@ export type ChatHistory = typeof chatHistory.$inferSelect;
 export const insertUserSchema = createInsertSchema(users);
 export const insertDepartmentSchema = createInsertSchema(departments);
 export const insertDoctorSchema = createInsertSchema(doctors);
-export const insertPatientSchema = createInsertSchema(patients);
+export const insertPatientSchema = createInsertSchema(patients, {
+  reminderChannels: z.array(z.enum(REMINDER_CHANNELS)).nullable().optional(),
+});
+export const insertPatientIdentifierSchema = createInsertSchema(patientIdentifiers, {
+  type: z.enum(PATIENT_IDENTIFIER_TYPES),
+  value: (schema) => schema.trim().min(1).max(40),
+  issuer: (schema) => schema.trim().max(100),
+});
+export const insertPatientDuplicateFlagSchema = createInsertSchema(patientDuplicateFlags, {
+  reasons: z.array(z.string()).nullable().optional(),
+});
+export const patientMergeSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedId: z.number().int().positive(),
+  reason: z.string().trim().min(1, "Give a reason for the merge").max(500),
+}).refine((merge) => merge.survivorId !== merge.mergedId, {
+  message: "Choose two different patients",
+  path: ["mergedId"],
+});
+export const patientUnmergeSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for undoing the merge").max(500),
+});
 export const insertAppointmentSchema = createInsertSchema(appointments);
+export const insertAppointmentHistorySchema = createInsertSchema(appointmentHistory);
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+export const insertAppointmentSeriesSchema = createInsertSchema(appointmentSeries, {
+  recurrenceRule: (schema) => schema.trim().toUpperCase().min(1),
+  exceptionDates: z.array(z.string().regex(CALENDAR_DATE, "Use YYYY-MM-DD")).optional(),
+});
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries, {
+  earliestDate: (schema) => schema.regex(CALENDAR_DATE, "Use YYYY-MM-DD"),
+  latestDate: (schema) => schema.regex(CALENDAR_DATE, "Use YYYY-MM-DD"),
+  timeOfDay: z.enum(WAITLIST_TIME_PREFERENCES).optional(),
+}).refine(entry => entry.doctorId || entry.departmentId, {
+  message: "A doctor or department is required",
+  path: ["doctorId"],
+});
+export const insertWaitlistOfferSchema = createInsertSchema(waitlistOffers);
+export const insertAppointmentReminderSchema = createInsertSchema(appointmentReminders);
+export const reminderPreferencesSchema = z.object({
+  remindersOptOut: z.boolean(),
+  reminderChannels: z.array(z.enum(REMINDER_CHANNELS)).min(1).nullable(), // null means every channel
+});
+export const insertDoctorScheduleSchema = createInsertSchema(doctorSchedules, {
+  dayOfWeek: (schema) => schema.int().min(0).max(6),
+  startTime: (schema) => schema.regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  endTime: (schema) => schema.regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  slotMinutes: (schema) => schema.int().min(5).max(240),
+  breakStart: (schema) => schema.regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  breakEnd: (schema) => schema.regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  maxPatients: (schema) => schema.int().min(1),
+});
+export const updateDoctorScheduleSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: z.string().regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  endTime: z.string().regex(TIME_OF_DAY, "Use HH:MM (24-hour)"),
+  slotMinutes: z.number().int().min(5).max(240),
+  breakStart: z.string().regex(TIME_OF_DAY, "Use HH:MM (24-hour)").nullable(),
+  breakEnd: z.string().regex(TIME_OF_DAY, "Use HH:MM (24-hour)").nullable(),
+  maxPatients: z.number().int().min(1).nullable(),
+  roomId: z.number().int().positive().nullable(),
+  isActive: z.boolean(),
+}).partial();
+export const insertScheduleExceptionSchema = createInsertSchema(scheduleExceptions, {
+  startDate: (schema) => schema.regex(CALENDAR_DATE, "Use YYYY-MM-DD"),
+  endDate: (schema) => schema.regex(CALENDAR_DATE, "Use YYYY-MM-DD"),
+  type: z.enum(["leave", "holiday", "training"]).optional(),
+});
 export const insertQueueTokenSchema = createInsertSchema(queueTokens);
+export const insertQueueCounterSchema = createInsertSchema(queueCounters);
+export const updateQueueCounterSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  type: z.enum(["room", "counter"]),
+  doctorId: z.number().int().positive().nullable(),
+  isActive: z.boolean(),
+}).partial();
+export const insertQueuePolicySchema = createInsertSchema(queuePolicies);
+export const updateQueuePolicySchema = z.object({
+  strategy: z.enum(["priority", "fifo"]),
+  emergencyPreempts: z.boolean(),
+  urgentBoostMinutes: z.number().int().min(0).max(480),
+  emergencyBoostMinutes: z.number().int().min(0).max(1440),
+  bookedBoostMinutes: z.number().int().min(0).max(480),
+  maxWaitMinutes: z.number().int().min(1).max(1440).nullable(),
+  dayResetTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)"),
+}).partial();
 export const insertMedicalRecordSchema = createInsertSchema(medicalRecords);
 export const insertLabResultSchema = createInsertSchema(labResults);
 export const insertImagingStudySchema = createInsertSchema(imagingStudies);
+export const insertPrescriptionSchema = createInsertSchema(prescriptions);
 export const insertMedicationSchema = createInsertSchema(medications);
+// Edits to EMR entries. The patient never changes and status only moves through
+// the status actions, so neither can be edited directly. Who recorded or verified
+// an entry, and the alerts screening recorded on it, are set by the server.
+const emrEntryFixedFields = { id: true, patientId: true, status: true, createdAt: true } as const;
+export const updateLabResultSchema = insertLabResultSchema.omit({ ...emrEntryFixedFields, doctorId: true, verifiedBy: true }).partial();
+export const updateImagingStudySchema = insertImagingStudySchema.omit({ ...emrEntryFixedFields, doctorId: true }).partial();
+export const updateMedicationSchema = insertMedicationSchema.omit({
+  ...emrEntryFixedFields,
+  prescriptionId: true,
+  doctorId: true,
+  interactions: true,
+  contraindications: true,
+}).partial();
+export const interactionCheckSchema = z.object({
+  patientId: z.number().int().positive(),
+  medications: z.array(z.object({
+    medicationName: z.string().trim().min(1),
+    genericName: z.string().nullable().optional(),
+    brandName: z.string().nullable().optional(),
+  })).min(1).max(20),
+});
+// What the prescriber writes for each item; who prescribed it, for whom and its
+// status come from the prescription
+export const prescriptionItemSchema = insertMedicationSchema.pick({
+  medicationName: true,
+  genericName: true,
+  brandName: true,
+  dosage: true,
+  frequency: true,
+  route: true,
+  duration: true,
+  quantity: true,
+  refills: true,
+  instructions: true,
+  indication: true,
+}).extend({
+  medicationName: z.string().trim().min(1).max(200),
+  dosage: z.string().trim().min(1).max(100),
+  frequency: z.string().trim().min(1).max(100),
+  route: z.string().trim().min(1).max(50),
+  quantity: z.number().int().positive().nullable().optional(),
+  refills: z.number().int().min(0).max(12).nullable().optional(),
+});
+const prescriptionItemsField = z.array(prescriptionItemSchema).min(1, "Add at least one medication").max(20);
+export const prescriptionDraftSchema = z.object({
+  patientId: z.number().int().positive(),
+  medicalRecordId: z.number().int().positive().nullable().optional(),
+  diagnosis: z.string().max(2000).nullable().optional(),
+  advice: z.string().max(4000).nullable().optional(),
+  items: prescriptionItemsField,
+});
+export const updatePrescriptionDraftSchema = prescriptionDraftSchema.omit({ patientId: true }).partial();
+export const prescriptionCancelSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for cancelling").max(500),
+});
 export const insertClinicalNoteSchema = createInsertSchema(clinicalNotes);
+const clinicalNoteFields = {
+  subjective: z.string().max(20000).nullable().optional(),
+  objective: z.string().max(20000).nullable().optional(),
+  assessment: z.string().max(20000).nullable().optional(),
+  plan: z.string().max(20000).nullable().optional(),
+  content: z.string().max(20000).nullable().optional(),
+};
+export const clinicalNoteDraftSchema = z.object({
+  patientId: z.number().int().positive(),
+  medicalRecordId: z.number().int().positive().nullable().optional(),
+  noteType: z.enum(CLINICAL_NOTE_TYPES),
+  ...clinicalNoteFields,
+});
+export const updateClinicalNoteDraftSchema = z.object({
+  noteType: z.enum(CLINICAL_NOTE_TYPES).optional(),
+  ...clinicalNoteFields,
+});
+export const clinicalNoteAmendmentSchema = z.object({
+  ...clinicalNoteFields,
+  reason: z.string().trim().min(1, "Give a reason for the amendment").max(500),
+});
 export const insertVitalSignsSchema = createInsertSchema(vitalSigns);
 export const insertAllergySchema = createInsertSchema(allergiesAndReactions);
 export const insertProblemSchema = createInsertSchema(problemList);
+export const updateAllergySchema = insertAllergySchema.omit({ ...emrEntryFixedFields, updatedAt: true, verifiedBy: true }).partial();
+export const updateProblemSchema = insertProblemSchema.omit({ ...emrEntryFixedFields, updatedAt: true }).partial();
 export const insertNotificationSchema = createInsertSchema(notifications);
 export const insertChatHistorySchema = createInsertSchema(chatHistory);
 
@@ -362,16 +841,43 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type InsertDoctor = z.infer<typeof insertDoctorSchema>;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type InsertPatientIdentifier = z.infer<typeof insertPatientIdentifierSchema>;
+export type InsertPatientDuplicateFlag = z.infer<typeof insertPatientDuplicateFlagSchema>;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type InsertAppointmentSeries = z.infer<typeof insertAppointmentSeriesSchema>;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type InsertWaitlistOffer = z.infer<typeof insertWaitlistOfferSchema>;
+export type InsertAppointmentHistory = z.infer<typeof insertAppointmentHistorySchema>;
+export type InsertAppointmentReminder = z.infer<typeof insertAppointmentReminderSchema>;
+export type ReminderPreferences = z.infer<typeof reminderPreferencesSchema>;
+export type InsertDoctorSchedule = z.infer<typeof insertDoctorScheduleSchema>;
+export type UpdateDoctorSchedule = z.infer<typeof updateDoctorScheduleSchema>;
+export type InsertScheduleException = z.infer<typeof insertScheduleExceptionSchema>;
 export type InsertQueueToken = z.infer<typeof insertQueueTokenSchema>;
+export type InsertQueueCounter = z.infer<typeof insertQueueCounterSchema>;
+export type UpdateQueueCounter = z.infer<typeof updateQueueCounterSchema>;
+export type InsertQueuePolicy = z.infer<typeof insertQueuePolicySchema>;
+export type UpdateQueuePolicy = z.infer<typeof updateQueuePolicySchema>;
 export type InsertMedicalRecord = z.infer<typeof insertMedicalRecordSchema>;
 export type InsertLabResult = z.infer<typeof insertLabResultSchema>;
 export type InsertImagingStudy = z.infer<typeof insertImagingStudySchema>;
+export type InsertPrescription = z.infer<typeof insertPrescriptionSchema>;
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
+export type PrescriptionItem = z.infer<typeof prescriptionItemSchema>;
+export type PrescriptionDraft = z.infer<typeof prescriptionDraftSchema>;
+export type UpdatePrescriptionDraft = z.infer<typeof updatePrescriptionDraftSchema>;
 export type InsertClinicalNote = z.infer<typeof insertClinicalNoteSchema>;
+export type ClinicalNoteDraft = z.infer<typeof clinicalNoteDraftSchema>;
+export type UpdateClinicalNoteDraft = z.infer<typeof updateClinicalNoteDraftSchema>;
+export type ClinicalNoteAmendment = z.infer<typeof clinicalNoteAmendmentSchema>;
 export type InsertVitalSigns = z.infer<typeof insertVitalSignsSchema>;
 export type InsertAllergy = z.infer<typeof insertAllergySchema>;
 export type InsertProblem = z.infer<typeof insertProblemSchema>;
+export type UpdateLabResult = z.infer<typeof updateLabResultSchema>;
+export type UpdateImagingStudy = z.infer<typeof updateImagingStudySchema>;
+export type UpdateMedication = z.infer<typeof updateMedicationSchema>;
+export type UpdateAllergy = z.infer<typeof updateAllergySchema>;
+export type UpdateProblem = z.infer<typeof updateProblemSchema>;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type InsertChatHistory = z.infer<typeof insertChatHistorySchema>;
 
@@ -639,3 +1145,123 @@ export type InsertBill = z.infer<typeof insertBillSchema>;
 export type InsertBillItem = z.infer<typeof insertBillItemSchema>;
 export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
 export type InsertInsuranceClaim = z.infer<typeof insertInsuranceClaimSchema>;
+
+// Pharmacy inventory
+
+export const PHARMACY_DOSAGE_FORMS = [
+  "tablet", "capsule", "syrup", "suspension", "injection", "infusion", "ointment", "cream", "drops", "inhaler", "powder", "other",
+] as const;
+
+// Why stock changed other than by a goods receipt or dispensing
+export const STOCK_ADJUSTMENT_REASONS = [
+  "damaged", "expired", "lost", "count-correction", "returned-to-supplier", "patient-return",
+] as const;
+
+// Drug catalog: what the pharmacy stocks, priced per dispensing unit
+export const pharmacyItems = pgTable("pharmacy_items", {
+  id: serial("id").primaryKey(),
+  code: varchar("code").unique().notNull(), // the pharmacy's own item code, used as the bill item's service code
+  name: varchar("name").notNull(), // as sold, e.g. "Dolo 650"
+  genericName: varchar("generic_name"),
+  strength: varchar("strength"),
+  form: varchar("form").notNull(), // one of PHARMACY_DOSAGE_FORMS
+  manufacturer: varchar("manufacturer"),
+  unit: varchar("unit").notNull().default("unit"), // what a quantity of one is: tablet, bottle, vial
+  unitPrice: integer("unit_price").notNull(), // selling price per unit in cents
+  reorderLevel: integer("reorder_level").notNull().default(0), // at or below this much usable stock, reorder
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Goods receipts: stock taken in from a supplier against their invoice
+export const pharmacyGoodsReceipts = pgTable("pharmacy_goods_receipts", {
+  id: serial("id").primaryKey(),
+  supplier: varchar("supplier").notNull(),
+  invoiceNumber: varchar("invoice_number"),
+  invoiceDate: date("invoice_date"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock on hand per batch. The check keeps two dispensings from taking the same
+// units: whichever would take stock below zero fails as a whole.
+export const pharmacyBatches = pgTable("pharmacy_batches", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").references(() => pharmacyItems.id).notNull(),
+  batchNumber: varchar("batch_number").notNull(),
+  expiryDate: date("expiry_date").notNull(),
+  quantityOnHand: integer("quantity_on_hand").notNull().default(0),
+  unitCost: integer("unit_cost"), // purchase price per unit in cents, from the latest receipt
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("pharmacy_batches_item_batch_unique").on(table.itemId, table.batchNumber),
+  check("pharmacy_batches_quantity_non_negative", sql`${table.quantityOnHand} >= 0`),
+]);
+
+// Stock ledger: every receipt, dispensing and adjustment, batch by batch
+export const pharmacyStockMovements = pgTable("pharmacy_stock_movements", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").references(() => pharmacyBatches.id).notNull(),
+  itemId: integer("item_id").references(() => pharmacyItems.id).notNull(),
+  type: varchar("type").notNull(), // receipt, dispense, adjustment
+  quantity: integer("quantity").notNull(), // positive into stock, negative out of it
+  reason: varchar("reason"), // one of STOCK_ADJUSTMENT_REASONS, for adjustments
+  notes: text("notes"),
+  receiptId: integer("receipt_id").references(() => pharmacyGoodsReceipts.id),
+  prescriptionId: integer("prescription_id").references(() => prescriptions.id),
+  medicationId: integer("medication_id").references(() => medications.id),
+  billId: integer("bill_id").references(() => bills.id),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PharmacyItem = typeof pharmacyItems.$inferSelect;
+export type PharmacyGoodsReceipt = typeof pharmacyGoodsReceipts.$inferSelect;
+export type PharmacyBatch = typeof pharmacyBatches.$inferSelect;
+export type PharmacyStockMovement = typeof pharmacyStockMovements.$inferSelect;
+
+export const insertPharmacyItemSchema = createInsertSchema(pharmacyItems, {
+  code: (schema) => schema.trim().min(1).max(40),
+  name: (schema) => schema.trim().min(1).max(200),
+  form: z.enum(PHARMACY_DOSAGE_FORMS),
+  unit: (schema) => schema.trim().min(1).max(30),
+  unitPrice: (schema) => schema.int().min(0),
+  reorderLevel: (schema) => schema.int().min(0),
+});
+export const updatePharmacyItemSchema = insertPharmacyItemSchema.omit({ id: true, createdAt: true, updatedAt: true }).partial();
+export const goodsReceiptSchema = z.object({
+  supplier: z.string().trim().min(1).max(200),
+  invoiceNumber: z.string().trim().max(60).nullable().optional(),
+  invoiceDate: z.string().regex(CALENDAR_DATE, "Use YYYY-MM-DD").nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  lines: z.array(z.object({
+    itemId: z.number().int().positive(),
+    batchNumber: z.string().trim().min(1).max(40),
+    expiryDate: z.string().regex(CALENDAR_DATE, "Use YYYY-MM-DD"),
+    quantity: z.number().int().positive(),
+    unitCost: z.number().int().min(0).nullable().optional(),
+  })).min(1, "Add at least one line").max(100),
+});
+export const stockAdjustmentSchema = z.object({
+  quantity: z.number().int().refine((quantity) => quantity !== 0, "Enter the change in stock"),
+  reason: z.enum(STOCK_ADJUSTMENT_REASONS),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+// What the pharmacy hands over for each prescription item, from which catalog
+// item. Items bought elsewhere are left out.
+export const prescriptionDispenseSchema = z.object({
+  lines: z.array(z.object({
+    medicationId: z.number().int().positive(),
+    itemId: z.number().int().positive(),
+    quantity: z.number().int().positive(),
+  })).max(50).default([]),
+});
+
+export type InsertPharmacyItem = z.infer<typeof insertPharmacyItemSchema>;
+export type UpdatePharmacyItem = z.infer<typeof updatePharmacyItemSchema>;
+export type GoodsReceipt = z.infer<typeof goodsReceiptSchema>;
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+export type PrescriptionDispense = z.infer<typeof prescriptionDispenseSchema>;